@@ -0,0 +1,38 @@
+-- Per-reviewer annotation layers drawn on a variation with AnnotationCanvas.
+-- Each user owns at most one layer per variation; `data` holds the fabric JSON ({ version, objects }).
+
+create table if not exists public.annotations (
+    id uuid primary key default gen_random_uuid(),
+    variation_id uuid not null references public.variations(id) on delete cascade,
+    user_id uuid not null references public.profiles(id) on delete cascade,
+    data jsonb not null default '{"objects": []}'::jsonb,
+    created_at timestamptz not null default now(),
+    updated_at timestamptz not null default now(),
+    constraint annotations_variation_user_key unique (variation_id, user_id)
+);
+
+create index if not exists annotations_variation_id_idx on public.annotations (variation_id);
+
+alter table public.annotations enable row level security;
+
+-- Everyone who can review can see every layer; only the author can change theirs.
+create policy "Authenticated users can view annotations"
+    on public.annotations for select
+    to authenticated
+    using (true);
+
+create policy "Users can create their own annotation layer"
+    on public.annotations for insert
+    to authenticated
+    with check (auth.uid() = user_id);
+
+create policy "Users can update their own annotation layer"
+    on public.annotations for update
+    to authenticated
+    using (auth.uid() = user_id)
+    with check (auth.uid() = user_id);
+
+create policy "Users can delete their own annotation layer"
+    on public.annotations for delete
+    to authenticated
+    using (auth.uid() = user_id);
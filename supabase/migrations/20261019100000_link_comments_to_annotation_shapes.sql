@@ -0,0 +1,10 @@
+-- Lets a comment thread belong to a single shape drawn in an annotation layer.
+-- The id is the `annotationId` stored on the fabric object inside public.annotations.data,
+-- so there is no foreign key; the app removes the shape and the link together when asked.
+
+alter table public.comments
+    add column if not exists annotation_shape_id text;
+
+create index if not exists comments_annotation_shape_id_idx
+    on public.comments (annotation_shape_id)
+    where annotation_shape_id is not null;
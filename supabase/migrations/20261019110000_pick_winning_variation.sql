@@ -0,0 +1,36 @@
+-- Approves one variation and rejects all of its siblings in the same version, atomically.
+-- Runs as the caller so the existing RLS policies on variations still apply.
+
+create or replace function public.pick_winning_variation(p_variation_id uuid)
+returns setof public.variations
+language plpgsql
+security invoker
+as $$
+declare
+    v_version_id uuid;
+begin
+    select version_id into v_version_id
+    from public.variations
+    where id = p_variation_id;
+
+    if v_version_id is null then
+        raise exception 'Variation % not found', p_variation_id;
+    end if;
+
+    -- Separate statements so the literals coerce to the status column's type
+    update public.variations
+    set status = 'Rejected', updated_at = now()
+    where version_id = v_version_id and id <> p_variation_id;
+
+    update public.variations
+    set status = 'Approved', updated_at = now()
+    where id = p_variation_id;
+
+    return query
+    select * from public.variations
+    where version_id = v_version_id
+    order by variation_letter;
+end;
+$$;
+
+grant execute on function public.pick_winning_variation(uuid) to authenticated;
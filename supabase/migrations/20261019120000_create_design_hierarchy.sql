@@ -0,0 +1,73 @@
+-- Creates a design (or a new version of an existing design) together with its variations in one transaction.
+-- Called by /api/design-hierarchy/commit only after every file has been uploaded, so a failed or abandoned
+-- upload never leaves design/version/variation rows behind. Ids are generated up front because they are
+-- part of the storage paths the files were uploaded to.
+--
+-- p_design_name: set to create a new design; null to add a version to the existing design p_design_id.
+-- p_variations:  [{ "id": uuid, "file_path": text }, ...] in the order their letters (A, B, C...) are assigned.
+
+create or replace function public.create_design_hierarchy(
+    p_project_id uuid,
+    p_design_id uuid,
+    p_design_name text,
+    p_version_id uuid,
+    p_variations jsonb
+)
+returns jsonb
+language plpgsql
+security invoker
+as $$
+declare
+    v_design public.designs;
+    v_version public.versions;
+    v_next_version_number integer;
+    v_variations jsonb;
+begin
+    if jsonb_array_length(coalesce(p_variations, '[]'::jsonb)) = 0 then
+        raise exception 'At least one uploaded variation is required';
+    end if;
+    if jsonb_array_length(p_variations) > 26 then
+        raise exception 'A version can have at most 26 variations (A-Z)';
+    end if;
+
+    if p_design_name is not null then
+        insert into public.designs (id, project_id, name, status)
+        values (p_design_id, p_project_id, p_design_name, 'Active')
+        returning * into v_design;
+    else
+        -- Lock the design so concurrent uploads can't claim the same version number
+        select * into v_design
+        from public.designs
+        where id = p_design_id and project_id = p_project_id
+        for update;
+
+        if not found then
+            raise exception 'Design % not found in project %', p_design_id, p_project_id;
+        end if;
+    end if;
+
+    select coalesce(max(version_number), 0) + 1 into v_next_version_number
+    from public.versions
+    where design_id = p_design_id;
+
+    insert into public.versions (id, design_id, version_number, status, stage)
+    values (p_version_id, p_design_id, v_next_version_number, 'Work in Progress', 'sketch')
+    returning * into v_version;
+
+    insert into public.variations (id, version_id, variation_letter, status, file_path)
+    select (item.value->>'id')::uuid, p_version_id, chr(64 + item.ordinality::integer), 'Pending Feedback', item.value->>'file_path'
+    from jsonb_array_elements(p_variations) with ordinality as item(value, ordinality);
+
+    select coalesce(jsonb_agg(to_jsonb(v) order by v.variation_letter), '[]'::jsonb) into v_variations
+    from public.variations v
+    where v.version_id = p_version_id;
+
+    return jsonb_build_object(
+        'design', to_jsonb(v_design),
+        'version', to_jsonb(v_version),
+        'variations', v_variations
+    );
+end;
+$$;
+
+grant execute on function public.create_design_hierarchy(uuid, uuid, text, uuid, jsonb) to authenticated;
@@ -0,0 +1,54 @@
+-- File history for variations. Every file a variation has pointed at gets a row here, so replacing a file
+-- keeps the previous artwork (and its processed renditions) around to preview, compare against or restore.
+-- The variation's current file is simply the revision whose file_path matches variations.file_path.
+
+create table if not exists public.variation_file_revisions (
+    id uuid primary key default gen_random_uuid(),
+    variation_id uuid not null references public.variations(id) on delete cascade,
+    file_path text not null,
+    file_name text not null,
+    uploaded_by uuid references public.profiles(id) on delete set null,
+    created_at timestamptz not null default now(),
+    constraint variation_file_revisions_variation_path_key unique (variation_id, file_path)
+);
+
+create index if not exists variation_file_revisions_variation_id_idx
+    on public.variation_file_revisions (variation_id, created_at desc);
+
+alter table public.variation_file_revisions enable row level security;
+
+-- Revisions are written by the trigger below; clients only read them.
+create policy "Authenticated users can view file revisions"
+    on public.variation_file_revisions for select
+    to authenticated
+    using (true);
+
+-- Records a revision whenever a variation starts pointing at a file it hasn't used before.
+-- Restoring an older file points back at an existing path, so it doesn't add a row.
+create or replace function public.record_variation_file_revision()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+    if new.file_path is not null and new.file_path is distinct from coalesce(old.file_path, '') then
+        insert into public.variation_file_revisions (variation_id, file_path, file_name, uploaded_by)
+        values (new.id, new.file_path, regexp_replace(new.file_path, '^.*/', ''), auth.uid())
+        on conflict (variation_id, file_path) do nothing;
+    end if;
+    return new;
+end;
+$$;
+
+drop trigger if exists variations_record_file_revision on public.variations;
+create trigger variations_record_file_revision
+    after insert or update of file_path on public.variations
+    for each row execute function public.record_variation_file_revision();
+
+-- Existing files become the first revision of their variation (uploader unknown)
+insert into public.variation_file_revisions (variation_id, file_path, file_name, uploaded_by, created_at)
+select v.id, v.file_path, regexp_replace(v.file_path, '^.*/', ''), null, coalesce(v.updated_at, v.created_at)
+from public.variations v
+where v.file_path is not null
+on conflict (variation_id, file_path) do nothing;
@@ -0,0 +1,294 @@
+-- Soft delete for projects, designs, variations and comments.
+-- Deleting moves an item to the trash: the item and everything under it get the same deleted_at, and a
+-- trash_items row records it. Trashed rows are hidden by RLS. Admins can restore an item until purge_after;
+-- after that /api/trash/purge removes its storage files and hard-deletes the rows.
+
+alter table public.projects   add column if not exists deleted_at timestamptz, add column if not exists deleted_by uuid references public.profiles(id) on delete set null;
+alter table public.designs    add column if not exists deleted_at timestamptz, add column if not exists deleted_by uuid references public.profiles(id) on delete set null;
+alter table public.variations add column if not exists deleted_at timestamptz, add column if not exists deleted_by uuid references public.profiles(id) on delete set null;
+alter table public.comments   add column if not exists deleted_at timestamptz, add column if not exists deleted_by uuid references public.profiles(id) on delete set null;
+
+create index if not exists projects_deleted_at_idx on public.projects (deleted_at) where deleted_at is not null;
+create index if not exists designs_deleted_at_idx on public.designs (deleted_at) where deleted_at is not null;
+create index if not exists variations_deleted_at_idx on public.variations (deleted_at) where deleted_at is not null;
+create index if not exists comments_deleted_at_idx on public.comments (deleted_at) where deleted_at is not null;
+
+-- Restrictive policies are ANDed with the existing ones, so trashed rows disappear from every client query.
+-- The trash functions below are security definer and still see them.
+create policy "Trashed projects are hidden" on public.projects as restrictive for select to authenticated using (deleted_at is null);
+create policy "Trashed designs are hidden" on public.designs as restrictive for select to authenticated using (deleted_at is null);
+create policy "Trashed variations are hidden" on public.variations as restrictive for select to authenticated using (deleted_at is null);
+create policy "Trashed comments are hidden" on public.comments as restrictive for select to authenticated using (deleted_at is null);
+
+create table if not exists public.trash_items (
+    id uuid primary key default gen_random_uuid(),
+    item_type text not null check (item_type in ('project', 'design', 'variation', 'comment')),
+    item_id uuid not null,
+    label text not null, -- What the item was called when it was deleted, for the trash view
+    project_id uuid, -- For grouping/filtering; no FK so purging the project doesn't touch this row first
+    deleted_by uuid references public.profiles(id) on delete set null,
+    deleted_at timestamptz not null default now(),
+    purge_after timestamptz not null,
+    constraint trash_items_item_key unique (item_type, item_id)
+);
+
+create index if not exists trash_items_purge_after_idx on public.trash_items (purge_after);
+
+alter table public.trash_items enable row level security;
+
+create or replace function public.current_user_is_admin()
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+    select exists (select 1 from public.profiles where id = auth.uid() and role = 'admin');
+$$;
+
+create policy "Admins can view the trash"
+    on public.trash_items for select
+    to authenticated
+    using (public.current_user_is_admin());
+
+-- Sets deleted_at/deleted_by on an item and its descendants, touching only rows whose deleted_at equals p_match.
+-- Trashing passes p_match = null (skip things already in the trash on their own); restoring passes the item's
+-- deleted_at so only what was trashed together comes back.
+create or replace function public.set_trash_state(
+    p_item_type text,
+    p_item_id uuid,
+    p_deleted_at timestamptz,
+    p_deleted_by uuid,
+    p_match timestamptz
+)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+    v_design_ids uuid[];
+    v_variation_ids uuid[];
+    v_comment_ids uuid[];
+begin
+    if p_item_type = 'project' then
+        update public.projects set deleted_at = p_deleted_at, deleted_by = p_deleted_by
+        where id = p_item_id and deleted_at is not distinct from p_match;
+        select array_agg(id) into v_design_ids from public.designs where project_id = p_item_id;
+    elsif p_item_type = 'design' then
+        v_design_ids := array[p_item_id];
+    end if;
+
+    if p_item_type in ('project', 'design') then
+        update public.designs set deleted_at = p_deleted_at, deleted_by = p_deleted_by
+        where id = any(v_design_ids) and deleted_at is not distinct from p_match;
+        select array_agg(v.id) into v_variation_ids
+        from public.variations v
+        join public.versions ver on ver.id = v.version_id
+        where ver.design_id = any(v_design_ids);
+    elsif p_item_type = 'variation' then
+        v_variation_ids := array[p_item_id];
+    end if;
+
+    if p_item_type in ('project', 'design', 'variation') then
+        update public.variations set deleted_at = p_deleted_at, deleted_by = p_deleted_by
+        where id = any(v_variation_ids) and deleted_at is not distinct from p_match;
+        select array_agg(id) into v_comment_ids from public.comments where variation_id = any(v_variation_ids);
+    else
+        -- A comment takes its whole reply thread with it
+        with recursive thread as (
+            select id from public.comments where id = p_item_id
+            union all
+            select c.id from public.comments c join thread t on c.parent_comment_id = t.id
+        )
+        select array_agg(id) into v_comment_ids from thread;
+    end if;
+
+    update public.comments set deleted_at = p_deleted_at, deleted_by = p_deleted_by
+    where id = any(v_comment_ids) and deleted_at is not distinct from p_match;
+end;
+$$;
+
+create or replace function public.move_to_trash(p_item_type text, p_item_id uuid, p_retention_days integer default 30)
+returns public.trash_items
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+    v_uid uuid := auth.uid();
+    v_now timestamptz := now();
+    v_label text;
+    v_project_id uuid;
+    v_owner uuid;
+    v_item public.trash_items;
+begin
+    if v_uid is null then
+        raise exception 'Not authenticated';
+    end if;
+
+    if p_item_type = 'project' then
+        select name, id into v_label, v_project_id from public.projects where id = p_item_id and deleted_at is null;
+    elsif p_item_type = 'design' then
+        select name, project_id into v_label, v_project_id from public.designs where id = p_item_id and deleted_at is null;
+    elsif p_item_type = 'variation' then
+        select 'Variation ' || v.variation_letter || ' (V' || ver.version_number || ' of ' || d.name || ')', d.project_id
+        into v_label, v_project_id
+        from public.variations v
+        join public.versions ver on ver.id = v.version_id
+        join public.designs d on d.id = ver.design_id
+        where v.id = p_item_id and v.deleted_at is null;
+    elsif p_item_type = 'comment' then
+        select left(c.content, 80), d.project_id, c.user_id
+        into v_label, v_project_id, v_owner
+        from public.comments c
+        join public.variations v on v.id = c.variation_id
+        join public.versions ver on ver.id = v.version_id
+        join public.designs d on d.id = ver.design_id
+        where c.id = p_item_id and c.deleted_at is null;
+    else
+        raise exception 'Unknown item type %', p_item_type;
+    end if;
+
+    if v_label is null then
+        raise exception '% % not found', p_item_type, p_item_id;
+    end if;
+
+    -- Comment authors may trash their own comments; everything else needs an admin or designer
+    if not (
+        public.current_user_is_admin()
+        or (p_item_type = 'comment' and v_owner = v_uid)
+        or (p_item_type <> 'comment' and exists (select 1 from public.profiles where id = v_uid and role = 'designer'))
+    ) then
+        raise exception 'You do not have permission to delete this %', p_item_type;
+    end if;
+
+    perform public.set_trash_state(p_item_type, p_item_id, v_now, v_uid, null);
+
+    insert into public.trash_items (item_type, item_id, label, project_id, deleted_by, deleted_at, purge_after)
+    values (p_item_type, p_item_id, v_label, v_project_id, v_uid, v_now, v_now + make_interval(days => p_retention_days))
+    returning * into v_item;
+
+    return v_item;
+end;
+$$;
+
+create or replace function public.restore_from_trash(p_trash_item_id uuid)
+returns public.trash_items
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+    v_item public.trash_items;
+    v_parent_trashed boolean;
+begin
+    if not public.current_user_is_admin() then
+        raise exception 'Only admins can restore items from the trash';
+    end if;
+
+    select * into v_item from public.trash_items where id = p_trash_item_id for update;
+    if not found then
+        raise exception 'Trash item % not found', p_trash_item_id;
+    end if;
+
+    -- Restoring under a parent that is itself in the trash would leave the item unreachable
+    v_parent_trashed := case v_item.item_type
+        when 'design' then exists (
+            select 1 from public.designs d join public.projects p on p.id = d.project_id
+            where d.id = v_item.item_id and p.deleted_at is not null)
+        when 'variation' then exists (
+            select 1 from public.variations v
+            join public.versions ver on ver.id = v.version_id
+            join public.designs d on d.id = ver.design_id
+            where v.id = v_item.item_id and d.deleted_at is not null)
+        when 'comment' then exists (
+            select 1 from public.comments c
+            left join public.comments parent on parent.id = c.parent_comment_id
+            join public.variations v on v.id = c.variation_id
+            where c.id = v_item.item_id and (v.deleted_at is not null or parent.deleted_at is not null))
+        else false
+    end;
+    if v_parent_trashed then
+        raise exception 'Restore the % that contains this % first', case v_item.item_type when 'design' then 'project' when 'variation' then 'design' else 'variation or parent comment' end, v_item.item_type;
+    end if;
+
+    perform public.set_trash_state(v_item.item_type, v_item.item_id, null, null, v_item.deleted_at);
+    delete from public.trash_items where id = v_item.id;
+
+    return v_item;
+end;
+$$;
+
+-- Storage objects owned by a trashed item and its descendants (originals only; renditions are derived by the caller)
+create or replace function public.trash_item_storage_paths(p_item_type text, p_item_id uuid)
+returns table (bucket text, file_path text)
+language sql
+stable
+security definer
+set search_path = public
+as $$
+    with variation_ids as (
+        select v.id
+        from public.variations v
+        join public.versions ver on ver.id = v.version_id
+        join public.designs d on d.id = ver.design_id
+        where (p_item_type = 'project' and d.project_id = p_item_id)
+           or (p_item_type = 'design' and d.id = p_item_id)
+           or (p_item_type = 'variation' and v.id = p_item_id)
+    ),
+    comment_ids as (
+        with recursive thread as (
+            select id from public.comments
+            where (p_item_type = 'comment' and id = p_item_id)
+               or variation_id in (select id from variation_ids)
+            union
+            select c.id from public.comments c join thread t on c.parent_comment_id = t.id
+        )
+        select id from thread
+    )
+    select 'design-variations', v.file_path from public.variations v where v.id in (select id from variation_ids) and v.file_path is not null
+    union
+    select 'design-variations', r.file_path from public.variation_file_revisions r where r.variation_id in (select id from variation_ids)
+    union
+    select 'comment-attachments', a.file_path from public.attachments a where a.comment_id in (select id from comment_ids) and a.file_path is not null;
+$$;
+
+-- Hard-deletes a trashed item (FK cascades remove its descendants) and drops trash rows left pointing at nothing
+create or replace function public.purge_trash_item(p_trash_item_id uuid)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+    v_item public.trash_items;
+begin
+    select * into v_item from public.trash_items where id = p_trash_item_id;
+    if not found then
+        return; -- Already purged along with a parent in this run
+    end if;
+
+    case v_item.item_type
+        when 'project' then delete from public.projects where id = v_item.item_id;
+        when 'design' then delete from public.designs where id = v_item.item_id;
+        when 'variation' then delete from public.variations where id = v_item.item_id;
+        when 'comment' then delete from public.comments where id = v_item.item_id;
+    end case;
+
+    delete from public.trash_items t
+    where t.id = v_item.id
+       or (t.item_type = 'design' and not exists (select 1 from public.designs where id = t.item_id))
+       or (t.item_type = 'variation' and not exists (select 1 from public.variations where id = t.item_id))
+       or (t.item_type = 'comment' and not exists (select 1 from public.comments where id = t.item_id));
+end;
+$$;
+
+revoke execute on function public.set_trash_state(text, uuid, timestamptz, uuid, timestamptz) from public, anon, authenticated;
+revoke execute on function public.trash_item_storage_paths(text, uuid) from public, anon, authenticated;
+revoke execute on function public.purge_trash_item(uuid) from public, anon, authenticated;
+grant execute on function public.move_to_trash(text, uuid, integer) to authenticated;
+grant execute on function public.restore_from_trash(uuid) to authenticated;
+grant execute on function public.current_user_is_admin() to authenticated;
+grant execute on function public.trash_item_storage_paths(text, uuid) to service_role;
+grant execute on function public.purge_trash_item(uuid) to service_role;
@@ -0,0 +1,104 @@
+-- Rendition processing as tracked jobs. /api/process-image enqueues a job per original file and runs it right away;
+-- failed attempts are retried with backoff (briefly inline, then by /api/processing-jobs/run) until max_attempts.
+-- Jobs are keyed by original path, so re-requesting processing for a file resets its existing job.
+-- Each variation mirrors the state of the job for its current file in variations.processing_status.
+
+create table if not exists public.image_processing_jobs (
+    id uuid primary key default gen_random_uuid(),
+    original_path text not null,
+    status text not null default 'queued' check (status in ('queued', 'processing', 'done', 'failed')),
+    attempts integer not null default 0,
+    max_attempts integer not null default 5,
+    last_error text,
+    next_attempt_at timestamptz not null default now(),
+    started_at timestamptz,
+    completed_at timestamptz,
+    created_at timestamptz not null default now(),
+    updated_at timestamptz not null default now(),
+    constraint image_processing_jobs_original_path_key unique (original_path)
+);
+
+create index if not exists image_processing_jobs_due_idx
+    on public.image_processing_jobs (next_attempt_at)
+    where status = 'queued';
+
+alter table public.image_processing_jobs enable row level security;
+
+-- Jobs are written by the server with the service role; clients only read them to follow progress.
+create policy "Authenticated users can view processing jobs"
+    on public.image_processing_jobs for select
+    to authenticated
+    using (true);
+
+alter table public.variations
+    add column if not exists processing_status text
+    check (processing_status in ('queued', 'processing', 'done', 'failed'));
+
+-- Copies job state onto every variation currently pointing at the job's file
+create or replace function public.sync_variation_processing_status()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+    update public.variations
+    set processing_status = new.status
+    where file_path = new.original_path
+      and processing_status is distinct from new.status;
+    return new;
+end;
+$$;
+
+drop trigger if exists image_processing_jobs_sync_variation on public.image_processing_jobs;
+create trigger image_processing_jobs_sync_variation
+    after insert or update of status on public.image_processing_jobs
+    for each row execute function public.sync_variation_processing_status();
+
+-- When a variation switches file (upload, replace, restoring a revision) it takes on that file's job state,
+-- or none until processing is requested for the new file.
+create or replace function public.set_variation_processing_status()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+    if new.file_path is distinct from old.file_path then
+        new.processing_status := (select status from public.image_processing_jobs where original_path = new.file_path);
+    end if;
+    return new;
+end;
+$$;
+
+drop trigger if exists variations_set_processing_status on public.variations;
+create trigger variations_set_processing_status
+    before update of file_path on public.variations
+    for each row execute function public.set_variation_processing_status();
+
+-- Claims up to p_limit due jobs for a worker. Jobs left in 'processing' past p_stale_after (a crashed or timed-out
+-- request) are picked up again; skip locked keeps concurrent workers from claiming the same job.
+create or replace function public.claim_image_processing_jobs(p_limit integer default 5, p_stale_after interval default interval '10 minutes')
+returns setof public.image_processing_jobs
+language sql
+security definer
+set search_path = public
+as $$
+    update public.image_processing_jobs j
+    set status = 'processing',
+        attempts = j.attempts + 1,
+        started_at = now(),
+        updated_at = now()
+    where j.id in (
+        select id from public.image_processing_jobs
+        where (status = 'queued' and next_attempt_at <= now())
+           or (status = 'processing' and started_at < now() - p_stale_after)
+        order by next_attempt_at
+        limit p_limit
+        for update skip locked
+    )
+    returning j.*;
+$$;
+
+revoke execute on function public.claim_image_processing_jobs(integer, interval) from public, anon, authenticated;
+grant execute on function public.claim_image_processing_jobs(integer, interval) to service_role;
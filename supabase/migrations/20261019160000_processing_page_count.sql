@@ -0,0 +1,48 @@
+-- Multi-page originals (PDF, PDF-compatible AI). Processing renders every page: page 1 keeps the usual
+-- base_{width}.webp renditions and later pages are written as base_p{n}_{width}.webp. The page count is recorded on
+-- the job when it finishes and mirrored onto variations alongside processing_status.
+
+alter table public.image_processing_jobs add column if not exists page_count integer check (page_count > 0);
+alter table public.variations add column if not exists page_count integer check (page_count > 0);
+
+create or replace function public.sync_variation_processing_status()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+    update public.variations
+    set processing_status = new.status,
+        page_count = new.page_count
+    where file_path = new.original_path
+      and (processing_status is distinct from new.status or page_count is distinct from new.page_count);
+    return new;
+end;
+$$;
+
+drop trigger if exists image_processing_jobs_sync_variation on public.image_processing_jobs;
+create trigger image_processing_jobs_sync_variation
+    after insert or update of status, page_count on public.image_processing_jobs
+    for each row execute function public.sync_variation_processing_status();
+
+create or replace function public.set_variation_processing_status()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+    if new.file_path is distinct from old.file_path then
+        select j.status, j.page_count
+        into new.processing_status, new.page_count
+        from public.image_processing_jobs j
+        where j.original_path = new.file_path;
+        if not found then
+            new.processing_status := null;
+            new.page_count := null;
+        end if;
+    end if;
+    return new;
+end;
+$$;
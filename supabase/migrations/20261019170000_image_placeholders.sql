@@ -0,0 +1,65 @@
+-- Placeholders shown while a rendition loads: a tiny base64 WebP (LQIP) of the first page and its dominant color as
+-- #rrggbb. Processing records both on the job when it finishes; they are mirrored onto the variations and comment
+-- attachments using that file, like processing_status and page_count.
+
+alter table public.image_processing_jobs add column if not exists placeholder text;
+alter table public.image_processing_jobs add column if not exists dominant_color text;
+alter table public.variations add column if not exists placeholder text;
+alter table public.variations add column if not exists dominant_color text;
+alter table public.attachments add column if not exists placeholder text;
+alter table public.attachments add column if not exists dominant_color text;
+
+create or replace function public.sync_variation_processing_status()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+    update public.variations
+    set processing_status = new.status,
+        page_count = new.page_count,
+        placeholder = new.placeholder,
+        dominant_color = new.dominant_color
+    where file_path = new.original_path
+      and (processing_status is distinct from new.status
+        or page_count is distinct from new.page_count
+        or placeholder is distinct from new.placeholder
+        or dominant_color is distinct from new.dominant_color);
+
+    update public.attachments
+    set placeholder = new.placeholder,
+        dominant_color = new.dominant_color
+    where file_path = new.original_path
+      and (placeholder is distinct from new.placeholder or dominant_color is distinct from new.dominant_color);
+    return new;
+end;
+$$;
+
+drop trigger if exists image_processing_jobs_sync_variation on public.image_processing_jobs;
+create trigger image_processing_jobs_sync_variation
+    after insert or update of status, page_count, placeholder, dominant_color on public.image_processing_jobs
+    for each row execute function public.sync_variation_processing_status();
+
+create or replace function public.set_variation_processing_status()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+    if new.file_path is distinct from old.file_path then
+        select j.status, j.page_count, j.placeholder, j.dominant_color
+        into new.processing_status, new.page_count, new.placeholder, new.dominant_color
+        from public.image_processing_jobs j
+        where j.original_path = new.file_path;
+        if not found then
+            new.processing_status := null;
+            new.page_count := null;
+            new.placeholder := null;
+            new.dominant_color := null;
+        end if;
+    end if;
+    return new;
+end;
+$$;
@@ -0,0 +1,75 @@
+-- Color palettes and swatch feedback. Processing extracts the main colors of each file's first page as a jsonb array
+-- of {hex, percentage}, most coverage first; it's recorded on the job and mirrored onto variations like page_count.
+-- A swatch comment is a top-level comment about one palette color, optionally suggesting a replacement color.
+
+alter table public.image_processing_jobs add column if not exists palette jsonb;
+alter table public.variations add column if not exists palette jsonb;
+
+alter table public.comments add column if not exists swatch_color text
+    check (swatch_color ~ '^#[0-9a-fA-F]{6}$');
+alter table public.comments add column if not exists suggested_color text
+    check (suggested_color ~ '^#[0-9a-fA-F]{6}$');
+alter table public.comments drop constraint if exists comments_suggested_color_needs_swatch;
+alter table public.comments add constraint comments_suggested_color_needs_swatch
+    check (suggested_color is null or swatch_color is not null);
+
+-- Filtering the feedback list by swatch comments
+create index if not exists comments_variation_swatch_idx on public.comments (variation_id) where swatch_color is not null;
+
+create or replace function public.sync_variation_processing_status()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+    update public.variations
+    set processing_status = new.status,
+        page_count = new.page_count,
+        placeholder = new.placeholder,
+        dominant_color = new.dominant_color,
+        palette = new.palette
+    where file_path = new.original_path
+      and (processing_status is distinct from new.status
+        or page_count is distinct from new.page_count
+        or placeholder is distinct from new.placeholder
+        or dominant_color is distinct from new.dominant_color
+        or palette is distinct from new.palette);
+
+    update public.attachments
+    set placeholder = new.placeholder,
+        dominant_color = new.dominant_color
+    where file_path = new.original_path
+      and (placeholder is distinct from new.placeholder or dominant_color is distinct from new.dominant_color);
+    return new;
+end;
+$$;
+
+drop trigger if exists image_processing_jobs_sync_variation on public.image_processing_jobs;
+create trigger image_processing_jobs_sync_variation
+    after insert or update of status, page_count, placeholder, dominant_color, palette on public.image_processing_jobs
+    for each row execute function public.sync_variation_processing_status();
+
+create or replace function public.set_variation_processing_status()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+    if new.file_path is distinct from old.file_path then
+        select j.status, j.page_count, j.placeholder, j.dominant_color, j.palette
+        into new.processing_status, new.page_count, new.placeholder, new.dominant_color, new.palette
+        from public.image_processing_jobs j
+        where j.original_path = new.file_path;
+        if not found then
+            new.processing_status := null;
+            new.page_count := null;
+            new.placeholder := null;
+            new.dominant_color := null;
+            new.palette := null;
+        end if;
+    end if;
+    return new;
+end;
+$$;
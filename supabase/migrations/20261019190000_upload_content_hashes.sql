@@ -0,0 +1,69 @@
+-- Content hashes for spotting re-uploads. Processing records the SHA-256 (hex) of each original on its job, and it's
+-- mirrored onto the variations using that file like the palette. The upload queue looks a new file's hash up among
+-- the variations of the same design before uploading it.
+
+alter table public.image_processing_jobs add column if not exists content_hash text;
+alter table public.variations add column if not exists content_hash text;
+
+create index if not exists variations_content_hash_idx on public.variations (content_hash) where content_hash is not null;
+
+create or replace function public.sync_variation_processing_status()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+    update public.variations
+    set processing_status = new.status,
+        page_count = new.page_count,
+        placeholder = new.placeholder,
+        dominant_color = new.dominant_color,
+        palette = new.palette,
+        content_hash = new.content_hash
+    where file_path = new.original_path
+      and (processing_status is distinct from new.status
+        or page_count is distinct from new.page_count
+        or placeholder is distinct from new.placeholder
+        or dominant_color is distinct from new.dominant_color
+        or palette is distinct from new.palette
+        or content_hash is distinct from new.content_hash);
+
+    update public.attachments
+    set placeholder = new.placeholder,
+        dominant_color = new.dominant_color
+    where file_path = new.original_path
+      and (placeholder is distinct from new.placeholder or dominant_color is distinct from new.dominant_color);
+    return new;
+end;
+$$;
+
+drop trigger if exists image_processing_jobs_sync_variation on public.image_processing_jobs;
+create trigger image_processing_jobs_sync_variation
+    after insert or update of status, page_count, placeholder, dominant_color, palette, content_hash on public.image_processing_jobs
+    for each row execute function public.sync_variation_processing_status();
+
+create or replace function public.set_variation_processing_status()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+    if new.file_path is distinct from old.file_path then
+        select j.status, j.page_count, j.placeholder, j.dominant_color, j.palette, j.content_hash
+        into new.processing_status, new.page_count, new.placeholder, new.dominant_color, new.palette, new.content_hash
+        from public.image_processing_jobs j
+        where j.original_path = new.file_path;
+        if not found then
+            new.processing_status := null;
+            new.page_count := null;
+            new.placeholder := null;
+            new.dominant_color := null;
+            new.palette := null;
+            new.content_hash := null;
+        end if;
+    end if;
+    return new;
+end;
+$$;
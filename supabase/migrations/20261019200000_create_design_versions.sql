@@ -0,0 +1,52 @@
+-- Creates a design (optionally) with several new versions in one transaction, for imports that map a dropped folder
+-- or ZIP onto designs and versions. Each version is created by create_design_hierarchy, so the numbering and letter
+-- rules are the same; only the first call creates the design.
+--
+-- p_versions: [{ "id": uuid, "variations": [{ "id": uuid, "file_path": text }, ...] }, ...] in the order the
+--             versions are numbered.
+-- Returns { design, version (the first new one), versions, variations (of all new versions) }.
+
+create or replace function public.create_design_versions(
+    p_project_id uuid,
+    p_design_id uuid,
+    p_design_name text,
+    p_versions jsonb
+)
+returns jsonb
+language plpgsql
+security invoker
+as $$
+declare
+    v_item record;
+    v_created jsonb;
+    v_design jsonb;
+    v_versions jsonb := '[]'::jsonb;
+    v_variations jsonb := '[]'::jsonb;
+begin
+    if jsonb_array_length(coalesce(p_versions, '[]'::jsonb)) = 0 then
+        raise exception 'At least one version is required';
+    end if;
+
+    for v_item in select value, ordinality from jsonb_array_elements(p_versions) with ordinality loop
+        v_created := public.create_design_hierarchy(
+            p_project_id,
+            p_design_id,
+            case when v_item.ordinality = 1 then p_design_name end,
+            (v_item.value->>'id')::uuid,
+            v_item.value->'variations'
+        );
+        v_design := v_created->'design';
+        v_versions := v_versions || jsonb_build_array(v_created->'version');
+        v_variations := v_variations || (v_created->'variations');
+    end loop;
+
+    return jsonb_build_object(
+        'design', v_design,
+        'version', v_versions->0,
+        'versions', v_versions,
+        'variations', v_variations
+    );
+end;
+$$;
+
+grant execute on function public.create_design_versions(uuid, uuid, text, jsonb) to authenticated;
@@ -0,0 +1,17 @@
+-- Opt-in image preparation before upload. A project can have the browser strip metadata (EXIF with GPS position,
+-- XMP, IPTC) from photos and downscale them to a maximum longest side before they're uploaded. Variations record
+-- the size the image had before it was prepared and whether it was downscaled; both stay null/false for files
+-- uploaded as they were.
+
+alter table public.projects
+    add column if not exists strip_upload_metadata boolean not null default false,
+    add column if not exists max_upload_dimension integer;
+
+alter table public.projects drop constraint if exists projects_max_upload_dimension_check;
+alter table public.projects
+    add constraint projects_max_upload_dimension_check check (max_upload_dimension is null or max_upload_dimension > 0);
+
+alter table public.variations
+    add column if not exists original_width integer,
+    add column if not exists original_height integer,
+    add column if not exists was_resized boolean not null default false;
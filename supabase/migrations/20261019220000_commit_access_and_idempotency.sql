@@ -0,0 +1,99 @@
+-- /api/design-hierarchy/commit removes uploaded files with the service role when a commit can't go through, so it
+-- has to know the caller may add designs to the project before it touches storage. And a commit that is sent again
+-- after it succeeded (a retry, or a resumed upload) returns what the first one created instead of failing on the
+-- existing ids.
+
+-- Runs as the caller: RLS decides whether the project is visible, and only admins and designers create designs
+-- (the same roles move_to_trash lets delete them)
+create or replace function public.current_user_can_edit_project(p_project_id uuid)
+returns boolean
+language sql
+stable
+security invoker
+set search_path = public
+as $$
+    select exists (select 1 from public.projects where id = p_project_id and deleted_at is null)
+        and (
+            public.current_user_is_admin()
+            or exists (select 1 from public.profiles where id = auth.uid() and role = 'designer')
+        );
+$$;
+
+grant execute on function public.current_user_can_edit_project(uuid) to authenticated;
+
+create or replace function public.create_design_versions(
+    p_project_id uuid,
+    p_design_id uuid,
+    p_design_name text,
+    p_versions jsonb
+)
+returns jsonb
+language plpgsql
+security invoker
+as $$
+declare
+    v_item record;
+    v_created jsonb;
+    v_design jsonb;
+    v_versions jsonb := '[]'::jsonb;
+    v_variations jsonb := '[]'::jsonb;
+    v_version_ids uuid[];
+    v_variation_ids uuid[];
+    v_existing_count integer;
+begin
+    if jsonb_array_length(coalesce(p_versions, '[]'::jsonb)) = 0 then
+        raise exception 'At least one version is required';
+    end if;
+
+    select array_agg((version.value->>'id')::uuid order by version.ordinality)
+    into v_version_ids
+    from jsonb_array_elements(p_versions) with ordinality as version(value, ordinality);
+
+    select array_agg((variation.value->>'id')::uuid)
+    into v_variation_ids
+    from jsonb_array_elements(p_versions) as version(value),
+         jsonb_array_elements(version.value->'variations') as variation(value);
+
+    -- The versions are created in one transaction, so either all of them exist (an earlier commit of the same
+    -- uploads went through) or none do
+    select count(*) into v_existing_count
+    from public.versions ver
+    join public.designs d on d.id = ver.design_id
+    where ver.id = any(v_version_ids) and d.id = p_design_id and d.project_id = p_project_id;
+
+    if v_existing_count = array_length(v_version_ids, 1) then
+        select to_jsonb(d) into v_design from public.designs d where d.id = p_design_id;
+        select coalesce(jsonb_agg(to_jsonb(ver) order by array_position(v_version_ids, ver.id)), '[]'::jsonb) into v_versions
+        from public.versions ver
+        where ver.id = any(v_version_ids);
+        select coalesce(jsonb_agg(to_jsonb(v) order by array_position(v_version_ids, v.version_id), v.variation_letter), '[]'::jsonb)
+        into v_variations
+        from public.variations v
+        where v.id = any(v_variation_ids);
+
+        return jsonb_build_object('design', v_design, 'version', v_versions->0, 'versions', v_versions, 'variations', v_variations);
+    elsif v_existing_count > 0 then
+        raise exception 'Only some of these versions exist already';
+    end if;
+
+    for v_item in select value, ordinality from jsonb_array_elements(p_versions) with ordinality loop
+        v_created := public.create_design_hierarchy(
+            p_project_id,
+            p_design_id,
+            case when v_item.ordinality = 1 then p_design_name end,
+            (v_item.value->>'id')::uuid,
+            v_item.value->'variations'
+        );
+        v_design := v_created->'design';
+        v_versions := v_versions || jsonb_build_array(v_created->'version');
+        v_variations := v_variations || (v_created->'variations');
+    end loop;
+
+    return jsonb_build_object(
+        'design', v_design,
+        'version', v_versions->0,
+        'versions', v_versions,
+        'variations', v_variations
+    );
+end;
+$$;
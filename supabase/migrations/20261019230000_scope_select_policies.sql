@@ -0,0 +1,33 @@
+-- Processing jobs, file revisions and annotation layers were readable by every signed-in user, which exposed the
+-- storage paths and drawings of projects they can't open. Each is now visible only together with what it belongs
+-- to. The subqueries run with the caller's RLS, so "visible" means whatever the variations, attachments and
+-- comments policies already allow, and what belongs to a trashed variation is hidden with it.
+
+-- A job belongs to the variation, file revision or comment attachment using its original
+drop policy if exists "Authenticated users can view processing jobs" on public.image_processing_jobs;
+create policy "Users can view processing jobs of files they can see"
+    on public.image_processing_jobs for select
+    to authenticated
+    using (
+        exists (select 1 from public.variations v where v.file_path = image_processing_jobs.original_path)
+        or exists (select 1 from public.variation_file_revisions r where r.file_path = image_processing_jobs.original_path)
+        or exists (select 1 from public.attachments a where a.file_path = image_processing_jobs.original_path)
+    );
+
+drop policy if exists "Authenticated users can view file revisions" on public.variation_file_revisions;
+create policy "Users can view file revisions of variations they can see"
+    on public.variation_file_revisions for select
+    to authenticated
+    using (exists (select 1 from public.variations v where v.id = variation_file_revisions.variation_id));
+
+-- Everyone who can review the variation can still see every layer on it
+drop policy if exists "Authenticated users can view annotations" on public.annotations;
+create policy "Users can view annotations on variations they can see"
+    on public.annotations for select
+    to authenticated
+    using (exists (select 1 from public.variations v where v.id = annotations.variation_id));
+
+-- The job policy looks files up by path
+create index if not exists variations_file_path_idx on public.variations (file_path) where file_path is not null;
+create index if not exists variation_file_revisions_file_path_idx on public.variation_file_revisions (file_path);
+create index if not exists attachments_file_path_idx on public.attachments (file_path) where file_path is not null;
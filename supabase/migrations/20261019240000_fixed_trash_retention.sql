@@ -0,0 +1,71 @@
+-- Trashed items stay restorable for 30 days. move_to_trash took the retention period as an argument, and since
+-- clients call it directly, a retention of 0 or less made an item purgeable right away. The period is now fixed
+-- on the server.
+
+drop function if exists public.move_to_trash(text, uuid, integer);
+
+create or replace function public.move_to_trash(p_item_type text, p_item_id uuid)
+returns public.trash_items
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+    v_uid uuid := auth.uid();
+    v_now timestamptz := now();
+    v_label text;
+    v_project_id uuid;
+    v_owner uuid;
+    v_item public.trash_items;
+begin
+    if v_uid is null then
+        raise exception 'Not authenticated';
+    end if;
+
+    if p_item_type = 'project' then
+        select name, id into v_label, v_project_id from public.projects where id = p_item_id and deleted_at is null;
+    elsif p_item_type = 'design' then
+        select name, project_id into v_label, v_project_id from public.designs where id = p_item_id and deleted_at is null;
+    elsif p_item_type = 'variation' then
+        select 'Variation ' || v.variation_letter || ' (V' || ver.version_number || ' of ' || d.name || ')', d.project_id
+        into v_label, v_project_id
+        from public.variations v
+        join public.versions ver on ver.id = v.version_id
+        join public.designs d on d.id = ver.design_id
+        where v.id = p_item_id and v.deleted_at is null;
+    elsif p_item_type = 'comment' then
+        select left(c.content, 80), d.project_id, c.user_id
+        into v_label, v_project_id, v_owner
+        from public.comments c
+        join public.variations v on v.id = c.variation_id
+        join public.versions ver on ver.id = v.version_id
+        join public.designs d on d.id = ver.design_id
+        where c.id = p_item_id and c.deleted_at is null;
+    else
+        raise exception 'Unknown item type %', p_item_type;
+    end if;
+
+    if v_label is null then
+        raise exception '% % not found', p_item_type, p_item_id;
+    end if;
+
+    -- Comment authors may trash their own comments; everything else needs an admin or designer
+    if not (
+        public.current_user_is_admin()
+        or (p_item_type = 'comment' and v_owner = v_uid)
+        or (p_item_type <> 'comment' and exists (select 1 from public.profiles where id = v_uid and role = 'designer'))
+    ) then
+        raise exception 'You do not have permission to delete this %', p_item_type;
+    end if;
+
+    perform public.set_trash_state(p_item_type, p_item_id, v_now, v_uid, null);
+
+    insert into public.trash_items (item_type, item_id, label, project_id, deleted_by, deleted_at, purge_after)
+    values (p_item_type, p_item_id, v_label, v_project_id, v_uid, v_now, v_now + interval '30 days')
+    returning * into v_item;
+
+    return v_item;
+end;
+$$;
+
+grant execute on function public.move_to_trash(text, uuid) to authenticated;
@@ -0,0 +1,40 @@
+-- A job left in 'processing' past p_stale_after was claimed again with one more attempt, without looking at
+-- max_attempts, so a file that takes the worker down every time was retried forever. Stale jobs that have used
+-- all their attempts now fail instead; the variations following them show the failure like any other.
+
+create or replace function public.claim_image_processing_jobs(p_limit integer default 5, p_stale_after interval default interval '10 minutes')
+returns setof public.image_processing_jobs
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+    update public.image_processing_jobs
+    set status = 'failed',
+        last_error = coalesce(last_error || ' ', '') || '(Stopped responding on its last attempt.)',
+        completed_at = now(),
+        updated_at = now()
+    where status = 'processing'
+      and started_at < now() - p_stale_after
+      and attempts >= max_attempts;
+
+    return query
+    update public.image_processing_jobs j
+    set status = 'processing',
+        attempts = j.attempts + 1,
+        started_at = now(),
+        updated_at = now()
+    where j.id in (
+        select id from public.image_processing_jobs
+        where (status = 'queued' and next_attempt_at <= now())
+           or (status = 'processing' and started_at < now() - p_stale_after and attempts < max_attempts)
+        order by next_attempt_at
+        limit p_limit
+        for update skip locked
+    )
+    returning j.*;
+end;
+$$;
+
+revoke execute on function public.claim_image_processing_jobs(integer, interval) from public, anon, authenticated;
+grant execute on function public.claim_image_processing_jobs(integer, interval) to service_role;
@@ -0,0 +1,97 @@
+-- move_to_trash ran as its owner and only looked at the caller's role, so any designer could trash a project,
+-- design or variation they can't see by passing its id. It now runs as the caller: the item is looked up through
+-- their RLS, and one they can't see is reported as not found. Only the write runs as the owner, in
+-- private.trash_item, which the API doesn't expose and nothing but move_to_trash calls.
+-- Trashed rows were only hidden from reads; they can't be updated through RLS any more either. Trashing and
+-- restoring still can, since set_trash_state runs as the owner.
+
+create schema if not exists private;
+revoke all on schema private from public;
+grant usage on schema private to authenticated;
+
+create or replace function private.trash_item(p_item_type text, p_item_id uuid, p_label text, p_project_id uuid)
+returns public.trash_items
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+    v_uid uuid := auth.uid();
+    v_now timestamptz := now();
+    v_item public.trash_items;
+begin
+    perform public.set_trash_state(p_item_type, p_item_id, v_now, v_uid, null);
+
+    insert into public.trash_items (item_type, item_id, label, project_id, deleted_by, deleted_at, purge_after)
+    values (p_item_type, p_item_id, p_label, p_project_id, v_uid, v_now, v_now + interval '30 days')
+    returning * into v_item;
+
+    return v_item;
+end;
+$$;
+
+revoke execute on function private.trash_item(text, uuid, text, uuid) from public, anon;
+grant execute on function private.trash_item(text, uuid, text, uuid) to authenticated;
+
+create or replace function public.move_to_trash(p_item_type text, p_item_id uuid)
+returns public.trash_items
+language plpgsql
+security invoker
+set search_path = public
+as $$
+declare
+    v_uid uuid := auth.uid();
+    v_label text;
+    v_project_id uuid;
+    v_owner uuid;
+begin
+    if v_uid is null then
+        raise exception 'Not authenticated';
+    end if;
+
+    if p_item_type = 'project' then
+        select name, id into v_label, v_project_id from public.projects where id = p_item_id and deleted_at is null;
+    elsif p_item_type = 'design' then
+        select name, project_id into v_label, v_project_id from public.designs where id = p_item_id and deleted_at is null;
+    elsif p_item_type = 'variation' then
+        select 'Variation ' || v.variation_letter || ' (V' || ver.version_number || ' of ' || d.name || ')', d.project_id
+        into v_label, v_project_id
+        from public.variations v
+        join public.versions ver on ver.id = v.version_id
+        join public.designs d on d.id = ver.design_id
+        where v.id = p_item_id and v.deleted_at is null;
+    elsif p_item_type = 'comment' then
+        select left(c.content, 80), d.project_id, c.user_id
+        into v_label, v_project_id, v_owner
+        from public.comments c
+        join public.variations v on v.id = c.variation_id
+        join public.versions ver on ver.id = v.version_id
+        join public.designs d on d.id = ver.design_id
+        where c.id = p_item_id and c.deleted_at is null;
+    else
+        raise exception 'Unknown item type %', p_item_type;
+    end if;
+
+    if v_label is null then
+        raise exception '% % not found', p_item_type, p_item_id;
+    end if;
+
+    -- Comment authors may trash their own comments; everything else needs an admin or designer
+    if not (
+        public.current_user_is_admin()
+        or (p_item_type = 'comment' and v_owner = v_uid)
+        or (p_item_type <> 'comment' and exists (select 1 from public.profiles where id = v_uid and role = 'designer'))
+    ) then
+        raise exception 'You do not have permission to delete this %', p_item_type;
+    end if;
+
+    return private.trash_item(p_item_type, p_item_id, v_label, v_project_id);
+end;
+$$;
+
+grant execute on function public.move_to_trash(text, uuid) to authenticated;
+
+create policy "Trashed projects can't be edited" on public.projects as restrictive for update to authenticated using (deleted_at is null);
+create policy "Trashed designs can't be edited" on public.designs as restrictive for update to authenticated using (deleted_at is null);
+create policy "Trashed variations can't be edited" on public.variations as restrictive for update to authenticated using (deleted_at is null);
+create policy "Trashed comments can't be edited" on public.comments as restrictive for update to authenticated using (deleted_at is null);
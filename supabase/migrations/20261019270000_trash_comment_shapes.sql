@@ -0,0 +1,99 @@
+-- Deleting a comment together with its annotation shape removed the shape from the layer for good, so restoring
+-- the comment brought it back without its annotation. The shape now goes to the trash with the comment: it's kept
+-- here while the comment is in the trash, put back into its layer when the comment is restored, and deleted with
+-- the comment when the trash is purged.
+
+create table if not exists public.trashed_annotation_shapes (
+    comment_id uuid primary key references public.comments(id) on delete cascade,
+    annotation_id uuid not null references public.annotations(id) on delete cascade,
+    shape jsonb not null, -- The fabric object as it was in the layer's objects
+    created_at timestamptz not null default now()
+);
+
+alter table public.trashed_annotation_shapes enable row level security;
+
+create policy "Users can trash shapes of their own annotation layer"
+    on public.trashed_annotation_shapes for insert
+    to authenticated
+    with check (exists (select 1 from public.annotations a where a.id = annotation_id and a.user_id = auth.uid()));
+
+-- Moves a comment to the trash, and with p_with_shape its annotation shape as well. Only the caller's own layer is
+-- touched; returns false when the shape isn't in it (e.g. another reviewer drew it), in which case it's kept.
+-- Runs as the caller, so RLS and move_to_trash decide what they may delete.
+create or replace function public.move_comment_to_trash(p_comment_id uuid, p_with_shape boolean default false)
+returns boolean
+language plpgsql
+security invoker
+set search_path = public
+as $$
+declare
+    v_shape_id text;
+    v_variation_id uuid;
+    v_layer_id uuid;
+    v_shape jsonb;
+begin
+    if p_with_shape then
+        select annotation_shape_id, variation_id into v_shape_id, v_variation_id
+        from public.comments
+        where id = p_comment_id and deleted_at is null;
+
+        if v_shape_id is not null then
+            -- Shapes carry their id in ANNOTATION_SHAPE_ID_PROP (lib/constants/annotationConstants.ts)
+            select a.id, e.obj into v_layer_id, v_shape
+            from public.annotations a
+            cross join lateral jsonb_array_elements(a.data -> 'objects') as e(obj)
+            where a.variation_id = v_variation_id and a.user_id = auth.uid() and e.obj ->> 'annotationId' = v_shape_id
+            limit 1;
+        end if;
+
+        if v_shape is not null then
+            insert into public.trashed_annotation_shapes (comment_id, annotation_id, shape)
+            values (p_comment_id, v_layer_id, v_shape);
+
+            update public.annotations
+            set data = jsonb_set(data, '{objects}', coalesce((
+                    select jsonb_agg(e.obj order by e.ord)
+                    from jsonb_array_elements(data -> 'objects') with ordinality as e(obj, ord)
+                    where e.obj ->> 'annotationId' is distinct from v_shape_id
+                ), '[]'::jsonb)),
+                updated_at = now()
+            where id = v_layer_id;
+        end if;
+    end if;
+
+    perform public.move_to_trash('comment', p_comment_id);
+    return v_shape is not null;
+end;
+$$;
+
+grant execute on function public.move_comment_to_trash(uuid, boolean) to authenticated;
+
+-- Restoring a comment (on its own or with what contains it) puts its shape back on top of its layer
+create or replace function public.restore_trashed_annotation_shape()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+    v_trashed public.trashed_annotation_shapes;
+begin
+    delete from public.trashed_annotation_shapes where comment_id = new.id returning * into v_trashed;
+    if found then
+        update public.annotations
+        set data = jsonb_set(data, '{objects}', coalesce(data -> 'objects', '[]'::jsonb) || jsonb_build_array(v_trashed.shape)),
+            updated_at = now()
+        where id = v_trashed.annotation_id;
+    end if;
+    return new;
+end;
+$$;
+
+drop trigger if exists restore_trashed_annotation_shape on public.comments;
+create trigger restore_trashed_annotation_shape
+    after update of deleted_at on public.comments
+    for each row
+    when (old.deleted_at is not null and new.deleted_at is null)
+    execute function public.restore_trashed_annotation_shape();
+
+revoke execute on function public.restore_trashed_annotation_shape() from public, anon, authenticated;
@@ -3,7 +3,9 @@
 import React, { useEffect, useState } from 'react';
 import { useAuth, UserProfile } from '@/providers/AuthProvider';
 import LoadingSpinner from '@/components/ui/LoadingSpinner';
+import StorageReconciliationPanel from '@/components/features/StorageReconciliationPanel';
 import { useRouter } from 'next/navigation';
+import Link from 'next/link';
 import { useQuery, useMutation } from '@tanstack/react-query';
 import {
   Table,
@@ -197,7 +199,12 @@ const AdminDashboardPage = () => {
   // Render admin content
   return (
     <div>
-      <h1 className="text-2xl font-bold mb-4">Admin Dashboard</h1>
+      <div className="flex items-center justify-between mb-4">
+        <h1 className="text-2xl font-bold">Admin Dashboard</h1>
+        <Button variant="outline" asChild>
+          <Link href="/admin/trash">Trash</Link>
+        </Button>
+      </div>
       <p className="mb-4">Welcome, Administrator!</p>
       <div className="p-4 border rounded bg-white shadow-sm">
         <h2 className="text-xl font-semibold mb-3">User Management</h2>
@@ -264,6 +271,7 @@ const AdminDashboardPage = () => {
           <p>No users found.</p>
         )}
       </div>
+      <StorageReconciliationPanel />
     </div>
   );
 };
@@ -0,0 +1,153 @@
+'use client';
+
+import React, { useEffect } from 'react';
+import Link from 'next/link';
+import { useRouter } from 'next/navigation';
+import { useQuery } from '@tanstack/react-query';
+import { Loader2, RotateCcw, Trash2 } from 'lucide-react';
+import { useAuth } from '@/providers/AuthProvider';
+import LoadingSpinner from '@/components/ui/LoadingSpinner';
+import {
+  Table,
+  TableBody,
+  TableCaption,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { useRestoreTrashItem, usePurgeExpiredTrash } from '@/hooks/mutations';
+import { TrashItem } from '@/types/models';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const fetchTrashItems = async (supabase: any): Promise<TrashItem[]> => {
+  const { data, error } = await supabase
+    .from('trash_items')
+    .select('*, profiles:deleted_by ( display_name )')
+    .order('deleted_at', { ascending: false });
+  if (error) {
+    console.error("Error fetching trash items:", error);
+    throw new Error(error.message);
+  }
+  return data || [];
+};
+
+const describeTimeLeft = (purgeAfter: string) => {
+  const msLeft = new Date(purgeAfter).getTime() - Date.now();
+  if (msLeft <= 0) return 'Expired, purged on next run';
+  const daysLeft = Math.ceil(msLeft / DAY_MS);
+  return `${daysLeft} day${daysLeft === 1 ? '' : 's'} left`;
+};
+
+const AdminTrashPage = () => {
+  const { profile: adminProfile, loading, user, supabase } = useAuth();
+  const router = useRouter();
+  const restoreMutation = useRestoreTrashItem();
+  const purgeMutation = usePurgeExpiredTrash();
+
+  const { data: trashItems, isLoading: isLoadingTrash, error: trashError } = useQuery<TrashItem[], Error>({
+    queryKey: ['trash'],
+    queryFn: () => fetchTrashItems(supabase),
+    enabled: !!user && adminProfile?.role === 'admin',
+  });
+
+  useEffect(() => {
+    // Redirect non-admins after initial auth loading is done
+    if (!loading && (!user || adminProfile?.role !== 'admin')) {
+      router.replace('/');
+    }
+  }, [loading, user, adminProfile, router]);
+
+  if (loading) {
+    return (
+      <div className="flex justify-center items-center min-h-[calc(100vh-150px)]">
+        <LoadingSpinner />
+      </div>
+    );
+  }
+
+  if (!user || adminProfile?.role !== 'admin') {
+    return null;
+  }
+
+  const expiredCount = (trashItems ?? []).filter(item => new Date(item.purge_after).getTime() <= Date.now()).length;
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-4">
+        <div>
+          <h1 className="text-2xl font-bold">Trash</h1>
+          <p className="text-sm text-muted-foreground">
+            Deleted projects, designs, variations and comments. Restore them before their retention window ends.
+          </p>
+        </div>
+        <div className="flex items-center gap-2">
+          <Button variant="outline" asChild>
+            <Link href="/admin">Back to Admin</Link>
+          </Button>
+          <Button
+            variant="destructive"
+            onClick={() => purgeMutation.mutate()}
+            disabled={purgeMutation.isPending || expiredCount === 0}
+          >
+            {purgeMutation.isPending ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Trash2 className="h-4 w-4 mr-2" />}
+            Purge Expired ({expiredCount})
+          </Button>
+        </div>
+      </div>
+      <div className="p-4 border rounded bg-white shadow-sm">
+        {isLoadingTrash ? (
+          <LoadingSpinner />
+        ) : trashError ? (
+          <p className="text-sm text-red-600">Error loading trash: {trashError.message}</p>
+        ) : trashItems && trashItems.length > 0 ? (
+          <Table>
+            <TableCaption>Restoring an item also restores everything that was deleted with it.</TableCaption>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Type</TableHead>
+                <TableHead>Item</TableHead>
+                <TableHead>Deleted By</TableHead>
+                <TableHead>Deleted</TableHead>
+                <TableHead>Retention</TableHead>
+                <TableHead className="text-right">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {trashItems.map((item) => {
+                const isRestoring = restoreMutation.isPending && restoreMutation.variables === item.id;
+                return (
+                  <TableRow key={item.id}>
+                    <TableCell><Badge variant="outline" className="capitalize">{item.item_type}</Badge></TableCell>
+                    <TableCell className="max-w-xs truncate" title={item.label}>{item.label}</TableCell>
+                    <TableCell>{item.profiles?.display_name || '-'}</TableCell>
+                    <TableCell>{new Date(item.deleted_at).toLocaleString()}</TableCell>
+                    <TableCell className="text-sm text-muted-foreground">{describeTimeLeft(item.purge_after)}</TableCell>
+                    <TableCell className="text-right">
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() => restoreMutation.mutate(item.id)}
+                        disabled={restoreMutation.isPending}
+                      >
+                        {isRestoring ? <Loader2 className="h-4 w-4 mr-1 animate-spin" /> : <RotateCcw className="h-4 w-4 mr-1" />}
+                        Restore
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+        ) : (
+          <p>The trash is empty.</p>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default AdminTrashPage;
@@ -0,0 +1,234 @@
+'use client';
+
+import { Suspense, useEffect, useMemo, useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { useParams, useSearchParams } from 'next/navigation';
+import Link from 'next/link';
+import { Loader2, ScanSearch } from 'lucide-react';
+import { useAuth } from '@/providers/AuthProvider';
+import Breadcrumbs, { BreadcrumbItem } from '@/components/ui/breadcrumbs';
+import {
+    Select,
+    SelectContent,
+    SelectItem,
+    SelectTrigger,
+    SelectValue,
+} from '@/components/ui/select';
+import { Label } from '@/components/ui/label';
+import { Button } from '@/components/ui/button';
+import { VariationCompareViewer, CompareSide } from '@/components/compare/VariationCompareViewer';
+import { getProcessedImagePath, getPublicImageUrl } from '@/lib/imageUtils';
+import { LARGE_WIDTH } from '@/lib/constants/imageConstants';
+import { Design, Variation, Version } from '@/types/models';
+
+const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL;
+const processedBucketName = process.env.NEXT_PUBLIC_SUPABASE_PROCESSED_BUCKET;
+
+type CompareVersion = Version & { variations: Variation[] };
+type CompareDesign = Pick<Design, 'id' | 'name' | 'project_id'> & { versions: CompareVersion[] };
+
+// Every variation of every version, so any two can be compared across rounds
+const fetchDesignForCompare = async (supabase: any, designId: string): Promise<CompareDesign | null> => {
+    if (!designId) return null;
+    const { data, error } = await supabase
+        .from('designs')
+        .select(`
+            id,
+            name,
+            project_id,
+            versions (
+                id,
+                design_id,
+                version_number,
+                stage,
+                status,
+                notes,
+                created_at,
+                variations (
+                    id,
+                    version_id,
+                    variation_letter,
+                    status,
+                    notes,
+                    file_path,
+                    created_at
+                )
+            )
+        `)
+        .eq('id', designId)
+        .maybeSingle();
+
+    if (error) {
+        console.error('Error fetching design for compare:', error);
+        throw new Error(`Failed to fetch design: ${error.message}`);
+    }
+    if (!data) return null;
+
+    const versions = [...(data.versions || [])]
+        .sort((a: CompareVersion, b: CompareVersion) => a.version_number - b.version_number)
+        .map((version: CompareVersion) => ({
+            ...version,
+            variations: [...(version.variations || [])].sort((a, b) => a.variation_letter.localeCompare(b.variation_letter)),
+        }));
+    return { ...data, versions };
+};
+
+type VariationDiff = {
+    width: number;
+    height: number;
+    changedPixels: number;
+    totalPixels: number;
+    changedPercent: number;
+    overlay: string; // PNG data URL
+};
+
+const fetchVariationDiff = async (baseVariationId: string, compareVariationId: string): Promise<VariationDiff> => {
+    const response = await fetch('/api/diff-image', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ baseVariationId, compareVariationId }),
+    });
+    const result = await response.json();
+    if (!response.ok) {
+        throw new Error(result.details || result.error || `Diff failed with status ${response.status}`);
+    }
+    return result;
+};
+
+const toCompareSide = (version: CompareVersion, variation: Variation): CompareSide => ({
+    variationId: variation.id,
+    imageUrl: variation.file_path && supabaseUrl && processedBucketName
+        ? getPublicImageUrl(supabaseUrl, processedBucketName, getProcessedImagePath(variation.file_path, LARGE_WIDTH))
+        : null,
+    versionNumber: version.version_number,
+    variationLetter: variation.variation_letter,
+    stage: version.stage,
+    status: variation.status,
+});
+
+function DesignComparePageContent() {
+    const { supabase } = useAuth();
+    const params = useParams();
+    const searchParams = useSearchParams();
+    const projectId = params.projectId as string;
+    const designId = params.designId as string;
+
+    const [leftVariationId, setLeftVariationId] = useState<string | null>(searchParams.get('left'));
+    const [rightVariationId, setRightVariationId] = useState<string | null>(searchParams.get('right'));
+    const [showDiff, setShowDiff] = useState(false);
+
+    const { data: design, isLoading, error } = useQuery<CompareDesign | null>({
+        queryKey: ['design', designId, 'compare'],
+        queryFn: () => fetchDesignForCompare(supabase, designId),
+        enabled: !!supabase && !!designId,
+    });
+
+    // Flattened options for both pickers, oldest version first
+    const options = useMemo(
+        () => (design?.versions ?? []).flatMap(version =>
+            version.variations.map(variation => ({ version, variation, side: toCompareSide(version, variation) }))
+        ),
+        [design]
+    );
+
+    // Default to comparing the latest variation against the one before it (usually the previous round)
+    useEffect(() => {
+        if (options.length < 2) return;
+        if (!rightVariationId || !options.some(option => option.variation.id === rightVariationId)) {
+            setRightVariationId(options[options.length - 1].variation.id);
+        }
+        if (!leftVariationId || !options.some(option => option.variation.id === leftVariationId)) {
+            setLeftVariationId(options[options.length - 2].variation.id);
+        }
+    }, [options, leftVariationId, rightVariationId]);
+
+    const { data: diff, isFetching: isDiffing, error: diffError } = useQuery<VariationDiff>({
+        queryKey: ['variationDiff', leftVariationId, rightVariationId],
+        queryFn: () => fetchVariationDiff(leftVariationId!, rightVariationId!),
+        enabled: showDiff && !!leftVariationId && !!rightVariationId && leftVariationId !== rightVariationId,
+        staleTime: 5 * 60 * 1000, // Diffing downloads and decodes both images, so avoid repeating it on every toggle
+    });
+
+    const left = options.find(option => option.variation.id === leftVariationId)?.side;
+    const right = options.find(option => option.variation.id === rightVariationId)?.side;
+
+    if (isLoading) {
+        return <div className="flex justify-center items-center h-screen"><Loader2 className="h-8 w-8 animate-spin" /> Loading Variations...</div>;
+    }
+
+    if (error || !design) {
+        return (
+            <div className="container mx-auto p-4">
+                <h1 className="text-2xl font-bold text-red-600">{error ? 'Error Loading Design' : 'Design Not Found'}</h1>
+                {error && <p>{(error as Error).message}</p>}
+                <Link href={`/projects/${projectId}`} className="text-blue-600 hover:underline mt-4 inline-block">
+                    Return to Project
+                </Link>
+            </div>
+        );
+    }
+
+    const breadcrumbItems: BreadcrumbItem[] = [
+        { label: 'Dashboard', href: '/dashboard' },
+        { label: projectId, href: `/projects/${projectId}` },
+        { label: design.name, href: `/projects/${projectId}/designs/${designId}` },
+        { label: 'Compare' },
+    ];
+
+    const renderPicker = (id: string, label: string, value: string | null, onChange: (value: string) => void) => (
+        <div className="space-y-1 min-w-[220px]">
+            <Label htmlFor={id}>{label}</Label>
+            <Select value={value ?? undefined} onValueChange={onChange}>
+                <SelectTrigger id={id}>
+                    <SelectValue placeholder="Select variation..." />
+                </SelectTrigger>
+                <SelectContent>
+                    {options.map(({ version, variation }) => (
+                        <SelectItem key={variation.id} value={variation.id}>
+                            V{version.version_number} · Variation {variation.variation_letter} ({variation.status})
+                        </SelectItem>
+                    ))}
+                </SelectContent>
+            </Select>
+        </div>
+    );
+
+    return (
+        <div className="container mx-auto p-4 space-y-4 flex flex-col h-[calc(100vh-4rem)]">
+            <Breadcrumbs items={breadcrumbItems} />
+            <div className="flex flex-wrap items-end gap-4">
+                {renderPicker('compareLeft', 'Left', leftVariationId, setLeftVariationId)}
+                {renderPicker('compareRight', 'Right', rightVariationId, setRightVariationId)}
+                <Button variant={showDiff ? 'secondary' : 'outline'} onClick={() => setShowDiff(prev => !prev)} disabled={leftVariationId === rightVariationId}>
+                    {isDiffing ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <ScanSearch className="mr-2 h-4 w-4" />}
+                    {showDiff ? 'Hide Changes' : 'Highlight Changes'}
+                </Button>
+                {showDiff && diff && !isDiffing && (
+                    <span className="text-sm text-muted-foreground pb-2">{diff.changedPercent}% of pixels changed</span>
+                )}
+                {showDiff && diffError && (
+                    <span className="text-sm text-red-600 pb-2">Could not compute changes: {(diffError as Error).message}</span>
+                )}
+            </div>
+            {options.length < 2 ? (
+                <p className="italic text-muted-foreground">This design needs at least two variations to compare.</p>
+            ) : left && right ? (
+                <VariationCompareViewer
+                    left={left}
+                    right={right}
+                    diffOverlayUrl={showDiff && !isDiffing ? diff?.overlay : null}
+                    className="flex-1"
+                />
+            ) : null}
+        </div>
+    );
+}
+
+export default function DesignComparePage() {
+    // useSearchParams needs a Suspense boundary in the app router
+    return (
+        <Suspense fallback={<div className="flex justify-center items-center h-screen"><Loader2 className="h-8 w-8 animate-spin" /></div>}>
+            <DesignComparePageContent />
+        </Suspense>
+    );
+}
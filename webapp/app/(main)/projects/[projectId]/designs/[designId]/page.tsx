@@ -6,7 +6,7 @@ import { useAuth } from '@/providers/AuthProvider';
 import { useParams } from 'next/navigation';
 import { Card, CardHeader, CardTitle, CardDescription, CardContent } from '@/components/ui/card';
 import { Badge } from "@/components/ui/badge";
-import { Loader2, Pencil, Check, X, PlusCircle } from 'lucide-react'; // Removed unused icons: ImageOff, Eye, EyeOff, Trash2, Upload
+import { Loader2, Pencil, Check, X, PlusCircle, Columns2 } from 'lucide-react'; // Removed unused icons: ImageOff, Eye, EyeOff, Trash2, Upload
 import Link from 'next/link';
 import Breadcrumbs, { BreadcrumbItem } from '@/components/ui/breadcrumbs';
 import {
@@ -487,75 +487,82 @@ export default function DesignDetailPage() {
                         <CardTitle>Versions</CardTitle>
                         <CardDescription>Versions associated with this design.</CardDescription>
                     </div>
-                    {/* Add Version Button & Dialog Trigger */}
-                    <VersionDialog open={isAddVersionDialogOpen} onOpenChange={setIsAddVersionDialogOpen}>
-                        <VersionDialogTrigger asChild>
-                            <Button size="sm" disabled={addVersionMutation.isPending}> 
-                                <PlusCircle className="mr-2 h-4 w-4" /> Add Version
-                            </Button>
-                        </VersionDialogTrigger>
-                        {/* --- Add Version Dialog Content --- */}
-                        <VersionDialogContent className="sm:max-w-[425px]">
-                            <VersionDialogHeader>
-                                <VersionDialogTitle>Add New Version V{versions ? (versions[versions.length - 1]?.version_number ?? 0) + 1 : 1}</VersionDialogTitle>
-                                <VersionDialogDescription>
-Select the stage for this new version and add optional notes. Status will default to &apos;Work in Progress&apos;.
-                                </VersionDialogDescription>
-                            </VersionDialogHeader>
-                            <form onSubmit={handleSubmitVersion(handleAddVersionSubmit)} className="space-y-4">
-                                {/* Stage Select (Required) */} 
-                                <div className="space-y-1">
-                                     <VersionLabel htmlFor="versionStage">Stage *</VersionLabel>
-                                     {/* Use Controller for Shadcn Select with react-hook-form */}
-                                     <Controller
-                                        name="stage"
-                                        control={controlVersion}
-                                        render={({ field }) => (
-                                            <Select 
-                                                onValueChange={field.onChange}
-                                                defaultValue={field.value} // Use defaultValue for initial render
-                                                disabled={addVersionMutation.isPending}
-                                            >
-                                                <SelectTrigger id="versionStage">
-                                                    <SelectValue placeholder="Select stage..." />
-                                                </SelectTrigger>
-                                                <SelectContent>
-                                                    {/* Use Object.values for enums */} 
-                                                    {Object.values(DesignStage).map(stage => (
-                                                        <SelectItem key={stage} value={stage}>{stage}</SelectItem>
-                                                    ))}
-                                                </SelectContent>
-                                            </Select>
-                                        )}
-                                    />
-                                     {versionFormErrors.stage && <p className="text-xs text-red-600">{versionFormErrors.stage.message}</p>}
-                                 </div>
-
-                                {/* Notes Textarea (Optional) */} 
-                                <div className="space-y-1">
-                                    <VersionLabel htmlFor="versionNotes">Notes</VersionLabel>
-                                    <Textarea 
-                                        id="versionNotes" 
-                                        rows={4}
-                                        {...registerVersion("notes")} 
-                                        disabled={addVersionMutation.isPending}
-                                        placeholder="Add any relevant notes for this version..."
-                                    />
-                                    {/* Optional: Add error display for notes if validation added */}
-                                </div>
-                                <VersionDialogFooter>
-                                    <VersionDialogClose asChild>
-                                        <Button type="button" variant="outline" disabled={addVersionMutation.isPending}>Cancel</Button>
-                                    </VersionDialogClose>
-                                    <Button type="submit" disabled={addVersionMutation.isPending}>
-                                        {addVersionMutation.isPending 
-                                            ? <><Loader2 className="mr-2 h-4 w-4 animate-spin" /> Adding...</> 
-                                            : `Add Version V${versions ? (versions[versions.length - 1]?.version_number ?? 0) + 1 : 1}`}
-                                    </Button>
-                                </VersionDialogFooter>
-                            </form>
-                        </VersionDialogContent>
-                    </VersionDialog>
+                    <div className="flex items-center gap-2">
+                        <Button size="sm" variant="outline" asChild>
+                            <Link href={`/projects/${params.projectId}/designs/${designId}/compare`}>
+                                <Columns2 className="mr-2 h-4 w-4" /> Compare
+                            </Link>
+                        </Button>
+                        {/* Add Version Button & Dialog Trigger */}
+                        <VersionDialog open={isAddVersionDialogOpen} onOpenChange={setIsAddVersionDialogOpen}>
+                            <VersionDialogTrigger asChild>
+                                <Button size="sm" disabled={addVersionMutation.isPending}> 
+                                    <PlusCircle className="mr-2 h-4 w-4" /> Add Version
+                                </Button>
+                            </VersionDialogTrigger>
+                            {/* --- Add Version Dialog Content --- */}
+                            <VersionDialogContent className="sm:max-w-[425px]">
+                                <VersionDialogHeader>
+                                    <VersionDialogTitle>Add New Version V{versions ? (versions[versions.length - 1]?.version_number ?? 0) + 1 : 1}</VersionDialogTitle>
+                                    <VersionDialogDescription>
+    Select the stage for this new version and add optional notes. Status will default to &apos;Work in Progress&apos;.
+                                    </VersionDialogDescription>
+                                </VersionDialogHeader>
+                                <form onSubmit={handleSubmitVersion(handleAddVersionSubmit)} className="space-y-4">
+                                    {/* Stage Select (Required) */} 
+                                    <div className="space-y-1">
+                                         <VersionLabel htmlFor="versionStage">Stage *</VersionLabel>
+                                         {/* Use Controller for Shadcn Select with react-hook-form */}
+                                         <Controller
+                                            name="stage"
+                                            control={controlVersion}
+                                            render={({ field }) => (
+                                                <Select 
+                                                    onValueChange={field.onChange}
+                                                    defaultValue={field.value} // Use defaultValue for initial render
+                                                    disabled={addVersionMutation.isPending}
+                                                >
+                                                    <SelectTrigger id="versionStage">
+                                                        <SelectValue placeholder="Select stage..." />
+                                                    </SelectTrigger>
+                                                    <SelectContent>
+                                                        {/* Use Object.values for enums */} 
+                                                        {Object.values(DesignStage).map(stage => (
+                                                            <SelectItem key={stage} value={stage}>{stage}</SelectItem>
+                                                        ))}
+                                                    </SelectContent>
+                                                </Select>
+                                            )}
+                                        />
+                                         {versionFormErrors.stage && <p className="text-xs text-red-600">{versionFormErrors.stage.message}</p>}
+                                     </div>
+
+                                    {/* Notes Textarea (Optional) */} 
+                                    <div className="space-y-1">
+                                        <VersionLabel htmlFor="versionNotes">Notes</VersionLabel>
+                                        <Textarea 
+                                            id="versionNotes" 
+                                            rows={4}
+                                            {...registerVersion("notes")} 
+                                            disabled={addVersionMutation.isPending}
+                                            placeholder="Add any relevant notes for this version..."
+                                        />
+                                        {/* Optional: Add error display for notes if validation added */}
+                                    </div>
+                                    <VersionDialogFooter>
+                                        <VersionDialogClose asChild>
+                                            <Button type="button" variant="outline" disabled={addVersionMutation.isPending}>Cancel</Button>
+                                        </VersionDialogClose>
+                                        <Button type="submit" disabled={addVersionMutation.isPending}>
+                                            {addVersionMutation.isPending 
+                                                ? <><Loader2 className="mr-2 h-4 w-4 animate-spin" /> Adding...</> 
+                                                : `Add Version V${versions ? (versions[versions.length - 1]?.version_number ?? 0) + 1 : 1}`}
+                                        </Button>
+                                    </VersionDialogFooter>
+                                </form>
+                            </VersionDialogContent>
+                        </VersionDialog>
+                    </div>
                 </CardHeader>
                 <CardContent>
                    {isLoadingDesign ? (
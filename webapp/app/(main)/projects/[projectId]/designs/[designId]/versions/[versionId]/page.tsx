@@ -30,12 +30,18 @@ import { zodResolver } from '@hookform/resolvers/zod';
 import * as zod from 'zod';
 import { toast } from 'sonner';
 import { VariationDetailModal } from '@/components/modals/VariationDetailModal';
+import { VariationComparisonGrid } from '@/components/compare/VariationComparisonGrid';
 import Dropzone from '@/components/ui/dropzone';
 import { FileRejection } from 'react-dropzone';
 import Image from 'next/image';
 import { nanoid } from 'nanoid';
-import { Loader2, PlusCircle, Pencil, ImageIcon, Trash2 } from 'lucide-react';
+import { Loader2, PlusCircle, Pencil, ImageIcon, Trash2, LayoutGrid } from 'lucide-react';
 import { useReplaceVariationFile, useDeleteVariation } from '@/hooks/mutations';
+import { VariationProcessingStatus } from '@/components/variations/VariationProcessingStatus';
+import { ResponsiveImage } from '@/components/ui/ResponsiveImage';
+import { isProcessingPending, PROCESSING_POLL_INTERVAL_MS } from '@/lib/processingJobs';
+import { useUploadStore } from '@/store/uploadStore';
+import { UPLOAD_POLICY } from '@/lib/uploadPolicy';
 
 // --- Import types from central location --- 
 import {
@@ -45,20 +51,16 @@ import {
     DesignStage,
     VersionRoundStatus,
     Variation,
-    NewVariationData,
     VersionWithDetails,
     VariationFeedbackStatus
 } from '@/types/models';
 
-// --- Define Queue File Type --- Added
+// --- Define Queue File Type ---
+// Files picked in the Add Variation dialog, staged until they're handed to the upload queue
 interface QueueFile {
   id: string; // Unique identifier for the queue item
   file: File;
-  status: 'pending' | 'uploading' | 'success' | 'error' | 'cancelled';
-  progress: number;
   previewUrl: string | null; // Generated using URL.createObjectURL for images
-  error?: string;
-  // We can add xhr/controller later for cancellation
 }
 
 // --- Type Definitions ---
@@ -132,114 +134,7 @@ const fetchVersionWithDetails = async (
 
 // --- Mutation Hooks ---
 
-// --- Add Variation Hook --- Updated
-const useAddVariation = (versionId: string, projectId: string, designId: string) => { // Added projectId, designId for path
-    const { supabase } = useAuth();
-    const queryClient = useQueryClient();
-
-    // Helper to get the next letter
-    const getNextVariationLetter = (existingLetters: string[]): string => {
-        if (!existingLetters || existingLetters.length === 0) {
-            return 'A';
-        }
-        // Sort letters to find the highest reliably (A, B, ..., Z)
-        existingLetters.sort();
-        const lastLetter = existingLetters[existingLetters.length - 1];
-        // Simple increment - assumes single uppercase letters A-Z
-        // TODO: Handle reaching 'Z' if needed (e.g., error, wrap to AA?)
-        return String.fromCharCode(lastLetter.charCodeAt(0) + 1);
-    };
-
-    return useMutation({
-        // Accept file along with notes
-        mutationFn: async ({ notes, file }: { notes?: string | null, file?: File | null }) => {
-            if (!supabase) throw new Error("Supabase client not available");
-            if (!versionId) throw new Error("Version ID is required");
-            if (!projectId) throw new Error("Project ID is required for path");
-            if (!designId) throw new Error("Design ID is required for path");
-
-            // 1. Get next letter
-            const { data: existingVariations, error: fetchError } = await supabase
-                .from('variations')
-                .select('variation_letter')
-                .eq('version_id', versionId);
-            if (fetchError) throw new Error('Could not determine next variation letter.');
-            const existingLetters = existingVariations?.map(v => v.variation_letter) || [];
-            const nextLetter = getNextVariationLetter(existingLetters);
-            if (nextLetter > 'Z') throw new Error('Maximum number of variations reached.');
-
-            // 2. Prepare initial insert data (without file_path)
-            const initialInsertData: Omit<NewVariationData, 'file_path'> = { // Omit file_path initially
-                version_id: versionId,
-                variation_letter: nextLetter,
-                notes: notes || null,
-                status: VariationFeedbackStatus.PendingFeedback, 
-            };
-
-            // 3. Insert initial variation record
-            const { data: newVariation, error: insertError } = await supabase
-                .from('variations')
-                .insert(initialInsertData)
-                .select('id, variation_letter') // Select ID for file path and update
-                .single();
-
-            if (insertError) throw new Error(`Failed to add variation: ${insertError.message}`);
-            if (!newVariation?.id) throw new Error('Failed to get ID of newly created variation.');
-
-            // 4. Handle File Upload if provided
-            let finalFilePath: string | null = null;
-            if (file) {
-                const fileExt = file.name.split('.').pop();
-                const cleanFileName = `${nextLetter}.${fileExt}`; // Use variation letter as filename base
-                finalFilePath = `projects/${projectId}/designs/${designId}/versions/${versionId}/variations/${newVariation.id}/${cleanFileName}`;
-                const bucketName = 'design-variations';
-                
-                console.log(`[AddVariationUpload] Uploading ${file.name} to ${finalFilePath}`);
-                const { error: uploadError } = await supabase.storage
-                    .from(bucketName)
-                    .upload(finalFilePath, file, { upsert: false }); // Don't upsert on initial create
-
-                if (uploadError) {
-                    console.error(`[AddVariationUpload] Upload failed for ${file.name}:`, uploadError);
-                    // Optional: Delete the variation record if upload fails?
-                    // await supabase.from('variations').delete().eq('id', newVariation.id);
-                    throw new Error(`Storage upload failed: ${uploadError.message}`);
-                }
-                console.log(`[AddVariationUpload] Successfully uploaded ${file.name}`);
-
-                // 5. Update variation record with file_path
-                const { error: updateError } = await supabase
-                    .from('variations')
-                    .update({ file_path: finalFilePath })
-                    .eq('id', newVariation.id);
-
-                if (updateError) {
-                    console.error(`[AddVariationUpload] Failed to link file path for variation ${newVariation.id}:`, updateError);
-                    // Don't necessarily fail the whole mutation, but warn the user
-                    toast.warning(`Variation ${nextLetter} created, but failed to link file.`);
-                    // Fall through to return success, but without the file path technically linked
-                }
-                 console.log(`[AddVariationUpload] Successfully linked ${finalFilePath} to variation ${newVariation.id}`);
-            }
-            
-            // Return the ID and Letter, potentially file path if successful
-            return { ...newVariation, file_path: finalFilePath }; 
-        },
-        onSuccess: (data) => {
-            // Don't invalidate here; will be done after the whole queue finishes
-            // queryClient.invalidateQueries({ queryKey: ['version', versionId, 'details'] }); 
-            // We can keep the toast here for individual success if desired, 
-            // but the main toast will be in handleAddVariationSubmit
-            // toast.success(`Variation ${data.variation_letter} added successfully!`); 
-            console.log(`[useAddVariation onSuccess] Variation ${data.variation_letter} created.`);
-        },
-        onError: (error) => {
-            // Log error here, but the main toast will be in handleAddVariationSubmit
-            console.error("[useAddVariation onError]", error);
-            // toast.error(error.message); 
-        },
-    });
-};
+// New variations are created by the app-wide upload queue (hooks/useUploadRunner.ts)
 
 // --- Update Version Hook ---
 const useUpdateVersion = (versionId: string) => {
@@ -287,11 +182,17 @@ const VariationCard: React.FC<{ variation: Variation, onClick: () => void }> = (
     const [thumbnailUrl, setThumbnailUrl] = useState<string | null>(null);
     const [isLoading, setIsLoading] = useState(true);
 
+    // Processed files show their WebP/AVIF renditions with the stored placeholder; others fall back to a signed URL
+    const hasRenditions = !!variation.file_path && variation.processing_status === 'done';
+
     useEffect(() => {
         // Prioritize thumbnail, then preview, then original file for card view
         const pathToFetch = variation.thumbnail_path || variation.preview_path || variation.file_path;
 
-        if (pathToFetch && supabase) {
+        if (hasRenditions) {
+            setThumbnailUrl(null);
+            setIsLoading(false);
+        } else if (pathToFetch && supabase) {
             setIsLoading(true);
             const fetchThumbnailUrl = async () => {
                 try {
@@ -316,7 +217,7 @@ const VariationCard: React.FC<{ variation: Variation, onClick: () => void }> = (
              setThumbnailUrl(null);
              setIsLoading(false);
         }
-    }, [variation.thumbnail_path, variation.preview_path, variation.file_path, supabase]); // Updated dependencies
+    }, [variation.thumbnail_path, variation.preview_path, variation.file_path, hasRenditions, supabase]); // Updated dependencies
 
     return (
         <Card 
@@ -326,6 +227,16 @@ const VariationCard: React.FC<{ variation: Variation, onClick: () => void }> = (
             <CardContent className="p-0 aspect-square flex items-center justify-center bg-muted relative">
                 {isLoading ? (
                     <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+                ) : hasRenditions ? (
+                    <ResponsiveImage
+                        originalPath={variation.file_path!}
+                        alt={`Variation ${variation.variation_letter}`}
+                        sizes="(max-width: 640px) 50vw, (max-width: 768px) 33vw, (max-width: 1024px) 25vw, 20vw"
+                        placeholder={variation.placeholder}
+                        dominantColor={variation.dominant_color}
+                        style={{ objectFit: 'contain' }}
+                        className="absolute inset-0 w-full h-full transition-transform duration-300 group-hover:scale-105"
+                    />
                 ) : thumbnailUrl ? (
                     <Image 
                         src={thumbnailUrl}
@@ -339,7 +250,10 @@ const VariationCard: React.FC<{ variation: Variation, onClick: () => void }> = (
                 )}
             </CardContent>
             <CardFooter className="p-2 flex justify-between items-center bg-background border-t">
-                <span className="font-semibold text-lg">{variation.variation_letter}</span>
+                <span className="flex items-center gap-2">
+                    <span className="font-semibold text-lg">{variation.variation_letter}</span>
+                    <VariationProcessingStatus variation={variation} />
+                </span>
                 <Badge variant={
                     variation.status === VariationFeedbackStatus.Rejected ? 'destructive' 
                     : 'secondary' // Default for Approved, Pending, Needs Changes
@@ -365,6 +279,7 @@ export default function VersionDetailPage() {
     // --- State for Variation Detail Modal --- Added
     const [selectedVariation, setSelectedVariation] = useState<Variation | null>(null);
     const [isVariationModalOpen, setIsVariationModalOpen] = useState(false);
+    const [isComparisonGridOpen, setIsComparisonGridOpen] = useState(false);
     
     // --- State for Signed URLs --- Added
     const [variationSignedUrls, setVariationSignedUrls] = useState<Record<string, string>>({});
@@ -372,7 +287,7 @@ export default function VersionDetailPage() {
 
     // --- Refactored State for Upload Queue --- Changed state variable
     const [uploadQueue, setUploadQueue] = useState<QueueFile[]>([]); 
-    const [isProcessingQueue, setIsProcessingQueue] = useState(false);
+    const enqueueUploads = useUploadStore(state => state.enqueueUploads);
 
     // --- Form Hooks ---
     const {
@@ -402,10 +317,12 @@ export default function VersionDetailPage() {
         queryKey: ['version', versionId, 'details'],
         queryFn: () => fetchVersionWithDetails(supabase, versionId),
         enabled: !!supabase && !!versionId,
+        // Keep polling while any variation is still being processed
+        refetchInterval: (query) =>
+            query.state.data?.variations.some(variation => isProcessingPending(variation.processing_status)) ? PROCESSING_POLL_INTERVAL_MS : false,
     });
 
     // --- Mutations ---
-    const addVariationMutation = useAddVariation(versionId, projectId, designId);
     const updateVersionMutation = useUpdateVersion(versionId);
     const replaceVariationFileMutation = useReplaceVariationFile(versionId, designId, projectId);
 
@@ -441,59 +358,16 @@ export default function VersionDetailPage() {
     }, [versionData?.variations, supabase]); // Dependency: run when variations data changes
 
     // --- Handlers ---
-    const handleAddVariationSubmit = useCallback(async (values: zod.infer<typeof variationSchema>) => {
-        const itemsToUpload = uploadQueue.filter(item => item.status === 'pending');
-        if (itemsToUpload.length === 0) {
+    // Each staged file becomes a variation; the uploads carry on in the tray even if the user leaves this page
+    const handleAddVariationSubmit = (values: zod.infer<typeof variationSchema>) => {
+        if (uploadQueue.length === 0) {
             toast.info("No files in the queue to upload.");
             return;
         }
-
-        setIsProcessingQueue(true); 
-        toast.info(`Starting upload for ${itemsToUpload.length} variation(s)...`);
-        let successCount = 0;
-        let errorCount = 0;
-
-        for (const item of itemsToUpload) {
-            setUploadQueue(prev => prev.map(qItem => 
-                qItem.id === item.id ? { ...qItem, status: 'uploading', progress: 0, error: undefined } : qItem
-            ));
-
-            try {
-                const result = await addVariationMutation.mutateAsync({ 
-                    notes: values.notes, 
-                    file: item.file 
-                }); 
-                
-                setUploadQueue(prev => prev.map(qItem => 
-                    qItem.id === item.id ? { ...qItem, status: 'success', progress: 100 } : qItem
-                ));
-                 // Individual success toast can be added back here if desired, but might be noisy
-                 // toast.success(`Variation ${result.variation_letter} (${item.file.name}) uploaded successfully!`);
-                 successCount++;
-
-            } catch (error: any) {
-                console.error(`Upload failed for ${item.file.name}:`, error);
-                const errorMessage = error instanceof Error ? error.message : 'Unknown upload error';
-                setUploadQueue(prev => prev.map(qItem => 
-                    qItem.id === item.id ? { ...qItem, status: 'error', error: errorMessage } : qItem
-                ));
-                // Individual error toast
-                toast.error(`Upload failed for ${item.file.name}: ${errorMessage}`);
-                errorCount++;
-            }
-        }
-
-        setIsProcessingQueue(false); 
-        toast.info(`Queue processing complete. ${successCount} succeeded, ${errorCount} failed.`);
-        
-        // Invalidate the query ONCE after the loop is finished
-        if (successCount > 0) {
-             queryClient.invalidateQueries({ queryKey: ['version', versionId, 'details'] });
-        }
-        
-        // Don't reset dialog, let user see results
-
-    }, [uploadQueue, addVariationMutation, setUploadQueue, queryClient, versionId]); // Added queryClient, versionId
+        enqueueUploads(uploadQueue.map(item => item.file), { kind: 'variation', projectId, designId, versionId, notes: values.notes || undefined });
+        toast.info(`Uploading ${uploadQueue.length} variation(s)...`);
+        resetAddVariationDialog();
+    };
 
     const handleVersionEditSubmit = (values: VersionEditFormData) => {
         updateVersionMutation.mutate(values, {
@@ -539,8 +413,6 @@ export default function VersionDetailPage() {
              return {
                 id: nanoid(), // Generate unique ID
                 file: file,
-                status: 'pending',
-                progress: 0,
                 previewUrl: previewUrl,
             };
         });
@@ -769,117 +641,124 @@ export default function VersionDetailPage() {
                         <CardTitle>Variations</CardTitle>
                         <CardDescription>Variations within this version.</CardDescription>
                     </div>
-                    <VariationDialog 
-                        open={isAddVariationDialogOpen} 
-                        onOpenChange={handleAddVariationOpenChange} // Use updated handler
-                    >
-                        <VariationDialogTrigger asChild>
-                            {/* Add check for existingLetters length for Z limit */}
-                             <Button size="sm" disabled={addVariationMutation.isPending || getNextVariationLetterForDisplay(existingLetters) > 'Z'}> 
-                                <PlusCircle className="mr-2 h-4 w-4" /> Add Variation(s)
-                            </Button>
-                        </VariationDialogTrigger>
-                        <VariationDialogContent className="sm:max-w-lg"> 
-                            <VariationDialogHeader>
-                                <VariationDialogTitle>Add New Variation(s)</VariationDialogTitle>
-                                <VariationDialogDescription>
-                                    Drop files below. Each file will become a new variation. Notes apply to the first file added.
-                                </VariationDialogDescription>
-                            </VariationDialogHeader>
-                            {/* NOTE: Removed outer form tag if Dropzone is inside, or keep if Dropzone is separate field */}
-                             <div className="space-y-4"> {/* Replaced form tag with div for now */}
-                                {/* File Input Dropzone */}
-                                <div className="space-y-2">
-                                    <VariationLabel htmlFor="variationFile">Files</VariationLabel>
-                                    <Dropzone
-                                        onFilesAccepted={handleNewVariationFileAccepted}
-                                        onFilesRejected={handleNewVariationFileRejected}
-                                        // accept={{ 'image/*': [] }} // Example accept prop
-                                        maxSize={20 * 1024 * 1024} // Increased max size example
-                                        multiple={true} // Explicitly allow multiple files
-                                    />
-                                </div>
-
-                                {/* Upload Queue Display Area - Added */}
-                                {uploadQueue.length > 0 && (
+                    <div className="flex items-center gap-2">
+                        <Button
+                            size="sm"
+                            variant="outline"
+                            onClick={() => setIsComparisonGridOpen(true)}
+                            disabled={!versionData.variations || versionData.variations.length < 2}
+                        >
+                            <LayoutGrid className="mr-2 h-4 w-4" /> Compare Grid
+                        </Button>
+                        <VariationDialog 
+                            open={isAddVariationDialogOpen} 
+                            onOpenChange={handleAddVariationOpenChange} // Use updated handler
+                        >
+                            <VariationDialogTrigger asChild>
+                                {/* Add check for existingLetters length for Z limit */}
+                                 <Button size="sm" disabled={getNextVariationLetterForDisplay(existingLetters) > 'Z'}> 
+                                    <PlusCircle className="mr-2 h-4 w-4" /> Add Variation(s)
+                                </Button>
+                            </VariationDialogTrigger>
+                            <VariationDialogContent className="sm:max-w-lg"> 
+                                <VariationDialogHeader>
+                                    <VariationDialogTitle>Add New Variation(s)</VariationDialogTitle>
+                                    <VariationDialogDescription>
+                                        Drop files below. Each file will become a new variation. Notes apply to the first file added.
+                                    </VariationDialogDescription>
+                                </VariationDialogHeader>
+                                {/* NOTE: Removed outer form tag if Dropzone is inside, or keep if Dropzone is separate field */}
+                                 <div className="space-y-4"> {/* Replaced form tag with div for now */}
+                                    {/* File Input Dropzone */}
                                     <div className="space-y-2">
-                                        <VariationLabel>Upload Queue ({uploadQueue.length})</VariationLabel>
-                                        <div className="h-40 w-full rounded-md border p-2 overflow-y-auto"> {/* Added basic CSS scroll */}
-                                            <div className="space-y-2">
-                                                {uploadQueue.map((item) => (
-                                                    <div key={item.id} className="flex items-center space-x-2 p-1 border rounded-md bg-muted/50">
-                                                        {item.previewUrl ? (
-                                                            <Image 
-                                                                src={item.previewUrl} 
-                                                                alt="Preview" 
-                                                                width={100}
-                                                                height={100}
-                                                                className="h-10 w-10 object-contain border rounded-sm flex-shrink-0"
-                                                            />
-                                                        ) : (
-                                                            <div className="h-10 w-10 bg-muted rounded-sm flex items-center justify-center flex-shrink-0">
-                                                                <ImageIcon className="h-5 w-5 text-muted-foreground" /> 
+                                        <VariationLabel htmlFor="variationFile">Files</VariationLabel>
+                                        <Dropzone
+                                            onFilesAccepted={handleNewVariationFileAccepted}
+                                            onFilesRejected={handleNewVariationFileRejected}
+                                            // accept={{ 'image/*': [] }} // Example accept prop
+                                            maxSize={UPLOAD_POLICY.maxFileSizeBytes}
+                                            multiple={true} // Explicitly allow multiple files
+                                        />
+                                    </div>
+
+                                    {/* Upload Queue Display Area - Added */}
+                                    {uploadQueue.length > 0 && (
+                                        <div className="space-y-2">
+                                            <VariationLabel>Upload Queue ({uploadQueue.length})</VariationLabel>
+                                            <div className="h-40 w-full rounded-md border p-2 overflow-y-auto"> {/* Added basic CSS scroll */}
+                                                <div className="space-y-2">
+                                                    {uploadQueue.map((item) => (
+                                                        <div key={item.id} className="flex items-center space-x-2 p-1 border rounded-md bg-muted/50">
+                                                            {item.previewUrl ? (
+                                                                <Image 
+                                                                    src={item.previewUrl} 
+                                                                    alt="Preview" 
+                                                                    width={100}
+                                                                    height={100}
+                                                                    className="h-10 w-10 object-contain border rounded-sm flex-shrink-0"
+                                                                />
+                                                            ) : (
+                                                                <div className="h-10 w-10 bg-muted rounded-sm flex items-center justify-center flex-shrink-0">
+                                                                    <ImageIcon className="h-5 w-5 text-muted-foreground" /> 
+                                                                </div>
+                                                            )}
+                                                            <div className="text-sm overflow-hidden flex-grow">
+                                                                <p className="font-medium truncate" title={item.file.name}>{item.file.name}</p>
+                                                                <p className="text-xs text-muted-foreground">
+                                                                    {(item.file.size / 1024).toFixed(1)} KB
+                                                                </p>
                                                             </div>
-                                                        )}
-                                                        <div className="text-sm overflow-hidden flex-grow">
-                                                            <p className="font-medium truncate" title={item.file.name}>{item.file.name}</p>
-                                                            <p className="text-xs text-muted-foreground">
-                                                                {(item.file.size / 1024).toFixed(1)} KB - {item.status}
-                                                                {/* TODO: Add Progress Bar later */}
-                                                            </p>
+                                                            <Button 
+                                                                type="button" 
+                                                                variant="ghost" 
+                                                                size="icon" 
+                                                                className="h-6 w-6 text-muted-foreground hover:text-destructive flex-shrink-0"
+                                                                onClick={() => handleRemoveFromQueue(item.id)}
+                                                                aria-label="Remove from queue"
+                                                            >
+                                                                <Trash2 className="h-4 w-4" />
+                                                            </Button>
                                                         </div>
-                                                        <Button 
-                                                            type="button" 
-                                                            variant="ghost" 
-                                                            size="icon" 
-                                                            className="h-6 w-6 text-muted-foreground hover:text-destructive flex-shrink-0"
-                                                            onClick={() => handleRemoveFromQueue(item.id)}
-                                                            aria-label="Remove from queue"
-                                                            disabled={item.status === 'uploading'} // Disable remove during upload
-                                                        >
-                                                            <Trash2 className="h-4 w-4" />
-                                                        </Button>
-                                                    </div>
-                                                ))}
+                                                    ))}
+                                                </div>
                                             </div>
                                         </div>
+                                    )}
+
+                                    {/* Notes Textarea - Now outside form if we removed outer form tag */}
+                                    <div className="space-y-1">
+                                        <VariationLabel htmlFor="variationNotes">Notes (Optional)</VariationLabel>
+                                        {/* Assuming useForm is still managing this */}
+                                        <VariationTextarea 
+                                            id="variationNotes" 
+                                            rows={3}
+                                            placeholder="Enter notes about the variation(s)..."
+                                            {...registerVariation("notes")} // This needs to be inside a <form> context
+                                        />
                                     </div>
-                                )}
-
-                                {/* Notes Textarea - Now outside form if we removed outer form tag */}
-                                <div className="space-y-1">
-                                    <VariationLabel htmlFor="variationNotes">Notes (Optional)</VariationLabel>
-                                    {/* Assuming useForm is still managing this */}
-                                    <VariationTextarea 
-                                        id="variationNotes" 
-                                        rows={3}
-                                        placeholder="Enter notes about the variation(s)..."
-                                        {...registerVariation("notes")} // This needs to be inside a <form> context
-                                        disabled={addVariationMutation.isPending}
-                                    />
-                                </div>
                                 
-                                {/* We might need to wrap Notes and Footer in the form again if registerVariation is used */}
-                                <form onSubmit={handleSubmitVariation(handleAddVariationSubmit)}>
-                                     {/* Re-add Notes Textarea here if needed by react-hook-form */}
-                                     {/* ... */}
-                                <VariationDialogFooter>
-                                        {/* Add asChild here */}
-                                    <VariationDialogClose asChild>
-                                            <Button type="button" variant="outline" onClick={resetAddVariationDialog} disabled={addVariationMutation.isPending}>Cancel</Button>
-                                    </VariationDialogClose>
-                                        {/* Changed button text, disabled if queue is empty */}
-                                        <Button 
-                                            type="submit" 
-                                            disabled={addVariationMutation.isPending || uploadQueue.filter((f: QueueFile) => f.status === 'pending').length === 0}
-                                        >
-                                            {addVariationMutation.isPending ? <><Loader2 className="mr-2 h-4 w-4 animate-spin" /> Uploading...</> : `Upload Queued Files`}
-                                    </Button>
-                                </VariationDialogFooter>
-                            </form>
-                            </div> {/* End of space-y-4 div */}
-                        </VariationDialogContent>
-                    </VariationDialog>
+                                    {/* We might need to wrap Notes and Footer in the form again if registerVariation is used */}
+                                    <form onSubmit={handleSubmitVariation(handleAddVariationSubmit)}>
+                                         {/* Re-add Notes Textarea here if needed by react-hook-form */}
+                                         {/* ... */}
+                                    <VariationDialogFooter>
+                                            {/* Add asChild here */}
+                                        <VariationDialogClose asChild>
+                                                <Button type="button" variant="outline" onClick={resetAddVariationDialog}>Cancel</Button>
+                                        </VariationDialogClose>
+                                            {/* Changed button text, disabled if queue is empty */}
+                                            <Button 
+                                                type="submit" 
+                                                disabled={uploadQueue.length === 0}
+                                            >
+                                                Upload Queued Files
+                                        </Button>
+                                    </VariationDialogFooter>
+                                </form>
+                                </div> {/* End of space-y-4 div */}
+                            </VariationDialogContent>
+                        </VariationDialog>
+                    </div>
                 </CardHeader>
                 <CardContent>
                    {isLoading || isLoadingUrls ? ( 
@@ -903,6 +782,14 @@ export default function VersionDetailPage() {
                 </CardContent>
             </Card>
 
+            <VariationComparisonGrid
+                isOpen={isComparisonGridOpen}
+                onOpenChange={setIsComparisonGridOpen}
+                variations={versionData.variations}
+                versionId={versionId}
+                versionNumber={versionData.version_number}
+            />
+
             {/* Render the Variation Detail Modal (controlled) */}
             <VariationDetailModal 
                 isOpen={isVariationModalOpen}
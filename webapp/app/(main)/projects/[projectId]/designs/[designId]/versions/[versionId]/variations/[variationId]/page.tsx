@@ -1,12 +1,12 @@
 'use client';
 
-import { useState, useEffect, useCallback } from 'react';
+import { useState, useEffect, useCallback, useMemo } from 'react';
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { useAuth } from '@/providers/AuthProvider';
 import { useParams } from 'next/navigation';
 import { Card, CardHeader, CardTitle, CardDescription, CardContent } from '@/components/ui/card';
 import { Badge } from "@/components/ui/badge";
-import { Loader2, Pencil, X } from 'lucide-react';
+import { Loader2, Pencil, X, MapPin, PenTool, Palette, Pause, Play } from 'lucide-react';
 import Link from 'next/link';
 import Breadcrumbs, { BreadcrumbItem } from '@/components/ui/breadcrumbs';
 import { Button } from '@/components/ui/button';
@@ -21,7 +21,20 @@ import Dropzone from '@/components/ui/dropzone';
 import { Progress } from "@/components/ui/progress";
 import { useRef } from 'react';
 import { getProcessedImagePath, getPublicImageUrl } from '@/lib/imageUtils';
+import { useUploadStore } from '@/store/uploadStore';
+import { UPLOAD_POLICY } from '@/lib/uploadPolicy';
 import { LARGE_WIDTH } from '@/lib/constants/imageConstants';
+import { Comment, PaletteColor, ProcessingJobStatus, SwatchFeedback } from '@/types/models';
+import { useAddComment, useUpdateComment, useDeleteComment } from '@/hooks/mutations';
+import { CommentThread, CommentTreeNode, buildCommentTree } from '@/components/comments/CommentThread';
+import { CommentPinLayer } from '@/components/comments/CommentPinLayer';
+import { getCommentPins, PinPoint } from '@/lib/commentPins';
+import { AnnotationReviewPanel } from '@/components/AnnotationCanvas/AnnotationReviewPanel';
+import { VariationFileHistory } from '@/components/variations/VariationFileHistory';
+import { VariationProcessingStatus } from '@/components/variations/VariationProcessingStatus';
+import { PageStepper } from '@/components/variations/PageStepper';
+import { SwatchStrip, SwatchChange } from '@/components/variations/SwatchStrip';
+import { isProcessingPending, PROCESSING_POLL_INTERVAL_MS } from '@/lib/processingJobs';
 
 // --- Type Definitions ---
 // (Ideally share these globally)
@@ -46,8 +59,17 @@ type Variation = {
     status: VariationFeedbackStatus;
     created_at: string;
     file_path: string | null; // Added field for storage path
+    processing_status?: ProcessingJobStatus | null;
+    page_count?: number | null;
+    palette?: PaletteColor[] | null;
+    original_width?: number | null;
+    original_height?: number | null;
+    was_resized?: boolean;
 };
 
+// Which threads the feedback list shows; swatch threads are the ones started from the palette
+type FeedbackFilter = 'all' | 'swatch' | 'general';
+
 // --- Zod Schema for Editing Variation ---
 const variationEditSchema = zod.object({
   notes: zod.string().optional(),
@@ -55,17 +77,6 @@ const variationEditSchema = zod.object({
 });
 type VariationEditFormData = zod.infer<typeof variationEditSchema>;
 
-// Interface for tracking individual file upload state
-interface UploadingFileInfo {
-  id: string;
-  file: File;
-  previewUrl: string;
-  status: 'pending' | 'uploading' | 'success' | 'error' | 'cancelled';
-  progress: number;
-  error?: string;
-  xhr?: XMLHttpRequest;
-}
-
 // Environment variables (needed for image URLs)
 const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL;
 const processedBucketName = process.env.NEXT_PUBLIC_SUPABASE_PROCESSED_BUCKET;
@@ -126,7 +137,7 @@ const fetchVariation = async (supabase: unknown, variationId: string): Promise<V
     const client = supabase as any; // Temporary assertion
     const { data, error } = await client
         .from('variations')
-        .select('id, version_id, variation_letter, notes, status, created_at, file_path') // Select new field
+        .select('id, version_id, variation_letter, notes, status, created_at, file_path, processing_status, page_count, palette, original_width, original_height, was_resized')
         .eq('id', variationId)
         .single();
     
@@ -138,6 +149,22 @@ const fetchVariation = async (supabase: unknown, variationId: string): Promise<V
     return data;
 };
 
+// Fetch Comments (with author and attachments) for the feedback section
+const fetchCommentsForVariation = async (supabase: unknown, variationId: string): Promise<Comment[]> => {
+    if (!variationId) return [];
+    const client = supabase as any; // Temporary assertion
+    const { data, error } = await client
+        .from('comments')
+        .select('*, profiles:user_id ( display_name ), attachments (*)')
+        .eq('variation_id', variationId)
+        .order('created_at', { ascending: true });
+    if (error) {
+        console.error('Error fetching comments:', error);
+        throw new Error(error.message);
+    }
+    return data || [];
+};
+
 // --- Mutation Hooks ---
 
 // --- Update Variation Hook ---
@@ -179,8 +206,8 @@ const useUpdateVariation = (variationId: string) => {
     });
 };
 
-// --- Upload Hook Refactor (Removed - Logic integrated into component) ---
-// We'll manage the queue and individual uploads directly in the component state for now.
+// --- Uploads ---
+// New files for this variation go through the app-wide upload queue (store/uploadStore.ts)
 
 // Helper function to get filename from path
 const getFilenameFromPath = (path: string | null | undefined): string | null => {
@@ -190,7 +217,7 @@ const getFilenameFromPath = (path: string | null | undefined): string | null =>
 
 // --- Component ---
 export default function VariationDetailPage() {
-    const { supabase } = useAuth();
+    const { supabase, user } = useAuth();
     const params = useParams();
     const projectId = params.projectId as string;
     const designId = params.designId as string;
@@ -198,19 +225,30 @@ export default function VariationDetailPage() {
     const variationId = params.variationId as string;
     const queryClient = useQueryClient();
     const [isEditingVariation, setIsEditingVariation] = useState(false);
+    const [isAnnotating, setIsAnnotating] = useState(false); // Review mode with the annotation canvas
+
+    // State for the feedback composer and image pins
+    const [newCommentText, setNewCommentText] = useState('');
+    const [replyingToCommentId, setReplyingToCommentId] = useState<string | null>(null);
+    const [pendingPin, setPendingPin] = useState<PinPoint | null>(null);
+    const [activePinCommentId, setActivePinCommentId] = useState<string | null>(null);
+    const [pendingSwatch, setPendingSwatch] = useState<SwatchFeedback | null>(null);
+    const [feedbackFilter, setFeedbackFilter] = useState<FeedbackFilter>('all');
+    const commentInputRef = useRef<HTMLTextAreaElement>(null);
     
-    // State for upload queue
-    const [uploadQueue, setUploadQueue] = useState<UploadingFileInfo[]>([]);
-    // Ref to hold the latest queue state for callbacks
-    const uploadQueueRef = useRef(uploadQueue);
+    // Uploads of new files for this variation, from the app-wide queue so they keep going if the user navigates away
+    const { uploads, enqueueUploads, pauseUpload, resumeUpload, cancelUpload } = useUploadStore();
+    const variationUploads = useMemo(
+        () => uploads.filter(upload => upload.target.kind === 'replace' && upload.target.variationId === variationId),
+        [uploads, variationId]
+    );
     
     // State for existing file display (changed from signedUrl to imageUrl)
     const [imageUrl, setImageUrl] = useState<string | null>(null);
     const [urlLoading, setUrlLoading] = useState<boolean>(false);
     const [urlError, setUrlError] = useState<string | null>(null);
-
-    // Concurrency Limit
-    const MAX_CONCURRENT_UPLOADS = 3;
+    // 1-based page shown for multi-page originals (PDF); pins and annotations live on page 1
+    const [page, setPage] = useState(1);
 
     // --- Form Hooks ---
     const {
@@ -250,14 +288,40 @@ export default function VariationDetailPage() {
         queryKey: ['variation', variationId],
         queryFn: () => fetchVariation(supabase, variationId),
         enabled: !!supabase && !!variationId,
+        refetchInterval: (query) => isProcessingPending(query.state.data?.processing_status) ? PROCESSING_POLL_INTERVAL_MS : false,
     });
 
-    // --- Effects ---
-    // Effect to keep the ref updated with the latest queue state
-    useEffect(() => {
-        uploadQueueRef.current = uploadQueue;
-    }, [uploadQueue]);
+    const { data: comments, isLoading: isLoadingComments, error: commentsError } = useQuery<Comment[]>({
+        queryKey: ['comments', variationId],
+        queryFn: () => fetchCommentsForVariation(supabase, variationId),
+        enabled: !!supabase && !!variationId,
+    });
 
+    // Numbered pins for top-level comments that were placed on the image
+    const commentPins = useMemo(() => getCommentPins(comments ?? []), [comments]);
+    const pinNumbers = useMemo(
+        () => Object.fromEntries(commentPins.map(pin => [pin.commentId, pin.number])),
+        [commentPins]
+    );
+
+    // Swatch threads per palette color, for the counts on the swatch strip
+    const swatchCommentCounts = useMemo(() => {
+        const counts: Record<string, number> = {};
+        for (const comment of comments ?? []) {
+            if (comment.swatch_color && !comment.parent_comment_id) {
+                counts[comment.swatch_color] = (counts[comment.swatch_color] ?? 0) + 1;
+            }
+        }
+        return counts;
+    }, [comments]);
+
+    const visibleThreads = useMemo(() => buildCommentTree(comments ?? []).filter(root => {
+        if (feedbackFilter === 'swatch') return !!root.swatch_color;
+        if (feedbackFilter === 'general') return !root.swatch_color;
+        return true;
+    }), [comments, feedbackFilter]);
+
+    // --- Effects ---
     // Effect for generating public URL for existing processed file
     useEffect(() => {
         setUrlLoading(true);
@@ -273,7 +337,7 @@ export default function VariationDetailPage() {
 
         if (variation?.file_path) {
             try {
-                const processedPath = getProcessedImagePath(variation.file_path, LARGE_WIDTH);
+                const processedPath = getProcessedImagePath(variation.file_path, LARGE_WIDTH, page);
                 const publicUrl = getPublicImageUrl(supabaseUrl, processedBucketName, processedPath);
                 setImageUrl(publicUrl);
                 setUrlError(null);
@@ -288,236 +352,12 @@ export default function VariationDetailPage() {
             setUrlError(null); // Not an error, just no image
             setUrlLoading(false);
         }
-    }, [variation?.file_path, supabaseUrl, processedBucketName]); // Re-run if path or config changes
-
-    // Effect to cleanup preview URLs for the upload queue
-    useEffect(() => {
-        return () => uploadQueue.forEach(fileInfo => {
-            if (fileInfo.previewUrl) URL.revokeObjectURL(fileInfo.previewUrl);
-        });
-    }, []); 
-
-    // --- Add Mutation Hook for updating file path after upload ---
-    const updateVariationFilePathMutation = useMutation({
-        mutationFn: async (newFilePath: string) => {
-            if (!supabase) throw new Error("Supabase client not available");
-            if (!variationId) throw new Error("Variation ID is required");
-
-            const { data, error } = await supabase
-                .from('variations')
-                .update({ file_path: newFilePath })
-                .eq('id', variationId)
-                .select()
-                .single();
-
-            if (error) {
-                console.error('Error updating variation file path:', error);
-                throw new Error(`Failed to update variation file path: ${error.message}`);
-            }
-            return data;
-        },
-        onSuccess: (data) => {
-             // No need for a separate toast here, upload success toast is sufficient
-             console.log(`Variation ${data.variation_letter} file path updated to: ${data.file_path}`);
-             // Invalidate variation data to show the new file display
-             queryClient.invalidateQueries({ queryKey: ['variation', variationId] });
-        },
-        onError: (error) => {
-            // Toast handled in the calling function (xhr.onload)
-            console.error("Mutation error updating file path:", error);
-        },
-    });
-
-    // --- Function to Start Single File Upload (MODIFIED) ---
-    const startSingleFileUpload = useCallback(async (fileId: string) => {
-        // Get the CURRENT queue state from the ref
-        const currentQueue = uploadQueueRef.current;
-        const fileInfo = currentQueue.find(f => f.id === fileId);
-
-        // Check if file exists and is actually in 'uploading' state now
-        if (!fileInfo || fileInfo.status !== 'uploading') {
-            console.warn(`[startSingleFileUpload] Skipping ${fileId}. Reason: Not found in queue or status is not 'uploading'. Status: ${fileInfo?.status}`);
-            return; 
-        }
-
-        // Get the file object from the found info
-        const currentFileToUpload = fileInfo.file; 
-
-        console.log(`[startSingleFileUpload - Step 3] Proceeding with async upload logic for ${currentFileToUpload.name}`);
-        if (!supabase) {
-             console.error(`[startSingleFileUpload - Step 3] Supabase client is missing! Cannot upload ${(currentFileToUpload as File).name}`);
-             // Update state to show error
-             setUploadQueue(prevQueue => prevQueue.map(f => f.id === fileId ? { ...f, status: 'error', error: 'Supabase client unavailable' } : f));
-             return;
-        }
-
-        const filePath = `projects/${projectId}/designs/${designId}/versions/${versionId}/variations/${variationId}/${(currentFileToUpload as File).name}`;
-        const bucketName = 'design-variations';
-
-        try {
-            console.log(`[startSingleFileUpload - Step 4] Attempting to get signed URL for bucket '${bucketName}', path: ${filePath}`);
-            const { data: uploadUrlData, error: urlError } = await supabase.storage
-                .from(bucketName)
-                .createSignedUploadUrl(filePath, { upsert: true });
-
-            if (urlError) { 
-                console.error(`[startSingleFileUpload - Step 4] Error getting signed URL for ${(currentFileToUpload as File).name}:`, urlError);
-                console.error('[startSingleFileUpload - Step 4] Full Signed URL Error Object:', JSON.stringify(urlError, null, 2));
-                throw urlError;
-            }
-            if (!uploadUrlData?.signedUrl) { 
-                 console.error(`[startSingleFileUpload - Step 4] No signed URL returned for ${(currentFileToUpload as File).name}. Data received:`, uploadUrlData);
-                 throw new Error("Could not get signed upload URL. No URL present in response.");
-            }
-            console.log(`[startSingleFileUpload - Step 5] Successfully got signed URL for ${(currentFileToUpload as File).name}`);
-
-            const xhr = new XMLHttpRequest();
-            // Store XHR - Requires careful state update if we move this logic
-            setUploadQueue(prevQueue => prevQueue.map(f => f.id === fileId ? { ...f, xhr: xhr } : f)); 
-
-            console.log(`[startSingleFileUpload - Step 6] Opening XHR PUT for ${(currentFileToUpload as File).name}`);
-            xhr.open('PUT', uploadUrlData.signedUrl, true);
-            console.log(`[startSingleFileUpload - Step 7] Setting XHR headers for ${(currentFileToUpload as File).name}`);
-            xhr.setRequestHeader('Content-Type', (currentFileToUpload as File).type || 'application/octet-stream');
-
-            xhr.upload.onprogress = (event) => {
-                if (event.lengthComputable) {
-                    const percentage = Math.round((event.loaded * 100) / event.total);
-                    setUploadQueue(prevQueue =>
-                        prevQueue.map(f => f.id === fileId ? { ...f, progress: percentage } : f)
-                    );
-                }
-            };
-
-            xhr.onload = async () => {
-                 // Use functional update to get the latest state
-                 setUploadQueue(prevQueue => {
-                    const currentFileState = prevQueue.find(f => f.id === fileId);
-                    // Exit if cancelled or not found
-                    if (!currentFileState || currentFileState.status === 'cancelled') return prevQueue;
-                    const currentFile = currentFileState.file;
-
-                    if (xhr.status >= 200 && xhr.status < 300) {
-                        console.log(`${currentFile.name} uploaded successfully to storage. File path: ${filePath}`);
-                        toast.success(`${currentFile.name} uploaded successfully!`);
-                        
-                        // --- Update Variation file_path in DB ---
-                        updateVariationFilePathMutation.mutate(filePath, {
-                            onError: (error) => {
-                                // Handle DB update failure specifically
-                                console.error(`Failed to update database for ${currentFile.name}:`, error);
-                                toast.error(`Upload complete, but failed to update database record for ${currentFile.name}.`);
-                                // Keep status as success? Or revert? For now, keep success as file is in storage.
-                                // Consider adding a retry mechanism or manual update option later.
-                            }
-                        });
-                        // ------------------------------------------
-
-                        // Return updated state *immediately* for UI feedback
-                        return prevQueue.map(f => f.id === fileId ? { ...f, status: 'success', progress: 100, xhr: undefined } : f);
-                    } else {
-                        console.error(`Upload failed for ${currentFile.name}. Status: ${xhr.status}, Text: ${xhr.statusText}`);
-                        toast.error(`Upload failed for ${currentFile.name}.`);
-                        // Return updated state
-                        return prevQueue.map(f => f.id === fileId ? { ...f, status: 'error', error: `Upload failed: ${xhr.statusText || xhr.status}`, xhr: undefined } : f);
-                    }
-                 });
-                 // Removed await here as the state update needs to happen synchronously for UI
-                 // and the mutation handles its own async logic.
-            };
-
-            xhr.onerror = () => {
-                setUploadQueue(prevQueue => {
-                    const currentFileState = prevQueue.find(f => f.id === fileId);
-                    // Exit if cancelled or not found
-                    if (!currentFileState || currentFileState.status === 'cancelled') return prevQueue; 
-                    // Re-get the file object for type safety inside callback
-                    const currentFile = currentFileState.file;
-
-                    toast.error(`Network error during upload for ${currentFile.name}.`);
-                    return prevQueue.map(f => f.id === fileId ? { ...f, status: 'error', error: 'Network error', xhr: undefined } : f);
-                });
-            };
-
-            xhr.onabort = () => {
-                 console.log(`Upload aborted for file ID: ${fileId}`); 
-                 setUploadQueue(prevQueue => prevQueue.map(f => f.id === fileId ? { ...f, status: 'cancelled', progress: 0, xhr: undefined } : f));
-            };
-
-            console.log(`[startSingleFileUpload - Step 8] Sending XHR for ${(currentFileToUpload as File).name}`);
-            xhr.send(currentFileToUpload);
-            console.log(`[startSingleFileUpload - Step 9] XHR send() method called successfully for ${(currentFileToUpload as File).name}`);
-
-        } catch (error: any) {
-             console.error(`[startSingleFileUpload - Step CATCH] CRITICAL FAILURE during upload setup for: ${(currentFileToUpload as File)?.name || fileId}`);
-             console.error("[startSingleFileUpload - Step CATCH] Error Details:", error);
-             const errorMessage = error instanceof Error ? error.message : JSON.stringify(error);
-             toast.error(`Could not start upload for ${(currentFileToUpload as File)?.name || 'file'}. Error: ${errorMessage}`);
-             setUploadQueue(prevQueue => prevQueue.map(f => f.id === fileId ? { ...f, status: 'error', error: `Setup failed: ${errorMessage}`, xhr: undefined } : f));
-        }
-
-    }, [supabase, variationId, projectId, designId, versionId, queryClient, updateVariationFilePathMutation]);
-
-    // --- Upload Management Effect (MODIFIED - Step 2) --- 
-    useEffect(() => {
-        if (!supabase) return; 
-        
-        const uploadingCount = uploadQueue.filter(f => f.status === 'uploading').length;
-        const pendingFiles = uploadQueue.filter(f => f.status === 'pending');
-        const slotsAvailable = MAX_CONCURRENT_UPLOADS - uploadingCount;
-
-        if (slotsAvailable > 0 && pendingFiles.length > 0) {
-            const filesToMarkUploading = pendingFiles.slice(0, slotsAvailable);
-            const filesToMarkIds = filesToMarkUploading.map(f => f.id);
-            
-            // Update state to mark selected pending files as 'uploading'
-            setUploadQueue(currentQueue => 
-                currentQueue.map(fileInfo => 
-                    filesToMarkIds.includes(fileInfo.id)
-                        ? { ...fileInfo, status: 'uploading' } 
-                        : fileInfo
-                )
-            );
-            
-            // // Original logic removed - we no longer call startSingleFileUpload directly here
-            // filesToStart.forEach(fileInfo => {
-            //     startSingleFileUpload(fileInfo.id);
-            // });
-        }
-    // Remove startSingleFileUpload from dependencies as it's no longer called here
-    }, [uploadQueue, supabase]); 
+    }, [variation?.file_path, page, supabaseUrl, processedBucketName]); // Re-run if path, page or config changes
 
-    // --- New Effect for executing uploads (ADDED - Step 3) --- 
+    // A different file starts again from its first page
     useEffect(() => {
-        // Find files that are marked as 'uploading' but haven't started the XHR process yet
-        const filesToActuallyStart = uploadQueue.filter(
-            (fileInfo) => fileInfo.status === 'uploading' && fileInfo.xhr === undefined
-        );
-
-        if (filesToActuallyStart.length > 0) {
-             console.log(`[Upload Trigger Effect] Found ${filesToActuallyStart.length} file(s) marked for upload. Starting them...`);
-             filesToActuallyStart.forEach((fileInfo) => {
-                // Now call the async function to handle the actual upload
-                startSingleFileUpload(fileInfo.id);
-            });
-        }
-    // This effect depends on the queue content and the function to start the upload
-    }, [uploadQueue, startSingleFileUpload]);
-
-    // --- Cancel Upload Function ---
-     const cancelUpload = useCallback((fileId: string) => {
-        setUploadQueue(prevQueue => {
-            const fileToCancel = prevQueue.find(f => f.id === fileId);
-            if (fileToCancel?.xhr && fileToCancel.status === 'uploading') {
-                 console.log(`Attempting to cancel upload for: ${fileToCancel.file.name}`);
-                 fileToCancel.xhr.abort(); 
-                 toast.info(`Upload for ${fileToCancel.file.name} cancelled.`);
-                 // State update is handled by onabort, but set status optimistically
-                 return prevQueue.map(f => f.id === fileId ? { ...f, status: 'cancelled', progress: 0 } : f); 
-            }
-            return prevQueue; 
-        });
-    }, []);
+        setPage(1);
+    }, [variation?.file_path]);
 
     // --- Handlers ---
     const handleVariationEditSubmit = (values: VariationEditFormData) => {
@@ -545,15 +385,8 @@ export default function VariationDetailPage() {
     // Dropzone Handlers
     const onFilesAccepted = useCallback((acceptedFiles: File[]) => {
         console.log('Batch Accepted files:', acceptedFiles);
-        const newUploads: UploadingFileInfo[] = acceptedFiles.map(file => ({
-            id: `${file.name}-${file.lastModified}-${Math.random()}`,
-            file: file,
-            previewUrl: file.type.startsWith('image/') ? URL.createObjectURL(file) : '',
-            status: 'pending',
-            progress: 0,
-        }));
-        setUploadQueue(prevQueue => [...prevQueue, ...newUploads]);
-    }, []); 
+        enqueueUploads(acceptedFiles, { kind: 'replace', projectId, designId, versionId, variationId });
+    }, [enqueueUploads, projectId, designId, versionId, variationId]); 
 
     const onFilesRejected = useCallback((fileRejections: any[]) => {
         console.log('Rejected files:', fileRejections);
@@ -562,7 +395,7 @@ export default function VariationDetailPage() {
             let message = 'Invalid file';
              if (firstError) {
                 if (firstError.code === 'file-too-large') {
-                    message = `File is too large. Max size is 10MB.`;
+                    message = `File is too large. Max size is ${Math.round(UPLOAD_POLICY.maxFileSizeBytes / (1024 * 1024))}MB.`;
                 } else if (firstError.code === 'file-invalid-type') {
                     message = `Invalid file type.`;
                 } else {
@@ -575,6 +408,52 @@ export default function VariationDetailPage() {
     
     // --- Mutations ---
     const updateVariationMutation = useUpdateVariation(variationId); // Keep this for edits
+    const addCommentMutation = useAddComment(designId, variationId);
+    const updateCommentMutation = useUpdateComment(variationId);
+    const deleteCommentMutation = useDeleteComment(variationId);
+
+    // --- Feedback Handlers ---
+    const handlePlacePin = (point: PinPoint) => {
+        setPendingPin(point);
+        setActivePinCommentId(null);
+        commentInputRef.current?.focus();
+    };
+
+    const handleSelectPinnedThread = (commentId: string) => {
+        setActivePinCommentId(prev => (prev === commentId ? null : commentId));
+    };
+
+    const handleReplyClick = (parentCommentId: string) => {
+        setReplyingToCommentId(parentCommentId);
+        setPendingPin(null); // Replies share their thread's pin
+        setPendingSwatch(null); // ...and its swatch
+        commentInputRef.current?.focus();
+    };
+
+    const handleSelectSwatch = (hex: string) => {
+        setPendingSwatch(prev => (prev?.color === hex ? null : { color: hex, suggestedColor: null }));
+        setReplyingToCommentId(null);
+        commentInputRef.current?.focus();
+    };
+
+    const handleSendComment = () => {
+        if (!newCommentText.trim()) {
+            toast.info("Comment cannot be empty.");
+            return;
+        }
+        addCommentMutation.mutate({
+            commentText: newCommentText.trim(),
+            parentId: replyingToCommentId,
+            position: replyingToCommentId ? null : pendingPin,
+            swatch: replyingToCommentId ? null : pendingSwatch,
+            onSuccessCallback: () => {
+                setNewCommentText('');
+                setReplyingToCommentId(null);
+                setPendingPin(null);
+                setPendingSwatch(null);
+            },
+        });
+    };
 
     // File type definitions for Dropzone
     const acceptedFileTypes = {
@@ -583,9 +462,13 @@ export default function VariationDetailPage() {
         'image/gif': ['.gif'],
         'image/webp': ['.webp'],
         'image/svg+xml': ['.svg'],
+        'application/pdf': ['.pdf'],
         'application/postscript': ['.ai'], // MIME type for Adobe Illustrator
         'application/photoshop': ['.psd'], // Common (though not official) MIME type
-        'image/vnd.adobe.photoshop': ['.psd'] // Another possible PSD MIME type
+        'image/vnd.adobe.photoshop': ['.psd'], // Another possible PSD MIME type
+        'video/mp4': ['.mp4'],
+        'video/webm': ['.webm'],
+        'video/quicktime': ['.mov']
     };
 
     // --- Loading & Error States ---
@@ -605,6 +488,8 @@ export default function VariationDetailPage() {
         );
     }
 
+    const pageCount = variation.page_count ?? 1;
+
     // --- Breadcrumbs --- 
     const breadcrumbItems: BreadcrumbItem[] = [
         { label: 'Dashboard', href: '/dashboard' },
@@ -622,9 +507,15 @@ export default function VariationDetailPage() {
             {/* --- File Display Area (Always show if path exists) --- */}
             {variation.file_path && (
                 <Card>
-                    <CardHeader>
+                    <CardHeader className="flex flex-row items-center justify-between">
                         <CardTitle>Uploaded File</CardTitle>
                          {/* TODO: Add replace/delete file functionality */}
+                        {imageUrl && !urlLoading && !urlError && page === 1 && (
+                            <Button variant={isAnnotating ? 'secondary' : 'outline'} size="sm" onClick={() => setIsAnnotating(prev => !prev)}>
+                                <PenTool className="h-4 w-4 mr-2" />
+                                {isAnnotating ? 'Exit Review Mode' : 'Annotate'}
+                            </Button>
+                        )}
                     </CardHeader>
                     <CardContent className="space-y-4">
                         {/* Display Filename */}
@@ -633,6 +524,10 @@ export default function VariationDetailPage() {
                             <span className="font-medium ml-2">{getFilenameFromPath(variation.file_path)}</span>
                         </p>
 
+                        {pageCount > 1 && !isAnnotating && (
+                            <PageStepper page={page} pageCount={pageCount} onPageChange={setPage} />
+                        )}
+
                         {/* Display Image Preview using Signed URL */}
                         {urlLoading && (
                             <div className="flex items-center text-sm text-muted-foreground">
@@ -642,13 +537,49 @@ export default function VariationDetailPage() {
                         {urlError && (
                             <p className="text-sm text-red-600">Error loading image: {urlError}</p>
                         )}
-                        {imageUrl && !urlLoading && !urlError && (
+                        {imageUrl && !urlLoading && !urlError && isAnnotating && (
+                            <AnnotationReviewPanel
+                                variationId={variationId}
+                                imageUrl={imageUrl}
+                                originalFilePath={variation.file_path}
+                                exportName={`Variation ${variation.variation_letter}`}
+                                className="mt-4 h-[75vh] border rounded-lg overflow-hidden"
+                            />
+                        )}
+                        {imageUrl && !urlLoading && !urlError && !isAnnotating && (
                             <div className="mt-4 border rounded-lg p-2 max-w-md mx-auto">
-                                <img 
-                                    src={imageUrl} 
-                                    alt={`Preview for ${getFilenameFromPath(variation.file_path)}`} 
-                                    className="max-w-full h-auto object-contain rounded-lg"
+                                {/* Wrapper hugs the image so pin percentages map onto it */}
+                                <div className="relative">
+                                    <img 
+                                        src={imageUrl} 
+                                        alt={`Preview for ${getFilenameFromPath(variation.file_path)}`} 
+                                        className="block max-w-full h-auto object-contain rounded-lg"
+                                    />
+                                    {page === 1 && (
+                                        <CommentPinLayer
+                                            pins={commentPins}
+                                            activeCommentId={activePinCommentId}
+                                            pendingPin={pendingPin}
+                                            onPlacePin={replyingToCommentId ? undefined : handlePlacePin}
+                                            onPinClick={handleSelectPinnedThread}
+                                        />
+                                    )}
+                                </div>
+                                <p className="mt-2 text-xs text-muted-foreground text-center">
+                                    {page === 1 ? 'Click the image to pin a comment to that spot.' : 'Pins and annotations are placed on page 1.'}
+                                </p>
+                            </div>
+                        )}
+                        {variation.palette && variation.palette.length > 0 && !isAnnotating && (
+                            <div className="max-w-md mx-auto space-y-1">
+                                <p className="flex items-center gap-1 text-sm font-medium"><Palette className="h-4 w-4" /> Palette</p>
+                                <SwatchStrip
+                                    palette={variation.palette}
+                                    selectedColor={pendingSwatch?.color}
+                                    onSelect={handleSelectSwatch}
+                                    commentCounts={swatchCommentCounts}
                                 />
+                                <p className="text-xs text-muted-foreground">Click a color to leave feedback on it, e.g. &quot;make this darker&quot;.</p>
                             </div>
                         )}
                         {/* TODO: Consider adding a download button using the signedUrl */}
@@ -656,28 +587,48 @@ export default function VariationDetailPage() {
                 </Card>
             )}
 
+            {/* --- File History (every file this variation has had) --- */}
+            {variation.file_path && (
+                <Card>
+                    <CardHeader>
+                        <CardTitle>File History</CardTitle>
+                        <CardDescription>Replaced files are kept here. Preview them, compare them with the current file, or restore one.</CardDescription>
+                    </CardHeader>
+                    <CardContent>
+                        <VariationFileHistory
+                            variationId={variationId}
+                            designId={designId}
+                            projectId={projectId}
+                            currentFilePath={variation.file_path}
+                            versionNumber={version?.version_number ?? 0}
+                            variationLetter={variation.variation_letter}
+                        />
+                    </CardContent>
+                </Card>
+            )}
+
             {/* --- Upload Area (Now handles queue) --- */}
             <Card>
                 <CardHeader>
                     <CardTitle>Upload New Design Files</CardTitle>
-                    <CardDescription>Upload design file(s) for this variation. (Max 10MB each)</CardDescription>
+                    <CardDescription>Upload design file(s) for this variation. (Max {Math.round(UPLOAD_POLICY.maxFileSizeBytes / (1024 * 1024))}MB each)</CardDescription>
                 </CardHeader>
                 <CardContent>
                     <Dropzone
                         onFilesAccepted={onFilesAccepted} 
                         onFilesRejected={onFilesRejected} 
                         accept={acceptedFileTypes}      
-                        maxSize={10 * 1024 * 1024}      
+                        maxSize={UPLOAD_POLICY.maxFileSizeBytes}
                         multiple={true} // Allow multiple
                         className="mb-4"
-                        disabled={uploadQueue.filter(f => f.status === 'uploading' || f.status === 'pending').length >= 5} // Limit queue size
+                        disabled={variationUploads.filter(f => f.status === 'uploading' || f.status === 'pending').length >= 5} // Limit queue size
                     />
                     
                     {/* Display Upload Queue & Progress */}
-                    {uploadQueue.length > 0 && (
+                    {variationUploads.length > 0 && (
                         <div className="mt-4 space-y-3">
                             <h4 className="text-sm font-medium mb-2">Upload Queue:</h4>
-                            {uploadQueue.map((fileInfo) => (
+                            {variationUploads.map((fileInfo) => (
                                 <div key={fileInfo.id} className="text-sm border p-3 rounded-md space-y-2">
                                     <div className="flex items-center justify-between gap-2">
                                         <div className="flex items-center gap-2 overflow-hidden">
@@ -696,8 +647,21 @@ export default function VariationDetailPage() {
                                                 {fileInfo.file.name} ({(fileInfo.file.size / 1024).toFixed(2)} KB)
                                             </span>
                                         </div>
+                                        <div className="flex flex-shrink-0 items-center gap-1">
+                                        {/* Pause / Resume Button */}
+                                        {(fileInfo.status === 'uploading' || fileInfo.status === 'paused') && fileInfo.upload && (
+                                            <Button
+                                                size="icon"
+                                                variant="ghost"
+                                                onClick={() => fileInfo.status === 'paused' ? resumeUpload(fileInfo.id) : pauseUpload(fileInfo.id)}
+                                                title={fileInfo.status === 'paused' ? "Resume Upload" : "Pause Upload"}
+                                                className="h-6 w-6 text-muted-foreground"
+                                            >
+                                                {fileInfo.status === 'paused' ? <Play className="h-4 w-4"/> : <Pause className="h-4 w-4"/>}
+                                            </Button>
+                                        )}
                                         {/* Cancel Button */} 
-                                        {(fileInfo.status === 'uploading' || fileInfo.status === 'pending') && (
+                                        {(fileInfo.status === 'uploading' || fileInfo.status === 'paused' || fileInfo.status === 'pending') && (
                                             <Button 
                                                 size="icon" 
                                                 variant="ghost" 
@@ -708,16 +672,20 @@ export default function VariationDetailPage() {
                                                 <X className="h-4 w-4"/>
                                             </Button>
                                         )}
+                                        </div>
                                      </div>
                                      {/* Status Text */} 
                                      <p className={`text-xs ${fileInfo.status === 'error' ? 'text-red-600' : 'text-muted-foreground'}`}>
-                                        Status: {fileInfo.status} {fileInfo.status === 'uploading' ? `(${fileInfo.progress}%)` : ''}
+                                        Status: {fileInfo.status} {fileInfo.status === 'uploading' || fileInfo.status === 'paused' ? `(${fileInfo.progress}%)` : ''}
                                      </p>
                                      {/* Progress Bar */} 
-                                     {fileInfo.status === 'uploading' && (
+                                     {(fileInfo.status === 'uploading' || fileInfo.status === 'paused') && (
                                          <Progress value={fileInfo.progress} className="h-1" />
                                      )}
                                      {/* Error Message */} 
+                                     {fileInfo.status === 'duplicate' && (
+                                         <p className="text-xs text-yellow-600">Same as {fileInfo.duplicateOf}. Confirm or remove it in the upload tray.</p>
+                                     )}
                                      {fileInfo.status === 'error' && (
                                          <p className="text-xs text-red-600">Error: {fileInfo.error}</p>
                                      )}
@@ -798,17 +766,113 @@ export default function VariationDetailPage() {
                         </form>
                     ) : (
                         <div className="space-y-2 mb-4">
-                             <p><strong>Status:</strong> <Badge variant="secondary">{variation.status}</Badge></p>
+                             <p><strong>Status:</strong> <Badge variant="secondary">{variation.status}</Badge> <VariationProcessingStatus variation={variation} showRetry /></p>
                              <p><strong>Notes:</strong> {variation.notes || <span className="text-muted-foreground">No notes added.</span>}</p>
                              <p className="text-sm text-muted-foreground">Created: {new Date(variation.created_at).toLocaleDateString()}</p>
+                             {variation.was_resized && variation.original_width && variation.original_height && (
+                                 <p className="text-sm text-muted-foreground">Downscaled before upload from {variation.original_width}×{variation.original_height} px.</p>
+                             )}
                         </div>
                    )}
 
-                    {/* Placeholder for Feedback Section */}
-                    <div className="mt-6 border-t pt-4">
-                        <h3 className="text-lg font-semibold mb-2">Feedback</h3>
-                        <p className="italic text-muted-foreground">Feedback/comments section will go here.</p>
-                        {/* TODO: Implement feedback system (Task 6 & 7) */}
+                    {/* --- Feedback Section --- */}
+                    <div className="mt-6 border-t pt-4 space-y-4">
+                        <div className="flex items-center justify-between gap-2">
+                            <h3 className="text-lg font-semibold">Feedback</h3>
+                            <Select value={feedbackFilter} onValueChange={(value) => setFeedbackFilter(value as FeedbackFilter)}>
+                                <SelectTrigger className="h-8 w-44">
+                                    <SelectValue />
+                                </SelectTrigger>
+                                <SelectContent>
+                                    <SelectItem value="all">All feedback</SelectItem>
+                                    <SelectItem value="swatch">Swatch feedback</SelectItem>
+                                    <SelectItem value="general">General comments</SelectItem>
+                                </SelectContent>
+                            </Select>
+                        </div>
+                        {isLoadingComments ? (
+                            <div className="flex items-center text-sm text-muted-foreground">
+                                <Loader2 className="mr-2 h-4 w-4 animate-spin" /> Loading comments...
+                            </div>
+                        ) : commentsError ? (
+                            <p className="text-sm text-red-600">Error loading comments.</p>
+                        ) : visibleThreads.length > 0 ? (
+                            <div className="space-y-2">
+                                {visibleThreads.map((rootComment: CommentTreeNode) => (
+                                    <CommentThread
+                                        key={rootComment.id}
+                                        comment={rootComment}
+                                        level={0}
+                                        currentUser={user}
+                                        onUpdate={updateCommentMutation.mutate}
+                                        onDelete={(commentId, options) => deleteCommentMutation.mutate({ commentId, ...options })}
+                                        isUpdating={updateCommentMutation.isPending}
+                                        isDeleting={deleteCommentMutation.isPending}
+                                        onReply={handleReplyClick}
+                                        pinNumbers={pinNumbers}
+                                        activeCommentId={activePinCommentId}
+                                        onSelectThread={handleSelectPinnedThread}
+                                    />
+                                ))}
+                            </div>
+                        ) : (
+                            <p className="italic text-muted-foreground">
+                                {comments && comments.length > 0 ? 'No comments match this filter.' : 'No comments yet.'}
+                            </p>
+                        )}
+
+                        {/* Composer */}
+                        <div className="space-y-2">
+                            {replyingToCommentId && (
+                                <div className="flex items-center justify-between text-xs bg-muted/50 px-2 py-1 rounded-md">
+                                    <span>Replying to a comment</span>
+                                    <Button variant="ghost" size="icon" className="h-4 w-4" onClick={() => setReplyingToCommentId(null)} title="Cancel reply">
+                                        <X className="h-3 w-3" />
+                                    </Button>
+                                </div>
+                            )}
+                            {pendingPin && (
+                                <div className="flex items-center justify-between text-xs bg-blue-50 text-blue-700 px-2 py-1 rounded-md">
+                                    <span className="flex items-center gap-1"><MapPin className="h-3 w-3" /> Pinned to image as #{commentPins.length + 1}</span>
+                                    <Button variant="ghost" size="icon" className="h-4 w-4 text-blue-700 hover:text-destructive" onClick={() => setPendingPin(null)} title="Remove pin">
+                                        <X className="h-3 w-3" />
+                                    </Button>
+                                </div>
+                            )}
+                            {pendingSwatch && (
+                                <div className="flex items-center justify-between gap-2 text-xs bg-muted/50 px-2 py-1 rounded-md">
+                                    <span className="flex items-center gap-2">
+                                        <SwatchChange color={pendingSwatch.color} suggestedColor={pendingSwatch.suggestedColor} />
+                                        <label className="flex items-center gap-1">
+                                            Suggest
+                                            <input
+                                                type="color"
+                                                className="h-5 w-7 cursor-pointer rounded border bg-transparent p-0"
+                                                value={pendingSwatch.suggestedColor ?? pendingSwatch.color}
+                                                onChange={(e) => setPendingSwatch({ ...pendingSwatch, suggestedColor: e.target.value })}
+                                                title="Pick a replacement color"
+                                            />
+                                        </label>
+                                    </span>
+                                    <Button variant="ghost" size="icon" className="h-4 w-4 hover:text-destructive" onClick={() => setPendingSwatch(null)} title="Remove swatch">
+                                        <X className="h-3 w-3" />
+                                    </Button>
+                                </div>
+                            )}
+                            <Textarea
+                                ref={commentInputRef}
+                                placeholder={replyingToCommentId ? "Write your reply..." : pendingSwatch ? "What should change about this color? e.g. make this darker" : pendingPin ? "Comment on this spot..." : "Add your comment..."}
+                                value={newCommentText}
+                                onChange={(e) => setNewCommentText(e.target.value)}
+                                rows={3}
+                            />
+                            <div className="flex justify-end">
+                                <Button size="sm" onClick={handleSendComment} disabled={addCommentMutation.isPending || !newCommentText.trim()}>
+                                    {addCommentMutation.isPending && <Loader2 className="h-4 w-4 animate-spin mr-2" />}
+                                    Send
+                                </Button>
+                            </div>
+                        </div>
                     </div>
                 </CardContent>
             </Card>
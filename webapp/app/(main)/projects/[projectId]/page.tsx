@@ -1,12 +1,12 @@
 'use client';
 
-import { useState, useEffect, useRef, useCallback } from 'react';
+import { useState, useEffect, useRef, useCallback, useMemo } from 'react';
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { useAuth } from '@/providers/AuthProvider';
 import { useParams, useRouter } from 'next/navigation';
 import { Card, CardHeader, CardTitle, CardDescription, CardContent } from '@/components/ui/card';
 import { Badge } from "@/components/ui/badge";
-import { Loader2, PlusCircle, Pencil, Check, X, ChevronRight, Trash2, Archive } from 'lucide-react';
+import { Loader2, PlusCircle, Pencil, Check, X, ChevronRight, Trash2, Archive, MapPin, Pause, Play, RotateCcw, Upload } from 'lucide-react';
 import Link from 'next/link';
 import Breadcrumbs, { BreadcrumbItem } from '@/components/ui/breadcrumbs';
 import { Button } from '@/components/ui/button';
@@ -32,6 +32,11 @@ import { toast } from 'sonner';
 import Dropzone from '@/components/ui/dropzone';
 import { Progress } from "@/components/ui/progress";
 import { cn } from "@/lib/utils";
+import { useUploadStore } from '@/store/uploadStore';
+import { nanoid } from 'nanoid';
+import { expandDroppedFiles, hasUploadStructure, type DroppedFile } from '@/lib/uploadMapping';
+import { UploadMappingDialog } from '@/components/modals/UploadMappingDialog';
+import ProjectUploadSettings from '@/components/features/ProjectUploadSettings';
 import { DesignCard } from "@/components/cards/DesignCard";
 import { 
     Design, 
@@ -42,8 +47,7 @@ import {
     DesignStage,
     DesignGridItem,
     VariationFeedbackStatus,
-    ProjectStatus,
-    UploadingFileInfo // <-- Import the canonical type
+    ProjectStatus
 } from '@/types/models';
 import { ModalImageViewer } from '@/components/modal/ModalImageViewer';
 import {
@@ -54,7 +58,9 @@ import {
   SelectValue,
 } from "@/components/ui/select";
 import { Comment } from '@/types/models';
-import { CommentCard } from '@/components/cards/CommentCard';
+import { CommentThread, CommentTreeNode, buildCommentTree } from '@/components/comments/CommentThread';
+import { CommentPinLayer } from '@/components/comments/CommentPinLayer';
+import { getCommentPins, PinPoint } from '@/lib/commentPins';
 import {
   AlertDialog,
   AlertDialogAction,
@@ -76,8 +82,6 @@ import {
 import { User } from '@supabase/supabase-js'; // Import User type
 import {
     useUpdateVersionDetails,
-    useAddVersionWithVariations,
-    useAddVariationsToVersion,
     useReplaceVariationFile,
     useDeleteVariation,
     useUpdateVariationDetails,
@@ -92,18 +96,6 @@ import {
 import { Controller } from "react-hook-form"; // Import Controller
 import Image from 'next/image';
 
-// For Upload Queue
-// interface UploadingFileInfo {
-//     id: string;
-//   file: File;
-//   previewUrl: string;
-//   status: 'pending' | 'uploading' | 'success' | 'error' | 'cancelled' | 'processing';
-//   progress: number;
-//   error?: string;
-//   xhr?: XMLHttpRequest;
-//   uploadStarted: boolean;
-// }
-
 // Type for inserting a new design (form data)
 type NewDesignForm = {
     name: string;
@@ -128,6 +120,8 @@ const fetchProject = async (supabase: any, projectId: string): Promise<Project |
             created_at,
             updated_at,
             client_id,
+            strip_upload_metadata,
+            max_upload_dimension,
             clients ( id, name ) 
         `)
         .eq('id', projectId)
@@ -354,247 +348,6 @@ const useAddDesign = (projectId: string) => {
     });
 };
 
-// --- NEW: Hook to Create Design/Version/Variation from Upload --- 
-const useCreateDesignFromUpload = (
-    projectId: string,
-    setUploadQueue: React.Dispatch<React.SetStateAction<UploadingFileInfo[]>>
-) => {
-    const { supabase } = useAuth();
-    const queryClient = useQueryClient();
-
-    // Define types for nested inserts if not already defined
-    // These might need adjustment based on your actual DB schema defaults/constraints
-    type NewVersionData = { design_id: string; version_number: number; status: string; /* add stage if needed */ };
-    type NewVariationData = { version_id: string; variation_letter: string; status: string; };
-
-    return useMutation({
-        // Expect an object with file and its queue ID
-        mutationFn: async ({ file, fileId }: { file: File, fileId: string }) => {
-            if (!supabase) throw new Error("Supabase client not available");
-            if (!projectId) throw new Error("Project ID is required");
-
-            // Mark as uploading immediately
-            setUploadQueue(prev => prev.map(f => 
-                f.id === fileId ? { ...f, status: 'uploading', progress: 0, uploadStarted: true } : f
-            ));
-
-            let createdDesignId = '';
-            let createdVersionId = '';
-            let createdVariationId = '';
-            let finalFilePath = '';
-            const bucketName = 'design-variations';
-
-            // --- MOVED DEBUG LOG TO VERY START OF TRY BLOCK ---
-            // console.log(`[CreateDesignUpload DEBUG] >>> mutationFn TRY block entered for file: ${file.name}`);
-
-            try {
-                // --- 1. Create Design --- 
-                const designName = file.name.substring(0, file.name.lastIndexOf('.')) || file.name;
-                const { data: newDesign, error: designError } = await supabase
-                    .from('designs')
-                    .insert({ project_id: projectId, name: designName, status: 'Active' })
-                    .select()
-                    .single();
-                
-                if (designError) throw new Error(`Failed to create design: ${designError.message}`);
-                if (!newDesign) throw new Error('Failed to create design, no data returned.');
-                createdDesignId = newDesign.id;
-                console.log(`[CreateDesignUpload] Created Design: ${createdDesignId} (${designName})`);
-
-                // --- 2. Create Version (V1) --- 
-                const versionData: NewVersionData = { design_id: createdDesignId, version_number: 1, status: 'Work in Progress' };
-                const { data: newVersion, error: versionError } = await supabase
-                    .from('versions')
-                    .insert(versionData)
-                    .select()
-                    .single();
-
-                if (versionError) throw new Error(`Failed to create version 1 for design ${createdDesignId}: ${versionError.message}`);
-                if (!newVersion) throw new Error('Failed to create version, no data returned.');
-                createdVersionId = newVersion.id;
-                console.log(`[CreateDesignUpload] Created Version: ${createdVersionId} (V1)`);
-
-                // --- 3. Create Variation (A) --- 
-                const variationData: NewVariationData = { version_id: createdVersionId, variation_letter: 'A', status: 'Pending Feedback' }; 
-                const { data: newVariation, error: variationError } = await supabase
-                    .from('variations')
-                    .insert(variationData)
-                    .select()
-                    .single();
-
-                if (variationError) throw new Error(`Failed to create variation A for version ${createdVersionId}: ${variationError.message}`);
-                if (!newVariation) throw new Error('Failed to create variation, no data returned.');
-                createdVariationId = newVariation.id;
-                console.log(`[CreateDesignUpload] Created Variation: ${createdVariationId} (A)`);
-
-                // --- 4. Upload File using XHR --- 
-                finalFilePath = `projects/${projectId}/designs/${createdDesignId}/versions/${createdVersionId}/variations/${createdVariationId}/${file.name}`;
-                console.log(`[CreateDesignUpload] Attempting upload to: ${finalFilePath}`);
-
-                // Get signed URL for PUT upload
-                const { data: signedUrlData, error: signedUrlError } = await supabase.storage
-                    .from(bucketName)
-                  .createSignedUploadUrl(finalFilePath);
-
-                if (signedUrlError) {
-                  console.error("[CreateDesignUpload] Failed to get signed upload URL:", signedUrlError);
-                  throw new Error(`Failed to get signed upload URL: ${signedUrlError.message}`);
-                }
-
-                if (!signedUrlData?.signedUrl) {
-                  throw new Error("Failed to get signed upload URL, no URL returned.");
-                }
-
-                const signedUrl = signedUrlData.signedUrl;
-
-                // Use a Promise to handle XHR async nature within the async mutationFn
-                await new Promise<void>((resolve, reject) => {
-                  const xhr = new XMLHttpRequest();
-                  
-                  // Find the item in the queue to potentially store the xhr reference for cancellation
-                  setUploadQueue(prev => prev.map(f => f.id === fileId ? { ...f, xhr: xhr } : f));
-
-                  xhr.open('PUT', signedUrl, true);
-                  // Set headers required by Supabase signed URL uploads
-                  // Often, it needs Content-Type. Refer to Supabase docs if other headers are needed.
-                  xhr.setRequestHeader('Content-Type', file.type);
-                  // xhr.setRequestHeader('x-upsert', 'true'); // If needed, check Supabase docs
-
-                  xhr.upload.onprogress = (event) => {
-                    if (event.lengthComputable) {
-                      const progress = Math.round((event.loaded / event.total) * 100);
-                      setUploadQueue(prev => prev.map(f => 
-                        f.id === fileId ? { ...f, progress: progress, status: 'uploading' } : f
-                      ));
-                    }
-                  };
-
-                  xhr.onload = () => {
-                    if (xhr.status >= 200 && xhr.status < 300) {
-                      console.log(`[CreateDesignUpload] XHR Upload successful for ${file.name}`);
-                      // Don't update state to 'success' here, let onSuccess callback handle removal
-                      resolve();
-                    } else {
-                      console.error(`[CreateDesignUpload] XHR Upload failed for ${file.name}: Status ${xhr.status}`, xhr.responseText);
-                      reject(new Error(`Storage upload failed: ${xhr.statusText || 'XHR Error'}`));
-                    }
-                  };
-
-                  xhr.onerror = () => {
-                    console.error(`[CreateDesignUpload] XHR Upload error for ${file.name}`);
-                    reject(new Error('Storage upload failed: Network error'));
-                  };
-
-                  xhr.onabort = () => {
-                    console.log(`[CreateDesignUpload] XHR Upload aborted for ${file.name}`);
-                    // No need to reject here, cancellation is handled elsewhere potentially
-                    // but we need to update the status
-                    setUploadQueue(prev => prev.map(f => 
-                        f.id === fileId ? { ...f, status: 'cancelled', progress: 0 } : f
-                    ));
-                    // We resolve here because the mutation itself shouldn't fail on abort,
-                    // but the state is updated.
-                    resolve(); 
-                  };
-
-                  xhr.send(file);
-                });
-                
-                // --- 5. Update Variation with File Path (only if XHR succeeded) --- 
-                const { error: updateError } = await supabase
-                    .from('variations')
-                    .update({ file_path: finalFilePath })
-                    .eq('id', createdVariationId);
-
-                if (updateError) {
-                    console.error(`[CreateDesignUpload] Failed to update variation ${createdVariationId} with file path ${finalFilePath}:`, updateError);
-                    toast.warning(`File ${file.name} uploaded, but failed to link to variation record.`);
-                }
-                 console.log(`[CreateDesignUpload] Successfully linked ${finalFilePath} to variation ${createdVariationId}`);
-
-                // --- 6. Trigger Image Processing API ---
-                // --- ADDED DEBUG LOG --- 
-                // console.log(`[CreateDesignUpload DEBUG] >>> Checkpoint BEFORE fetch block for ${finalFilePath}`);
-                // console.log(`[CreateDesignUpload DEBUG] >>> ABOUT TO CALL fetch('/api/process-image') for ${finalFilePath}`);
-                try {
-                    const processResponse = await fetch('/api/process-image', {
-                        method: 'POST',
-                        headers: {
-                            'Content-Type': 'application/json',
-                        },
-                        body: JSON.stringify({ originalPath: finalFilePath }),
-                    });
-                    // --- ADDED DEBUG LOG --- 
-                    // console.log(`[CreateDesignUpload DEBUG] <<< fetch call completed. Status: ${processResponse.status}`);
-
-                    if (!processResponse.ok) {
-                        // Try to get more details from the response if available
-                        const errorBody = await processResponse.json().catch(() => ({ error: 'Image processing API request failed with status ' + processResponse.status }));
-                        console.error(`[CreateDesignUpload] Image processing API call failed for ${finalFilePath}. Status: ${processResponse.status}`, errorBody);
-                        toast.error(`Image uploaded, but processing failed: ${errorBody.error || 'Unknown error'}`);
-                    } else {
-                        console.log(`[CreateDesignUpload] Image processing API call successful for ${finalFilePath}`);
-                        // The toast message on success of the whole mutation already covers this.
-                        // toast.success(`Image "${file.name}" processed successfully!`);
-                    }
-                } catch (processError) {
-                    // --- ADDED DEBUG LOG --- 
-                    // console.error(`[CreateDesignUpload DEBUG] >>> fetch call threw an error for ${finalFilePath}:`, processError);
-                    console.error(`[CreateDesignUpload] Error calling image processing API for ${finalFilePath}:`, processError);
-                    toast.error(`Image uploaded, but an error occurred while triggering processing: ${processError instanceof Error ? processError.message : 'Unknown error'}`);
-                }
-                // --- End Trigger Image Processing ---
-
-                // Return the created design info AND the original fileId
-                return { ...newDesign, filePath: finalFilePath, originalFileId: fileId }; 
-
-            } catch (error: any) {
-                 console.error(`[CreateDesignUpload] CRITICAL FAILURE for file ${file.name}:`, error);
-                // Update queue status on failure
-                setUploadQueue(prev => prev.map(f => 
-                    f.id === fileId ? { ...f, status: 'error', error: error.message || 'Upload failed', progress: 0 } : f
-                ));
-                // Cleanup hints using created IDs
-                if (createdDesignId) console.error(`[Cleanup Hint] May need to clean up design: ${createdDesignId}`);
-                if (createdVersionId) console.error(`[Cleanup Hint] May need to clean up version: ${createdVersionId}`);
-                if (createdVariationId) console.error(`[Cleanup Hint] May need to clean up variation: ${createdVariationId}`);
-                 throw error; // Re-throw to trigger onError callback
-            }
-        },
-        onSuccess: (data, variables) => {
-            toast.success(`Design "${data.name}" created and file "${variables.file.name}" uploaded successfully! Processing may take a moment.`); // Adjusted toast
-            
-            console.log('[useCreateDesignFromUpload onSuccess] data.originalFileId:', data.originalFileId, 'File from variables:', variables.file.name);
-
-            // --- MODIFIED FOR TESTING --- 
-            console.log('[useCreateDesignFromUpload onSuccess] Attempting to clear queue COMPLETELY for testing.');
-            setUploadQueue([]); // Directly set to empty array for testing
-            // --- END MODIFIED FOR TESTING ---
-
-            // --- REMOVE TEMPORARY DELAY ---
-            // console.log(`[Upload Success] Waiting 5 seconds before refetching designs for project ${projectId}...`);
-            // setTimeout(() => {
-            //     console.log(`[Upload Success] Refetching designs for project ${projectId} now.`);
-            queryClient.invalidateQueries({ queryKey: ['designs', projectId] }); 
-            queryClient.refetchQueries({ queryKey: ['designs', projectId] });
-            // }, 5000); 
-            // --- END REMOVE DELAY ---
-        },
-        onError: (error: Error, variables) => {
-             // variables = { file: File, fileId: string }
-             toast.error(`Failed to create design from file "${variables.file.name}": ${error.message}`);
-             // Mark file as error in queue using the fileId from variables
-             setUploadQueue(prevQueue => 
-                prevQueue.map(f => 
-                    f.id === variables.fileId 
-                        ? { ...f, status: 'error', error: error.message, uploadStarted: false } 
-                        : f
-                )
-            ); 
-        },
-    });
-};
-
 // --- NEW: Update Project Details Hook ---
 const useUpdateProjectDetails = (projectId: string) => {
     const { supabase } = useAuth();
@@ -677,126 +430,6 @@ const useUpdateProjectDetails = (projectId: string) => {
 
 
 
-// --- Helper Function to Build Comment Tree ---
-const buildCommentTree = (comments: Comment[]): (Comment & { children: Comment[] })[] => { // Update return type
-    const commentMap: { [id: string]: Comment & { children: Comment[] } } = {};
-    const rootComments: (Comment & { children: Comment[] })[] = [];
-
-    // Initialize map and children array
-    comments.forEach(comment => {
-        commentMap[comment.id] = { ...comment, children: [] };
-    });
-
-    // Build the tree structure
-    comments.forEach(comment => {
-        if (comment.parent_comment_id && commentMap[comment.parent_comment_id]) {
-            commentMap[comment.parent_comment_id].children.push(commentMap[comment.id]);
-        } else {
-            // Add top-level comments to the root array
-            rootComments.push(commentMap[comment.id]);
-        }
-    });
-
-    // Sort root comments (optional, e.g., by creation date)
-    rootComments.sort((a, b) => new Date(a.created_at).getTime() - new Date(b.created_at).getTime());
-
-    // Sort children recursively (optional)
-    // // Sort children recursively (optional - removed for type simplicity)
-    // const sortChildren = (node: Comment & { children: Comment[] }) => {
-    //     if (node.children && Array.isArray(node.children)) {
-    //         node.children.sort((a, b) => new Date(a.created_at).getTime() - new Date(b.created_at).getTime());
-    //         node.children.forEach(sortChildren);
-    //     }
-    // };
-    // rootComments.forEach(sortChildren);
-
-    return rootComments;
-};
-
-// --- Recursive Component for Rendering Comment Threads ---
-// Note: Need to explicitly type props for recursive components
-interface RenderCommentThreadProps {
-    comment: Comment & { children: Comment[] };
-    // commentsMap: { [id: string]: Comment & { children: Comment[] } }; // Not needed
-    level: number; // For indentation
-    // Pass down necessary props for CommentCard
-    currentUser: User | null;
-    onUpdate: (variables: { commentId: string; newContent: string, onSuccessCallback?: () => void; }) => void;
-    onDelete: (commentId: string) => void;
-    isUpdating: boolean;
-    isDeleting: boolean;
-    onReply: (parentCommentId: string) => void; // <<< Add onReply prop
-}
-
-const RenderCommentThread: React.FC<RenderCommentThreadProps> = ({ 
-    comment, 
-    level,
-    currentUser,
-    onUpdate,
-    onDelete,
-    isUpdating,
-    isDeleting,
-    onReply
-}) => {
-    // Add collapse state for root comments
-    const [collapsed, setCollapsed] = useState(false);
-    const isRoot = level === 0;
-    return (
-        <div className="space-y-2">
-            <div className="flex items-start">
-                <CommentCard
-                    key={comment.id}
-                    comment={comment}
-                    currentUser={currentUser}
-                    onUpdate={onUpdate}
-                    onDelete={onDelete}
-                    isUpdating={isUpdating}
-                    isDeleting={isDeleting}
-                    onReply={isRoot ? onReply : () => {}}
-                    level={level}
-                    {...(isRoot ? { collapsed, setCollapsed, numReplies: comment.children.length } : {})}
-                />
-            </div>
-            {/* Render children recursively, only if not collapsed */}
-            {comment.children && comment.children.length > 0 && !collapsed && (
-                isRoot ? (
-                    <div className="border-l-2 border-muted pl-4 mt-2 ml-5">
-                        {comment.children.map(childComment => (
-                            <RenderCommentThread
-                                key={childComment.id}
-                                comment={childComment as Comment & { children: Comment[] }}
-                                level={level + 1}
-                                currentUser={currentUser}
-                                onUpdate={onUpdate}
-                                onDelete={onDelete}
-                                isUpdating={isUpdating}
-                                isDeleting={isDeleting}
-                                onReply={onReply}
-                            />
-                        ))}
-                    </div>
-                ) : (
-                    <>
-                        {comment.children.map(childComment => (
-                            <RenderCommentThread
-                                key={childComment.id}
-                                comment={childComment as Comment & { children: Comment[] }}
-                                level={level + 1}
-                                currentUser={currentUser}
-                                onUpdate={onUpdate}
-                                onDelete={onDelete}
-                                isUpdating={isUpdating}
-                                isDeleting={isDeleting}
-                                onReply={onReply}
-                            />
-                        ))}
-                    </>
-                )
-            )}
-        </div>
-    );
-};
-
 // --- Debounce Utility --- 
 // Generic debounce function
 function debounce<T extends (...args: any[]) => any>(func: T, wait: number): (...args: Parameters<T>) => void {
@@ -863,14 +496,23 @@ export default function ProjectsOverviewPage() {
     const initialProjectId = params.projectId as string | undefined;
     const [selectedProjectId, setSelectedProjectId] = useState<string | null>(initialProjectId || null);
     const [isEditingProject, setIsEditingProject] = useState(false);
-    const [uploadQueue, setUploadQueue] = useState<UploadingFileInfo[]>([]);
     const [dropzoneKey, setDropzoneKey] = useState<number>(0); // <-- New state for Dropzone key
+    // Dropped folders, ZIPs and convention-named files wait here while the import dialog shows their mapping
+    const [filesToMap, setFilesToMap] = useState<DroppedFile[]>([]);
+    const importFolderInputRef = useRef<HTMLInputElement>(null);
 
     // NEW: State for the Design Detail Modal
     const [isDesignModalOpen, setIsDesignModalOpen] = useState(false);
     const [selectedDesignIdForModal, setSelectedDesignIdForModal] = useState<string | null>(null);
     const [currentVersionId, setCurrentVersionId] = useState<string | null>(null);
     const [currentVariationId, setCurrentVariationId] = useState<string | null>(null);
+    // Uploads run in the app-wide queue (see components/layout/UploadTray.tsx) so they survive navigation;
+    // the modal lists the ones adding versions or variations to its design
+    const { uploads, enqueueUploads, pauseUpload, resumeUpload, cancelUpload, retryUpload, confirmDuplicateUpload } = useUploadStore();
+    const designUploads = useMemo(
+        () => uploads.filter(upload => upload.target.kind !== 'design' && upload.target.designId === selectedDesignIdForModal),
+        [uploads, selectedDesignIdForModal]
+    );
     // NEW: State for comment input
     const [newCommentText, setNewCommentText] = useState('');
     // NEW: State for inline title editing
@@ -887,6 +529,9 @@ export default function ProjectsOverviewPage() {
     // NEW: State and Ref for comment replies
     const [replyingToCommentId, setReplyingToCommentId] = useState<string | null>(null);
     const commentInputRef = useRef<HTMLTextAreaElement>(null);
+    // State for pinned (location-specific) comments on the variation image
+    const [pendingPin, setPendingPin] = useState<PinPoint | null>(null);
+    const [activePinCommentId, setActivePinCommentId] = useState<string | null>(null);
     // NEW: State for comment attachments
     const [selectedAttachmentFiles, setSelectedAttachmentFiles] = useState<File[]>([]);
     // NEW: State for @mentions
@@ -990,6 +635,19 @@ export default function ProjectsOverviewPage() {
         refetchOnWindowFocus: true, // Refetch comments if window is refocused
     });
 
+    // Numbered pins for top-level comments that were placed on the image
+    const commentPins = useMemo(() => getCommentPins(commentsData ?? []), [commentsData]);
+    const pinNumbers = useMemo(
+        () => Object.fromEntries(commentPins.map(pin => [pin.commentId, pin.number])),
+        [commentPins]
+    );
+
+    // Pins belong to a single variation, so drop any in-progress pin when switching
+    useEffect(() => {
+        setPendingPin(null);
+        setActivePinCommentId(null);
+    }, [currentVariationId]);
+
     // --- NEW: Query for Clients ---
     const { data: clientsData, isLoading: isLoadingClients, error: errorClients } = useQuery<ClientListItem[]>({ 
         queryKey: ['clients', 'list'], 
@@ -1067,7 +725,6 @@ export default function ProjectsOverviewPage() {
 
     // --- Mutations ---
     const addDesignMutation = useAddDesign(selectedProjectId || ''); 
-    const createDesignFromUploadMutation = useCreateDesignFromUpload(selectedProjectId || '', setUploadQueue);
     const updateProjectDetailsMutation = useUpdateProjectDetails(selectedProjectId || '');
     
     // Removed previous log
@@ -1079,22 +736,6 @@ export default function ProjectsOverviewPage() {
         selectedDesignIdForModal || '', 
         selectedProjectId || null // Pass projectId
     ); 
-    // NEW: Instantiate version with variations hook (moved inside component)
-    const addVersionWithVariationsMutation = useAddVersionWithVariations(
-        selectedDesignIdForModal || '', 
-        selectedProjectId || '',
-        // Provide setters to update state on success
-        setCurrentVersionId, 
-        setCurrentVariationId,
-        setUploadQueue // FIX: Add missing 5th argument
-    );
-    // NEW: Instantiate add variations to version hook
-    const addVariationsToVersionMutation = useAddVariationsToVersion(
-        currentVersionId || '',
-        selectedDesignIdForModal || '',
-        selectedProjectId || '',
-        setUploadQueue // Pass the setter function
-    );
     // NEW: Instantiate replace variation file hook
     const replaceVariationFileMutation = useReplaceVariationFile(
         currentVariationId || '',
@@ -1240,61 +881,39 @@ export default function ProjectsOverviewPage() {
 
     // Corrected Dropzone prop
     const handleDrop = useCallback(
-        (acceptedFiles: File[]) => {
+        async (acceptedFiles: File[]) => {
             if (!selectedProjectId) {
                  toast.error("Please select a project before uploading designs.");
                  return;
             }
              // console.log('Dropped files:', acceptedFiles, 'for project:', selectedProjectId);
-             
-            acceptedFiles.forEach((file, index) => {
-                const fileId = `${Date.now()}-${index}`;
-                // console.log('[handleDrop] Generated fileId for queue:', fileId, 'for file:', file.name); 
-                
-                // Add type annotation for prevQueue
-                setUploadQueue((prevQueue: UploadingFileInfo[]) => [
-                    ...prevQueue,
-                    {
-                    id: fileId,
-                    file,
-                    previewUrl: URL.createObjectURL(file),
-                    status: 'pending', 
-                    progress: 0,
-                    uploadStarted: false 
-                    }
-                ]);
-                
-                createDesignFromUploadMutation.mutate({ file, fileId });
-            });
 
             // After processing all accepted files, update the key to reset the Dropzone
             setDropzoneKey(prevKey => prevKey + 1); 
 
+            let droppedFiles: DroppedFile[];
+            try {
+                droppedFiles = await expandDroppedFiles(acceptedFiles);
+            } catch (error: unknown) {
+                toast.error(error instanceof Error ? error.message : 'Could not read the dropped files.');
+                return;
+            }
+            if (droppedFiles.length === 0) return;
+            // Folders, ZIPs and convention names are mapped onto designs and versions in the import dialog
+            if (hasUploadStructure(droppedFiles.map(item => item.path))) {
+                setFilesToMap(droppedFiles);
+                return;
+            }
+            // Each file becomes its own design once uploaded
+            enqueueUploads(droppedFiles.map(item => item.file), { kind: 'design', projectId: selectedProjectId });
         },
-        // Add setUploadQueue to dependency array - already there, add setDropzoneKey
-        [selectedProjectId, createDesignFromUploadMutation, setUploadQueue, setDropzoneKey] 
+        [selectedProjectId, enqueueUploads, setDropzoneKey] 
     );
 
-    // --- Implement Cancel Upload Handler ---
-    const handleCancelUpload = (id: string) => {
-        // Add type annotation for prevQueue
-        setUploadQueue((prevQueue: UploadingFileInfo[]) => {
-            // Add type annotation for itemToCancel
-            const itemToCancel: UploadingFileInfo | undefined = prevQueue.find(item => item.id === id);
-            if (itemToCancel && itemToCancel.xhr) {
-                console.log(`[CancelUpload] Aborting upload for file ID: ${id}`);
-                itemToCancel.xhr.abort();
-                return prevQueue; 
-            } else {
-                console.warn(`[CancelUpload] Could not find item or XHR to cancel for ID: ${id}`);
-                // Add type annotation for item
-                return prevQueue.map((item: UploadingFileInfo) => 
-                    item.id === id && (item.status === 'uploading' || item.status === 'pending') 
-                        ? { ...item, status: 'cancelled', progress: 0, xhr: undefined } 
-                        : item
-                );
-            }
-        });
+    const handleImportFolderSelected = (event: React.ChangeEvent<HTMLInputElement>) => {
+        const files = Array.from(event.target.files ?? []);
+        event.target.value = '';
+        if (files.length > 0) void handleDrop(files);
     };
 
      const handleProjectEditClick = () => { /* TODO */ };
@@ -1362,8 +981,8 @@ export default function ProjectsOverviewPage() {
         const files = event.target.files;
         if (files && files.length > 0) {
             console.log(`[AddVersion] Files selected:`, files);
-            // Convert FileList to Array and call the mutation
-            addVersionWithVariationsMutation.mutate({ files: Array.from(files) });
+            // The files are committed together as one new version once uploaded
+            enqueueUploads(Array.from(files), { kind: 'version', projectId: selectedProjectId!, designId: selectedDesignIdForModal, batchId: nanoid() });
         } else {
             console.log("[AddVersion] No files selected.");
         }
@@ -1392,8 +1011,7 @@ export default function ProjectsOverviewPage() {
         const files = event.target.files;
         if (files && files.length > 0) {
             console.log(`[AddVar] Files selected:`, files);
-            // Convert FileList to Array and call the mutation
-            addVariationsToVersionMutation.mutate({ files: Array.from(files) });
+            enqueueUploads(Array.from(files), { kind: 'variation', projectId: selectedProjectId!, designId: selectedDesignIdForModal!, versionId: currentVersionId });
         } else {
             console.log("[AddVar] No files selected.");
         }
@@ -1663,12 +1281,24 @@ export default function ProjectsOverviewPage() {
     const handleReplyClick = (parentCommentId: string) => {
         console.log(`[Reply] Replying to comment ID: ${parentCommentId}`);
         setReplyingToCommentId(parentCommentId); 
+        setPendingPin(null); // Replies share their thread's pin
         // Focus the main comment input
         commentInputRef.current?.focus();
         // Optionally, you could scroll the input into view here too
         // commentInputRef.current?.scrollIntoView({ behavior: 'smooth', block: 'center' });
     };
 
+    // --- Handlers for pinned comments ---
+    const handlePlacePin = (point: PinPoint) => {
+        setPendingPin(point);
+        setActivePinCommentId(null);
+        commentInputRef.current?.focus();
+    };
+
+    const handleSelectPinnedThread = (commentId: string) => {
+        setActivePinCommentId(prev => (prev === commentId ? null : commentId));
+    };
+
     // --- NEW: Handler for comment attachment file selection ---
     const handleCommentAttachmentFilesSelected = (event: React.ChangeEvent<HTMLInputElement>) => {
         const files = event.target.files;
@@ -1920,7 +1550,7 @@ export default function ProjectsOverviewPage() {
                                        <AlertDialogHeader>
                                            <AlertDialogTitle>Are you sure?</AlertDialogTitle>
                                            <AlertDialogDescription>
-                                               Permanently delete project &quot;{project.name}&quot;? This cannot be undone.
+                                               Move project &quot;{project.name}&quot; to the trash? An admin can restore it until the retention window ends.
                                            </AlertDialogDescription>
                                        </AlertDialogHeader>
                                        <AlertDialogFooter>
@@ -2010,7 +1640,7 @@ export default function ProjectsOverviewPage() {
                                                      <AlertDialogHeader>
                                                          <AlertDialogTitle>Are you sure?</AlertDialogTitle>
                                                          <AlertDialogDescription>
-                                                             Permanently delete project &quot;{project.name}&quot;? This cannot be undone.
+                                                             Move project &quot;{project.name}&quot; to the trash? An admin can restore it until the retention window ends.
                                                          </AlertDialogDescription>
                                                      </AlertDialogHeader>
                                                      <AlertDialogFooter>
@@ -2163,47 +1793,29 @@ export default function ProjectsOverviewPage() {
                         <Card className="mb-6">
                             <CardHeader>
                                 <CardTitle>Upload New Designs</CardTitle>
-                                <CardDescription>Drag & drop files here to create new designs in this project.</CardDescription>
+                                <CardDescription>
+                                    Drag & drop files here to create new designs in this project, or a folder or ZIP whose subfolders are designs (with <code>v1</code>, <code>v2</code> folders for versions).
+                                    Files named like <code>Logo_v2_B.png</code> go to that design, version and variation. Uploads keep going in the tray while you move around the app.
+                                </CardDescription>
                 </CardHeader>
                 <CardContent>
                                 <Dropzone key={dropzoneKey} onFilesAccepted={handleDrop} /> 
-                  {/* Render Upload Queue Items */}
-                  <div className="mt-4 space-y-2">
-                                {uploadQueue.map(item => (
-                      <div key={item.id} className="flex items-center gap-3 p-2 border rounded-md bg-muted/30">
-                        <Image src={item.previewUrl} alt={item.file.name} width={40} height={40} className="h-10 w-10 object-cover rounded" />
-                        <div className="flex-grow space-y-1">
-                          <p className="text-sm font-medium truncate">{item.file.name}</p>
-                          {item.status === 'uploading' && (
-                            <Progress value={item.progress} className="h-2" />
-                          )}
-                          {item.status === 'error' && (
-                            <p className="text-xs text-red-600">Error: {item.error || 'Upload failed'}</p>
-                          )}
-                          {item.status === 'cancelled' && (
-                            <p className="text-xs text-yellow-600">Cancelled</p>
-                          )}
-                          {item.status === 'pending' && (
-                             <p className="text-xs text-muted-foreground">Pending...</p>
-                          )}
-                        </div>
-                        {/* Add status icon based on state */}
-                        <div className="flex-shrink-0">
-                          {item.status === 'uploading' && (
-                            <Button variant="ghost" size="icon" className="h-6 w-6 text-muted-foreground" onClick={() => handleCancelUpload(item.id)} title="Cancel Upload">
-                              <X className="h-4 w-4" />
-                            </Button>
-                          )}
-                          {item.status === 'error' && (
-                            <X className="h-5 w-5 text-red-500" />
-                          )}
-                          {/* Add success checkmark if needed, though items are removed on success */}
-                        </div>
-                      </div>
-                    ))}
-                  </div>
+                                {/* webkitdirectory isn't in React's input props, hence the spread */}
+                                <input ref={importFolderInputRef} type="file" multiple className="hidden" onChange={handleImportFolderSelected} {...{ webkitdirectory: '' }} />
+                                <Button variant="link" size="sm" className="mt-2 px-0" onClick={() => importFolderInputRef.current?.click()}>
+                                    <Upload className="mr-2 h-4 w-4" /> Choose a folder to import
+                                </Button>
+                                <ProjectUploadSettings project={selectedProjectDetails} />
                 </CardContent>
             </Card>
+                        {selectedProjectId && (
+                            <UploadMappingDialog
+                                isOpen={filesToMap.length > 0}
+                                onOpenChange={(isOpen) => { if (!isOpen) setFilesToMap([]); }}
+                                projectId={selectedProjectId}
+                                files={filesToMap}
+                            />
+                        )}
 
                         
                         
@@ -2271,7 +1883,7 @@ export default function ProjectsOverviewPage() {
                             onChange={handleVersionFilesSelected}
                             className="hidden"
                             multiple 
-                            accept="image/*" 
+                            accept="image/*,video/mp4,video/webm,video/quicktime" 
                         />
                          <input 
                             type="file"
@@ -2279,14 +1891,14 @@ export default function ProjectsOverviewPage() {
                             onChange={handleVariationFilesSelected}
                             className="hidden"
                             multiple 
-                            accept="image/*" 
+                            accept="image/*,video/mp4,video/webm,video/quicktime" 
                         />
                         <input 
                             type="file"
                             ref={replaceVariationFileInputRef}
                             onChange={handleReplaceFileSelected}
                             className="hidden"
-                            accept="image/*" 
+                            accept="image/*,video/mp4,video/webm,video/quicktime" 
                         />
                         {/* NEW: Hidden file input for comment attachments */}
                         <input 
@@ -2463,18 +2075,22 @@ export default function ProjectsOverviewPage() {
                                         </div>
                                         {/* --- End of Variation Section --- */}
 
-                                        {/* --- Upload Queue --- */}
-                                        {uploadQueue.length > 0 && (
+                                        {/* --- Upload Queue (this design's items of the app-wide queue) --- */}
+                                        {designUploads.length > 0 && (
                                             <div className="mt-3 pt-3 border-t space-y-2 max-h-[20vh] overflow-y-auto">
                                                 <h4 className="text-sm font-medium text-muted-foreground px-1">
-                                                    Upload Queue ({uploadQueue.filter(f => f.status === 'success' || f.status === 'error' || f.status === 'cancelled').length}/{uploadQueue.length} processed)
+                                                    Upload Queue ({designUploads.filter(f => f.status === 'success' || f.status === 'error' || f.status === 'cancelled').length}/{designUploads.length} processed)
                                                 </h4>
-                                                {uploadQueue.map(item => {
-                                                    let statusText = 'Pending...';
-                                                    if (item.status === 'pending' && !item.uploadStarted) {
-                                                        statusText = 'Queued...';
+                                                {designUploads.map(item => {
+                                                    let statusText = 'Queued...';
+                                                    if (item.status === 'checking') {
+                                                        statusText = 'Checking file...';
+                                                    } else if (item.status === 'duplicate') {
+                                                        statusText = `Same as ${item.duplicateOf}. Upload anyway?`;
                                                     } else if (item.status === 'uploading') {
                                                         statusText = `Uploading (${item.progress}%)`;
+                                                    } else if (item.status === 'paused') {
+                                                        statusText = `Paused (${item.progress}%)`;
                                                     } else if (item.status === 'error') {
                                                         statusText = `Error: ${item.error || 'Upload failed'}`;
                                                     } else if (item.status === 'cancelled') {
@@ -2485,7 +2101,11 @@ export default function ProjectsOverviewPage() {
 
                                                     return (
                                                         <div key={item.id} className="flex items-center gap-3 p-2 border rounded-md bg-background">
-                                                            <Image src={item.previewUrl} alt={item.file.name} width={32} height={32} className="h-8 w-8 object-cover rounded flex-shrink-0" />
+                                                            {item.previewUrl ? (
+                                                                <Image src={item.previewUrl} alt={item.file.name} width={32} height={32} className="h-8 w-8 object-cover rounded flex-shrink-0" />
+                                                            ) : (
+                                                                <div className="h-8 w-8 rounded bg-muted flex-shrink-0" />
+                                                            )}
                                                             <div className="flex-grow space-y-1 min-w-0">
                                                                 <p className="text-xs font-medium truncate" title={item.file.name}>{item.file.name}</p>
                                                                 {item.status === 'uploading' ? (
@@ -2496,24 +2116,38 @@ export default function ProjectsOverviewPage() {
                                                                     <p className={cn(
                                                                         "text-xs truncate",
                                                                         item.status === 'error' && "text-red-600",
-                                                                        item.status === 'cancelled' && "text-yellow-600",
+                                                                        (item.status === 'cancelled' || item.status === 'paused' || item.status === 'duplicate') && "text-yellow-600",
                                                                         item.status === 'pending' && "text-muted-foreground"
                                                                     )} title={statusText}>
                                                                         {statusText}
                                                                     </p>
                                                                 )}
                                                             </div>
-                                                            <div className="flex-shrink-0">
-                                                                {item.status === 'uploading' && (
-                                                                    <Button variant="ghost" size="icon" className="h-5 w-5 text-muted-foreground" onClick={() => handleCancelUpload(item.id)} title="Cancel Upload">
-                                                                        <X className="h-4 w-4" />
+                                                            <div className="flex flex-shrink-0 items-center gap-1">
+                                                                {item.status === 'uploading' && item.upload && (
+                                                                    <Button variant="ghost" size="icon" className="h-5 w-5 text-muted-foreground" onClick={() => pauseUpload(item.id)} title="Pause Upload">
+                                                                        <Pause className="h-4 w-4" />
+                                                                    </Button>
+                                                                )}
+                                                                {item.status === 'paused' && (
+                                                                    <Button variant="ghost" size="icon" className="h-5 w-5 text-muted-foreground" onClick={() => resumeUpload(item.id)} title="Resume Upload">
+                                                                        <Play className="h-4 w-4" />
+                                                                    </Button>
+                                                                )}
+                                                                {item.status === 'duplicate' && (
+                                                                    <Button variant="ghost" size="icon" className="h-5 w-5 text-muted-foreground" onClick={() => confirmDuplicateUpload(item.id)} title="Upload Anyway">
+                                                                        <Upload className="h-4 w-4" />
                                                                     </Button>
                                                                 )}
                                                                 {item.status === 'error' && (
-                                                                    <X className="h-5 w-5 text-red-500" />
+                                                                    <Button variant="ghost" size="icon" className="h-5 w-5 text-muted-foreground" onClick={() => retryUpload(item.id)} title="Retry Upload">
+                                                                        <RotateCcw className="h-4 w-4" />
+                                                                    </Button>
                                                                 )}
-                                                                {item.status === 'pending' && !item.uploadStarted && (
-                                                                    <X className="h-4 w-4 text-muted-foreground" />
+                                                                {(item.status === 'pending' || item.upload) && (
+                                                                    <Button variant="ghost" size="icon" className="h-5 w-5 text-muted-foreground" onClick={() => cancelUpload(item.id)} title="Cancel Upload">
+                                                                        <X className="h-4 w-4" />
+                                                                    </Button>
                                                                 )}
                                                             </div>
                                                         </div>
@@ -2526,7 +2160,15 @@ export default function ProjectsOverviewPage() {
 
                                     {/* Image Viewer Area - Change padding from p-6 to p-8 */}
                                     <div className="p-8 flex items-start justify-center overflow-hidden h-full relative group/imageViewer">
-                                        <ModalImageViewer filePath={selectedVariation?.file_path} />
+                                        <ModalImageViewer filePath={selectedVariation?.file_path}>
+                                            <CommentPinLayer
+                                                pins={commentPins}
+                                                activeCommentId={activePinCommentId}
+                                                pendingPin={pendingPin}
+                                                onPlacePin={currentVariationId && !replyingToCommentId ? handlePlacePin : undefined}
+                                                onPinClick={handleSelectPinnedThread}
+                                            />
+                                        </ModalImageViewer>
 
                                         {/* --- NEW: Hover Controls for Variation Management --- */}
                                         {currentVariationId && (
@@ -2571,7 +2213,7 @@ export default function ProjectsOverviewPage() {
                                                                 <AlertDialogHeader>
                                                                     <AlertDialogTitle>Are you absolutely sure?</AlertDialogTitle>
                                                                     <AlertDialogDescription>
-                                                                        This action cannot be undone. This will permanently delete variation {selectedVariation?.variation_letter || '?'} and its associated comments and file.
+                                                                        This will move variation {selectedVariation?.variation_letter || '?'} and its comments to the trash. An admin can restore it until the retention window ends.
                                                                     </AlertDialogDescription>
                                                                 </AlertDialogHeader>
                                                                 <AlertDialogFooter>
@@ -2629,17 +2271,20 @@ export default function ProjectsOverviewPage() {
                                                     ) : errorComments ? (
                                                         <div className="text-center text-red-500 py-4">Error loading comments.</div>
                                                     ) : commentsData && commentsData.length > 0 ? (
-                                          buildCommentTree(commentsData).map((rootComment: Comment & { children: Comment[] }) => (
-                                                            <RenderCommentThread
+                                          buildCommentTree(commentsData).map((rootComment: CommentTreeNode) => (
+                                                            <CommentThread
                                                                 key={rootComment.id}
                                               comment={rootComment}
                                               level={0}
                                                                 currentUser={user}
                                                                 onUpdate={updateCommentMutation.mutate}
-                                                                onDelete={deleteCommentMutation.mutate}
+                                                                onDelete={(commentId, options) => deleteCommentMutation.mutate({ commentId, ...options })}
                                                                 isUpdating={updateCommentMutation.isPending}
                                                                 isDeleting={deleteCommentMutation.isPending}
                                               onReply={handleReplyClick}
+                                              pinNumbers={pinNumbers}
+                                              activeCommentId={activePinCommentId}
+                                              onSelectThread={handleSelectPinnedThread}
                                                             />
                                                         ))
                                                     ) : (
@@ -2648,10 +2293,18 @@ export default function ProjectsOverviewPage() {
                                                 </div>
                                     {/* Input Area - Add px-4 and pb-2 */}
                                     <div className="shrink-0 bg-gray-50 pt-2 px-4 pb-2 relative"> {/* <-- ADDED relative CLASS HERE */}
+                                                     {pendingPin && (
+                                                       <div className="mb-2 flex items-center justify-between text-xs bg-blue-50 text-blue-700 px-2 py-1 rounded-md">
+                                                           <span className="flex items-center gap-1"><MapPin className="h-3 w-3" /> Pinned to image as #{commentPins.length + 1}</span>
+                                                           <Button variant="ghost" size="icon" className="h-4 w-4 text-blue-700 hover:text-destructive" onClick={() => setPendingPin(null)} title="Remove pin">
+                                                               <X className="h-3 w-3" />
+                                                           </Button>
+                                                       </div>
+                                                     )}
                                                      <div className="relative"> {/* Make this the positioning context */}
                                                      <Textarea 
                                                          ref={commentInputRef} 
-                                                         placeholder={replyingToCommentId ? "Write your reply..." : "Add your comment..."} 
+                                                         placeholder={replyingToCommentId ? "Write your reply..." : pendingPin ? "Comment on this spot..." : "Add your comment... (click the image to pin it)"} 
                                                          className="mb-2" 
                                                          value={newCommentText} 
                                                         onChange={handleCommentInputChange} // NEW: Use dedicated handler
@@ -2705,7 +2358,7 @@ export default function ProjectsOverviewPage() {
                                           <Button variant="ghost" size="icon" className="text-muted-foreground hover:text-foreground" title="Attach files" type="button" onClick={() => commentAttachmentInputRef.current?.click()}>
                                                              <Archive className="h-4 w-4" />
                                                          </Button>
-                                          <Button size="sm" onClick={() => { if (newCommentText.trim() || selectedAttachmentFiles.length > 0) { addCommentMutation.mutate({ commentText: newCommentText.trim(), parentId: replyingToCommentId, files: selectedAttachmentFiles, onSuccessCallback: () => { setNewCommentText(''); setReplyingToCommentId(null); setSelectedAttachmentFiles([]); } }); } else { toast.info("Comment cannot be empty."); } }} disabled={!currentVariationId || addCommentMutation.isPending}>
+                                          <Button size="sm" onClick={() => { if (newCommentText.trim() || selectedAttachmentFiles.length > 0) { addCommentMutation.mutate({ commentText: newCommentText.trim(), parentId: replyingToCommentId, files: selectedAttachmentFiles, position: replyingToCommentId ? null : pendingPin, onSuccessCallback: () => { setNewCommentText(''); setReplyingToCommentId(null); setSelectedAttachmentFiles([]); setPendingPin(null); } }); } else { toast.info("Comment cannot be empty."); } }} disabled={!currentVariationId || addCommentMutation.isPending}>
                                                              {addCommentMutation.isPending ? <Loader2 className="h-4 w-4 animate-spin mr-2" /> : null} Send
                                                          </Button>
                                                      </div>
@@ -0,0 +1,128 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ORPHAN_GRACE_PERIOD_HOURS } from '@/lib/constants/imageConstants';
+import {
+    supabaseUrl,
+    supabaseServiceKey,
+    targetBucket,
+    supabaseAdmin,
+    getRenditionPaths,
+    getLegacyRenditionLayouts,
+    getPageCounts,
+} from '@/lib/server/imagePipeline';
+import { RECONCILED_BUCKETS, listBucketObjects, listReferencedFiles } from '@/lib/server/storageReconciliation';
+import { runProcessingJobNow } from '@/lib/server/processingJobs';
+import { isLeftToWorker } from '@/lib/processingJobs';
+import { isRouteUserAdmin } from '@/lib/server/supabaseRoute';
+import { findStorageDiscrepancies, StorageReconciliationReport, StoredObject } from '@/lib/storageReconciliation';
+
+const REMOVE_BATCH_SIZE = 100;
+
+async function deleteOrphans(orphans: StoredObject[], errors: string[]): Promise<number> {
+    let deleted = 0;
+    for (const bucket of RECONCILED_BUCKETS) {
+        const paths = orphans.filter(object => object.bucket === bucket).map(object => object.path);
+        for (let i = 0; i < paths.length; i += REMOVE_BATCH_SIZE) {
+            const batch = paths.slice(i, i + REMOVE_BATCH_SIZE);
+            const { error } = await supabaseAdmin.storage.from(bucket).remove(batch);
+            if (error) {
+                errors.push(`Failed to delete ${batch.length} orphan(s) from ${bucket}: ${error.message}`);
+            } else {
+                deleted += batch.length;
+            }
+        }
+    }
+    return deleted;
+}
+
+// One at a time: processing holds whole images in memory
+async function reprocess(originalPaths: string[], errors: string[]): Promise<number> {
+    let reprocessed = 0;
+    for (const originalPath of originalPaths) {
+        try {
+            const job = await runProcessingJobNow(originalPath);
+            // A long document left to the worker isn't an error either
+            if (job.status === 'done' || isLeftToWorker(job)) {
+                reprocessed++;
+            } else {
+                errors.push(`Processing ${job.status === 'failed' ? 'failed' : 'will be retried'} for ${originalPath}: ${job.last_error}`);
+            }
+        } catch (error: unknown) {
+            errors.push(`Processing failed for ${originalPath}: ${error instanceof Error ? error.message : String(error)}`);
+        }
+    }
+    return reprocessed;
+}
+
+// Compares storage with the database and optionally fixes what it finds. Dry run unless told otherwise.
+export async function POST(request: NextRequest) {
+    console.log('[API /admin/storage-reconciliation] Received POST request');
+
+    if (!supabaseUrl || !supabaseServiceKey) {
+        console.error('[API /admin/storage-reconciliation] Missing Supabase URL or Service Key environment variables.');
+        return NextResponse.json({ error: 'Server configuration error.' }, { status: 500 });
+    }
+
+    if (!(await isRouteUserAdmin(request))) {
+        return NextResponse.json({ error: 'Not authorized.' }, { status: 403 });
+    }
+
+    // Anything other than an explicit { dryRun: false } only reports
+    const body = await request.json().catch(() => ({}));
+    const dryRun = body.dryRun !== false;
+    const shouldDeleteOrphans = body.deleteOrphans === true;
+    const shouldReprocess = body.reprocessMissing === true;
+
+    try {
+        // --- 1. Scan storage and the database ---
+        const objects: StoredObject[] = [];
+        const objectCounts: Record<string, number> = {};
+        for (const bucket of RECONCILED_BUCKETS) {
+            const bucketObjects = await listBucketObjects(bucket);
+            objectCounts[bucket] = bucketObjects.length;
+            objects.push(...bucketObjects);
+        }
+        const referenced = await listReferencedFiles();
+        const pageCounts = await getPageCounts();
+
+        // --- 2. Compare ---
+        const discrepancies = findStorageDiscrepancies({
+            objects,
+            referenced,
+            processedBucket: targetBucket,
+            getRenditionPaths: originalPath => getRenditionPaths(originalPath, pageCounts.get(originalPath)),
+            getLegacyRenditionLayouts,
+            now: new Date(),
+            gracePeriodMs: ORPHAN_GRACE_PERIOD_HOURS * 60 * 60 * 1000,
+        });
+        console.log(`[API /admin/storage-reconciliation] Found ${discrepancies.orphans.length} orphan(s), ${discrepancies.missingOriginals.length} missing original(s), ${discrepancies.missingRenditions.length} original(s) missing renditions`);
+
+        // --- 3. Fix, unless this is a dry run ---
+        const errors: string[] = [];
+        let deletedOrphans = 0;
+        let reprocessed = 0;
+        if (!dryRun && shouldDeleteOrphans) {
+            deletedOrphans = await deleteOrphans(discrepancies.orphans, errors);
+        }
+        if (!dryRun && shouldReprocess) {
+            reprocessed = await reprocess(discrepancies.missingRenditions.map(item => item.originalPath), errors);
+        }
+
+        const report: StorageReconciliationReport = {
+            ...discrepancies,
+            dryRun,
+            scannedAt: new Date().toISOString(),
+            objectCounts,
+            deletedOrphans,
+            reprocessed,
+            errors,
+        };
+        return NextResponse.json(report, { status: 200 });
+    } catch (error: unknown) {
+        console.error('[API /admin/storage-reconciliation] Reconciliation failed:', error);
+        return NextResponse.json({ error: 'Storage reconciliation failed.', details: error instanceof Error ? error.message : String(error) }, { status: 500 });
+    }
+}
+
+export async function GET() {
+    return NextResponse.json({ message: 'Storage reconciliation endpoint. Use POST.' }, { status: 405 });
+}
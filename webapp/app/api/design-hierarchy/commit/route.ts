@@ -0,0 +1,123 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+    supabaseUrl,
+    supabaseServiceKey,
+    defaultSourceBucket,
+} from '@/lib/server/imagePipeline';
+import { getRouteUser } from '@/lib/server/supabaseRoute';
+import { checkStoredUpload, removeUnlinkedUploads, storedUploadExists } from '@/lib/server/uploadValidation';
+import { buildVariationFilePath } from '@/lib/designHierarchy';
+import { isProcessablePath } from '@/lib/processingJobs';
+
+type CommitUpload = { versionId: string; variationId: string; filePath: string };
+
+// Creates the design (optionally), versions and variations for files uploaded via ../prepare/route.ts,
+// all inside the create_design_versions database function so it either fully succeeds or leaves nothing.
+// Sending the same commit again after it succeeded returns the rows it created.
+export async function POST(request: NextRequest) {
+    console.log('[API /design-hierarchy/commit] Received POST request');
+
+    if (!supabaseUrl || !supabaseServiceKey) {
+        console.error('[API /design-hierarchy/commit] Missing Supabase URL or Service Key environment variables.');
+        return NextResponse.json({ error: 'Server configuration error.' }, { status: 500 });
+    }
+
+    const { supabase, user } = await getRouteUser(request);
+    if (!user) {
+        return NextResponse.json({ error: 'Not authenticated.' }, { status: 401 });
+    }
+
+    let projectId: string;
+    let designId: string;
+    let designName: string | null;
+    let uploads: CommitUpload[];
+    try {
+        const body = await request.json();
+        projectId = body.projectId;
+        designId = body.designId;
+        designName = typeof body.designName === 'string' && body.designName.trim() ? body.designName.trim() : null;
+        uploads = body.uploads;
+        if (!projectId || !designId || !Array.isArray(uploads) || uploads.length === 0) {
+            throw new Error('Missing projectId, designId or uploads in request body');
+        }
+        // Only accept paths that prepare could have produced for this design. The prefix alone would let
+        // '..' segments climb out of it, so the path also has to be a plain one without traversal.
+        const isPreparedPath = (upload: CommitUpload) => !!upload?.versionId && !!upload.variationId
+            && isProcessablePath(upload.filePath)
+            && upload.filePath.startsWith(buildVariationFilePath(projectId, designId, upload.versionId, upload.variationId, ''));
+        if (!uploads.every(isPreparedPath)) {
+            throw new Error('Upload paths do not match the prepared versions');
+        }
+    } catch (error: unknown) {
+        console.error('[API /design-hierarchy/commit] Error parsing request body:', error);
+        return NextResponse.json({ error: 'Invalid request body.', details: error instanceof Error ? error.message : String(error) }, { status: 400 });
+    }
+
+    // Nothing below may touch storage (the cleanup uses the service role) unless the caller can add to the project
+    const { data: canEdit, error: accessError } = await supabase.rpc('current_user_can_edit_project', { p_project_id: projectId });
+    if (accessError) {
+        console.error('[API /design-hierarchy/commit] Error checking project access:', accessError);
+        return NextResponse.json({ error: 'Failed to check project access.', details: accessError.message }, { status: 500 });
+    }
+    if (canEdit !== true) {
+        return NextResponse.json({ error: 'You cannot add designs to this project.' }, { status: 403 });
+    }
+
+    const uploadedPaths = uploads.map(upload => upload.filePath);
+
+    try {
+        const missing: string[] = [];
+        for (const path of uploadedPaths) {
+            if (!(await storedUploadExists(path))) missing.push(path);
+        }
+        if (missing.length > 0) {
+            console.warn('[API /design-hierarchy/commit] Uploads not found in storage:', missing);
+            await removeUnlinkedUploads('[API /design-hierarchy/commit]', uploadedPaths.filter(path => !missing.includes(path)));
+            return NextResponse.json({ error: 'Some files were not uploaded.', details: `Missing: ${missing.join(', ')}` }, { status: 400 });
+        }
+
+        // The browser checked these before uploading; check again, since nothing stops a client from skipping that
+        const rejected: string[] = [];
+        for (const path of uploadedPaths) {
+            const problems = await checkStoredUpload(defaultSourceBucket, path);
+            if (problems.length > 0) rejected.push(`${path.split('/').pop()}: ${problems.join(' ')}`);
+        }
+        if (rejected.length > 0) {
+            console.warn('[API /design-hierarchy/commit] Uploads rejected by the upload policy:', rejected);
+            await removeUnlinkedUploads('[API /design-hierarchy/commit]', uploadedPaths);
+            return NextResponse.json({ error: 'Some files are not allowed.', details: rejected.join('; ') }, { status: 422 });
+        }
+    } catch (error: unknown) {
+        console.error('[API /design-hierarchy/commit] Error verifying uploads:', error);
+        return NextResponse.json({ error: 'Failed to verify uploads.', details: error instanceof Error ? error.message : String(error) }, { status: 500 });
+    }
+
+    // One entry per version, in the order its first upload appears
+    const versions = [...new Set(uploads.map(upload => upload.versionId))].map(versionId => ({
+        id: versionId,
+        variations: uploads
+            .filter(upload => upload.versionId === versionId)
+            .map(upload => ({ id: upload.variationId, file_path: upload.filePath })),
+    }));
+
+    // Runs as the user, so RLS still decides whether they may create rows in this project
+    const { data, error } = await supabase.rpc('create_design_versions', {
+        p_project_id: projectId,
+        p_design_id: designId,
+        p_design_name: designName,
+        p_versions: versions,
+    });
+
+    if (error || !data) {
+        console.error('[API /design-hierarchy/commit] create_design_versions failed, rolling back uploads:', error);
+        await removeUnlinkedUploads('[API /design-hierarchy/commit]', uploadedPaths);
+        return NextResponse.json({ error: 'Failed to create design records.', details: error?.message || 'No data returned' }, { status: 500 });
+    }
+
+    console.log(`[API /design-hierarchy/commit] Created ${versions.length} version(s) of design ${designId} with ${uploads.length} variation(s)`);
+    return NextResponse.json(data, { status: 200 });
+}
+
+export async function GET() {
+    return NextResponse.json({ message: 'Design hierarchy commit endpoint. Use POST.' }, { status: 405 });
+}
@@ -0,0 +1,157 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+    supabaseUrl,
+    supabaseServiceKey,
+    defaultSourceBucket,
+} from '@/lib/server/imagePipeline';
+import { getRouteUser } from '@/lib/server/supabaseRoute';
+import { checkStoredUpload, removeUnlinkedUploads, storedUploadExists } from '@/lib/server/uploadValidation';
+import { buildVariationFilePath } from '@/lib/designHierarchy';
+import { isProcessablePath } from '@/lib/processingJobs';
+import { toPreparationColumns, type ImagePreparation } from '@/lib/imagePreparation';
+import { VariationFeedbackStatus } from '@/types/models';
+
+// Links a file uploaded to an existing version: as a new variation of it, or (replace) as the new file of one of its
+// variations. Like ../commit/route.ts, the stored file is checked against the upload policy first, so a file the
+// browser should have refused never gets attached.
+export async function POST(request: NextRequest) {
+    console.log('[API /design-hierarchy/link] Received POST request');
+
+    if (!supabaseUrl || !supabaseServiceKey) {
+        console.error('[API /design-hierarchy/link] Missing Supabase URL or Service Key environment variables.');
+        return NextResponse.json({ error: 'Server configuration error.' }, { status: 500 });
+    }
+
+    const { supabase, user } = await getRouteUser(request);
+    if (!user) {
+        return NextResponse.json({ error: 'Not authenticated.' }, { status: 401 });
+    }
+
+    let projectId: string;
+    let designId: string;
+    let versionId: string;
+    let variationId: string;
+    let filePath: string;
+    let replace: boolean;
+    let notes: string | null;
+    let preparation: ImagePreparation | null;
+    try {
+        const body = await request.json();
+        ({ projectId, designId, versionId, variationId, filePath } = body);
+        replace = body.replace === true;
+        notes = typeof body.notes === 'string' && body.notes.trim() ? body.notes : null;
+        preparation = body.preparation ?? null;
+        if (!projectId || !designId || !versionId || !variationId || typeof filePath !== 'string') {
+            throw new Error('Missing projectId, designId, versionId, variationId or filePath in request body');
+        }
+        // '..' or empty segments could climb out of the variation's folder, whatever the prefix says
+        if (!isProcessablePath(filePath) || !filePath.startsWith(buildVariationFilePath(projectId, designId, versionId, variationId, ''))) {
+            throw new Error('Upload path does not belong to this variation');
+        }
+    } catch (error: unknown) {
+        console.error('[API /design-hierarchy/link] Error parsing request body:', error);
+        return NextResponse.json({ error: 'Invalid request body.', details: error instanceof Error ? error.message : String(error) }, { status: 400 });
+    }
+
+    // Nothing below may touch storage (the cleanup uses the service role) unless the caller can add to the project
+    const { data: canEdit, error: accessError } = await supabase.rpc('current_user_can_edit_project', { p_project_id: projectId });
+    if (accessError) {
+        console.error('[API /design-hierarchy/link] Error checking project access:', accessError);
+        return NextResponse.json({ error: 'Failed to check project access.', details: accessError.message }, { status: 500 });
+    }
+    if (canEdit !== true) {
+        return NextResponse.json({ error: 'You cannot add files to this project.' }, { status: 403 });
+    }
+
+    // The path was built from these ids, so they have to be one version of one design of the project
+    const { data: version, error: versionError } = await supabase
+        .from('versions')
+        .select('id, designs!inner(project_id)')
+        .eq('id', versionId)
+        .eq('design_id', designId)
+        .eq('designs.project_id', projectId)
+        .maybeSingle();
+    if (versionError) {
+        console.error('[API /design-hierarchy/link] Error fetching version:', versionError);
+        return NextResponse.json({ error: 'Failed to fetch version.', details: versionError.message }, { status: 500 });
+    }
+    if (!version) {
+        return NextResponse.json({ error: 'Version not found.' }, { status: 404 });
+    }
+
+    try {
+        if (!(await storedUploadExists(filePath))) {
+            return NextResponse.json({ error: 'The file was not uploaded.', details: `Missing: ${filePath}` }, { status: 400 });
+        }
+        // The browser checked the file before uploading; check again, since nothing stops a client from skipping that
+        const problems = await checkStoredUpload(defaultSourceBucket, filePath);
+        if (problems.length > 0) {
+            console.warn('[API /design-hierarchy/link] Upload rejected by the upload policy:', filePath, problems);
+            await removeUnlinkedUploads('[API /design-hierarchy/link]', [filePath]);
+            return NextResponse.json({ error: 'This file is not allowed.', details: `${filePath.split('/').pop()}: ${problems.join(' ')}` }, { status: 422 });
+        }
+    } catch (error: unknown) {
+        console.error('[API /design-hierarchy/link] Error verifying upload:', error);
+        return NextResponse.json({ error: 'Failed to verify upload.', details: error instanceof Error ? error.message : String(error) }, { status: 500 });
+    }
+
+    // Runs as the user, so RLS still decides whether they may change the version's variations
+    if (replace) {
+        // The variations trigger records the new path in variation_file_revisions with the uploader
+        const { data: variation, error } = await supabase
+            .from('variations')
+            .update({ file_path: filePath, ...toPreparationColumns(preparation), updated_at: new Date().toISOString() })
+            .eq('id', variationId)
+            .eq('version_id', versionId)
+            .select()
+            .maybeSingle();
+        if (error || !variation) {
+            console.error('[API /design-hierarchy/link] Failed to point the variation at the new file:', error);
+            return NextResponse.json({ error: 'Failed to update variation with new file path.', details: error?.message || 'Variation not found' }, { status: error ? 500 : 404 });
+        }
+        console.log(`[API /design-hierarchy/link] Variation ${variationId} now uses ${filePath}`);
+        return NextResponse.json(variation, { status: 200 });
+    }
+
+    // Variation letters come from the rows already there; the browser sends the files of one version one at a time
+    const { data: existingVariations, error: fetchError } = await supabase
+        .from('variations')
+        .select('variation_letter')
+        .eq('version_id', versionId)
+        .order('variation_letter', { ascending: false })
+        .limit(1);
+    if (fetchError) {
+        console.error('[API /design-hierarchy/link] Error fetching existing variations:', fetchError);
+        return NextResponse.json({ error: 'Failed to fetch existing variations.', details: fetchError.message }, { status: 500 });
+    }
+    const variationLetter = existingVariations?.length ? String.fromCharCode(existingVariations[0].variation_letter.charCodeAt(0) + 1) : 'A';
+    if (variationLetter > 'Z') {
+        await removeUnlinkedUploads('[API /design-hierarchy/link]', [filePath]);
+        return NextResponse.json({ error: 'Maximum number of variations reached.' }, { status: 409 });
+    }
+
+    const { data: variation, error: insertError } = await supabase
+        .from('variations')
+        .insert({
+            id: variationId,
+            version_id: versionId,
+            variation_letter: variationLetter,
+            notes,
+            status: VariationFeedbackStatus.PendingFeedback,
+            file_path: filePath,
+            ...toPreparationColumns(preparation),
+        })
+        .select()
+        .single();
+    if (insertError || !variation) {
+        console.error('[API /design-hierarchy/link] Failed to create variation:', insertError);
+        return NextResponse.json({ error: `Failed to create variation ${variationLetter}.`, details: insertError?.message || 'No data returned' }, { status: 500 });
+    }
+
+    console.log(`[API /design-hierarchy/link] Created variation ${variationLetter} of version ${versionId} for ${filePath}`);
+    return NextResponse.json(variation, { status: 200 });
+}
+
+export async function GET() {
+    return NextResponse.json({ message: 'Design hierarchy link endpoint. Use POST.' }, { status: 405 });
+}
@@ -0,0 +1,84 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { randomUUID } from 'crypto';
+import { supabaseUrl, supabaseServiceKey } from '@/lib/server/imagePipeline';
+import { getRouteUser } from '@/lib/server/supabaseRoute';
+import { buildVariationFilePath, type PreparedUpload } from '@/lib/designHierarchy';
+
+const MAX_VARIATIONS = 26; // Variation letters A-Z
+
+// Reserves ids for a new design and/or its new versions and returns the storage paths the variation files upload to.
+// No rows are created here; see ../commit/route.ts.
+export async function POST(request: NextRequest) {
+    console.log('[API /design-hierarchy/prepare] Received POST request');
+
+    if (!supabaseUrl || !supabaseServiceKey) {
+        console.error('[API /design-hierarchy/prepare] Missing Supabase URL or Service Key environment variables.');
+        return NextResponse.json({ error: 'Server configuration error.' }, { status: 500 });
+    }
+
+    const { supabase, user } = await getRouteUser(request);
+    if (!user) {
+        return NextResponse.json({ error: 'Not authenticated.' }, { status: 401 });
+    }
+
+    let projectId: string;
+    let existingDesignId: string | undefined;
+    let fileNames: string[];
+    let versionIndexes: number[];
+    try {
+        const body = await request.json();
+        projectId = body.projectId;
+        existingDesignId = body.designId || undefined;
+        fileNames = body.fileNames;
+        if (!projectId || !Array.isArray(fileNames) || fileNames.length === 0) {
+            throw new Error('Missing projectId or fileNames in request body');
+        }
+        if (fileNames.some(name => typeof name !== 'string' || !name || name.includes('/'))) {
+            throw new Error('Invalid file name in request body');
+        }
+        // Which new version each file belongs to; versions are numbered 0, 1, ... with no gaps
+        versionIndexes = body.versionIndexes ?? fileNames.map(() => 0);
+        if (!Array.isArray(versionIndexes) || versionIndexes.length !== fileNames.length
+            || versionIndexes.some(index => !Number.isInteger(index) || index < 0)) {
+            throw new Error('versionIndexes must give a version index for every file');
+        }
+        const versionCount = Math.max(...versionIndexes) + 1;
+        for (let index = 0; index < versionCount; index++) {
+            const fileCount = versionIndexes.filter(versionIndex => versionIndex === index).length;
+            if (fileCount === 0) throw new Error(`Version index ${index} has no files`);
+            if (fileCount > MAX_VARIATIONS) throw new Error(`At most ${MAX_VARIATIONS} files can be uploaded to one version`);
+        }
+    } catch (error: unknown) {
+        console.error('[API /design-hierarchy/prepare] Error parsing request body:', error);
+        return NextResponse.json({ error: 'Invalid request body.', details: error instanceof Error ? error.message : String(error) }, { status: 400 });
+    }
+
+    // Read through the user's client so RLS decides whether they can see the project/design
+    const parentQuery = existingDesignId
+        ? supabase.from('designs').select('id').eq('id', existingDesignId).eq('project_id', projectId).maybeSingle()
+        : supabase.from('projects').select('id').eq('id', projectId).maybeSingle();
+    const { data: parent, error: parentError } = await parentQuery;
+    if (parentError) {
+        console.error('[API /design-hierarchy/prepare] Error checking access:', parentError);
+        return NextResponse.json({ error: 'Failed to check access.', details: parentError.message }, { status: 500 });
+    }
+    if (!parent) {
+        return NextResponse.json({ error: existingDesignId ? 'Design not found.' : 'Project not found.' }, { status: 404 });
+    }
+
+    const designId = existingDesignId ?? randomUUID();
+    const versionIds = Array.from({ length: Math.max(...versionIndexes) + 1 }, () => randomUUID());
+
+    const uploads: PreparedUpload[] = fileNames.map((fileName, index) => {
+        const versionId = versionIds[versionIndexes[index]];
+        const variationId = randomUUID();
+        return { versionId, variationId, fileName, filePath: buildVariationFilePath(projectId, designId, versionId, variationId, fileName) };
+    });
+
+    console.log(`[API /design-hierarchy/prepare] Prepared ${uploads.length} upload(s) for ${versionIds.length} version(s) of design ${designId}`);
+    return NextResponse.json({ designId, versionIds, uploads }, { status: 200 });
+}
+
+export async function GET() {
+    return NextResponse.json({ message: 'Design hierarchy upload preparation endpoint. Use POST.' }, { status: 405 });
+}
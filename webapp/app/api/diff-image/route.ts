@@ -0,0 +1,127 @@
+import { NextRequest, NextResponse } from 'next/server';
+import sharp from 'sharp';
+import { LARGE_WIDTH, DIFF_CHANNEL_THRESHOLD } from '@/lib/constants/imageConstants';
+import {
+    supabaseUrl,
+    supabaseServiceKey,
+    targetBucket,
+    downloadFromBucket,
+} from '@/lib/server/imagePipeline';
+import { getProcessedImagePath } from '@/lib/imageUtils';
+import { createRouteClient, getRouteUser } from '@/lib/server/supabaseRoute';
+import { computePixelDiff } from '@/lib/imageDiff';
+
+type RouteSupabase = ReturnType<typeof createRouteClient>;
+
+// The variation's file path, read as the caller so RLS decides whether they can see it; null when they can't
+async function getVisibleFilePath(supabase: RouteSupabase, variationId: string): Promise<string | null> {
+    const { data: variation, error } = await supabase
+        .from('variations')
+        .select('id, file_path')
+        .eq('id', variationId)
+        .maybeSingle();
+
+    if (error) {
+        throw new Error(`Failed to fetch variation ${variationId}: ${error.message}`);
+    }
+    return variation?.file_path ?? null;
+}
+
+// Loads the LARGE rendition the viewers show, or null if it hasn't been processed yet. The original is never used
+// instead: it can be a huge image, a document or a video, none of which should be decoded here.
+async function loadVariationImage(variationId: string, filePath: string): Promise<Buffer | null> {
+    const processedPath = getProcessedImagePath(filePath, LARGE_WIDTH);
+    try {
+        return await downloadFromBucket(targetBucket, processedPath);
+    } catch (processedError) {
+        console.warn(`[API /diff-image] Processed image missing for ${variationId}.`, processedError);
+        return null;
+    }
+}
+
+export async function POST(request: NextRequest) {
+    console.log('[API /diff-image] Received POST request');
+
+    if (!supabaseUrl || !supabaseServiceKey) {
+        console.error('[API /diff-image] Missing Supabase URL or Service Key environment variables.');
+        return NextResponse.json({ error: 'Server configuration error.' }, { status: 500 });
+    }
+
+    const { supabase, user } = await getRouteUser(request);
+    if (!user) {
+        return NextResponse.json({ error: 'Not authenticated.' }, { status: 401 });
+    }
+
+    let baseVariationId: string;
+    let compareVariationId: string;
+    let threshold = DIFF_CHANNEL_THRESHOLD;
+    try {
+        const body = await request.json();
+        baseVariationId = body.baseVariationId;
+        compareVariationId = body.compareVariationId;
+        if (!baseVariationId || !compareVariationId) {
+            throw new Error('Missing baseVariationId or compareVariationId in request body');
+        }
+        if (body.threshold !== undefined) {
+            threshold = Math.min(255, Math.max(0, Number(body.threshold) || 0));
+        }
+    } catch (error: unknown) {
+        console.error('[API /diff-image] Error parsing request body:', error);
+        return NextResponse.json({ error: 'Invalid request body.', details: error instanceof Error ? error.message : String(error) }, { status: 400 });
+    }
+
+    try {
+        // Both are checked before anything is downloaded or decoded
+        const [basePath, comparePath] = await Promise.all([
+            getVisibleFilePath(supabase, baseVariationId),
+            getVisibleFilePath(supabase, compareVariationId),
+        ]);
+        if (!basePath || !comparePath) {
+            return NextResponse.json({ error: 'Variation not found or has no uploaded file.' }, { status: 404 });
+        }
+
+        const [baseBuffer, compareBuffer] = await Promise.all([
+            loadVariationImage(baseVariationId, basePath),
+            loadVariationImage(compareVariationId, comparePath),
+        ]);
+        if (!baseBuffer || !compareBuffer) {
+            return NextResponse.json({ error: 'Renditions not ready.', details: 'Both variations have to finish processing before they can be compared.' }, { status: 409 });
+        }
+
+        // --- 1. Decode both images to raw RGBA at the base image's size ---
+        const base = await sharp(baseBuffer)
+            .ensureAlpha()
+            .raw()
+            .toBuffer({ resolveWithObject: true });
+        const { width, height } = base.info;
+
+        const compare = await sharp(compareBuffer)
+            .resize({ width, height, fit: 'fill' }) // Align pixel grids even if the later upload changed size
+            .ensureAlpha()
+            .raw()
+            .toBuffer();
+
+        // --- 2. Diff and encode the heat map ---
+        const diff = computePixelDiff(new Uint8Array(base.data), new Uint8Array(compare), threshold);
+        const overlayPng = await sharp(Buffer.from(diff.overlay), { raw: { width, height, channels: 4 } })
+            .png()
+            .toBuffer();
+
+        console.log(`[API /diff-image] ${baseVariationId} -> ${compareVariationId}: ${diff.changedPercent}% changed`);
+        return NextResponse.json({
+            width,
+            height,
+            changedPixels: diff.changedPixels,
+            totalPixels: diff.totalPixels,
+            changedPercent: diff.changedPercent,
+            overlay: `data:image/png;base64,${overlayPng.toString('base64')}`,
+        }, { status: 200 });
+    } catch (error: unknown) {
+        console.error('[API /diff-image] Error computing diff:', error);
+        return NextResponse.json({ error: 'Image diff failed.', details: error instanceof Error ? error.message : String(error) }, { status: 500 });
+    }
+}
+
+export async function GET() {
+    return NextResponse.json({ message: 'Image diff endpoint. Use POST.' }, { status: 405 });
+}
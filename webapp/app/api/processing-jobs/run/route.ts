@@ -0,0 +1,52 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { supabaseUrl, supabaseServiceKey } from '@/lib/server/imagePipeline';
+import { runDueProcessingJobs } from '@/lib/server/processingJobs';
+import { isRouteUserAdmin } from '@/lib/server/supabaseRoute';
+
+const DEFAULT_BATCH_SIZE = 5;
+const MAX_BATCH_SIZE = 25;
+
+// Scheduled runs send `Authorization: Bearer $PROCESSING_JOBS_SECRET` (every minute or so); admins can also trigger it
+async function isAuthorized(request: NextRequest): Promise<boolean> {
+    const jobsSecret = process.env.PROCESSING_JOBS_SECRET;
+    if (jobsSecret && request.headers.get('authorization') === `Bearer ${jobsSecret}`) {
+        return true;
+    }
+    return isRouteUserAdmin(request);
+}
+
+// Runs processing retries that are due
+export async function POST(request: NextRequest) {
+    console.log('[API /processing-jobs/run] Received POST request');
+
+    if (!supabaseUrl || !supabaseServiceKey) {
+        console.error('[API /processing-jobs/run] Missing Supabase URL or Service Key environment variables.');
+        return NextResponse.json({ error: 'Server configuration error.' }, { status: 500 });
+    }
+
+    if (!(await isAuthorized(request))) {
+        return NextResponse.json({ error: 'Not authorized.' }, { status: 403 });
+    }
+
+    const body = await request.json().catch(() => ({}));
+    const limit = Math.min(Math.max(Number(body.limit) || DEFAULT_BATCH_SIZE, 1), MAX_BATCH_SIZE);
+
+    try {
+        const jobs = await runDueProcessingJobs(limit);
+        const countWithStatus = (status: string) => jobs.filter(job => job.status === status).length;
+        console.log(`[API /processing-jobs/run] Ran ${jobs.length} job(s)`);
+        return NextResponse.json({
+            ran: jobs.length,
+            done: countWithStatus('done'),
+            retrying: countWithStatus('queued'),
+            failed: countWithStatus('failed'),
+        }, { status: 200 });
+    } catch (error: unknown) {
+        console.error('[API /processing-jobs/run] Failed to run processing jobs:', error);
+        return NextResponse.json({ error: 'Failed to run processing jobs.', details: error instanceof Error ? error.message : String(error) }, { status: 500 });
+    }
+}
+
+export async function GET() {
+    return NextResponse.json({ message: 'Processing jobs endpoint. Use POST.' }, { status: 405 });
+}
@@ -0,0 +1,106 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+    supabaseUrl,
+    supabaseServiceKey,
+    targetBucket,
+    supabaseAdmin,
+    getRenditionPaths,
+    getLegacyRenditionLayouts,
+    getPageCounts,
+} from '@/lib/server/imagePipeline';
+import { isRouteUserAdmin } from '@/lib/server/supabaseRoute';
+
+const REMOVE_BATCH_SIZE = 100;
+
+// Scheduled runs send `Authorization: Bearer $TRASH_PURGE_SECRET`; admins can also trigger it from the trash page
+async function isAuthorized(request: NextRequest): Promise<boolean> {
+    const purgeSecret = process.env.TRASH_PURGE_SECRET;
+    if (purgeSecret && request.headers.get('authorization') === `Bearer ${purgeSecret}`) {
+        return true;
+    }
+    return isRouteUserAdmin(request);
+}
+
+async function removeFromBucket(bucket: string, paths: string[]) {
+    for (let i = 0; i < paths.length; i += REMOVE_BATCH_SIZE) {
+        const { error } = await supabaseAdmin.storage.from(bucket).remove(paths.slice(i, i + REMOVE_BATCH_SIZE));
+        if (error) {
+            throw new Error(`Failed to remove files from ${bucket}: ${error.message}`);
+        }
+    }
+}
+
+// Removes the originals and renditions owned by a trashed item, then hard-deletes its rows
+async function purgeTrashItem(item: { id: string; item_type: string; item_id: string }) {
+    const { data: files, error: pathsError } = await supabaseAdmin.rpc('trash_item_storage_paths', {
+        p_item_type: item.item_type,
+        p_item_id: item.item_id,
+    });
+    if (pathsError) {
+        throw new Error(`Failed to list storage files: ${pathsError.message}`);
+    }
+
+    const storedFiles = (files ?? []) as { bucket: string; file_path: string }[];
+    const pageCounts = await getPageCounts(storedFiles.map(file => file.file_path));
+    const originalsByBucket = new Map<string, string[]>();
+    const renditions: string[] = [];
+    for (const { bucket, file_path } of storedFiles) {
+        originalsByBucket.set(bucket, [...(originalsByBucket.get(bucket) ?? []), file_path]);
+        renditions.push(...getRenditionPaths(file_path, pageCounts.get(file_path)), ...getLegacyRenditionLayouts(file_path).flat());
+    }
+
+    // Storage first: if it fails the rows stay in the trash and the next run retries
+    for (const [bucket, paths] of originalsByBucket) {
+        await removeFromBucket(bucket, paths);
+    }
+    await removeFromBucket(targetBucket, renditions);
+
+    const { error: purgeError } = await supabaseAdmin.rpc('purge_trash_item', { p_trash_item_id: item.id });
+    if (purgeError) {
+        throw new Error(`Failed to delete rows: ${purgeError.message}`);
+    }
+}
+
+export async function POST(request: NextRequest) {
+    console.log('[API /trash/purge] Received POST request');
+
+    if (!supabaseUrl || !supabaseServiceKey) {
+        console.error('[API /trash/purge] Missing Supabase URL or Service Key environment variables.');
+        return NextResponse.json({ error: 'Server configuration error.' }, { status: 500 });
+    }
+
+    if (!(await isAuthorized(request))) {
+        return NextResponse.json({ error: 'Not authorized.' }, { status: 403 });
+    }
+
+    // An item purged along with an earlier parent has no rows or files left, so it is skipped harmlessly
+    const { data: expiredItems, error } = await supabaseAdmin
+        .from('trash_items')
+        .select('id, item_type, item_id')
+        .lte('purge_after', new Date().toISOString())
+        .order('deleted_at', { ascending: true });
+
+    if (error) {
+        console.error('[API /trash/purge] Error fetching expired trash items:', error);
+        return NextResponse.json({ error: 'Failed to fetch expired trash items.', details: error.message }, { status: 500 });
+    }
+
+    let purged = 0;
+    let failed = 0;
+    for (const item of expiredItems ?? []) {
+        try {
+            await purgeTrashItem(item);
+            purged++;
+            console.log(`[API /trash/purge] Purged ${item.item_type} ${item.item_id}`);
+        } catch (purgeError) {
+            failed++;
+            console.error(`[API /trash/purge] Failed to purge ${item.item_type} ${item.item_id}:`, purgeError);
+        }
+    }
+
+    return NextResponse.json({ purged, failed }, { status: 200 });
+}
+
+export async function GET() {
+    return NextResponse.json({ message: 'Trash purge endpoint. Use POST.' }, { status: 405 });
+}
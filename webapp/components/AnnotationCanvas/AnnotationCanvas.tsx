@@ -1,175 +1,612 @@
 import React, { useEffect, useRef, useState } from 'react';
-// import { fabric } from 'fabric'; // Previous attempt
 import * as fabric from 'fabric'; // Using wildcard import
-import { Loader2, ZoomIn, ZoomOut, Move, Square, Type, Edit3, Trash2, Save, Palette, Minus, Plus } from 'lucide-react';
+import { Loader2, ZoomIn, ZoomOut, Move, Square, Type, Edit3, Trash2, Save, Palette, Minus, Plus, ArrowUpRight, Circle, EyeOff, Ruler, Undo2, Redo2 } from 'lucide-react';
 import { Button } from '@/components/ui/button'; // Added Button import
+import { nanoid } from 'nanoid';
+import { AnnotationHistory, createHistory, pushHistory, redoHistory, undoHistory } from '@/lib/annotationHistory';
+import { ANNOTATION_KIND_PROP, ANNOTATION_LAYER_ID_PROP, ANNOTATION_SHAPE_ID_PROP, BLUR_BOX_BLUR_AMOUNT } from '@/lib/constants/annotationConstants';
+
+export type AnnotationTool = 'select' | 'rectangle' | 'ellipse' | 'arrow' | 'freehand' | 'text' | 'blur' | 'measure';
+
+// Tools that draw by dragging from one corner/end point to another
+const DRAG_TOOLS: AnnotationTool[] = ['rectangle', 'ellipse', 'arrow', 'blur', 'measure'];
+const MIN_DRAG_DISTANCE = 3; // Shorter drags are treated as clicks and discarded
+
+type AnnotationKind = 'arrow' | 'blur' | 'measure';
+
+// Another reviewer's saved layer, drawn underneath the editable layer and never saved with it
+export interface ReadOnlyAnnotationLayer {
+  id: string;
+  json: string;
+}
+
+export type SelectedAnnotationShape = {
+  id: string;
+  isOwn: boolean; // false for shapes in another reviewer's layer
+};
 
 interface AnnotationCanvasProps {
   imageUrl: string;
-  initialAnnotations?: string; // JSON string of fabric canvas state
+  initialAnnotations?: string; // JSON string ({ version, objects }) of the editable layer
   onSaveAnnotations: (annotations: string) => void;
-  // TODO: Add other necessary props like image dimensions, user permissions for editing, etc.
+  readOnlyLayers?: ReadOnlyAnnotationLayer[];
+  isSaving?: boolean;
+  onChange?: (annotations: string) => void; // Fired after every user edit to the editable layer
+  hasUnsavedChanges?: boolean; // While true, incoming initialAnnotations won't overwrite local edits
+  onShapeSelected?: (shape: SelectedAnnotationShape | null) => void;
+  // Original upload size, when imageUrl is a downscaled rendition; null when that size isn't known, which turns
+  // the measure tool off rather than measuring rendition pixels
+  sourceImageSize?: { width: number; height: number } | null;
 }
 
-// Using fabric.TOptions<fabric.TPointerEvent> for event handlers
+const isReadOnlyObject = (obj: fabric.FabricObject): boolean => !!obj.get(ANNOTATION_LAYER_ID_PROP);
+
+const getShapeId = (obj: fabric.FabricObject): string | undefined => obj.get(ANNOTATION_SHAPE_ID_PROP);
+
+const ensureShapeId = (obj: fabric.FabricObject) => {
+  if (!getShapeId(obj)) obj.set(ANNOTATION_SHAPE_ID_PROP, nanoid());
+};
+
+const getKind = (obj: fabric.FabricObject): AnnotationKind | undefined => obj.get(ANNOTATION_KIND_PROP);
+
+// Interaction locks aren't part of fabric's JSON, so they are re-applied from the kind after every load
+const applyKindConstraints = (obj: fabric.FabricObject) => {
+  const kind = getKind(obj);
+  if (kind === 'blur') {
+    obj.set({ lockRotation: true });
+    obj.setControlVisible('mtr', false);
+  }
+  if (kind === 'measure') {
+    // Resizing would make the label lie about the distance
+    obj.set({ lockScalingX: true, lockScalingY: true, lockRotation: true, hasControls: false });
+  }
+};
+
+// Serializes only the editable layer; the background image and other reviewers' objects are excluded
+const serializeAnnotations = (canvas: fabric.Canvas): string => JSON.stringify({
+  version: fabric.version,
+  objects: canvas.getObjects().filter(obj => !isReadOnlyObject(obj)).map(obj => obj.toObject([ANNOTATION_SHAPE_ID_PROP, ANNOTATION_KIND_PROP])),
+});
+
+const buildArrow = (from: fabric.Point, to: fabric.Point, stroke: string, strokeWidth: number): fabric.Path => {
+  const angle = Math.atan2(to.y - from.y, to.x - from.x);
+  const headLength = Math.max(12, strokeWidth * 4);
+  const headPoint = (offset: number) => new fabric.Point(
+    to.x - headLength * Math.cos(angle + offset),
+    to.y - headLength * Math.sin(angle + offset),
+  );
+  const left = headPoint(Math.PI / 7);
+  const right = headPoint(-Math.PI / 7);
+  return new fabric.Path(
+    `M ${from.x} ${from.y} L ${to.x} ${to.y} M ${left.x} ${left.y} L ${to.x} ${to.y} L ${right.x} ${right.y}`,
+    {
+      fill: '',
+      stroke,
+      strokeWidth,
+      strokeLineCap: 'round',
+      strokeLineJoin: 'round',
+      [ANNOTATION_KIND_PROP]: 'arrow',
+    },
+  );
+};
+
+// A copy of the covered part of the image, blurred; fabric serializes the crop and filter so it reloads as-is
+const buildBlurBox = (background: fabric.FabricImage, left: number, top: number, width: number, height: number): fabric.FabricImage => {
+  const box = new fabric.FabricImage(background.getElement(), {
+    left,
+    top,
+    width,
+    height,
+    cropX: left,
+    cropY: top,
+    [ANNOTATION_KIND_PROP]: 'blur',
+  });
+  box.filters = [new fabric.filters.Blur({ blur: BLUR_BOX_BLUR_AMOUNT })];
+  box.applyFilters();
+  return box;
+};
+
+// After a blur box is moved or resized, re-crop so it still hides what is underneath it
+const refreshBlurBox = (box: fabric.FabricImage) => {
+  const element = box.getOriginalSize();
+  const left = Math.max(0, box.left);
+  const top = Math.max(0, box.top);
+  const width = Math.min(box.getScaledWidth(), element.width - left);
+  const height = Math.min(box.getScaledHeight(), element.height - top);
+  if (width <= 0 || height <= 0) return;
+  box.set({ left, top, width, height, cropX: left, cropY: top, scaleX: 1, scaleY: 1 });
+  box.applyFilters();
+  box.setCoords();
+};
+
+const buildMeasurement = (from: fabric.Point, to: fabric.Point, stroke: string, strokeWidth: number, pixelScale: number): fabric.Group => {
+  const distance = Math.round(from.distanceFrom(to) * pixelScale);
+  const line = new fabric.Line([from.x, from.y, to.x, to.y], {
+    stroke,
+    strokeWidth,
+    strokeDashArray: [6, 4],
+  });
+  const midpoint = from.midPointFrom(to);
+  const label = new fabric.FabricText(`${distance} px`, {
+    left: midpoint.x,
+    top: midpoint.y,
+    originX: 'center',
+    originY: 'center',
+    fontFamily: 'Arial',
+    fontSize: 14,
+    fill: '#ffffff',
+    backgroundColor: stroke,
+  });
+  const group = new fabric.Group([line, label]);
+  group.set(ANNOTATION_KIND_PROP, 'measure');
+  return group;
+};
+
+const haveSameShapeIds = (a: fabric.FabricObject[], b: fabric.FabricObject[]): boolean => {
+  if (a.length !== b.length) return false;
+  const idsA = a.map(getShapeId).sort().join('|');
+  const idsB = b.map(getShapeId).sort().join('|');
+  return idsA === idsB;
+};
+
+const parseAnnotations = async (json: string): Promise<fabric.FabricObject[]> => {
+  const parsed = JSON.parse(json);
+  const objects = Array.isArray(parsed?.objects) ? parsed.objects : [];
+  return fabric.util.enlivenObjects<fabric.FabricObject>(objects);
+};
 
 const AnnotationCanvas: React.FC<AnnotationCanvasProps> = ({
   imageUrl,
   initialAnnotations,
   onSaveAnnotations,
+  readOnlyLayers,
+  isSaving = false,
+  onChange,
+  hasUnsavedChanges = false,
+  onShapeSelected,
+  sourceImageSize,
 }) => {
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const fabricCanvasRef = useRef<fabric.Canvas | null>(null);
   const [isLoading, setIsLoading] = useState(true);
-  const [activeTool, setActiveTool] = useState<'select' | 'rectangle' | 'freehand' | 'text'>('select');
+  const [isCanvasReady, setIsCanvasReady] = useState(false);
+  const [activeTool, setActiveTool] = useState<AnnotationTool>('select');
   const [fillColor, setFillColor] = useState('#000000'); // Default fill color for text, shapes
   const [strokeColor, setStrokeColor] = useState('#ff0000'); // Default stroke color for shapes
   const [strokeWidth, setStrokeWidth] = useState(2);
   const [zoomLevel, setZoomLevel] = useState(1); // Added for zoom
-  
-  // Refs for drawing state for rectangle tool
-  const isDrawingRectRef = useRef(false);
-  const rectStartXRef = useRef(0);
-  const rectStartYRef = useRef(0);
-  const currentRectRef = useRef<fabric.Rect | null>(null);
+
+  // Canvas listeners are registered once, so they read the current tool settings through refs
+  const activeToolRef = useRef(activeTool);
+  const fillColorRef = useRef(fillColor);
+  const strokeColorRef = useRef(strokeColor);
+  const strokeWidthRef = useRef(strokeWidth);
+  const onChangeRef = useRef(onChange);
+  onChangeRef.current = onChange;
+  const onShapeSelectedRef = useRef(onShapeSelected);
+  onShapeSelectedRef.current = onShapeSelected;
+  // Set while layers are (re)loaded programmatically so those adds/removes aren't reported as edits
+  const isSyncingRef = useRef(false);
+
+  // Undo/redo snapshots of the editable layer, scoped to the current image
+  const historyRef = useRef<AnnotationHistory>(createHistory());
+  const isRestoringRef = useRef(false);
+  const [canUndo, setCanUndo] = useState(false);
+  const [canRedo, setCanRedo] = useState(false);
+
+  // Real image pixels per canvas pixel; the canvas is sized to the (possibly downscaled) rendition
+  const pixelScaleRef = useRef(1);
+
+  // Drawing state for the drag tools; the preview is a transient object replaced on mouse up
+  const dragStartRef = useRef<fabric.Point | null>(null);
+  const dragPreviewRef = useRef<fabric.FabricObject | null>(null);
+
+  useEffect(() => {
+    activeToolRef.current = activeTool;
+    fillColorRef.current = fillColor;
+    strokeColorRef.current = strokeColor;
+    strokeWidthRef.current = strokeWidth;
+  }, [activeTool, fillColor, strokeColor, strokeWidth]);
 
   useEffect(() => {
     if (!canvasRef.current || !imageUrl) {
       setIsLoading(false);
-      if (fabricCanvasRef.current) {
-        fabricCanvasRef.current.dispose();
-        fabricCanvasRef.current = null;
-      }
       return;
     }
     setIsLoading(true);
+    setIsCanvasReady(false);
+    setZoomLevel(1);
+    setHistory(createHistory());
 
-    const canvasElement = canvasRef.current;
-    if (fabricCanvasRef.current) {
-      fabricCanvasRef.current.dispose();
-    }
-
-    const newFabricCanvas = new fabric.Canvas(canvasElement, {
+    let cancelled = false;
+    const newFabricCanvas = new fabric.Canvas(canvasRef.current, {
       backgroundColor: 'transparent',
     });
+    newFabricCanvas.freeDrawingBrush = new fabric.PencilBrush(newFabricCanvas);
     fabricCanvasRef.current = newFabricCanvas;
-    
-    // Set initial tool mode
-    setCanvasToolMode(newFabricCanvas, activeTool);
-
-    // Corrected fabric.Image.fromURL usage:
-    // Callback is the second argument, options (like crossOrigin) is the third.
-    fabric.Image.fromURL(imageUrl, 
-      (img: fabric.Image, isError?: boolean) => {
-        if (isError || !img || !fabricCanvasRef.current || !img.width || img.width <= 0 || !img.height || img.height <= 0) {
-          console.error("Error loading image, canvas not ready, or image has invalid (zero/negative) dimensions.");
-          setIsLoading(false);
+
+    const loadCanvas = async () => {
+      try {
+        const img = await fabric.FabricImage.fromURL(imageUrl, { crossOrigin: 'anonymous' });
+        if (cancelled) return;
+        if (!img.width || img.width <= 0 || !img.height || img.height <= 0) {
+          console.error("Error loading image: image has invalid (zero/negative) dimensions.");
           return;
         }
 
-        const canvas = fabricCanvasRef.current;
-        canvas.setWidth(img.width);
-        canvas.setHeight(img.height);
+        newFabricCanvas.setDimensions({ width: img.width, height: img.height });
+        img.set({ originX: 'left', originY: 'top' });
+        newFabricCanvas.backgroundImage = img;
 
-        img.set({
-          originX: 'left',
-          originY: 'top',
-        });
-        
-        canvas.backgroundImage = img;
-        canvas.renderAll();
+        setupCanvasEventListeners(newFabricCanvas);
+        setCanvasToolMode(newFabricCanvas, activeToolRef.current);
+        setIsCanvasReady(true);
+      } catch (error) {
+        console.error("Error loading image into annotation canvas:", error);
+      } finally {
+        if (!cancelled) setIsLoading(false);
+      }
+    };
+    loadCanvas();
+
+    return () => {
+      cancelled = true;
+      newFabricCanvas.dispose();
+      if (fabricCanvasRef.current === newFabricCanvas) {
+        fabricCanvasRef.current = null;
+      }
+    };
+  }, [imageUrl]);
 
-        if (initialAnnotations) {
-          try {
-            canvas.loadFromJSON(JSON.parse(initialAnnotations), () => {
-              canvas.renderAll();
-              setIsLoading(false);
-            });
-          } catch (error) {
-            console.error("Error loading initial annotations:", error);
-            setIsLoading(false);
-          }
-        } else {
-          setIsLoading(false);
+  useEffect(() => {
+    const background = fabricCanvasRef.current?.backgroundImage;
+    pixelScaleRef.current = sourceImageSize && background?.width ? sourceImageSize.width / background.width : 1;
+  }, [sourceImageSize, isCanvasReady]);
+
+  const canMeasure = sourceImageSize !== null;
+  useEffect(() => {
+    if (!canMeasure) setActiveTool(tool => (tool === 'measure' ? 'select' : tool));
+  }, [canMeasure]);
+
+  // Load the editable layer, and reload it when the saved copy changes underneath us
+  // (e.g. a shape removed together with its comment) as long as there are no local edits
+  useEffect(() => {
+    const canvas = fabricCanvasRef.current;
+    if (!canvas || !isCanvasReady || hasUnsavedChanges) return;
+    let cancelled = false;
+
+    const syncOwnLayer = async () => {
+      let savedObjects: fabric.FabricObject[] = [];
+      if (initialAnnotations) {
+        try {
+          savedObjects = await parseAnnotations(initialAnnotations);
+        } catch (error) {
+          console.error("Error loading initial annotations:", error);
+          return;
         }
+      }
+      if (cancelled) return;
 
-        setupCanvasEventListeners(newFabricCanvas);
-      },
-      { crossOrigin: 'anonymous' } // Pass as plain object for imageOptions
-    );
+      const currentObjects = canvas.getObjects().filter(obj => !isReadOnlyObject(obj));
+      if (haveSameShapeIds(currentObjects, savedObjects)) {
+        if (historyRef.current.present === null) setHistory(createHistory(serializeAnnotations(canvas)));
+        return;
+      }
+
+      isSyncingRef.current = true;
+      currentObjects.forEach(obj => canvas.remove(obj));
+      savedObjects.forEach(obj => {
+        ensureShapeId(obj); // Layers saved before shape ids existed
+        applyKindConstraints(obj);
+        canvas.add(obj);
+      });
+      isSyncingRef.current = false;
+      setCanvasToolMode(canvas, activeToolRef.current);
+      // The first load is the session's starting point; later reloads (e.g. a shape deleted with its comment) are undoable steps
+      const snapshot = serializeAnnotations(canvas);
+      setHistory(historyRef.current.present === null ? createHistory(snapshot) : pushHistory(historyRef.current, snapshot));
+    };
+    syncOwnLayer();
 
     return () => {
-      if (fabricCanvasRef.current) {
-        fabricCanvasRef.current.dispose();
-        fabricCanvasRef.current = null;
+      cancelled = true;
+    };
+  }, [initialAnnotations, isCanvasReady, hasUnsavedChanges]);
+
+  // Keep other reviewers' layers in sync with the visible authors
+  useEffect(() => {
+    const canvas = fabricCanvasRef.current;
+    if (!canvas || !isCanvasReady) return;
+    let cancelled = false;
+
+    const syncReadOnlyLayers = async () => {
+      const enlivenedLayers = await Promise.all((readOnlyLayers ?? []).map(async (layer) => {
+        try {
+          const objects = await parseAnnotations(layer.json);
+          objects.forEach(obj => obj.set({
+            [ANNOTATION_LAYER_ID_PROP]: layer.id,
+            selectable: false,
+            evented: activeToolRef.current === 'select', // Clickable (to open its thread) but never editable
+            hoverCursor: 'pointer',
+          }));
+          objects.forEach(applyKindConstraints);
+          return objects;
+        } catch (error) {
+          console.error(`Error loading annotation layer ${layer.id}:`, error);
+          return [];
+        }
+      }));
+      if (cancelled) return;
+
+      isSyncingRef.current = true;
+      canvas.getObjects().filter(isReadOnlyObject).forEach(obj => canvas.remove(obj));
+      const readOnlyObjects = enlivenedLayers.flat();
+      if (readOnlyObjects.length > 0) {
+        canvas.insertAt(0, ...readOnlyObjects); // Keep them beneath the editable layer
       }
+      isSyncingRef.current = false;
+      canvas.requestRenderAll();
     };
-  }, [imageUrl, initialAnnotations]);
+    syncReadOnlyLayers();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [readOnlyLayers, isCanvasReady]);
 
   useEffect(() => {
-    if (fabricCanvasRef.current) {
+    if (fabricCanvasRef.current && isCanvasReady) {
       setCanvasToolMode(fabricCanvasRef.current, activeTool);
     }
-    document.addEventListener('keydown', handleDeleteKeyPress);
+    document.addEventListener('keydown', handleKeyDown);
     return () => {
-      document.removeEventListener('keydown', handleDeleteKeyPress);
+      document.removeEventListener('keydown', handleKeyDown);
     };
-  }, [activeTool, strokeColor, strokeWidth, fillColor]); // Added color/width dependencies for freeDrawingBrush updates
+  }, [activeTool, strokeColor, strokeWidth, fillColor, isCanvasReady]); // Added color/width dependencies for freeDrawingBrush updates
 
-  const setCanvasToolMode = (canvas: fabric.Canvas, tool: string) => {
+  const setCanvasToolMode = (canvas: fabric.Canvas, tool: AnnotationTool) => {
     canvas.isDrawingMode = tool === 'freehand';
     if (tool === 'freehand') {
       if (canvas.freeDrawingBrush) { // Null check
-        canvas.freeDrawingBrush.color = strokeColor;
-        canvas.freeDrawingBrush.width = strokeWidth;
+        canvas.freeDrawingBrush.color = strokeColorRef.current;
+        canvas.freeDrawingBrush.width = strokeWidthRef.current;
       }
     }
-    canvas.selection = tool === 'select' || tool === 'text'; 
-    canvas.forEachObject((obj: fabric.Object) => {
-      obj.selectable = tool === 'select' || tool === 'text';
-      obj.evented = tool === 'select' || tool === 'text';
+    const canEdit = tool === 'select' || tool === 'text';
+    canvas.selection = canEdit;
+    canvas.forEachObject((obj: fabric.FabricObject) => {
+      if (isReadOnlyObject(obj)) {
+        obj.selectable = false;
+        obj.evented = tool === 'select';
+        return;
+      }
+      obj.selectable = canEdit;
+      obj.evented = canEdit;
     });
 
-    if (tool !== 'rectangle') {
-        isDrawingRectRef.current = false;
-        if (currentRectRef.current) {
-            canvas.remove(currentRectRef.current);
-            currentRectRef.current = null;
-        }
+    if (!DRAG_TOOLS.includes(tool)) {
+        discardDragPreview(canvas);
     }
     canvas.renderAll();
   };
 
-  const setupCanvasEventListeners = (canvas: fabric.Canvas) => {
-    canvas.on('mouse:down', (opt: fabric.TOptions<fabric.TPointerEvent>) => { 
-      if (opt.pointer && activeTool === 'rectangle' && !opt.target) {
-        isDrawingRectRef.current = true;
-        const pointer = opt.pointer;
-        rectStartXRef.current = pointer.x;
-        rectStartYRef.current = pointer.y;
-        
-        const rect = new fabric.Rect({
-          left: rectStartXRef.current,
-          top: rectStartYRef.current,
-          width: 0,
-          height: 0,
+  // Previews are added/removed as sync operations so they never reach onChange
+  const discardDragPreview = (canvas: fabric.Canvas) => {
+    dragStartRef.current = null;
+    if (dragPreviewRef.current) {
+      isSyncingRef.current = true;
+      canvas.remove(dragPreviewRef.current);
+      isSyncingRef.current = false;
+      dragPreviewRef.current = null;
+    }
+  };
+
+  const startDragPreview = (canvas: fabric.Canvas, tool: AnnotationTool, start: fabric.Point) => {
+    const common = {
+      stroke: strokeColorRef.current,
+      strokeWidth: strokeWidthRef.current,
+      selectable: false,
+      evented: false,
+    };
+    let preview: fabric.FabricObject;
+    if (tool === 'arrow' || tool === 'measure') {
+      preview = new fabric.Line([start.x, start.y, start.x, start.y], {
+        ...common,
+        strokeDashArray: tool === 'measure' ? [6, 4] : undefined,
+      });
+    } else if (tool === 'ellipse') {
+      preview = new fabric.Ellipse({ ...common, left: start.x, top: start.y, rx: 0, ry: 0, fill: 'transparent' });
+    } else {
+      preview = new fabric.Rect({
+        ...common,
+        left: start.x,
+        top: start.y,
+        width: 0,
+        height: 0,
+        fill: 'transparent',
+        strokeDashArray: tool === 'blur' ? [4, 4] : undefined,
+      });
+    }
+    dragStartRef.current = start;
+    dragPreviewRef.current = preview;
+    isSyncingRef.current = true;
+    canvas.add(preview);
+    isSyncingRef.current = false;
+  };
+
+  const updateDragPreview = (canvas: fabric.Canvas, tool: AnnotationTool, pointer: fabric.Point) => {
+    const start = dragStartRef.current;
+    const preview = dragPreviewRef.current;
+    if (!start || !preview) return;
+    if (preview instanceof fabric.Line) {
+      preview.set({ x2: pointer.x, y2: pointer.y });
+    } else {
+      const left = Math.min(start.x, pointer.x);
+      const top = Math.min(start.y, pointer.y);
+      const width = Math.abs(pointer.x - start.x);
+      const height = Math.abs(pointer.y - start.y);
+      if (tool === 'ellipse') {
+        preview.set({ left, top, rx: width / 2, ry: height / 2 });
+      } else {
+        preview.set({ left, top, width, height });
+      }
+    }
+    preview.setCoords();
+    canvas.renderAll();
+  };
+
+  // Replaces the preview with the real shape; adding it is what gets reported as the edit
+  const finishDragShape = (canvas: fabric.Canvas, tool: AnnotationTool, end: fabric.Point) => {
+    const start = dragStartRef.current;
+    const preview = dragPreviewRef.current;
+    if (!start || !preview) return;
+    discardDragPreview(canvas);
+    if (start.distanceFrom(end) < MIN_DRAG_DISTANCE) return;
+
+    const stroke = strokeColorRef.current;
+    const strokeWidth = strokeWidthRef.current;
+    let shape: fabric.FabricObject | null = null;
+    switch (tool) {
+      case 'rectangle':
+        shape = new fabric.Rect({
+          left: Math.min(start.x, end.x),
+          top: Math.min(start.y, end.y),
+          width: Math.abs(end.x - start.x),
+          height: Math.abs(end.y - start.y),
+          fill: 'transparent',
+          stroke,
+          strokeWidth,
+        });
+        break;
+      case 'ellipse':
+        shape = new fabric.Ellipse({
+          left: Math.min(start.x, end.x),
+          top: Math.min(start.y, end.y),
+          rx: Math.abs(end.x - start.x) / 2,
+          ry: Math.abs(end.y - start.y) / 2,
           fill: 'transparent',
-          stroke: strokeColor,
-          strokeWidth: strokeWidth,
-          selectable: false,
-          evented: false,
+          stroke,
+          strokeWidth,
         });
-        currentRectRef.current = rect;
-        canvas.add(rect);
+        break;
+      case 'arrow':
+        shape = buildArrow(start, end, stroke, strokeWidth);
+        break;
+      case 'measure':
+        shape = buildMeasurement(start, end, stroke, strokeWidth, pixelScaleRef.current);
+        break;
+      case 'blur': {
+        const background = canvas.backgroundImage;
+        const left = Math.max(0, Math.min(start.x, end.x));
+        const top = Math.max(0, Math.min(start.y, end.y));
+        if (background instanceof fabric.FabricImage) {
+          const width = Math.min(Math.abs(end.x - start.x), background.width - left);
+          const height = Math.min(Math.abs(end.y - start.y), background.height - top);
+          if (width > 0 && height > 0) shape = buildBlurBox(background, left, top, width, height);
+        }
+        break;
+      }
+    }
+    if (!shape) return;
+    applyKindConstraints(shape);
+    shape.set({ selectable: false, evented: false }); // Matches the other objects while a drawing tool is active
+    canvas.add(shape);
+    canvas.renderAll();
+  };
+
+  const setHistory = (history: AnnotationHistory) => {
+    historyRef.current = history;
+    setCanUndo(history.past.length > 0);
+    setCanRedo(history.future.length > 0);
+  };
+
+  // recordHistory is false for intermediate edits (e.g. each keystroke while typing) that are recorded once finished
+  const notifyChange = (canvas: fabric.Canvas, recordHistory = true) => {
+    if (isSyncingRef.current) return;
+    const snapshot = serializeAnnotations(canvas);
+    if (recordHistory) setHistory(pushHistory(historyRef.current, snapshot));
+    onChangeRef.current?.(snapshot);
+  };
+
+  const restoreSnapshot = async (canvas: fabric.Canvas, snapshot: string) => {
+    const objects = await parseAnnotations(snapshot);
+    if (fabricCanvasRef.current !== canvas) return; // Image changed while restoring
+    canvas.discardActiveObject();
+    isSyncingRef.current = true;
+    canvas.getObjects().filter(obj => !isReadOnlyObject(obj)).forEach(obj => canvas.remove(obj));
+    objects.forEach(obj => {
+      applyKindConstraints(obj);
+      canvas.add(obj);
+    });
+    isSyncingRef.current = false;
+    setCanvasToolMode(canvas, activeToolRef.current);
+    onChangeRef.current?.(snapshot);
+  };
+
+  const stepHistory = async (step: (history: AnnotationHistory) => AnnotationHistory) => {
+    const canvas = fabricCanvasRef.current;
+    if (!canvas || isRestoringRef.current) return;
+    const next = step(historyRef.current);
+    if (next === historyRef.current || next.present === null) return;
+    isRestoringRef.current = true;
+    try {
+      await restoreSnapshot(canvas, next.present);
+      setHistory(next);
+    } catch (error) {
+      console.error("Error restoring annotation history:", error);
+    } finally {
+      isRestoringRef.current = false;
+    }
+  };
+
+  const handleUndo = () => stepHistory(undoHistory);
+  const handleRedo = () => stepHistory(redoHistory);
+
+  const notifySelection = (selected: fabric.FabricObject[] | undefined) => {
+    if (isSyncingRef.current) return;
+    const shape = selected?.length === 1 ? selected[0] : undefined;
+    const shapeId = shape ? getShapeId(shape) : undefined;
+    onShapeSelectedRef.current?.(shape && shapeId ? { id: shapeId, isOwn: !isReadOnlyObject(shape) } : null);
+  };
+
+  const setupCanvasEventListeners = (canvas: fabric.Canvas) => {
+    canvas.on('object:added', ({ target }) => {
+      if (isSyncingRef.current || isReadOnlyObject(target)) return;
+      ensureShapeId(target);
+      notifyChange(canvas);
+    });
+    canvas.on('object:modified', ({ target }) => {
+      if (target instanceof fabric.FabricImage && getKind(target) === 'blur') {
+        refreshBlurBox(target);
+      }
+      notifyChange(canvas);
+    });
+    canvas.on('object:removed', ({ target }) => {
+      if (!isReadOnlyObject(target)) notifyChange(canvas);
+    });
+    canvas.on('text:changed', () => notifyChange(canvas, false)); // Recorded via object:modified when editing ends
+    canvas.on('selection:created', ({ selected }) => notifySelection(selected));
+    canvas.on('selection:updated', ({ selected }) => notifySelection(selected));
+    canvas.on('selection:cleared', () => notifySelection(undefined));
+
+    canvas.on('mouse:down', (opt) => {
+      const tool = activeToolRef.current;
+      // Other reviewers' shapes can't be selected, so report clicks on them directly
+      if (tool === 'select' && opt.target && isReadOnlyObject(opt.target)) {
+        notifySelection([opt.target]);
+        return;
       }
-      if (opt.pointer && activeTool === 'text' && !opt.target) {
-        const pointer = opt.pointer;
+      if (DRAG_TOOLS.includes(tool) && !opt.target) {
+        startDragPreview(canvas, tool, opt.scenePoint);
+      }
+      if (tool === 'text' && !opt.target) {
+        const pointer = opt.scenePoint;
         const text = new fabric.IText('Editable Text', {
           left: pointer.x,
           top: pointer.y,
           fontFamily: 'Arial',
           fontSize: 20,
-          fill: fillColor,
+          fill: fillColorRef.current,
           editable: true,
         });
         canvas.add(text);
@@ -178,64 +615,58 @@ const AnnotationCanvas: React.FC<AnnotationCanvasProps> = ({
       }
     });
 
-    canvas.on('mouse:move', (opt: fabric.TOptions<fabric.TPointerEvent>) => { 
-      if (opt.pointer && activeTool === 'rectangle' && isDrawingRectRef.current && currentRectRef.current) {
-        const pointer = opt.pointer;
-        let width = pointer.x - rectStartXRef.current;
-        let height = pointer.y - rectStartYRef.current;
-        let newLeft = rectStartXRef.current;
-        let newTop = rectStartYRef.current;
-
-        if (width < 0) {
-          newLeft = pointer.x;
-          width = Math.abs(width);
-        }
-        if (height < 0) {
-          newTop = pointer.y;
-          height = Math.abs(height);
-        }
-
-        currentRectRef.current.set({
-          left: newLeft,
-          top: newTop,
-          width: width,
-          height: height,
-        });
-        canvas.renderAll();
+    canvas.on('mouse:move', (opt) => {
+      const tool = activeToolRef.current;
+      if (DRAG_TOOLS.includes(tool) && dragPreviewRef.current) {
+        updateDragPreview(canvas, tool, opt.scenePoint);
       }
     });
 
-    canvas.on('mouse:up', (opt: fabric.TOptions<fabric.TPointerEvent>) => { 
-      if (activeTool === 'rectangle' && isDrawingRectRef.current && currentRectRef.current) {
-        isDrawingRectRef.current = false;
-        currentRectRef.current.set({
-            selectable: true,
-            evented: true
-        });
-        currentRectRef.current = null; 
+    canvas.on('mouse:up', (opt) => {
+      const tool = activeToolRef.current;
+      if (DRAG_TOOLS.includes(tool) && dragPreviewRef.current) {
+        finishDragShape(canvas, tool, opt.scenePoint);
       }
-      // Potentially handle other mouse:up events or tool-specific logic here
-      // For example, if selecting an object, mouse:up might finalize selection.
     });
   };
 
   const handleDeleteSelected = () => {
     if (fabricCanvasRef.current) {
-      const activeObjects = fabricCanvasRef.current.getActiveObjects();
+      const activeObjects = fabricCanvasRef.current.getActiveObjects().filter(obj => !isReadOnlyObject(obj));
       if (activeObjects.length > 0) {
-        activeObjects.forEach((obj: fabric.Object) => fabricCanvasRef.current?.remove(obj));
-        fabricCanvasRef.current.discardActiveObject();
-        fabricCanvasRef.current.renderAll();
+        const canvas = fabricCanvasRef.current;
+        canvas.discardActiveObject();
+        // Remove them together so a multi-object delete is a single undo step
+        isSyncingRef.current = true;
+        activeObjects.forEach((obj: fabric.FabricObject) => canvas.remove(obj));
+        isSyncingRef.current = false;
+        notifyChange(canvas);
+        canvas.renderAll();
       }
     }
   };
 
-  const handleDeleteKeyPress = (event: KeyboardEvent) => {
-    if (fabricCanvasRef.current && (event.key === 'Delete' || event.key === 'Backspace')) {
-      const activeElement = document.activeElement;
-      if (activeElement && (activeElement.tagName === 'INPUT' || activeElement.tagName === 'TEXTAREA' || activeElement.getAttribute('contenteditable') === 'true')) {
-        return; 
+  const handleKeyDown = (event: KeyboardEvent) => {
+    if (!fabricCanvasRef.current) return;
+    const activeElement = document.activeElement;
+    if (activeElement && (activeElement.tagName === 'INPUT' || activeElement.tagName === 'TEXTAREA' || activeElement.getAttribute('contenteditable') === 'true')) {
+      return;
+    }
+    // Let IText handle its own keys (backspace, its own undo) while being edited
+    const activeObject = fabricCanvasRef.current.getActiveObject();
+    if (activeObject instanceof fabric.IText && activeObject.isEditing) {
+      return;
+    }
+    if ((event.ctrlKey || event.metaKey) && event.key.toLowerCase() === 'z') {
+      if (event.shiftKey) {
+        handleRedo();
+      } else {
+        handleUndo();
       }
+      event.preventDefault();
+      return;
+    }
+    if (event.key === 'Delete' || event.key === 'Backspace') {
       handleDeleteSelected();
       event.preventDefault();
     }
@@ -243,8 +674,7 @@ const AnnotationCanvas: React.FC<AnnotationCanvasProps> = ({
 
   const handleSaveCanvas = () => {
     if (fabricCanvasRef.current) {
-      const json = JSON.stringify(fabricCanvasRef.current.toDatalessJSON());
-      onSaveAnnotations(json); 
+      onSaveAnnotations(serializeAnnotations(fabricCanvasRef.current));
     }
   };
 
@@ -278,10 +708,6 @@ const AnnotationCanvas: React.FC<AnnotationCanvasProps> = ({
     }
   };
 
-  if (isLoading && imageUrl) {
-    return <div className="w-full h-full flex items-center justify-center"><Loader2 className="h-8 w-8 animate-spin" /> Loading Canvas...</div>;
-  }
-  
   if(!imageUrl) {
     return <div className="w-full h-full flex items-center justify-center">Please provide an image URL.</div>;
   }
@@ -291,8 +717,12 @@ const AnnotationCanvas: React.FC<AnnotationCanvasProps> = ({
       <div className="p-2 bg-slate-100 border-b border-slate-300 shadow-sm flex flex-wrap items-center gap-1 text-xs z-10">
         <Button title="Select/Edit (V)" variant={activeTool === 'select' ? 'secondary' : 'ghost'} size="icon" onClick={() => setActiveTool('select')}><Move className="h-4 w-4" /></Button>
         <Button title="Draw Rectangle (R)" variant={activeTool === 'rectangle' ? 'secondary' : 'ghost'} size="icon" onClick={() => setActiveTool('rectangle')}><Square className="h-4 w-4" /></Button>
+        <Button title="Draw Ellipse (O)" variant={activeTool === 'ellipse' ? 'secondary' : 'ghost'} size="icon" onClick={() => setActiveTool('ellipse')}><Circle className="h-4 w-4" /></Button>
+        <Button title="Draw Arrow (A)" variant={activeTool === 'arrow' ? 'secondary' : 'ghost'} size="icon" onClick={() => setActiveTool('arrow')}><ArrowUpRight className="h-4 w-4" /></Button>
         <Button title="Freehand Draw (P)" variant={activeTool === 'freehand' ? 'secondary' : 'ghost'} size="icon" onClick={() => setActiveTool('freehand')}><Edit3 className="h-4 w-4" /></Button>
         <Button title="Draw Text (T)" variant={activeTool === 'text' ? 'secondary' : 'ghost'} size="icon" onClick={() => setActiveTool('text')}><Type className="h-4 w-4" /></Button>
+        <Button title="Blur/Redact Area (B)" variant={activeTool === 'blur' ? 'secondary' : 'ghost'} size="icon" onClick={() => setActiveTool('blur')}><EyeOff className="h-4 w-4" /></Button>
+        <Button title={canMeasure ? 'Measure Distance in Image Pixels (M)' : "Measuring is unavailable until the original image's size is known"} variant={activeTool === 'measure' ? 'secondary' : 'ghost'} size="icon" disabled={!canMeasure} onClick={() => setActiveTool('measure')}><Ruler className="h-4 w-4" /></Button>
         <div className="h-5 border-l border-slate-300 mx-1"></div>
         <div className="flex items-center gap-1 p-1 rounded-md hover:bg-slate-200" title="Fill Color">
             <Palette className="h-4 w-4 text-slate-600" />
@@ -304,10 +734,10 @@ const AnnotationCanvas: React.FC<AnnotationCanvasProps> = ({
         </div>
         <div className="flex items-center gap-1 p-1 rounded-md hover:bg-slate-200" title="Stroke Width">
             <Minus className="h-3 w-3 text-slate-600 cursor-pointer" onClick={() => setStrokeWidth(Math.max(1, strokeWidth -1))} />
-            <input 
-                type="number" 
-                value={strokeWidth} 
-                onChange={(e) => setStrokeWidth(Math.max(1, parseInt(e.target.value, 10) || 1))} 
+            <input
+                type="number"
+                value={strokeWidth}
+                onChange={(e) => setStrokeWidth(Math.max(1, parseInt(e.target.value, 10) || 1))}
                 className="w-8 text-center border border-slate-300 rounded-sm text-xs p-0.5 bg-white"
             />
             <Plus className="h-3 w-3 text-slate-600 cursor-pointer" onClick={() => setStrokeWidth(strokeWidth + 1)} />
@@ -317,14 +747,22 @@ const AnnotationCanvas: React.FC<AnnotationCanvasProps> = ({
         <Button title="Zoom Out" variant="ghost" size="icon" onClick={handleZoomOut}><ZoomOut className="h-4 w-4" /></Button>
         <Button title="Reset Zoom/Pan" variant="ghost" size="icon" onClick={handleResetZoom}>1:1</Button>
         <div className="h-5 border-l border-slate-300 mx-1"></div>
+        <Button title="Undo (Ctrl+Z)" variant="ghost" size="icon" onClick={handleUndo} disabled={!canUndo}><Undo2 className="h-4 w-4" /></Button>
+        <Button title="Redo (Ctrl+Shift+Z)" variant="ghost" size="icon" onClick={handleRedo} disabled={!canRedo}><Redo2 className="h-4 w-4" /></Button>
         <Button title="Delete Selected (Del/Backspace)" variant="ghost" size="icon" onClick={handleDeleteSelected} className="text-red-600 hover:text-red-700 hover:bg-red-100"><Trash2 className="h-4 w-4" /></Button>
-        <Button title="Save Annotations" variant="ghost" size="icon" onClick={handleSaveCanvas} className="text-green-600 hover:text-green-700 hover:bg-green-100"><Save className="h-4 w-4" /></Button>
+        <Button title="Save Annotations" variant="ghost" size="icon" onClick={handleSaveCanvas} disabled={!isCanvasReady || isSaving} className="text-green-600 hover:text-green-700 hover:bg-green-100">
+          {isSaving ? <Loader2 className="h-4 w-4 animate-spin" /> : <Save className="h-4 w-4" />}
+        </Button>
       </div>
-      <div className="flex-1 w-full h-full overflow-auto p-2 bg-gray-200">
+      <div className="flex-1 w-full h-full overflow-auto p-2 bg-gray-200 relative">
+        {/* Canvas stays mounted while loading so fabric can attach to it */}
         <canvas ref={canvasRef} className="rounded shadow-lg" />
+        {isLoading && (
+          <div className="absolute inset-0 flex items-center justify-center bg-gray-200/80"><Loader2 className="h-8 w-8 animate-spin" /> Loading Canvas...</div>
+        )}
       </div>
     </div>
   );
 };
 
-export default AnnotationCanvas; 
\ No newline at end of file
+export default AnnotationCanvas;
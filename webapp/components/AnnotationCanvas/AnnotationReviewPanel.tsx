@@ -0,0 +1,288 @@
+'use client';
+
+import React, { useMemo, useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { Eye, EyeOff, Loader2, X, Download, FileDown } from 'lucide-react';
+import { toast } from 'sonner';
+import { useAuth } from '@/providers/AuthProvider';
+import { useSaveAnnotations, useAddComment, useUpdateComment, useDeleteComment } from '@/hooks/mutations';
+import { Annotation, Comment } from '@/types/models';
+import { buildAnnotatedPdf, buildCommentLegend, downloadDataUrl, renderAnnotatedImage } from '@/lib/annotationExport';
+import { Button } from '@/components/ui/button';
+import { Textarea } from '@/components/ui/textarea';
+import { useRenditionManifest } from '@/components/ui/ResponsiveImage';
+import { CommentThread, buildCommentTree } from '@/components/comments/CommentThread';
+import AnnotationCanvas, { ReadOnlyAnnotationLayer, SelectedAnnotationShape } from './AnnotationCanvas';
+
+interface AnnotationReviewPanelProps {
+  variationId: string;
+  imageUrl: string;
+  originalFilePath?: string | null; // Used to measure in original image pixels when imageUrl is a rendition
+  exportName?: string; // Base file name (and PDF title) for exports, e.g. "Variation A"
+  className?: string;
+}
+
+// Fetch every reviewer's annotation layer for a variation
+const fetchAnnotationsForVariation = async (supabase: any, variationId: string): Promise<Annotation[]> => {
+  if (!variationId) return [];
+  const { data, error } = await supabase
+    .from('annotations')
+    .select('*, profiles:user_id ( display_name )')
+    .eq('variation_id', variationId)
+    .order('created_at', { ascending: true });
+  if (error) {
+    console.error('Error fetching annotations:', error);
+    throw new Error(error.message);
+  }
+  return data || [];
+};
+
+// Same shape (and cache key) as the comment lists on the project and variation pages
+const fetchCommentsForVariation = async (supabase: any, variationId: string): Promise<Comment[]> => {
+  if (!variationId) return [];
+  const { data, error } = await supabase
+    .from('comments')
+    .select('*, profiles:user_id ( display_name ), attachments (*)')
+    .eq('variation_id', variationId)
+    .order('created_at', { ascending: true });
+  if (error) {
+    console.error('Error fetching comments:', error);
+    throw new Error(error.message);
+  }
+  return data || [];
+};
+
+// Review mode: the current user edits their own layer while other reviewers' layers can be toggled per author.
+// Selecting a shape opens the comment thread attached to it (or lets the reviewer start one).
+export const AnnotationReviewPanel = ({ variationId, imageUrl, originalFilePath, exportName = 'annotated-variation', className }: AnnotationReviewPanelProps) => {
+  const { supabase, user } = useAuth();
+  const [hiddenAuthorIds, setHiddenAuthorIds] = useState<string[]>([]);
+  const [unsavedLayerJson, setUnsavedLayerJson] = useState<string | null>(null);
+  const [selectedShape, setSelectedShape] = useState<SelectedAnnotationShape | null>(null);
+  const [shapeCommentText, setShapeCommentText] = useState('');
+  const [replyingToId, setReplyingToId] = useState<string | null>(null);
+  const [exportingFormat, setExportingFormat] = useState<'png' | 'pdf' | null>(null);
+
+  const { data: annotations, isLoading, error } = useQuery<Annotation[]>({
+    queryKey: ['annotations', variationId],
+    queryFn: () => fetchAnnotationsForVariation(supabase, variationId),
+    enabled: !!supabase && !!variationId,
+  });
+
+  const { data: comments } = useQuery<Comment[]>({
+    queryKey: ['comments', variationId],
+    queryFn: () => fetchCommentsForVariation(supabase, variationId),
+    enabled: !!supabase && !!variationId,
+  });
+
+  // The review canvas shows a downscaled rendition, so measurements need the original's size. The manifest has it
+  // for every kind of file that gets processed; without one the size is unknown and the canvas won't measure.
+  const { data: manifest } = useRenditionManifest(originalFilePath);
+  const manifestPage = manifest?.pages[0];
+  const sourceImageSize = originalFilePath
+    ? (manifestPage ? { width: manifestPage.width, height: manifestPage.height } : null)
+    : undefined;
+
+  const saveAnnotationsMutation = useSaveAnnotations(variationId);
+  const addCommentMutation = useAddComment(null, variationId);
+  const updateCommentMutation = useUpdateComment(variationId);
+  const deleteCommentMutation = useDeleteComment(variationId);
+
+  const ownLayer = annotations?.find(layer => layer.user_id === user?.id);
+  const otherLayers = useMemo(
+    () => (annotations ?? []).filter(layer => layer.user_id !== user?.id && layer.data?.objects?.length > 0),
+    [annotations, user?.id]
+  );
+
+  const readOnlyLayers = useMemo<ReadOnlyAnnotationLayer[]>(
+    () => otherLayers
+      .filter(layer => !hiddenAuthorIds.includes(layer.user_id))
+      .map(layer => ({ id: layer.id, json: JSON.stringify(layer.data) })),
+    [otherLayers, hiddenAuthorIds]
+  );
+
+  const shapeThreads = useMemo(
+    () => selectedShape
+      ? buildCommentTree(comments ?? []).filter(root => root.annotation_shape_id === selectedShape.id)
+      : [],
+    [comments, selectedShape]
+  );
+
+  const toggleAuthor = (authorId: string) => {
+    setHiddenAuthorIds(prev => prev.includes(authorId) ? prev.filter(id => id !== authorId) : [...prev, authorId]);
+  };
+
+  const handleSaveLayer = (json: string) => {
+    saveAnnotationsMutation.mutate(json, {
+      // Keep the unsaved flag if the reviewer kept drawing while the save was in flight
+      onSuccess: () => setUnsavedLayerJson(current => (current === json ? null : current)),
+    });
+  };
+
+  const handleSendShapeComment = async () => {
+    if (!selectedShape || !shapeCommentText.trim()) {
+      toast.info("Comment cannot be empty.");
+      return;
+    }
+    // The shape has to exist in the saved layer, otherwise the thread would point at nothing
+    if (!replyingToId && selectedShape.isOwn && unsavedLayerJson) {
+      const json = unsavedLayerJson;
+      try {
+        await saveAnnotationsMutation.mutateAsync(json);
+        setUnsavedLayerJson(current => (current === json ? null : current));
+      } catch {
+        return; // Error toast handled in the hook
+      }
+    }
+    addCommentMutation.mutate({
+      commentText: shapeCommentText.trim(),
+      parentId: replyingToId,
+      annotationShapeId: replyingToId ? null : selectedShape.id,
+      onSuccessCallback: () => {
+        setShapeCommentText('');
+        setReplyingToId(null);
+      },
+    });
+  };
+
+  // Exports what the reviewer currently sees: visible layers (including unsaved edits) plus pinned comments
+  const handleExport = async (format: 'png' | 'pdf') => {
+    setExportingFormat(format);
+    try {
+      const ownJson = unsavedLayerJson ?? (ownLayer ? JSON.stringify(ownLayer.data) : null);
+      const layers = [...readOnlyLayers.map(layer => layer.json), ...(ownJson ? [ownJson] : [])];
+      const image = await renderAnnotatedImage({ imageUrl, layers, comments: comments ?? [] });
+      const fileBase = exportName.replace(/[^a-z0-9-_ ]/gi, '').trim().replace(/\s+/g, '-') || 'annotated-variation';
+      if (format === 'png') {
+        downloadDataUrl(image.dataUrl, `${fileBase}.png`);
+      } else {
+        buildAnnotatedPdf(image, buildCommentLegend(comments ?? []), exportName).save(`${fileBase}.pdf`);
+      }
+    } catch (exportError) {
+      console.error('[ExportAnnotations] Failed:', exportError);
+      toast.error(`Export failed: ${exportError instanceof Error ? exportError.message : 'Unknown error'}`);
+    } finally {
+      setExportingFormat(null);
+    }
+  };
+
+  if (isLoading) {
+    return <div className="flex items-center justify-center p-4"><Loader2 className="h-6 w-6 animate-spin mr-2" /> Loading annotations...</div>;
+  }
+
+  if (error) {
+    return <p className="text-sm text-red-600 p-4">Error loading annotations: {(error as Error).message}</p>;
+  }
+
+  return (
+    <div className={`flex flex-col min-h-0 ${className ?? ''}`}>
+      <div className="flex flex-wrap items-center gap-2 p-2 border-b bg-background text-xs">
+        <span className="font-medium text-muted-foreground">Layers:</span>
+        <span className="px-2 py-1 rounded-md bg-muted">You (editing){unsavedLayerJson && ' • unsaved changes'}</span>
+        {otherLayers.length === 0 && (
+          <span className="italic text-muted-foreground">No other reviewers have annotated this variation.</span>
+        )}
+        {otherLayers.map(layer => {
+          const isHidden = hiddenAuthorIds.includes(layer.user_id);
+          return (
+            <Button
+              key={layer.id}
+              type="button"
+              variant={isHidden ? 'ghost' : 'outline'}
+              size="sm"
+              className="h-7 px-2 text-xs"
+              onClick={() => toggleAuthor(layer.user_id)}
+              title={isHidden ? 'Show layer' : 'Hide layer'}
+            >
+              {isHidden ? <EyeOff className="h-3 w-3 mr-1" /> : <Eye className="h-3 w-3 mr-1" />}
+              {layer.profiles?.display_name || 'Unknown User'} ({layer.data.objects.length})
+            </Button>
+          );
+        })}
+        <div className="ml-auto flex items-center gap-1">
+          <Button type="button" variant="outline" size="sm" className="h-7 px-2 text-xs" onClick={() => handleExport('png')} disabled={!!exportingFormat} title="Download image with markup">
+            {exportingFormat === 'png' ? <Loader2 className="h-3 w-3 mr-1 animate-spin" /> : <Download className="h-3 w-3 mr-1" />}
+            PNG
+          </Button>
+          <Button type="button" variant="outline" size="sm" className="h-7 px-2 text-xs" onClick={() => handleExport('pdf')} disabled={!!exportingFormat} title="Download PDF with comment legend">
+            {exportingFormat === 'pdf' ? <Loader2 className="h-3 w-3 mr-1 animate-spin" /> : <FileDown className="h-3 w-3 mr-1" />}
+            PDF
+          </Button>
+        </div>
+      </div>
+      <div className="flex-1 min-h-0 flex">
+        <div className="flex-1 min-w-0">
+          <AnnotationCanvas
+            imageUrl={imageUrl}
+            initialAnnotations={ownLayer ? JSON.stringify(ownLayer.data) : undefined}
+            readOnlyLayers={readOnlyLayers}
+            onSaveAnnotations={handleSaveLayer}
+            isSaving={saveAnnotationsMutation.isPending}
+            sourceImageSize={sourceImageSize}
+            onChange={setUnsavedLayerJson}
+            hasUnsavedChanges={!!unsavedLayerJson}
+            onShapeSelected={(shape) => {
+              setSelectedShape(shape);
+              setReplyingToId(null);
+            }}
+          />
+        </div>
+
+        {/* Shape thread: opens when a shape is selected on the canvas */}
+        {selectedShape && (
+          <aside className="w-72 shrink-0 border-l bg-background flex flex-col min-h-0">
+            <div className="flex items-center justify-between p-2 border-b">
+              <h4 className="text-sm font-semibold">Shape Comments</h4>
+              <Button variant="ghost" size="icon" className="h-6 w-6" onClick={() => setSelectedShape(null)} title="Close">
+                <X className="h-4 w-4" />
+              </Button>
+            </div>
+            <div className="flex-1 overflow-y-auto min-h-0 p-2 space-y-2">
+              {shapeThreads.length > 0 ? (
+                shapeThreads.map(rootComment => (
+                  <CommentThread
+                    key={rootComment.id}
+                    comment={rootComment}
+                    level={0}
+                    currentUser={user}
+                    onUpdate={updateCommentMutation.mutate}
+                    onDelete={(commentId, options) => deleteCommentMutation.mutate({ commentId, ...options })}
+                    isUpdating={updateCommentMutation.isPending}
+                    isDeleting={deleteCommentMutation.isPending}
+                    onReply={setReplyingToId}
+                  />
+                ))
+              ) : (
+                <p className="text-xs italic text-muted-foreground">No comments on this shape yet.</p>
+              )}
+            </div>
+            <div className="p-2 border-t space-y-2">
+              {replyingToId && (
+                <div className="flex items-center justify-between text-xs text-muted-foreground">
+                  <span>Replying to thread</span>
+                  <Button variant="ghost" size="sm" className="h-6 px-2 text-xs" onClick={() => setReplyingToId(null)}>Cancel</Button>
+                </div>
+              )}
+              <Textarea
+                placeholder={replyingToId ? "Write a reply..." : "Comment on this shape..."}
+                value={shapeCommentText}
+                onChange={(e) => setShapeCommentText(e.target.value)}
+                rows={3}
+              />
+              <div className="flex justify-end">
+                <Button
+                  size="sm"
+                  onClick={handleSendShapeComment}
+                  disabled={!shapeCommentText.trim() || addCommentMutation.isPending || saveAnnotationsMutation.isPending}
+                >
+                  {(addCommentMutation.isPending || saveAnnotationsMutation.isPending) && <Loader2 className="h-4 w-4 animate-spin mr-2" />}
+                  Send
+                </Button>
+              </div>
+            </div>
+          </aside>
+        )}
+      </div>
+    </div>
+  );
+};
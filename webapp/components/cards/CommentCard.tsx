@@ -7,7 +7,7 @@ import { formatDistanceToNow } from 'date-fns';
 import { User } from '@supabase/supabase-js'; // Import Supabase User type
 import { Button } from '@/components/ui/button';
 import { Textarea } from '@/components/ui/textarea';
-import { Loader2, Trash2, Pencil, Check, X, FileText, ChevronDown, ChevronRight } from 'lucide-react'; // Import icons
+import { Loader2, Trash2, Pencil, Check, X, FileText, ChevronDown, ChevronRight, PenTool } from 'lucide-react'; // Import icons
 import { 
     AlertDialog, 
     AlertDialogAction, 
@@ -23,14 +23,15 @@ import { toast } from 'sonner'; // For potential local errors
 import { useAuth } from '@/providers/AuthProvider'; // Import useAuth to get supabase client
 import { Dialog, DialogContent, DialogTrigger, DialogTitle, DialogDescription } from '@/components/ui/dialog';
 import { VisuallyHidden } from '@radix-ui/react-visually-hidden';
-import { getProcessedImagePath, getPublicImageUrl } from '@/lib/imageUtils';
+import { getAnimatedPreviewPath, getProcessedImagePath, getPublicImageUrl, isAnimatedFormat } from '@/lib/imageUtils';
 import { THUMBNAIL_WIDTH, LARGE_WIDTH } from '@/lib/constants/imageConstants';
+import { SwatchChange } from '@/components/variations/SwatchStrip';
 
 interface CommentCardProps {
   comment: Comment;
   currentUser: User | null;
   onUpdate: (variables: { commentId: string; newContent: string; onSuccessCallback: () => void }) => void;
-  onDelete: (commentId: string) => void;
+  onDelete: (commentId: string, options?: { deleteLinkedShape?: boolean }) => void;
   isUpdating: boolean;
   isDeleting: boolean;
   onReply: (parentCommentId: string) => void;
@@ -38,6 +39,8 @@ interface CommentCardProps {
   collapsed?: boolean;
   setCollapsed?: (c: boolean) => void;
   numReplies?: number;
+  pinNumber?: number; // Set when the thread is pinned to a spot on the image
+  isHighlighted?: boolean;
 }
 
 // Environment variables (needed for image URLs)
@@ -71,7 +74,9 @@ export const CommentCard = ({
     level,
     collapsed,
     setCollapsed,
-    numReplies
+    numReplies,
+    pinNumber,
+    isHighlighted
 }: CommentCardProps) => {
   const [isEditing, setIsEditing] = useState(false);
   const [editedContent, setEditedContent] = useState(comment.content);
@@ -148,7 +153,7 @@ export const CommentCard = ({
   // };
 
   return (
-    <div className="relative w-full group">
+    <div className={`relative w-full group rounded-md transition-colors ${isHighlighted ? 'bg-blue-50 ring-1 ring-blue-300' : ''}`}>
       {/* Action bar: aligned horizontally with username/avatar */}
       <div className="absolute top-[0.75rem] right-6 flex items-center gap-2 z-10">
         {isAuthor && !isEditing && (
@@ -179,17 +184,35 @@ export const CommentCard = ({
                 <AlertDialogHeader>
                   <AlertDialogTitle>Are you sure?</AlertDialogTitle>
                   <AlertDialogDescription>
-                    This action cannot be undone. This will permanently delete this comment.
+                    This will move this comment and its replies to the trash.
+                    {comment.annotation_shape_id && ' It is attached to an annotation shape — do you also want to delete the shape?'}
                   </AlertDialogDescription>
                 </AlertDialogHeader>
                 <AlertDialogFooter>
                   <AlertDialogCancel>Cancel</AlertDialogCancel>
-                  <AlertDialogAction 
-                    onClick={() => onDelete(comment.id)} 
-                    className="bg-destructive hover:bg-destructive/90"
-                  >
-                    Delete
-                  </AlertDialogAction>
+                  {comment.annotation_shape_id ? (
+                    <>
+                      <AlertDialogAction 
+                        onClick={() => onDelete(comment.id, { deleteLinkedShape: false })} 
+                        className="bg-destructive hover:bg-destructive/90"
+                      >
+                        Delete Comment Only
+                      </AlertDialogAction>
+                      <AlertDialogAction 
+                        onClick={() => onDelete(comment.id, { deleteLinkedShape: true })} 
+                        className="bg-destructive hover:bg-destructive/90"
+                      >
+                        Delete Comment &amp; Shape
+                      </AlertDialogAction>
+                    </>
+                  ) : (
+                    <AlertDialogAction 
+                      onClick={() => onDelete(comment.id)} 
+                      className="bg-destructive hover:bg-destructive/90"
+                    >
+                      Delete
+                    </AlertDialogAction>
+                  )}
                 </AlertDialogFooter>
               </AlertDialogContent>
             </AlertDialog>
@@ -216,7 +239,23 @@ export const CommentCard = ({
         <div className="flex-1 space-y-1">
           {/* Header row: username/time + collapse control absolutely aligned right */}
           <div className="flex flex-col min-w-0">
-            <h4 className="text-sm font-semibold truncate max-w-xs">{userName}</h4>
+            <div className="flex items-center gap-1.5 min-w-0">
+              {typeof pinNumber === 'number' && (
+                <span
+                  className={`flex h-5 w-5 shrink-0 items-center justify-center rounded-full text-[10px] font-semibold ${isHighlighted ? 'bg-blue-600 text-white' : 'bg-primary text-primary-foreground'}`}
+                  title={`Pinned comment #${pinNumber}`}
+                >
+                  {pinNumber}
+                </span>
+              )}
+              <h4 className="text-sm font-semibold truncate max-w-xs">{userName}</h4>
+              {comment.annotation_shape_id && (
+                <span className="flex shrink-0 items-center gap-0.5 rounded bg-muted px-1 text-[10px] text-muted-foreground" title="Attached to an annotation shape">
+                  <PenTool className="h-3 w-3" /> Shape
+                </span>
+              )}
+              {comment.swatch_color && <SwatchChange color={comment.swatch_color} suggestedColor={comment.suggested_color} />}
+            </div>
             <div className="relative mt-0.5 min-h-[1.5rem]"> {/* min-h to ensure enough height for button */}
               <p className="text-xs text-muted-foreground whitespace-nowrap">{timeAgo}</p>
               {level === 0 && setCollapsed && typeof collapsed === 'boolean' && typeof numReplies === 'number' && numReplies > 0 && (
@@ -263,23 +302,18 @@ export const CommentCard = ({
                       <div className="mt-2 space-y-1">
                           {comment.attachments.map((attachment) => {
                               const isImage = attachment.file_type?.startsWith('image/');
-                              // --- ADDED: Check for GIF --- 
-                              const isGif = attachment.file_path?.toLowerCase().endsWith('.gif');
+                              // Animated attachments get a static poster thumbnail and play the small animated preview when opened
+                              const isAnimated = attachment.file_path ? isAnimatedFormat(attachment.file_path) : false;
 
                               // --- MODIFIED: Generate URLs based on type --- 
                               let thumbnailUrl: string | null = null;
                               let largeImageUrl: string | null = null;
 
                               if (isImage && supabaseUrl && processedBucketName && attachment.file_path) {
-                                  if (isGif) {
-                                      // For GIFs, point directly to the copied file in the processed bucket
-                                      thumbnailUrl = getPublicImageUrl(supabaseUrl, processedBucketName, attachment.file_path);
-                                      largeImageUrl = thumbnailUrl; // Large view is the same for GIF
-                                  } else {
-                                      // For other images, generate processed webp paths
-                                      thumbnailUrl = getProcessedAttachmentUrl(attachment.file_path, THUMBNAIL_WIDTH);
-                                      largeImageUrl = getProcessedAttachmentUrl(attachment.file_path, LARGE_WIDTH);
-                                  }
+                                  thumbnailUrl = getProcessedAttachmentUrl(attachment.file_path, THUMBNAIL_WIDTH);
+                                  largeImageUrl = isAnimated
+                                      ? getPublicImageUrl(supabaseUrl, processedBucketName, getAnimatedPreviewPath(attachment.file_path))
+                                      : getProcessedAttachmentUrl(attachment.file_path, LARGE_WIDTH);
                               } else if (!isImage && supabaseUrl && processedBucketName && attachment.file_path) {
                                   // Handle non-image files (provide direct download link from original bucket?)
                                   // Let's assume getAttachmentUrl (using original bucket) is suitable here, needs defining/uncommenting
@@ -3,10 +3,9 @@
 import React, { useState, useEffect } from 'react';
 import { Card, CardContent, CardFooter } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
-import { ImageIcon, Loader2, Pencil, Trash2, ImageOff } from 'lucide-react';
+import { ImageIcon, Pencil, Trash2, ImageOff, Play } from 'lucide-react';
 import { DesignGridItem, DesignStage, VariationFeedbackStatus } from '@/types/models';
 import { useAuth } from '@/providers/AuthProvider';
-import Image from 'next/image';
 import { cn } from '@/lib/utils';
 import {
   Dialog,
@@ -32,8 +31,8 @@ import {
   AlertDialogTitle,
   AlertDialogTrigger,
 } from "@/components/ui/alert-dialog"
-import { getProcessedImagePath, getPublicImageUrl } from '@/lib/imageUtils';
-import { THUMBNAIL_WIDTH } from '@/lib/constants/imageConstants';
+import { isVideoFormat } from '@/lib/imageUtils';
+import { ResponsiveImage } from '@/components/ui/ResponsiveImage';
 
 interface DesignCardProps {
   design: DesignGridItem;
@@ -46,77 +45,17 @@ const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL;
 const processedBucketName = process.env.NEXT_PUBLIC_SUPABASE_PROCESSED_BUCKET;
 
 export const DesignCard = ({ design, onClick, onSaveName, onDelete }: DesignCardProps) => {
-  const [imageUrl, setImageUrl] = useState<string | null>(null);
-  const [isLoadingUrl, setIsLoadingUrl] = useState(true);
   const [urlError, setUrlError] = useState<string | null>(null);
   const [editedName, setEditedName] = useState(design.name);
   const [isEditNameDialogOpen, setIsEditNameDialogOpen] = useState(false);
 
   useEffect(() => {
-    // --- ADDED LOG TO CHECK HOOK EXECUTION AND DATA ---
-    // console.log(`[DesignCard Hook Start ${design.name}] Running useEffect. Design data:`, JSON.stringify(design, null, 2));
-    
-    setImageUrl(null);
     setUrlError(null);
-    setIsLoadingUrl(true);
-
     if (!supabaseUrl || !processedBucketName) {
         setUrlError("Image configuration error.");
         console.error("[DesignCard] Error: NEXT_PUBLIC_SUPABASE_URL or NEXT_PUBLIC_SUPABASE_PROCESSED_BUCKET is not set.");
-        setIsLoadingUrl(false);
-        return;
-    }
-
-    const originalFilePath = design.latest_thumbnail_path;
-    // --- ADD DEBUG LOGGING --- 
-    // console.log(`[DesignCard Debug ${design.name}] Received originalFilePath:`, originalFilePath);
-
-    if (originalFilePath) {
-        try {
-            let finalProcessedPath: string;
-            const isOriginalGif = originalFilePath.toLowerCase().endsWith('.gif');
-            // --- ADD DEBUG LOGGING --- 
-            // console.log(`[DesignCard Debug ${design.name}] isOriginalGif:`, isOriginalGif);
-
-            if (isOriginalGif) {
-                // --- CORRECTED: For GIFs, the processed path IS the original path --- 
-                finalProcessedPath = originalFilePath;
-                // --- REMOVED Incorrect path calculation logic --- 
-                // const parts = originalFilePath.split('/');
-                // const fileNameWithExt = parts.pop() || '';
-                // const fileNameWithoutExt = fileNameWithExt.split('.').slice(0, -1).join('.');
-                // const baseFileName = fileNameWithoutExt.replace(/_\d+$/, ''); // Incorrectly removed _01
-                // const originalSubPath = parts.join('/');
-                // const gifFileName = `${baseFileName}.gif`;
-                // finalProcessedPath = originalSubPath
-                //     ? `${originalSubPath}/${gifFileName}`
-                //     : gifFileName;
-                // --- Removed debug log ---
-            } else {
-                // For other types, use the existing helper to get the _200.webp path
-                finalProcessedPath = getProcessedImagePath(originalFilePath, THUMBNAIL_WIDTH);
-                // --- ADD DEBUG LOGGING --- 
-                // console.log(`[DesignCard Debug ${design.name}] Generated WebP path:`, finalProcessedPath);
-            }
-
-            // Use the determined path to generate the final public URL
-            const publicUrl = getPublicImageUrl(supabaseUrl, processedBucketName, finalProcessedPath);
-             // --- ADD DEBUG LOGGING --- 
-             // console.log(`[DesignCard Debug ${design.name}] Final publicUrl:`, publicUrl);
-            setImageUrl(publicUrl);
-            setUrlError(null);
-        } catch (error: unknown) {
-            console.error(`[DesignCard] Error generating processed URL for ${originalFilePath}:`, error);
-            setUrlError("Failed to generate image URL.");
-            setImageUrl(null);
-        }
-        setIsLoadingUrl(false);
-    } else {
-        setUrlError(null);
-        setImageUrl(null);
-        setIsLoadingUrl(false);
     }
-  }, [design.latest_thumbnail_path, supabaseUrl, processedBucketName]);
+  }, [design.latest_thumbnail_path]);
 
   useEffect(() => {
     setEditedName(design.name);
@@ -169,8 +108,8 @@ export const DesignCard = ({ design, onClick, onSaveName, onDelete }: DesignCard
           <AlertDialogHeader>
             <AlertDialogTitle>Are you absolutely sure?</AlertDialogTitle>
             <AlertDialogDescription>
-              This action cannot be undone. This will permanently delete the design
-              &quot;{design.name}&quot; and all its associated versions, variations, comments, and files.
+              This will move the design &quot;{design.name}&quot; and all its versions, variations and comments
+              to the trash. An admin can restore it until the retention window ends.
             </AlertDialogDescription>
           </AlertDialogHeader>
           <AlertDialogFooter>
@@ -185,26 +124,22 @@ export const DesignCard = ({ design, onClick, onSaveName, onDelete }: DesignCard
         </AlertDialogContent>
       </AlertDialog>
       <CardContent className="p-0 aspect-square bg-muted relative flex items-center justify-center overflow-hidden mb-0">
-        {isLoadingUrl ? (
-          <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
-        ) : urlError ? (
+        {urlError ? (
           <div className="flex flex-col items-center justify-center text-destructive p-2">
             <ImageOff className="h-12 w-12 mb-1" />
             <span className="text-xs text-center">{urlError}</span>
           </div>
-        ) : imageUrl ? (
-          <Image
-            src={imageUrl}
+        ) : design.latest_thumbnail_path ? (
+          // Animated and video originals have static posters as renditions, so the grid never loads the animation
+          <ResponsiveImage
+            originalPath={design.latest_thumbnail_path}
             alt={`Thumbnail for ${design.name}`}
-            fill
             sizes="(max-width: 640px) 100vw, (max-width: 768px) 50vw, (max-width: 1024px) 33vw, 25vw"
             style={{ objectFit: 'cover' }}
             className="absolute w-full h-full transition-transform duration-300 group-hover:scale-105"
-            unoptimized={design.latest_thumbnail_path?.toLowerCase().endsWith('.gif')}
-            onError={(e) => {
-              console.error(`[DesignCard] Failed to load image via Next/Image: ${imageUrl}`, e);
+            onError={() => {
+              console.error(`[DesignCard] Failed to load thumbnail for ${design.latest_thumbnail_path}`);
               setUrlError("Failed to load image."); 
-              setImageUrl(null);
             }}
           />
         ) : (
@@ -212,6 +147,11 @@ export const DesignCard = ({ design, onClick, onSaveName, onDelete }: DesignCard
             <ImageIcon className="h-12 w-12 text-muted-foreground" />
           </div>
         )}
+        {!urlError && design.latest_thumbnail_path && isVideoFormat(design.latest_thumbnail_path) && (
+          <span className="absolute bottom-2 left-2 rounded-full bg-background/80 p-1.5 shadow" title="Video">
+            <Play className="h-3 w-3" />
+          </span>
+        )}
       </CardContent>
       <CardFooter className="p-3 flex flex-col items-start bg-background border-t mt-0 mb-0">
         <div className="flex justify-between items-center w-full mb-1"> 
@@ -0,0 +1,68 @@
+'use client';
+
+import React from 'react';
+import { cn } from '@/lib/utils';
+import { CommentPin, PinPoint, getNormalizedPoint } from '@/lib/commentPins';
+
+interface CommentPinLayerProps {
+  pins: CommentPin[];
+  activeCommentId?: string | null;
+  pendingPin?: PinPoint | null;
+  onPlacePin?: (point: PinPoint) => void; // Omit to make the layer read-only
+  onPinClick?: (commentId: string) => void;
+  className?: string;
+}
+
+// Layer must be positioned exactly over the rendered image (not its letterboxed container)
+// so the normalized pin coordinates line up with every rendition size.
+export const CommentPinLayer = ({
+  pins,
+  activeCommentId,
+  pendingPin,
+  onPlacePin,
+  onPinClick,
+  className,
+}: CommentPinLayerProps) => {
+  const handleLayerClick = (e: React.MouseEvent<HTMLDivElement>) => {
+    if (!onPlacePin) return;
+    const point = getNormalizedPoint(e.clientX, e.clientY, e.currentTarget.getBoundingClientRect());
+    if (point) onPlacePin(point);
+  };
+
+  return (
+    <div
+      className={cn("absolute inset-0", onPlacePin ? "cursor-crosshair" : "pointer-events-none", className)}
+      onClick={handleLayerClick}
+    >
+      {pins.map(pin => {
+        const isActive = pin.commentId === activeCommentId;
+        return (
+          <button
+            key={pin.commentId}
+            type="button"
+            className={cn(
+              "pointer-events-auto absolute -translate-x-1/2 -translate-y-1/2 flex h-6 w-6 items-center justify-center rounded-full border-2 border-white text-xs font-semibold shadow-md transition-transform",
+              isActive ? "bg-blue-600 text-white scale-125 z-10" : "bg-primary text-primary-foreground hover:scale-110"
+            )}
+            style={{ left: `${pin.x * 100}%`, top: `${pin.y * 100}%` }}
+            onClick={(e) => {
+              e.stopPropagation(); // Don't drop a new pin when selecting an existing one
+              onPinClick?.(pin.commentId);
+            }}
+            title={`Comment #${pin.number}`}
+          >
+            {pin.number}
+          </button>
+        );
+      })}
+      {pendingPin && (
+        <div
+          className="absolute -translate-x-1/2 -translate-y-1/2 flex h-6 w-6 items-center justify-center rounded-full border-2 border-dashed border-white bg-blue-600/80 text-xs font-semibold text-white shadow-md animate-pulse"
+          style={{ left: `${pendingPin.x * 100}%`, top: `${pendingPin.y * 100}%` }}
+        >
+          {pins.length + 1}
+        </div>
+      )}
+    </div>
+  );
+};
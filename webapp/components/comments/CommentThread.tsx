@@ -0,0 +1,122 @@
+'use client';
+
+import React, { useState, useEffect, useRef } from 'react';
+import { User } from '@supabase/supabase-js';
+import { Comment } from '@/types/models';
+import { CommentCard } from '@/components/cards/CommentCard';
+
+export type CommentTreeNode = Comment & { children: Comment[] };
+
+// --- Helper Function to Build Comment Tree ---
+export const buildCommentTree = (comments: Comment[]): CommentTreeNode[] => {
+    const commentMap: { [id: string]: CommentTreeNode } = {};
+    const rootComments: CommentTreeNode[] = [];
+
+    // Initialize map and children array
+    comments.forEach(comment => {
+        commentMap[comment.id] = { ...comment, children: [] };
+    });
+
+    // Build the tree structure
+    comments.forEach(comment => {
+        if (comment.parent_comment_id && commentMap[comment.parent_comment_id]) {
+            commentMap[comment.parent_comment_id].children.push(commentMap[comment.id]);
+        } else {
+            // Add top-level comments to the root array
+            rootComments.push(commentMap[comment.id]);
+        }
+    });
+
+    // Sort root comments by creation date
+    rootComments.sort((a, b) => new Date(a.created_at).getTime() - new Date(b.created_at).getTime());
+
+    return rootComments;
+};
+
+// --- Recursive Component for Rendering Comment Threads ---
+// Note: Need to explicitly type props for recursive components
+interface CommentThreadProps {
+    comment: CommentTreeNode;
+    level: number; // For indentation
+    // Pass down necessary props for CommentCard
+    currentUser: User | null;
+    onUpdate: (variables: { commentId: string; newContent: string, onSuccessCallback?: () => void; }) => void;
+    onDelete: (commentId: string, options?: { deleteLinkedShape?: boolean }) => void;
+    isUpdating: boolean;
+    isDeleting: boolean;
+    onReply: (parentCommentId: string) => void;
+    // Pin linkage (root threads only)
+    pinNumbers?: Record<string, number>;
+    activeCommentId?: string | null;
+    onSelectThread?: (commentId: string) => void;
+}
+
+export const CommentThread: React.FC<CommentThreadProps> = ({
+    comment,
+    level,
+    currentUser,
+    onUpdate,
+    onDelete,
+    isUpdating,
+    isDeleting,
+    onReply,
+    pinNumbers,
+    activeCommentId,
+    onSelectThread
+}) => {
+    // Add collapse state for root comments
+    const [collapsed, setCollapsed] = useState(false);
+    const threadRef = useRef<HTMLDivElement>(null);
+    const isRoot = level === 0;
+    const pinNumber = isRoot ? pinNumbers?.[comment.id] : undefined;
+    const isActive = isRoot && !!activeCommentId && activeCommentId === comment.id;
+
+    // Bring the thread into view when its pin is selected on the image
+    useEffect(() => {
+        if (isActive) {
+            threadRef.current?.scrollIntoView({ behavior: 'smooth', block: 'nearest' });
+        }
+    }, [isActive]);
+
+    return (
+        <div ref={threadRef} className="space-y-2">
+            <div
+                className={`flex items-start ${isRoot && pinNumber !== undefined && onSelectThread ? 'cursor-pointer' : ''}`}
+                onClick={isRoot && pinNumber !== undefined && onSelectThread ? () => onSelectThread(comment.id) : undefined}
+            >
+                <CommentCard
+                    key={comment.id}
+                    comment={comment}
+                    currentUser={currentUser}
+                    onUpdate={onUpdate}
+                    onDelete={onDelete}
+                    isUpdating={isUpdating}
+                    isDeleting={isDeleting}
+                    onReply={isRoot ? onReply : () => {}}
+                    level={level}
+                    pinNumber={pinNumber}
+                    isHighlighted={isActive}
+                    {...(isRoot ? { collapsed, setCollapsed, numReplies: comment.children.length } : {})}
+                />
+            </div>
+            {/* Render children recursively, only if not collapsed */}
+            {comment.children && comment.children.length > 0 && !collapsed && (
+                <div className={isRoot ? "border-l-2 border-muted pl-4 mt-2 ml-5" : undefined}>
+                    {comment.children.map(childComment => (
+                        <CommentThread
+                            key={childComment.id}
+                            comment={childComment as CommentTreeNode}
+                            level={level + 1}
+                            currentUser={currentUser}
+                            onUpdate={onUpdate}
+                            onDelete={onDelete}
+                            isUpdating={isUpdating}
+                            isDeleting={isDeleting}
+                            onReply={onReply}
+                        />
+                    ))}
+                </div>
+            )}
+        </div>
+    );
+};
@@ -0,0 +1,199 @@
+'use client';
+
+import React, { useRef, useState } from 'react';
+import { ZoomIn, ZoomOut, Columns2, Layers, SquareSplitHorizontal, ImageOff } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { DesignStage, VariationFeedbackStatus } from '@/types/models';
+import { usePanZoom } from '@/hooks/usePanZoom';
+
+export type CompareMode = 'side-by-side' | 'onion' | 'swipe';
+
+// One side of the comparison, already resolved to a displayable image
+export interface CompareSide {
+    variationId: string;
+    imageUrl: string | null;
+    versionNumber: number;
+    variationLetter: string;
+    stage?: DesignStage;
+    status?: VariationFeedbackStatus;
+    label?: string; // Replaces the "V2 · A" title, e.g. when comparing file revisions of one variation
+}
+
+interface VariationCompareViewerProps {
+    left: CompareSide;
+    right: CompareSide;
+    diffOverlayUrl?: string | null; // Heat map of changed pixels (from /api/diff-image), drawn over the right side
+    className?: string;
+}
+
+export const getStatusBadgeVariant = (status: VariationFeedbackStatus) => {
+    if (status === VariationFeedbackStatus.Approved) return 'default';
+    if (status === VariationFeedbackStatus.Rejected) return 'destructive';
+    return 'secondary';
+};
+
+const getSideTitle = (side: CompareSide) => side.label ?? `V${side.versionNumber} · ${side.variationLetter}`;
+
+const SideLabel = ({ side }: { side: CompareSide }) => (
+    <div className="flex flex-wrap items-center gap-2 text-sm">
+        <span className="font-semibold">{getSideTitle(side)}</span>
+        {side.stage && <Badge variant="outline" className="capitalize">{side.stage}</Badge>}
+        {side.status && <Badge variant={getStatusBadgeVariant(side.status)}>{side.status}</Badge>}
+    </div>
+);
+
+const CompareImage = ({ side, style, className }: { side: CompareSide; style?: React.CSSProperties; className?: string }) => (
+    side.imageUrl ? (
+        <img
+            src={side.imageUrl}
+            alt={`V${side.versionNumber} variation ${side.variationLetter}`}
+            draggable={false}
+            className={`absolute inset-0 w-full h-full object-contain select-none ${className ?? ''}`}
+            style={style}
+        />
+    ) : (
+        <div className="absolute inset-0 flex flex-col items-center justify-center text-muted-foreground">
+            <ImageOff className="h-10 w-10 mb-2" />
+            <span className="text-xs">No image uploaded</span>
+        </div>
+    )
+);
+
+// Compares two variations side by side (with synchronized pan/zoom), as an onion skin, or with a swipe divider
+export const VariationCompareViewer = ({ left, right, diffOverlayUrl, className }: VariationCompareViewerProps) => {
+    const [mode, setMode] = useState<CompareMode>('side-by-side');
+    const { view, transformStyle, zoomBy, resetView, panHandlers: sharedPanHandlers } = usePanZoom();
+    const [overlayOpacity, setOverlayOpacity] = useState(50);
+    const [swipePosition, setSwipePosition] = useState(50);
+    const swipeAreaRef = useRef<HTMLDivElement>(null);
+    const isDraggingDividerRef = useRef(false);
+
+    // Every pane feeds the same transform, which is what keeps the two sides in sync
+    const panHandlers = {
+        ...sharedPanHandlers,
+        onPointerDown: (e: React.PointerEvent) => {
+            if (isDraggingDividerRef.current) return;
+            sharedPanHandlers.onPointerDown(e);
+        },
+        onPointerMove: (e: React.PointerEvent) => {
+            if (isDraggingDividerRef.current) {
+                updateSwipeFromPointer(e.clientX);
+                return;
+            }
+            sharedPanHandlers.onPointerMove(e);
+        },
+        onPointerUp: () => {
+            sharedPanHandlers.onPointerUp();
+            isDraggingDividerRef.current = false;
+        },
+    };
+
+    const updateSwipeFromPointer = (clientX: number) => {
+        const rect = swipeAreaRef.current?.getBoundingClientRect();
+        if (!rect || rect.width <= 0) return;
+        setSwipePosition(Math.min(100, Math.max(0, ((clientX - rect.left) / rect.width) * 100)));
+    };
+
+    const diffOverlay = diffOverlayUrl ? (
+        <img
+            src={diffOverlayUrl}
+            alt="Changed pixels"
+            draggable={false}
+            className="absolute inset-0 w-full h-full object-contain select-none pointer-events-none"
+            style={transformStyle}
+        />
+    ) : null;
+
+    const paneClassName = 'relative flex-1 min-h-0 overflow-hidden bg-muted/40 rounded-md cursor-grab active:cursor-grabbing touch-none';
+
+    return (
+        <div className={`flex flex-col gap-3 min-h-0 ${className ?? ''}`}>
+            {/* Toolbar */}
+            <div className="flex flex-wrap items-center gap-2">
+                <div className="flex items-center gap-1 rounded-md border p-1">
+                    <Button variant={mode === 'side-by-side' ? 'secondary' : 'ghost'} size="sm" onClick={() => setMode('side-by-side')}>
+                        <Columns2 className="h-4 w-4 mr-1" /> Side by Side
+                    </Button>
+                    <Button variant={mode === 'onion' ? 'secondary' : 'ghost'} size="sm" onClick={() => setMode('onion')}>
+                        <Layers className="h-4 w-4 mr-1" /> Onion Skin
+                    </Button>
+                    <Button variant={mode === 'swipe' ? 'secondary' : 'ghost'} size="sm" onClick={() => setMode('swipe')}>
+                        <SquareSplitHorizontal className="h-4 w-4 mr-1" /> Swipe
+                    </Button>
+                </div>
+                <div className="flex items-center gap-1">
+                    <Button variant="ghost" size="icon" title="Zoom Out" onClick={() => zoomBy(1 / 1.2)}><ZoomOut className="h-4 w-4" /></Button>
+                    <span className="w-12 text-center text-xs tabular-nums">{Math.round(view.scale * 100)}%</span>
+                    <Button variant="ghost" size="icon" title="Zoom In" onClick={() => zoomBy(1.2)}><ZoomIn className="h-4 w-4" /></Button>
+                    <Button variant="ghost" size="sm" title="Reset Zoom/Pan" onClick={resetView}>1:1</Button>
+                </div>
+                {mode === 'onion' && (
+                    <label className="flex items-center gap-2 text-xs text-muted-foreground">
+                        Opacity of {getSideTitle(right)}
+                        <input
+                            type="range"
+                            min={0}
+                            max={100}
+                            value={overlayOpacity}
+                            onChange={(e) => setOverlayOpacity(Number(e.target.value))}
+                        />
+                        <span className="w-8 tabular-nums">{overlayOpacity}%</span>
+                    </label>
+                )}
+                {mode === 'swipe' && (
+                    <label className="flex items-center gap-2 text-xs text-muted-foreground">
+                        Divider
+                        <input
+                            type="range"
+                            min={0}
+                            max={100}
+                            value={Math.round(swipePosition)}
+                            onChange={(e) => setSwipePosition(Number(e.target.value))}
+                        />
+                    </label>
+                )}
+            </div>
+
+            {mode === 'side-by-side' ? (
+                <div className="flex-1 min-h-0 grid grid-cols-2 gap-3">
+                    {[left, right].map((side, index) => (
+                        <div key={`${side.variationId}-${index}`} className="flex flex-col gap-2 min-h-0">
+                            <SideLabel side={side} />
+                            <div className={paneClassName} {...panHandlers}>
+                                <CompareImage side={side} style={transformStyle} />
+                                {index === 1 && diffOverlay}
+                            </div>
+                        </div>
+                    ))}
+                </div>
+            ) : (
+                <div className="flex-1 min-h-0 flex flex-col gap-2">
+                    <div className="flex items-center justify-between gap-4">
+                        <SideLabel side={left} />
+                        <SideLabel side={right} />
+                    </div>
+                    <div ref={swipeAreaRef} className={paneClassName} {...panHandlers}>
+                        <CompareImage side={left} style={transformStyle} />
+                        {mode === 'onion' ? (
+                            <CompareImage side={right} style={{ ...transformStyle, opacity: overlayOpacity / 100 }} />
+                        ) : (
+                            <>
+                                {/* Clip the wrapper, not the image, so the divider stays put while zoomed */}
+                                <div className="absolute inset-0" style={{ clipPath: `inset(0 0 0 ${swipePosition}%)` }}>
+                                    <CompareImage side={right} style={transformStyle} className="bg-muted" />
+                                </div>
+                                <div
+                                    className="absolute inset-y-0 w-1 -ml-0.5 bg-primary cursor-ew-resize"
+                                    style={{ left: `${swipePosition}%` }}
+                                    onPointerDown={() => { isDraggingDividerRef.current = true; }}
+                                />
+                            </>
+                        )}
+                        {diffOverlay}
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+};
@@ -0,0 +1,230 @@
+'use client';
+
+import React, { useState } from 'react';
+import { Check, X, Trophy, ZoomIn, ZoomOut, ImageOff, Loader2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import {
+    Dialog,
+    DialogContent,
+    DialogDescription,
+    DialogHeader,
+    DialogTitle,
+} from '@/components/ui/dialog';
+import {
+    AlertDialog,
+    AlertDialogAction,
+    AlertDialogCancel,
+    AlertDialogContent,
+    AlertDialogDescription,
+    AlertDialogFooter,
+    AlertDialogHeader,
+    AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { useUpdateVariationStatus, usePickWinningVariation } from '@/hooks/mutations';
+import { usePanZoom } from '@/hooks/usePanZoom';
+import { getProcessedImagePath, getPublicImageUrl } from '@/lib/imageUtils';
+import { LARGE_WIDTH } from '@/lib/constants/imageConstants';
+import { Variation, VariationFeedbackStatus } from '@/types/models';
+import { getStatusBadgeVariant } from './VariationCompareViewer';
+
+const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL;
+const processedBucketName = process.env.NEXT_PUBLIC_SUPABASE_PROCESSED_BUCKET;
+
+const MIN_TILES = 2;
+const MAX_TILES = 6;
+
+// 2 and 4 tiles read best as a 2-wide grid; everything else as 3-wide
+const getGridColumnsClass = (count: number) => (count === 2 || count === 4 ? 'grid-cols-2' : 'grid-cols-3');
+
+interface VariationComparisonGridProps {
+    isOpen: boolean;
+    onOpenChange: (open: boolean) => void;
+    variations: Variation[];
+    versionId: string;
+    versionNumber?: number;
+}
+
+interface GridTileProps {
+    variation: Variation;
+    versionId: string;
+    transformStyle: React.CSSProperties;
+    panHandlers: ReturnType<typeof usePanZoom>['panHandlers'];
+    onPickWinner: (variation: Variation) => void;
+    isPickingWinner: boolean;
+}
+
+const GridTile = ({ variation, versionId, transformStyle, panHandlers, onPickWinner, isPickingWinner }: GridTileProps) => {
+    const updateStatusMutation = useUpdateVariationStatus(versionId, variation.id);
+    const imageUrl = variation.file_path && supabaseUrl && processedBucketName
+        ? getPublicImageUrl(supabaseUrl, processedBucketName, getProcessedImagePath(variation.file_path, LARGE_WIDTH))
+        : null;
+    const isBusy = updateStatusMutation.isPending || isPickingWinner;
+
+    return (
+        <div className="flex flex-col min-h-0 border rounded-lg overflow-hidden bg-background">
+            <div
+                className="relative flex-1 min-h-0 overflow-hidden bg-muted/40 cursor-grab active:cursor-grabbing touch-none"
+                {...panHandlers}
+            >
+                {imageUrl ? (
+                    <img
+                        src={imageUrl}
+                        alt={`Variation ${variation.variation_letter}`}
+                        draggable={false}
+                        className="absolute inset-0 w-full h-full object-contain select-none"
+                        style={transformStyle}
+                    />
+                ) : (
+                    <div className="absolute inset-0 flex flex-col items-center justify-center text-muted-foreground">
+                        <ImageOff className="h-10 w-10 mb-2" />
+                        <span className="text-xs">No image uploaded</span>
+                    </div>
+                )}
+            </div>
+            <div className="flex items-center justify-between gap-2 p-2 border-t">
+                <div className="flex items-center gap-2">
+                    <span className="font-semibold text-lg">{variation.variation_letter}</span>
+                    <Badge variant={getStatusBadgeVariant(variation.status)}>{variation.status}</Badge>
+                </div>
+                <div className="flex items-center gap-1">
+                    <Button
+                        size="sm"
+                        variant="outline"
+                        title="Approve"
+                        disabled={isBusy || variation.status === VariationFeedbackStatus.Approved}
+                        onClick={() => updateStatusMutation.mutate(VariationFeedbackStatus.Approved)}
+                    >
+                        <Check className="h-4 w-4 text-green-600" />
+                    </Button>
+                    <Button
+                        size="sm"
+                        variant="outline"
+                        title="Reject"
+                        disabled={isBusy || variation.status === VariationFeedbackStatus.Rejected}
+                        onClick={() => updateStatusMutation.mutate(VariationFeedbackStatus.Rejected)}
+                    >
+                        <X className="h-4 w-4 text-red-600" />
+                    </Button>
+                    <Button size="sm" variant="secondary" disabled={isBusy} onClick={() => onPickWinner(variation)}>
+                        <Trophy className="h-4 w-4 mr-1" /> Winner
+                    </Button>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+// Full-screen board showing up to six variations of a version side by side with one shared zoom
+export const VariationComparisonGrid = ({ isOpen, onOpenChange, variations, versionId, versionNumber }: VariationComparisonGridProps) => {
+    const { view, transformStyle, zoomBy, resetView, panHandlers } = usePanZoom();
+    const [selectedIds, setSelectedIds] = useState<string[]>([]);
+    const [pendingWinner, setPendingWinner] = useState<Variation | null>(null);
+    const pickWinnerMutation = usePickWinningVariation(versionId);
+
+    // Start each session with the first tiles selected and the zoom reset
+    const [wasOpen, setWasOpen] = useState(false);
+    if (isOpen !== wasOpen) {
+        setWasOpen(isOpen);
+        if (isOpen) {
+            setSelectedIds(variations.slice(0, MAX_TILES).map(variation => variation.id));
+            resetView();
+        }
+    }
+
+    const tiles = variations.filter(variation => selectedIds.includes(variation.id));
+
+    const toggleTile = (variationId: string) => {
+        setSelectedIds(prev => {
+            if (prev.includes(variationId)) {
+                return prev.length > MIN_TILES ? prev.filter(id => id !== variationId) : prev;
+            }
+            return prev.length < MAX_TILES ? [...prev, variationId] : prev;
+        });
+    };
+
+    const handleConfirmWinner = () => {
+        if (!pendingWinner) return;
+        pickWinnerMutation.mutate(
+            { id: pendingWinner.id, variation_letter: pendingWinner.variation_letter },
+            { onSettled: () => setPendingWinner(null) }
+        );
+    };
+
+    return (
+        <Dialog open={isOpen} onOpenChange={onOpenChange}>
+            <DialogContent className="w-screen h-screen max-w-none sm:max-w-none rounded-none flex flex-col p-4 gap-3">
+                <DialogHeader>
+                    <DialogTitle>Compare Variations{versionNumber !== undefined ? ` — V${versionNumber}` : ''}</DialogTitle>
+                    <DialogDescription>
+                        Drag or scroll on any tile to pan and zoom all of them together.
+                    </DialogDescription>
+                </DialogHeader>
+
+                <div className="flex flex-wrap items-center gap-2 pr-8">
+                    {/* Tile picker only matters when there is something to hide */}
+                    {variations.length > MIN_TILES ? (
+                        <div className="flex flex-wrap items-center gap-1">
+                            <span className="text-xs text-muted-foreground mr-1">Showing:</span>
+                            {variations.map(variation => (
+                                <Button
+                                    key={variation.id}
+                                    size="sm"
+                                    className="h-7 w-7 p-0"
+                                    variant={selectedIds.includes(variation.id) ? 'secondary' : 'ghost'}
+                                    onClick={() => toggleTile(variation.id)}
+                                    title={selectedIds.includes(variation.id) ? 'Hide tile' : 'Show tile'}
+                                >
+                                    {variation.variation_letter}
+                                </Button>
+                            ))}
+                        </div>
+                    ) : null}
+                    <div className="flex items-center gap-1 ml-auto">
+                        <Button variant="ghost" size="icon" title="Zoom Out" onClick={() => zoomBy(1 / 1.2)}><ZoomOut className="h-4 w-4" /></Button>
+                        <span className="w-12 text-center text-xs tabular-nums">{Math.round(view.scale * 100)}%</span>
+                        <Button variant="ghost" size="icon" title="Zoom In" onClick={() => zoomBy(1.2)}><ZoomIn className="h-4 w-4" /></Button>
+                        <Button variant="ghost" size="sm" title="Reset Zoom/Pan" onClick={resetView}>1:1</Button>
+                    </div>
+                </div>
+
+                {variations.length < MIN_TILES ? (
+                    <p className="italic text-muted-foreground">At least two variations are needed to compare.</p>
+                ) : (
+                    <div className={`flex-1 min-h-0 grid gap-3 auto-rows-fr ${getGridColumnsClass(tiles.length)}`}>
+                        {tiles.map(variation => (
+                            <GridTile
+                                key={variation.id}
+                                variation={variation}
+                                versionId={versionId}
+                                transformStyle={transformStyle}
+                                panHandlers={panHandlers}
+                                onPickWinner={setPendingWinner}
+                                isPickingWinner={pickWinnerMutation.isPending}
+                            />
+                        ))}
+                    </div>
+                )}
+
+                {/* Winner confirmation: this rejects every other variation in the version */}
+                <AlertDialog open={!!pendingWinner} onOpenChange={(open) => { if (!open) setPendingWinner(null); }}>
+                    <AlertDialogContent>
+                        <AlertDialogHeader>
+                            <AlertDialogTitle>Pick Variation {pendingWinner?.variation_letter} as the winner?</AlertDialogTitle>
+                            <AlertDialogDescription>
+                                Variation {pendingWinner?.variation_letter} will be marked Approved and every other variation in this version will be marked Rejected.
+                            </AlertDialogDescription>
+                        </AlertDialogHeader>
+                        <AlertDialogFooter>
+                            <AlertDialogCancel disabled={pickWinnerMutation.isPending}>Cancel</AlertDialogCancel>
+                            <AlertDialogAction onClick={handleConfirmWinner} disabled={pickWinnerMutation.isPending}>
+                                {pickWinnerMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                                Pick Winner
+                            </AlertDialogAction>
+                        </AlertDialogFooter>
+                    </AlertDialogContent>
+                </AlertDialog>
+            </DialogContent>
+        </Dialog>
+    );
+};
@@ -0,0 +1,70 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import { Loader2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { useUpdateProjectUploadSettings } from '@/hooks/mutations';
+import type { Project } from '@/types/models';
+
+type ProjectUploadSettingsProps = {
+  project: Pick<Project, 'id' | 'strip_upload_metadata' | 'max_upload_dimension'>;
+};
+
+// Opt-in cleanup of photos before they're uploaded to the project (see lib/imagePreparation.ts)
+const ProjectUploadSettings = ({ project }: ProjectUploadSettingsProps) => {
+  const updateSettingsMutation = useUpdateProjectUploadSettings(project.id);
+  const [stripMetadata, setStripMetadata] = useState(!!project.strip_upload_metadata);
+  const [maxDimension, setMaxDimension] = useState(project.max_upload_dimension?.toString() ?? '');
+
+  useEffect(() => {
+    setStripMetadata(!!project.strip_upload_metadata);
+    setMaxDimension(project.max_upload_dimension?.toString() ?? '');
+  }, [project.strip_upload_metadata, project.max_upload_dimension]);
+
+  const parsedMaxDimension = maxDimension.trim() ? Number(maxDimension) : null;
+  const isDirty = stripMetadata !== !!project.strip_upload_metadata || parsedMaxDimension !== (project.max_upload_dimension ?? null);
+
+  const handleSave = () => {
+    updateSettingsMutation.mutate({ strip_upload_metadata: stripMetadata, max_upload_dimension: parsedMaxDimension });
+  };
+
+  return (
+    <div className="mt-4 space-y-2 rounded-md border p-3">
+      <p className="text-sm font-medium">Photo uploads</p>
+      <div className="flex items-center gap-2">
+        <input
+          id="strip-upload-metadata"
+          type="checkbox"
+          className="h-4 w-4"
+          checked={stripMetadata}
+          onChange={(event) => setStripMetadata(event.target.checked)}
+        />
+        <Label htmlFor="strip-upload-metadata" className="text-sm font-normal">
+          Remove EXIF and location metadata from JPEG, PNG and WebP images before uploading
+        </Label>
+      </div>
+      <div className="flex flex-wrap items-center gap-2">
+        <Label htmlFor="max-upload-dimension" className="text-sm font-normal">Downscale images larger than</Label>
+        <Input
+          id="max-upload-dimension"
+          type="number"
+          min={1}
+          placeholder="No limit"
+          className="h-8 w-28"
+          value={maxDimension}
+          onChange={(event) => setMaxDimension(event.target.value)}
+        />
+        <span className="text-sm text-muted-foreground">px on the longest side</span>
+        <Button size="sm" className="ml-auto" onClick={handleSave} disabled={!isDirty || updateSettingsMutation.isPending}>
+          {updateSettingsMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+          Save
+        </Button>
+      </div>
+      <p className="text-xs text-muted-foreground">The original size of a downscaled image is kept with its variation.</p>
+    </div>
+  );
+};
+
+export default ProjectUploadSettings;
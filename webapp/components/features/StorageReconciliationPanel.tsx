@@ -0,0 +1,118 @@
+'use client';
+
+import React, { useState } from 'react';
+import { Loader2, Search, Trash2, RefreshCw } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { useRunStorageReconciliation } from '@/hooks/mutations';
+import { ORPHAN_GRACE_PERIOD_HOURS } from '@/lib/constants/imageConstants';
+import type { StorageReconciliationReport } from '@/lib/storageReconciliation';
+
+const MAX_LISTED = 50;
+
+const formatSize = (size: number | null) => (size === null ? '' : ` (${(size / 1024).toFixed(1)} KB)`);
+
+const PathList = ({ title, items }: { title: string; items: string[] }) => (
+  <div>
+    <h3 className="text-sm font-semibold mb-1">{title} ({items.length})</h3>
+    {items.length === 0 ? (
+      <p className="text-xs text-muted-foreground">None found.</p>
+    ) : (
+      <ul className="max-h-48 overflow-y-auto text-xs font-mono border rounded p-2 space-y-0.5 bg-muted/30">
+        {items.slice(0, MAX_LISTED).map(item => <li key={item} className="truncate" title={item}>{item}</li>)}
+        {items.length > MAX_LISTED && <li className="text-muted-foreground">…and {items.length - MAX_LISTED} more</li>}
+      </ul>
+    )}
+  </div>
+);
+
+// Admin tool: scan storage against the database (dry run), then delete orphans or re-run image processing
+const StorageReconciliationPanel = () => {
+  const reconcileMutation = useRunStorageReconciliation();
+  const [report, setReport] = useState<StorageReconciliationReport | null>(null);
+  const [isConfirmingDelete, setIsConfirmingDelete] = useState(false);
+
+  const run = (options: { dryRun: boolean; deleteOrphans?: boolean; reprocessMissing?: boolean }) => {
+    reconcileMutation.mutate(options, { onSuccess: setReport });
+  };
+
+  // Fixes are only offered straight after a dry run, so the admin has seen what will change
+  const canFix = !!report?.dryRun && !reconcileMutation.isPending;
+  const pendingAction = reconcileMutation.isPending ? reconcileMutation.variables : null;
+
+  return (
+    <div className="p-4 border rounded bg-white shadow-sm mt-6 space-y-4">
+      <div>
+        <h2 className="text-xl font-semibold">Storage Reconciliation</h2>
+        <p className="text-sm text-muted-foreground">
+          Compares the design-variations, comment-attachments and processed-images buckets with the files the database references.
+          Files uploaded in the last {ORPHAN_GRACE_PERIOD_HOURS} hours are never reported as orphans.
+        </p>
+      </div>
+
+      <div className="flex flex-wrap gap-2">
+        <Button variant="outline" onClick={() => run({ dryRun: true })} disabled={reconcileMutation.isPending}>
+          {pendingAction?.dryRun ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Search className="h-4 w-4 mr-2" />}
+          Run Dry Run
+        </Button>
+        <Button
+          variant="destructive"
+          onClick={() => setIsConfirmingDelete(true)}
+          disabled={!canFix || report.orphans.length === 0}
+        >
+          {pendingAction?.deleteOrphans ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Trash2 className="h-4 w-4 mr-2" />}
+          Delete {report?.dryRun ? report.orphans.length : ''} Orphans
+        </Button>
+        <Button
+          variant="secondary"
+          onClick={() => run({ dryRun: false, reprocessMissing: true })}
+          disabled={!canFix || report.missingRenditions.length === 0}
+        >
+          {pendingAction?.reprocessMissing ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <RefreshCw className="h-4 w-4 mr-2" />}
+          Re-process {report?.dryRun ? report.missingRenditions.length : ''} Files
+        </Button>
+      </div>
+
+      {report && (
+        <div className="space-y-4">
+          <p className="text-sm">
+            {report.dryRun ? 'Dry run' : 'Run'} at {new Date(report.scannedAt).toLocaleString()} scanned{' '}
+            {Object.entries(report.objectCounts).map(([bucket, count]) => `${count} in ${bucket}`).join(', ')}.
+            {!report.dryRun && ` Deleted ${report.deletedOrphans} orphan(s), re-processed ${report.reprocessed} file(s). Run a dry run again to see what is left.`}
+          </p>
+          <PathList title="Orphaned files" items={report.orphans.map(object => `${object.bucket}/${object.path}${formatSize(object.size)}`)} />
+          <PathList title="Originals missing renditions" items={report.missingRenditions.map(item => `${item.bucket}/${item.originalPath} → ${item.missing.length} missing`)} />
+          <PathList title="Referenced files missing from storage (report only)" items={report.missingOriginals.map(file => `${file.bucket}/${file.path}`)} />
+          {report.errors.length > 0 && <PathList title="Errors" items={report.errors} />}
+        </div>
+      )}
+
+      <AlertDialog open={isConfirmingDelete} onOpenChange={setIsConfirmingDelete}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete {report?.orphans.length ?? 0} orphaned files?</AlertDialogTitle>
+            <AlertDialogDescription>
+              These files are not referenced by any variation, file revision or comment attachment. Deleting them cannot be undone.
+              The scan runs again before deleting, so only files that are still orphaned are removed.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={() => run({ dryRun: false, deleteOrphans: true })}>Delete Orphans</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+};
+
+export default StorageReconciliationPanel;
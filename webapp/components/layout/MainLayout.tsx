@@ -4,6 +4,7 @@ import React from 'react';
 import Link from 'next/link';
 import { useAuth } from '@/providers/AuthProvider'; // Import useAuth hook
 import { Button } from '@/components/ui/button'; // Import Button
+import { UploadTray } from '@/components/layout/UploadTray';
 
 // Updated Header Component
 const Header = () => {
@@ -61,6 +62,8 @@ const MainLayout: React.FC<MainLayoutProps> = ({ children }) => {
         {children}
       </main>
       <Footer />
+      {/* Outside the page content so uploads keep running across navigation */}
+      <UploadTray />
     </div>
   );
 };
@@ -0,0 +1,192 @@
+'use client';
+
+import React, { useEffect, useRef, useState } from 'react';
+import Link from 'next/link';
+import { nanoid } from 'nanoid';
+import { toast } from 'sonner';
+import { ChevronDown, ChevronUp, ExternalLink, FileIcon, Loader2, Pause, Play, RotateCcw, Upload, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Progress } from '@/components/ui/progress';
+import { cn } from '@/lib/utils';
+import { useUploadStore } from '@/store/uploadStore';
+import { useUploadRunner, getInterruptedBatchKey, getInterruptedUploadTarget, getUploadVariationHref } from '@/hooks/useUploadRunner';
+import { forgetInterruptedUpload, getFileKey, listInterruptedUploads, type InterruptedUpload } from '@/lib/resumableUpload';
+import { UploadingFileInfo } from '@/types/models';
+
+const getStatusText = (upload: UploadingFileInfo): string => {
+    switch (upload.status) {
+        case 'pending': return 'Queued...';
+        case 'checking': return 'Checking file...';
+        case 'duplicate': return `Same as ${upload.duplicateOf}. Upload anyway?`;
+        case 'uploading': return `Uploading (${upload.progress}%)`;
+        case 'paused': return `Paused (${upload.progress}%)`;
+        case 'processing':
+            return upload.target.kind === 'version' && !upload.linked ? 'Waiting for the rest of the version...' : 'Processing...';
+        case 'success': return 'Done';
+        case 'cancelled': return 'Cancelled';
+        case 'error': return `Error: ${upload.error || 'Upload failed'}`;
+    }
+};
+
+const UploadRow = ({ upload }: { upload: UploadingFileInfo }) => {
+    const { pauseUpload, resumeUpload, cancelUpload, retryUpload, confirmDuplicateUpload, removeUpload } = useUploadStore();
+    const href = upload.status === 'success' ? getUploadVariationHref(upload) : null;
+
+    return (
+        <div className="flex items-center gap-2 rounded-md border bg-background p-2">
+            {upload.previewUrl ? (
+                <img src={upload.previewUrl} alt="" className="h-8 w-8 flex-shrink-0 rounded object-cover" />
+            ) : (
+                <div className="flex h-8 w-8 flex-shrink-0 items-center justify-center rounded bg-muted">
+                    <FileIcon className="h-4 w-4 text-muted-foreground" />
+                </div>
+            )}
+            <div className="min-w-0 flex-grow space-y-1">
+                <p className="truncate text-xs font-medium" title={upload.file.name}>{upload.file.name}</p>
+                {(upload.status === 'uploading' || upload.status === 'paused') && <Progress value={upload.progress} className="h-1.5" />}
+                <p
+                    className={cn(
+                        'flex items-center gap-1 truncate text-xs text-muted-foreground',
+                        upload.status === 'error' && 'text-red-600',
+                        (upload.status === 'paused' || upload.status === 'cancelled' || upload.status === 'duplicate') && 'text-yellow-600',
+                        (upload.status === 'processing' || upload.status === 'checking') && 'text-blue-600',
+                    )}
+                    title={getStatusText(upload)}
+                >
+                    {(upload.status === 'processing' || upload.status === 'checking') && <Loader2 className="h-3 w-3 animate-spin" />}
+                    {getStatusText(upload)}
+                </p>
+            </div>
+            <div className="flex flex-shrink-0 items-center gap-1">
+                {href && (
+                    <Button asChild variant="ghost" size="icon" className="h-6 w-6 text-muted-foreground" title="Open Variation">
+                        <Link href={href}><ExternalLink className="h-4 w-4" /></Link>
+                    </Button>
+                )}
+                {upload.status === 'uploading' && upload.upload && (
+                    <Button variant="ghost" size="icon" className="h-6 w-6 text-muted-foreground" onClick={() => pauseUpload(upload.id)} title="Pause Upload">
+                        <Pause className="h-4 w-4" />
+                    </Button>
+                )}
+                {upload.status === 'paused' && (
+                    <Button variant="ghost" size="icon" className="h-6 w-6 text-muted-foreground" onClick={() => resumeUpload(upload.id)} title="Resume Upload">
+                        <Play className="h-4 w-4" />
+                    </Button>
+                )}
+                {upload.status === 'duplicate' && (
+                    <Button variant="ghost" size="icon" className="h-6 w-6 text-muted-foreground" onClick={() => confirmDuplicateUpload(upload.id)} title="Upload Anyway">
+                        <Upload className="h-4 w-4" />
+                    </Button>
+                )}
+                {upload.status === 'error' && (
+                    <Button variant="ghost" size="icon" className="h-6 w-6 text-muted-foreground" onClick={() => retryUpload(upload.id)} title="Retry Upload">
+                        <RotateCcw className="h-4 w-4" />
+                    </Button>
+                )}
+                {(upload.status === 'pending' || upload.upload) ? (
+                    <Button variant="ghost" size="icon" className="h-6 w-6 text-muted-foreground" onClick={() => cancelUpload(upload.id)} title="Cancel Upload">
+                        <X className="h-4 w-4" />
+                    </Button>
+                ) : (upload.status === 'success' || upload.status === 'error' || upload.status === 'cancelled' || upload.status === 'duplicate') && (
+                    <Button variant="ghost" size="icon" className="h-6 w-6 text-muted-foreground" onClick={() => removeUpload(upload.id)} title="Remove from List">
+                        <X className="h-4 w-4" />
+                    </Button>
+                )}
+            </div>
+        </div>
+    );
+};
+
+// Docked in the corner of every page: runs the app-wide upload queue and shows its progress, plus uploads a
+// previous visit left unfinished (those resume once their files are selected again)
+export const UploadTray = () => {
+    useUploadRunner();
+    const uploads = useUploadStore(state => state.uploads);
+    const enqueueUploads = useUploadStore(state => state.enqueueUploads);
+    const clearFinishedUploads = useUploadStore(state => state.clearFinishedUploads);
+    const [isCollapsed, setIsCollapsed] = useState(false);
+    const [interruptedUploads, setInterruptedUploads] = useState<InterruptedUpload[]>([]);
+    const resumeFileInputRef = useRef<HTMLInputElement>(null);
+
+    // Records come and go as uploads start and finish
+    useEffect(() => {
+        setInterruptedUploads(listInterruptedUploads());
+    }, [uploads.length]);
+
+    const waitingForFiles = interruptedUploads.filter(record => !uploads.some(upload => getFileKey(upload.file) === record.fileKey));
+    if (uploads.length === 0 && waitingForFiles.length === 0) return null;
+
+    const finishedCount = uploads.filter(upload => upload.status === 'success' || upload.status === 'cancelled').length;
+
+    // Files of the same interrupted version are queued together so they're committed as one version again
+    const handleResumeFilesSelected = (event: React.ChangeEvent<HTMLInputElement>) => {
+        const files = Array.from(event.target.files ?? []);
+        event.target.value = '';
+        const groups = new Map<string, { record: InterruptedUpload; files: File[] }>();
+        files.forEach(file => {
+            const record = waitingForFiles.find(item => item.fileKey === getFileKey(file));
+            if (!record) {
+                toast.error(`${file.name} isn't one of the unfinished uploads.`);
+                return;
+            }
+            const groupKey = getInterruptedBatchKey(record);
+            const group = groups.get(groupKey) ?? { record, files: [] };
+            group.files.push(file);
+            groups.set(groupKey, group);
+        });
+        groups.forEach(({ record, files: groupFiles }) => {
+            const target = getInterruptedUploadTarget(record);
+            enqueueUploads(groupFiles, target.kind === 'version' ? { ...target, batchId: nanoid() } : target);
+        });
+    };
+
+    const handleDiscardInterruptedUpload = (record: InterruptedUpload) => {
+        forgetInterruptedUpload(record.scope, record.fileKey);
+        setInterruptedUploads(prev => prev.filter(item => item !== record));
+    };
+
+    return (
+        <div className="fixed bottom-4 right-4 z-50 w-80 rounded-lg border bg-card shadow-lg">
+            <div className="flex items-center justify-between gap-2 border-b px-3 py-2">
+                <p className="text-sm font-medium">
+                    Uploads {uploads.length > 0 && <span className="text-muted-foreground">({finishedCount}/{uploads.length} done)</span>}
+                </p>
+                <div className="flex items-center gap-1">
+                    {finishedCount > 0 && (
+                        <Button variant="ghost" size="sm" className="h-6 px-2 text-xs" onClick={clearFinishedUploads}>
+                            Clear finished
+                        </Button>
+                    )}
+                    <Button variant="ghost" size="icon" className="h-6 w-6" onClick={() => setIsCollapsed(collapsed => !collapsed)} title={isCollapsed ? 'Show Uploads' : 'Hide Uploads'}>
+                        {isCollapsed ? <ChevronUp className="h-4 w-4" /> : <ChevronDown className="h-4 w-4" />}
+                    </Button>
+                </div>
+            </div>
+            {!isCollapsed && (
+                <div className="max-h-[50vh] space-y-2 overflow-y-auto p-2">
+                    <input ref={resumeFileInputRef} type="file" multiple className="hidden" onChange={handleResumeFilesSelected} />
+                    {waitingForFiles.map(record => (
+                        <div key={`${record.scope}|${record.fileKey}`} className="flex items-center gap-2 rounded-md border bg-muted/30 p-2">
+                            <div className="flex h-8 w-8 flex-shrink-0 items-center justify-center rounded bg-muted">
+                                <Pause className="h-4 w-4 text-muted-foreground" />
+                            </div>
+                            <div className="min-w-0 flex-grow space-y-1">
+                                <p className="truncate text-xs font-medium" title={record.fileName}>{record.fileName}</p>
+                                <p className="text-xs text-yellow-600">Paused. Select the file again to resume.</p>
+                            </div>
+                            <div className="flex flex-shrink-0 items-center gap-1">
+                                <Button variant="ghost" size="icon" className="h-6 w-6 text-muted-foreground" onClick={() => resumeFileInputRef.current?.click()} title="Resume Upload">
+                                    <Play className="h-4 w-4" />
+                                </Button>
+                                <Button variant="ghost" size="icon" className="h-6 w-6 text-muted-foreground" onClick={() => handleDiscardInterruptedUpload(record)} title="Discard Upload">
+                                    <X className="h-4 w-4" />
+                                </Button>
+                            </div>
+                        </div>
+                    ))}
+                    {uploads.map(upload => <UploadRow key={upload.id} upload={upload} />)}
+                </div>
+            )}
+        </div>
+    );
+};
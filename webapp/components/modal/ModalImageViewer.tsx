@@ -1,21 +1,31 @@
 'use client';
 
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef, useCallback } from 'react';
 import Image from 'next/image';
 import { useAuth } from '@/providers/AuthProvider';
 import { Loader2, ImageOff } from 'lucide-react';
-import { getProcessedImagePath, getPublicImageUrl } from '@/lib/imageUtils';
+import { getAnimatedPreviewPath, getProcessedImagePath, getPublicImageUrl, isAnimatedFormat, isVideoFormat } from '@/lib/imageUtils';
 import { LARGE_WIDTH } from '@/lib/constants/imageConstants';
+import { ResponsiveImage, useRenditionManifest } from '@/components/ui/ResponsiveImage';
 
 interface ModalImageViewerProps {
   filePath: string | null | undefined;
+  children?: React.ReactNode; // Overlay (e.g. comment pins) positioned over the rendered image area
 }
 
-export const ModalImageViewer = ({ filePath }: ModalImageViewerProps) => {
+type ImageBox = { left: number; top: number; width: number; height: number };
+
+export const ModalImageViewer = ({ filePath, children }: ModalImageViewerProps) => {
   const { supabase } = useAuth();
+  // Static images get their placeholder inside ResponsiveImage; the animated preview uses it as the blur-up
+  const { data: manifest } = useRenditionManifest(filePath && isAnimatedFormat(filePath) ? filePath : null);
   const [imageUrl, setImageUrl] = useState<string | null>(null);
+  const [videoUrl, setVideoUrl] = useState<string | null>(null);
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const containerRef = useRef<HTMLDivElement>(null);
+  const [naturalSize, setNaturalSize] = useState<{ width: number; height: number } | null>(null);
+  const [imageBox, setImageBox] = useState<ImageBox | null>(null);
 
   const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL;
   const safeSupabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL as string;
@@ -24,8 +34,10 @@ export const ModalImageViewer = ({ filePath }: ModalImageViewerProps) => {
   useEffect(() => {
     // Reset state
     setImageUrl(null);
+    setVideoUrl(null);
     setError(null);
     setIsLoading(true);
+    setNaturalSize(null);
 
     if (!supabaseUrl || !processedBucketName) {
         setError("Image configuration error.");
@@ -34,20 +46,38 @@ export const ModalImageViewer = ({ filePath }: ModalImageViewerProps) => {
         return;
     }
 
+    if (filePath && isVideoFormat(filePath)) {
+      // Videos play from a signed URL to the original; the large rendition is the poster frame
+      const posterUrl = getPublicImageUrl(supabaseUrl, processedBucketName, getProcessedImagePath(filePath, LARGE_WIDTH));
+      if (!supabase) {
+        setError("Supabase client not available.");
+        setIsLoading(false);
+        return;
+      }
+      let cancelled = false;
+      supabase.storage
+        .from('design-variations')
+        .createSignedUrl(filePath, 3600) // 1 hour expiry
+        .then(({ data, error: urlError }) => {
+          if (cancelled) return;
+          if (urlError || !data?.signedUrl) {
+            console.error(`Error creating signed URL for video ${filePath}:`, urlError);
+            setError("Could not load video.");
+          } else {
+            setImageUrl(posterUrl);
+            setVideoUrl(data.signedUrl);
+          }
+          setIsLoading(false);
+        });
+      return () => { cancelled = true; };
+    }
+
     if (filePath) {
       try {
-        // --- CORRECTED: Handle GIF vs Other types --- 
-        const isGif = filePath.toLowerCase().endsWith('.gif');
-        let finalPath: string;
-
-        if (isGif) {
-          // For GIFs, the path in the processed bucket is the same as the original
-          finalPath = filePath;
-        } else {
-          // For other types, generate the large WebP path
-          finalPath = getProcessedImagePath(filePath, LARGE_WIDTH);
-        }
-        // --- END CORRECTION ---
+        // GIF and WebP play their size-limited animated preview; everything else shows the large WebP
+        const finalPath = isAnimatedFormat(filePath)
+          ? getAnimatedPreviewPath(filePath)
+          : getProcessedImagePath(filePath, LARGE_WIDTH);
 
         // 2. Construct the public URL using the finalPath
         const publicUrl = getPublicImageUrl(supabaseUrl, processedBucketName, finalPath);
@@ -64,10 +94,33 @@ export const ModalImageViewer = ({ filePath }: ModalImageViewerProps) => {
       setError("No image available for this variation.");
       setIsLoading(false);
     }
-  }, [filePath, supabaseUrl, processedBucketName]);
+  }, [filePath, supabase, supabaseUrl, processedBucketName]);
+
+  // objectFit 'contain' letterboxes the image, so work out where it actually sits in the container
+  const updateImageBox = useCallback(() => {
+    const container = containerRef.current;
+    if (!container || !naturalSize) {
+      setImageBox(null);
+      return;
+    }
+    const { clientWidth, clientHeight } = container;
+    const scale = Math.min(clientWidth / naturalSize.width, clientHeight / naturalSize.height);
+    const width = naturalSize.width * scale;
+    const height = naturalSize.height * scale;
+    setImageBox({ left: (clientWidth - width) / 2, top: (clientHeight - height) / 2, width, height });
+  }, [naturalSize]);
+
+  useEffect(() => {
+    updateImageBox();
+    const container = containerRef.current;
+    if (!container || typeof ResizeObserver === 'undefined') return;
+    const observer = new ResizeObserver(updateImageBox);
+    observer.observe(container);
+    return () => observer.disconnect();
+  }, [updateImageBox]);
 
   return (
-    <div className="relative w-full h-full flex items-center justify-center min-h-[300px]"> 
+    <div ref={containerRef} className="relative w-full h-full flex items-center justify-center min-h-[300px]"> 
       {isLoading ? (
         <Loader2 className="h-10 w-10 animate-spin text-muted-foreground" />
       ) : error ? (
@@ -75,6 +128,40 @@ export const ModalImageViewer = ({ filePath }: ModalImageViewerProps) => {
           <ImageOff className="h-10 w-10 mx-auto mb-2" />
           <p>{error}</p>
         </div>
+      ) : videoUrl ? (
+        <video
+          key={videoUrl}
+          src={videoUrl}
+          poster={imageUrl ?? undefined}
+          controls
+          playsInline
+          preload="metadata"
+          className="max-w-full max-h-full rounded-lg"
+          onError={() => {
+            console.error(`Failed to load video: ${filePath}`);
+            setError("Failed to load video.");
+            setVideoUrl(null);
+          }}
+        />
+      ) : imageUrl && filePath && !isAnimatedFormat(filePath) ? (
+        // Picks the rendition for the viewer's size from the manifest rather than always loading LARGE_WIDTH
+        <ResponsiveImage
+          originalPath={filePath}
+          alt={`Preview for ${filePath.split('/').pop()}`}
+          sizes="(max-width: 768px) 100vw, 75vw"
+          style={{ objectFit: 'contain' }}
+          priority
+          className="absolute inset-0 w-full h-full rounded-lg"
+          onLoad={(e) => {
+            const img = e.currentTarget;
+            setNaturalSize({ width: img.naturalWidth, height: img.naturalHeight });
+          }}
+          onError={() => {
+            console.error(`Failed to load large image: ${imageUrl}`);
+            setError("Failed to load image.");
+            setImageUrl(null);
+          }}
+        />
       ) : imageUrl ? (
         <Image
           src={imageUrl}
@@ -83,7 +170,13 @@ export const ModalImageViewer = ({ filePath }: ModalImageViewerProps) => {
           style={{ objectFit: 'contain' }}
           priority
           className="rounded-lg"
-          unoptimized={filePath?.toLowerCase().endsWith('.gif')}
+          unoptimized // The optimizer would flatten the animation
+          placeholder={manifest?.placeholder ? 'blur' : 'empty'}
+          blurDataURL={manifest?.placeholder ?? undefined}
+          onLoad={(e) => {
+            const img = e.currentTarget;
+            setNaturalSize({ width: img.naturalWidth, height: img.naturalHeight });
+          }}
           onError={() => {
             console.error(`Failed to load large image: ${imageUrl}`);
             setError("Failed to load image.");
@@ -97,6 +190,12 @@ export const ModalImageViewer = ({ filePath }: ModalImageViewerProps) => {
             <p>Image not available.</p>
           </div>
       )}
+      {/* Not shown over videos, where the overlay would block the player controls */}
+      {children && imageUrl && !videoUrl && !error && imageBox && (
+        <div className="absolute" style={imageBox}>
+          {children}
+        </div>
+      )}
     </div>
   );
 }; 
\ No newline at end of file
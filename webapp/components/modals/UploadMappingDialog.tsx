@@ -0,0 +1,184 @@
+'use client';
+
+import React, { useEffect, useMemo, useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { nanoid } from 'nanoid';
+import { toast } from 'sonner';
+import { Loader2 } from 'lucide-react';
+import {
+    Dialog,
+    DialogContent,
+    DialogHeader,
+    DialogTitle,
+    DialogDescription,
+    DialogFooter,
+    DialogClose
+} from '@/components/ui/dialog';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { useAuth } from '@/providers/AuthProvider';
+import { useUploadStore } from '@/store/uploadStore';
+import {
+    mapUploadPaths,
+    planUploadMapping,
+    type DroppedFile,
+    type ExistingDesign,
+    type PlannedDesign,
+    type PlannedVersion,
+    type UploadMappingEntry
+} from '@/lib/uploadMapping';
+
+interface UploadMappingDialogProps {
+    isOpen: boolean;
+    onOpenChange: (isOpen: boolean) => void;
+    projectId: string;
+    files: DroppedFile[];
+}
+
+type PlannedFile = { design: PlannedDesign; version: PlannedVersion; letter: string };
+
+// Shows where each dropped file will go (design, version, variation), lets the user correct the design names and
+// version numbers, then queues the uploads: new variations for existing versions, one batch per design for the rest
+export const UploadMappingDialog: React.FC<UploadMappingDialogProps> = ({ isOpen, onOpenChange, projectId, files }) => {
+    const { supabase } = useAuth();
+    const enqueueUploads = useUploadStore(state => state.enqueueUploads);
+    const [entries, setEntries] = useState<UploadMappingEntry[]>([]);
+
+    useEffect(() => {
+        setEntries(mapUploadPaths(files.map(item => item.path)));
+    }, [files]);
+
+    const { data: existingDesigns, isLoading, error } = useQuery({
+        queryKey: ['designs', projectId, 'hierarchy'],
+        queryFn: async (): Promise<ExistingDesign[]> => {
+            const { data, error } = await supabase
+                .from('designs')
+                .select('id, name, versions(id, version_number, variations(variation_letter))')
+                .eq('project_id', projectId);
+            if (error) throw new Error(`Failed to load designs: ${error.message}`);
+            return data ?? [];
+        },
+        enabled: isOpen && !!supabase,
+    });
+
+    const plan = useMemo(() => planUploadMapping(entries, existingDesigns ?? []), [entries, existingDesigns]);
+    const plannedFiles = useMemo(() => {
+        const byIndex = new Map<number, PlannedFile>();
+        plan.forEach(design => design.versions.forEach(version => version.fileIndexes.forEach((fileIndex, position) => {
+            byIndex.set(fileIndex, { design, version, letter: version.variationLetters[position] });
+        })));
+        return byIndex;
+    }, [plan]);
+
+    const problems = [
+        entries.some(entry => !entry.designName.trim()) && 'Every file needs a design name.',
+        plan.some(design => design.versions.some(version => version.variationLetters.includes('?'))) && 'A version can hold at most 26 variations (A-Z).',
+    ].filter((problem): problem is string => !!problem);
+
+    const updateEntry = (index: number, changes: Partial<UploadMappingEntry>) => {
+        setEntries(prev => prev.map((entry, entryIndex) => (entryIndex === index ? { ...entry, ...changes } : entry)));
+    };
+
+    const handleVersionChange = (index: number, value: string) => {
+        const versionNumber = parseInt(value, 10);
+        updateEntry(index, { versionNumber: Number.isInteger(versionNumber) && versionNumber > 0 ? versionNumber : null });
+    };
+
+    const handleImport = () => {
+        plan.forEach(design => {
+            // New versions of a design are committed together, which also creates the design when it's new
+            const batchId = nanoid();
+            design.versions.filter(version => !version.versionId).forEach((version, versionIndex) => {
+                enqueueUploads(version.fileIndexes.map(index => files[index].file), design.designId
+                    ? { kind: 'version', projectId, designId: design.designId, batchId, versionIndex }
+                    : { kind: 'version', projectId, designName: design.name, batchId, versionIndex });
+            });
+            design.versions.forEach(version => {
+                if (!version.versionId || !design.designId) return;
+                enqueueUploads(version.fileIndexes.map(index => files[index].file), { kind: 'variation', projectId, designId: design.designId, versionId: version.versionId });
+            });
+        });
+        toast.info(`Importing ${files.length} file(s) into ${plan.length} design(s).`);
+        onOpenChange(false);
+    };
+
+    return (
+        <Dialog open={isOpen} onOpenChange={onOpenChange}>
+            <DialogContent className="sm:max-w-3xl">
+                <DialogHeader>
+                    <DialogTitle>Import Files</DialogTitle>
+                    <DialogDescription>
+                        Folders become designs and <code>v2</code> folders their versions; loose files can be named like <code>Logo_v2_B.png</code>.
+                        Check where each file goes and adjust it before importing. Leave the version empty for a new one.
+                    </DialogDescription>
+                </DialogHeader>
+                {isLoading ? (
+                    <div className="flex items-center justify-center py-8"><Loader2 className="h-6 w-6 animate-spin" /></div>
+                ) : error ? (
+                    <p className="text-sm text-red-600">{error.message}</p>
+                ) : (
+                    <div className="max-h-[60vh] overflow-y-auto">
+                        <Table>
+                            <TableHeader>
+                                <TableRow>
+                                    <TableHead>File</TableHead>
+                                    <TableHead className="w-[200px]">Design</TableHead>
+                                    <TableHead className="w-[90px]">Version</TableHead>
+                                    <TableHead className="w-[180px]">Result</TableHead>
+                                </TableRow>
+                            </TableHeader>
+                            <TableBody>
+                                {entries.map((entry, index) => {
+                                    const planned = plannedFiles.get(index);
+                                    return (
+                                        <TableRow key={files[index]?.path ?? index}>
+                                            <TableCell className="max-w-[220px] truncate text-xs" title={files[index]?.path}>{files[index]?.path}</TableCell>
+                                            <TableCell>
+                                                <Input
+                                                    value={entry.designName}
+                                                    onChange={(event) => updateEntry(index, { designName: event.target.value })}
+                                                    className="h-8"
+                                                />
+                                            </TableCell>
+                                            <TableCell>
+                                                <Input
+                                                    type="number"
+                                                    min={1}
+                                                    placeholder="New"
+                                                    value={entry.versionNumber ?? ''}
+                                                    onChange={(event) => handleVersionChange(index, event.target.value)}
+                                                    className="h-8"
+                                                />
+                                            </TableCell>
+                                            <TableCell className="text-xs">
+                                                {planned && (
+                                                    <div className="flex items-center gap-1">
+                                                        <span className="font-medium">V{planned.version.versionNumber}-{planned.letter}</span>
+                                                        <Badge variant={planned.design.designId ? 'secondary' : 'default'}>
+                                                            {!planned.design.designId ? 'New design' : planned.version.versionId ? 'Existing version' : 'New version'}
+                                                        </Badge>
+                                                    </div>
+                                                )}
+                                            </TableCell>
+                                        </TableRow>
+                                    );
+                                })}
+                            </TableBody>
+                        </Table>
+                    </div>
+                )}
+                {problems.map(problem => <p key={problem} className="text-sm text-red-600">{problem}</p>)}
+                <DialogFooter>
+                    <DialogClose asChild>
+                        <Button type="button" variant="outline">Cancel</Button>
+                    </DialogClose>
+                    <Button type="button" onClick={handleImport} disabled={isLoading || !!error || problems.length > 0 || entries.length === 0}>
+                        Import {files.length} File(s)
+                    </Button>
+                </DialogFooter>
+            </DialogContent>
+        </Dialog>
+    );
+};
@@ -12,7 +12,7 @@ import {
 } from '@/components/ui/dialog';
 import { Badge } from "@/components/ui/badge";
 import { Button } from '@/components/ui/button';
-import { Loader2, ImageOff, X as CloseIcon, Upload, Trash2 } from 'lucide-react'; // Use X for close, add Trash2 icon
+import { Loader2, ImageOff, X as CloseIcon, Upload, Trash2, PenTool } from 'lucide-react'; // Use X for close, add Trash2 icon
 import { Variation, Project, Design, Version } from '@/types/models'; // Import necessary types
 import { useAuth } from '@/providers/AuthProvider'; // To get supabase for signed URLs
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
@@ -22,6 +22,7 @@ import { VariationFeedbackStatus } from '@/types/models';
 import { getProcessedImagePath, getPublicImageUrl } from '@/lib/imageUtils';
 import { LARGE_WIDTH } from '@/lib/constants/imageConstants';
 import Image from 'next/image';
+import { AnnotationReviewPanel } from '@/components/AnnotationCanvas/AnnotationReviewPanel';
 
 interface VariationDetailModalProps {
     isOpen: boolean;
@@ -62,6 +63,14 @@ export const VariationDetailModal: React.FC<VariationDetailModalProps> = ({
     // Updated state name for clarity
     const [isDeletingVariation, setIsDeletingVariation] = useState(false);
 
+    // Review mode swaps the static image for the annotation canvas
+    const [isAnnotating, setIsAnnotating] = useState(false);
+
+    // Always reopen (or switch variations) in plain viewing mode
+    useEffect(() => {
+        setIsAnnotating(false);
+    }, [isOpen, variation?.id]);
+
     // Fetch processed image URL
     useEffect(() => {
         setIsLoadingUrl(true);
@@ -173,7 +182,7 @@ export const VariationDetailModal: React.FC<VariationDetailModalProps> = ({
         }
         
         // Updated confirmation message
-        if (!confirm('Are you sure you want to permanently delete this variation (including its file and feedback)? This cannot be undone.')) return;
+        if (!confirm('Move this variation (including its file and feedback) to the trash? An admin can restore it until the retention window ends.')) return;
         
         setIsDeletingVariation(true); // Use renamed state setter
 
@@ -244,6 +253,14 @@ export const VariationDetailModal: React.FC<VariationDetailModalProps> = ({
                                 <ImageOff className="h-16 w-16 mb-2" />
                                 <span className="text-sm text-center">{urlError}</span>
                            </div>
+                         ) : imageUrl && isAnnotating ? (
+                             <AnnotationReviewPanel
+                                 variationId={variation.id}
+                                 imageUrl={imageUrl}
+                                 originalFilePath={variation.file_path}
+                                 exportName={`Variation ${variation.variation_letter}`}
+                                 className="absolute inset-0 bg-background"
+                             />
                          ) : imageUrl ? (
                              <Image 
                                  src={imageUrl} 
@@ -270,8 +287,20 @@ export const VariationDetailModal: React.FC<VariationDetailModalProps> = ({
                             // Hide entirely if we are actively replacing/deleting or if there's a URL error
                             (isReplacingFile || isDeletingVariation || urlError) ? 'hidden' : '' 
                          }`}> 
-                            {/* Replace Button: Only show if image exists */}
+                            {/* Annotate Button: Toggles review mode */}
                             {imageUrl && (
+                                <Button
+                                    variant={isAnnotating ? 'secondary' : 'outline'}
+                                    size="sm"
+                                    onClick={() => setIsAnnotating(prev => !prev)}
+                                    aria-label={isAnnotating ? 'Exit review mode' : 'Annotate variation'}
+                                >
+                                    <PenTool className="h-4 w-4 mr-2" />
+                                    {isAnnotating ? 'Exit Review Mode' : 'Annotate'}
+                                </Button>
+                            )}
+                            {/* Replace Button: Only show if image exists */}
+                            {imageUrl && !isAnnotating && (
                                 <Button 
                                     variant="outline"
                                     size="sm"
@@ -283,7 +312,8 @@ export const VariationDetailModal: React.FC<VariationDetailModalProps> = ({
                                     Replace File
                                 </Button>
                             )}
-                            {/* Delete Button: Always show unless replacing/deleting */}
+                            {/* Delete Button: Always show unless replacing/deleting or reviewing */}
+                            {!isAnnotating && (
                             <Button 
                                 variant="destructive"
                                 size="sm"
@@ -294,6 +324,7 @@ export const VariationDetailModal: React.FC<VariationDetailModalProps> = ({
                                 {isDeletingVariation ? <Loader2 className="h-4 w-4 mr-1 animate-spin"/> : <Trash2 className="h-4 w-4 mr-2" />}
                                 Delete Variation
                             </Button>
+                            )}
                         </div>
                      </div>
 
@@ -0,0 +1,105 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { buildSrcSet, getLegacyGifCopyPath, getLegacyRenditions, getPublicImageUrl, getRenditionManifestPath } from '@/lib/imageUtils';
+import { RenditionManifest } from '@/types/models';
+
+const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL;
+const processedBucketName = process.env.NEXT_PUBLIC_SUPABASE_PROCESSED_BUCKET;
+
+const toPublicUrl = (path: string) => getPublicImageUrl(supabaseUrl!, processedBucketName!, path);
+
+// Files processed before manifests were written have none; that's null here, not an error
+const fetchRenditionManifest = async (originalPath: string): Promise<RenditionManifest | null> => {
+    const response = await fetch(toPublicUrl(getRenditionManifestPath(originalPath)));
+    if (!response.ok) return null;
+    return response.json();
+};
+
+/** Loads the rendition manifest of a processed original; resolves to null when it has none. */
+export const useRenditionManifest = (originalPath: string | null | undefined) => useQuery({
+    queryKey: ['renditionManifest', originalPath],
+    queryFn: () => fetchRenditionManifest(originalPath!),
+    enabled: !!originalPath && !!supabaseUrl && !!processedBucketName,
+    staleTime: Infinity,
+});
+
+interface ResponsiveImageProps {
+    originalPath: string;
+    page?: number;
+    alt: string;
+    sizes: string; // How wide the image is shown, so the browser can pick a rendition (same syntax as the img attribute)
+    className?: string;
+    style?: React.CSSProperties;
+    priority?: boolean;
+    onLoad?: React.ReactEventHandler<HTMLImageElement>;
+    onError?: React.ReactEventHandler<HTMLImageElement>;
+    // From the variation or attachment record when the caller has it; otherwise taken from the manifest
+    placeholder?: string | null;
+    dominantColor?: string | null;
+}
+
+// Shows the LQIP scaled up (blurry by nature) over the dominant color until the rendition has loaded
+const getPlaceholderStyle = (placeholder: string | null | undefined, dominantColor: string | null | undefined, objectFit: React.CSSProperties['objectFit']): React.CSSProperties => ({
+    backgroundColor: dominantColor ?? undefined,
+    backgroundImage: placeholder ? `url("${placeholder}")` : undefined,
+    backgroundSize: objectFit === 'contain' ? 'contain' : 'cover',
+    backgroundPosition: 'center',
+    backgroundRepeat: 'no-repeat',
+});
+
+// Shows a processed original with AVIF and WebP srcsets from its rendition manifest, so the browser downloads only
+// the size and format it needs. Without a manifest it falls back to the legacy WebP widths, or for a GIF to its copy.
+// A placeholder fills the box until the rendition arrives.
+export const ResponsiveImage = ({ originalPath, page = 1, alt, sizes, className, style, priority, onLoad, onError, placeholder, dominantColor }: ResponsiveImageProps) => {
+    const { data: manifest, isLoading } = useRenditionManifest(originalPath);
+    const [isLoaded, setIsLoaded] = useState(false);
+
+    useEffect(() => {
+        setIsLoaded(false);
+    }, [originalPath, page]);
+
+    const placeholderStyle = getPlaceholderStyle(
+        placeholder ?? manifest?.placeholder,
+        dominantColor ?? manifest?.dominant_color,
+        style?.objectFit,
+    );
+
+    // Wait for the manifest so the browser doesn't fetch a fallback and then a second candidate
+    if (isLoading) {
+        return placeholder || dominantColor ? <span aria-hidden className={className} style={{ ...style, ...placeholderStyle }} /> : null;
+    }
+
+    const manifestPage = manifest?.pages[page - 1];
+    const legacyGifCopyPath = manifest ? null : getLegacyGifCopyPath(originalPath);
+    const renditions = manifestPage?.renditions ?? (legacyGifCopyPath ? [] : getLegacyRenditions(originalPath, page));
+    const avifSrcSet = buildSrcSet(renditions, 'avif', toPublicUrl);
+    const webpSrcSet = buildSrcSet(renditions, 'webp', toPublicUrl);
+    const largestWebp = renditions.filter(rendition => rendition.format === 'webp').sort((a, b) => b.width - a.width)[0];
+    const fallbackPath = largestWebp?.path ?? legacyGifCopyPath;
+
+    return (
+        <picture>
+            {avifSrcSet && <source type="image/avif" srcSet={avifSrcSet} sizes={sizes} />}
+            <img
+                src={fallbackPath ? toPublicUrl(fallbackPath) : undefined}
+                srcSet={webpSrcSet || undefined}
+                sizes={sizes}
+                width={manifestPage?.width || undefined}
+                height={manifestPage?.height || undefined}
+                alt={alt}
+                className={className}
+                style={isLoaded ? style : { ...style, ...placeholderStyle }} // Dropped on load so it can't show through transparent areas
+                loading={priority ? 'eager' : 'lazy'}
+                fetchPriority={priority ? 'high' : undefined}
+                decoding="async"
+                onLoad={(e) => {
+                    setIsLoaded(true);
+                    onLoad?.(e);
+                }}
+                onError={onError}
+            />
+        </picture>
+    );
+};
@@ -0,0 +1,24 @@
+'use client';
+
+import React from 'react';
+import { ChevronLeft, ChevronRight } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+
+interface PageStepperProps {
+    page: number;
+    pageCount: number;
+    onPageChange: (page: number) => void;
+}
+
+// Previous/next controls for stepping through the pages of a multi-page original
+export const PageStepper = ({ page, pageCount, onPageChange }: PageStepperProps) => (
+    <div className="flex items-center justify-center gap-2">
+        <Button variant="outline" size="icon" className="h-8 w-8" title="Previous page" disabled={page <= 1} onClick={() => onPageChange(page - 1)}>
+            <ChevronLeft className="h-4 w-4" />
+        </Button>
+        <span className="text-sm tabular-nums">Page {page} of {pageCount}</span>
+        <Button variant="outline" size="icon" className="h-8 w-8" title="Next page" disabled={page >= pageCount} onClick={() => onPageChange(page + 1)}>
+            <ChevronRight className="h-4 w-4" />
+        </Button>
+    </div>
+);
@@ -0,0 +1,58 @@
+'use client';
+
+import React from 'react';
+import { ArrowRight } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { PaletteColor } from '@/types/models';
+
+interface SwatchStripProps {
+    palette: PaletteColor[];
+    selectedColor?: string | null;
+    onSelect?: (hex: string) => void; // Omit to make the strip read-only
+    commentCounts?: Record<string, number>; // Swatch comments per color, shown on each swatch
+}
+
+// The variation's palette as one bar, each color as wide as its share of the image; click a color to give feedback on it
+export const SwatchStrip = ({ palette, selectedColor, onSelect, commentCounts }: SwatchStripProps) => (
+    <div className="flex h-10 w-full gap-1">
+        {palette.map(color => {
+            const count = commentCounts?.[color.hex] ?? 0;
+            return (
+                <button
+                    key={color.hex}
+                    type="button"
+                    className={cn(
+                        'relative min-w-[2.5rem] rounded-md border transition-shadow',
+                        onSelect ? 'cursor-pointer hover:ring-2 hover:ring-ring/50' : 'cursor-default',
+                        selectedColor === color.hex && 'ring-2 ring-ring ring-offset-2',
+                    )}
+                    style={{ backgroundColor: color.hex, flexGrow: color.percentage }}
+                    title={`${color.hex} · ${color.percentage}%${count > 0 ? ` · ${count} comment${count === 1 ? '' : 's'}` : ''}`}
+                    onClick={onSelect ? () => onSelect(color.hex) : undefined}
+                    disabled={!onSelect}
+                >
+                    {count > 0 && (
+                        <span className="absolute -right-1.5 -top-1.5 flex h-4 min-w-4 items-center justify-center rounded-full bg-primary px-1 text-[10px] font-semibold text-primary-foreground">
+                            {count}
+                        </span>
+                    )}
+                </button>
+            );
+        })}
+    </div>
+);
+
+// A swatch comment's color and, when suggested, its replacement
+export const SwatchChange = ({ color, suggestedColor }: { color: string; suggestedColor?: string | null }) => (
+    <span className="inline-flex items-center gap-1 rounded bg-muted px-1 text-[10px] text-muted-foreground" title={suggestedColor ? `Change ${color} to ${suggestedColor}` : `About ${color}`}>
+        <span className="h-3 w-3 rounded-sm border" style={{ backgroundColor: color }} />
+        {color}
+        {suggestedColor && (
+            <>
+                <ArrowRight className="h-3 w-3" />
+                <span className="h-3 w-3 rounded-sm border" style={{ backgroundColor: suggestedColor }} />
+                {suggestedColor}
+            </>
+        )}
+    </span>
+);
@@ -0,0 +1,180 @@
+'use client';
+
+import React, { useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { Eye, Columns2, RotateCcw, Loader2, ImageOff } from 'lucide-react';
+import { useAuth } from '@/providers/AuthProvider';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import {
+    Dialog,
+    DialogContent,
+    DialogDescription,
+    DialogHeader,
+    DialogTitle,
+} from '@/components/ui/dialog';
+import { VariationCompareViewer, CompareSide } from '@/components/compare/VariationCompareViewer';
+import { useRestoreVariationFileRevision } from '@/hooks/mutations';
+import { getProcessedImagePath, getPublicImageUrl } from '@/lib/imageUtils';
+import { THUMBNAIL_WIDTH, LARGE_WIDTH } from '@/lib/constants/imageConstants';
+import { VariationFileRevision } from '@/types/models';
+
+const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL;
+const processedBucketName = process.env.NEXT_PUBLIC_SUPABASE_PROCESSED_BUCKET;
+
+interface VariationFileHistoryProps {
+    variationId: string;
+    designId: string;
+    projectId: string;
+    currentFilePath: string | null;
+    versionNumber: number;
+    variationLetter: string;
+}
+
+type OpenRevision = { revision: VariationFileRevision; mode: 'preview' | 'compare' };
+
+const fetchVariationFileRevisions = async (supabase: any, variationId: string): Promise<VariationFileRevision[]> => {
+    if (!variationId) return [];
+    const { data, error } = await supabase
+        .from('variation_file_revisions')
+        .select('*, profiles:uploaded_by ( display_name )')
+        .eq('variation_id', variationId)
+        .order('created_at', { ascending: false });
+    if (error) {
+        console.error('Error fetching file revisions:', error);
+        throw new Error(error.message);
+    }
+    return data || [];
+};
+
+const getRenditionUrl = (filePath: string, width: typeof THUMBNAIL_WIDTH | typeof LARGE_WIDTH): string | null => {
+    if (!supabaseUrl || !processedBucketName) return null;
+    return getPublicImageUrl(supabaseUrl, processedBucketName, getProcessedImagePath(filePath, width));
+};
+
+const formatRevisionDate = (timestamp: string) => new Date(timestamp).toLocaleString();
+
+// Lists every file this variation has had, newest first, with preview, compare-to-current and restore actions
+export const VariationFileHistory = ({ variationId, designId, projectId, currentFilePath, versionNumber, variationLetter }: VariationFileHistoryProps) => {
+    const { supabase } = useAuth();
+    const [openRevision, setOpenRevision] = useState<OpenRevision | null>(null);
+    const restoreMutation = useRestoreVariationFileRevision(variationId, designId, projectId);
+
+    const { data: revisions, isLoading, error } = useQuery<VariationFileRevision[]>({
+        queryKey: ['variationRevisions', variationId],
+        queryFn: () => fetchVariationFileRevisions(supabase, variationId),
+        enabled: !!supabase && !!variationId,
+    });
+
+    const revisionCount = revisions?.length ?? 0;
+    // Revisions are newest first, so the oldest file is #1
+    const getRevisionNumber = (index: number) => revisionCount - index;
+
+    const toCompareSide = (filePath: string, label: string): CompareSide => ({
+        variationId,
+        imageUrl: getRenditionUrl(filePath, LARGE_WIDTH),
+        versionNumber,
+        variationLetter,
+        label,
+    });
+
+    const openIndex = openRevision ? (revisions ?? []).findIndex(revision => revision.id === openRevision.revision.id) : -1;
+    const openLabel = openRevision ? `Revision ${getRevisionNumber(openIndex)} · ${openRevision.revision.file_name}` : '';
+
+    if (isLoading) {
+        return (
+            <div className="flex items-center text-sm text-muted-foreground">
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" /> Loading file history...
+            </div>
+        );
+    }
+    if (error) {
+        return <p className="text-sm text-red-600">Error loading file history.</p>;
+    }
+    if (!revisions || revisions.length === 0) {
+        return <p className="italic text-muted-foreground">No earlier files for this variation.</p>;
+    }
+
+    return (
+        <>
+            <ul className="divide-y border rounded-md">
+                {revisions.map((revision, index) => {
+                    const isCurrent = revision.file_path === currentFilePath;
+                    const thumbnailUrl = getRenditionUrl(revision.file_path, THUMBNAIL_WIDTH);
+                    return (
+                        <li key={revision.id} className="flex items-center gap-3 p-2">
+                            {thumbnailUrl ? (
+                                <img src={thumbnailUrl} alt={revision.file_name} className="h-12 w-12 object-contain border rounded bg-muted/40 flex-shrink-0" />
+                            ) : (
+                                <div className="h-12 w-12 flex items-center justify-center border rounded bg-muted text-muted-foreground flex-shrink-0">
+                                    <ImageOff className="h-5 w-5" />
+                                </div>
+                            )}
+                            <div className="flex-1 min-w-0">
+                                <div className="flex items-center gap-2">
+                                    <span className="text-sm font-medium">#{getRevisionNumber(index)}</span>
+                                    <span className="text-sm truncate" title={revision.file_name}>{revision.file_name}</span>
+                                    {isCurrent && <Badge variant="default">Current</Badge>}
+                                </div>
+                                <p className="text-xs text-muted-foreground">
+                                    {revision.profiles?.display_name || (revision.uploaded_by ? 'Unknown User' : 'Uploader not recorded')} · {formatRevisionDate(revision.created_at)}
+                                </p>
+                            </div>
+                            <div className="flex items-center gap-1">
+                                <Button size="sm" variant="ghost" title="Preview" onClick={() => setOpenRevision({ revision, mode: 'preview' })}>
+                                    <Eye className="h-4 w-4" />
+                                </Button>
+                                {!isCurrent && currentFilePath && (
+                                    <>
+                                        <Button size="sm" variant="ghost" title="Compare with current file" onClick={() => setOpenRevision({ revision, mode: 'compare' })}>
+                                            <Columns2 className="h-4 w-4" />
+                                        </Button>
+                                        <Button
+                                            size="sm"
+                                            variant="outline"
+                                            disabled={restoreMutation.isPending}
+                                            onClick={() => restoreMutation.mutate(revision)}
+                                        >
+                                            {restoreMutation.isPending && restoreMutation.variables?.id === revision.id
+                                                ? <Loader2 className="h-4 w-4 mr-1 animate-spin" />
+                                                : <RotateCcw className="h-4 w-4 mr-1" />}
+                                            Restore
+                                        </Button>
+                                    </>
+                                )}
+                            </div>
+                        </li>
+                    );
+                })}
+            </ul>
+
+            <Dialog open={!!openRevision} onOpenChange={(open) => { if (!open) setOpenRevision(null); }}>
+                <DialogContent className={openRevision?.mode === 'compare' ? 'sm:max-w-6xl h-[85vh] flex flex-col' : 'sm:max-w-3xl'}>
+                    <DialogHeader>
+                        <DialogTitle>{openRevision?.mode === 'compare' ? `${openLabel} vs. current file` : openLabel}</DialogTitle>
+                        <DialogDescription>
+                            {openRevision
+                                ? `Uploaded ${formatRevisionDate(openRevision.revision.created_at)} by ${openRevision.revision.profiles?.display_name || 'an unknown user'}.`
+                                : null}
+                        </DialogDescription>
+                    </DialogHeader>
+                    {openRevision?.mode === 'preview' && (() => {
+                        const previewUrl = getRenditionUrl(openRevision.revision.file_path, LARGE_WIDTH);
+                        return previewUrl ? (
+                            <img src={previewUrl} alt={openRevision.revision.file_name} className="max-h-[70vh] w-full object-contain rounded-md" />
+                        ) : (
+                            <p className="text-sm text-red-600">Image configuration error.</p>
+                        );
+                    })()}
+                    {openRevision?.mode === 'compare' && currentFilePath && (
+                        <VariationCompareViewer
+                            className="flex-1"
+                            left={toCompareSide(openRevision.revision.file_path, openLabel)}
+                            right={toCompareSide(currentFilePath, 'Current file')}
+                        />
+                    )}
+                </DialogContent>
+            </Dialog>
+        </>
+    );
+};
@@ -0,0 +1,46 @@
+'use client';
+
+import React from 'react';
+import { Loader2, RotateCcw } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { useRetryVariationProcessing } from '@/hooks/mutations';
+import { Variation } from '@/types/models';
+
+interface VariationProcessingStatusProps {
+    variation: Pick<Variation, 'id' | 'version_id' | 'file_path' | 'processing_status'>;
+    showRetry?: boolean;
+}
+
+// Shows the rendition job state for a variation's current file. Nothing is shown once processing is done.
+export const VariationProcessingStatus = ({ variation, showRetry = false }: VariationProcessingStatusProps) => {
+    const retryMutation = useRetryVariationProcessing(variation);
+    const status = retryMutation.isPending ? 'processing' : variation.processing_status;
+
+    if (status === 'queued' || status === 'processing') {
+        return (
+            <Badge variant="outline" className="gap-1 text-blue-600" title={status === 'queued' ? 'Waiting to retry processing' : 'Generating previews'}>
+                <Loader2 className="h-3 w-3 animate-spin" />
+                {status === 'queued' ? 'Queued' : 'Processing'}
+            </Badge>
+        );
+    }
+    if (status !== 'failed') {
+        return null;
+    }
+    return (
+        <span className="inline-flex items-center gap-1">
+            <Badge variant="destructive" title="Previews could not be generated for this file">Processing failed</Badge>
+            {showRetry && (
+                <Button
+                    size="sm"
+                    variant="ghost"
+                    className="h-6 px-2"
+                    onClick={(event) => { event.stopPropagation(); retryMutation.mutate(); }}
+                >
+                    <RotateCcw className="h-3 w-3 mr-1" /> Retry
+                </Button>
+            )}
+        </span>
+    );
+};
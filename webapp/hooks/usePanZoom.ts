@@ -0,0 +1,52 @@
+import { useRef, useState } from 'react';
+import type React from 'react';
+
+export type ViewTransform = { scale: number; x: number; y: number };
+
+const MIN_SCALE = 0.5;
+const MAX_SCALE = 8;
+const IDENTITY: ViewTransform = { scale: 1, x: 0, y: 0 };
+
+const clampScale = (scale: number) => Math.min(MAX_SCALE, Math.max(MIN_SCALE, scale));
+
+// One pan/zoom transform that any number of panes can drive and render, keeping them in sync
+export const usePanZoom = () => {
+    const [view, setView] = useState<ViewTransform>(IDENTITY);
+    const dragRef = useRef<{ pointerX: number; pointerY: number; startX: number; startY: number } | null>(null);
+
+    const zoomBy = (factor: number) => setView(prev => ({ ...prev, scale: clampScale(prev.scale * factor) }));
+    const resetView = () => setView(IDENTITY);
+
+    const startPan = (e: React.PointerEvent) => {
+        (e.currentTarget as HTMLElement).setPointerCapture(e.pointerId);
+        dragRef.current = { pointerX: e.clientX, pointerY: e.clientY, startX: view.x, startY: view.y };
+    };
+
+    const movePan = (e: React.PointerEvent) => {
+        const drag = dragRef.current;
+        if (!drag) return;
+        setView(prev => ({ ...prev, x: drag.startX + e.clientX - drag.pointerX, y: drag.startY + e.clientY - drag.pointerY }));
+    };
+
+    const endPan = () => {
+        dragRef.current = null;
+    };
+
+    const transformStyle: React.CSSProperties = {
+        transform: `translate(${view.x}px, ${view.y}px) scale(${view.scale})`,
+        transformOrigin: 'center center',
+    };
+
+    return {
+        view,
+        transformStyle,
+        zoomBy,
+        resetView,
+        panHandlers: {
+            onWheel: (e: React.WheelEvent) => zoomBy(e.deltaY < 0 ? 1.1 : 1 / 1.1),
+            onPointerDown: startPan,
+            onPointerMove: movePan,
+            onPointerUp: endPan,
+        },
+    };
+};
@@ -0,0 +1,407 @@
+'use client';
+
+import { useEffect } from 'react';
+import { QueryClient, useQueryClient } from '@tanstack/react-query';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { toast } from 'sonner';
+import { useAuth } from '@/providers/AuthProvider';
+import { useUploadStore, MAX_CONCURRENT_UPLOADS } from '@/store/uploadStore';
+import { prepareUploadForProject, triggerImageProcessing } from '@/hooks/mutations';
+import {
+    buildVariationFilePath,
+    buildVariationRevisionPath,
+    commitDesignHierarchy,
+    findInterruptedHierarchy,
+    linkVariationFile,
+    prepareDesignHierarchy,
+    type PreparedHierarchy,
+} from '@/lib/designHierarchy';
+import { findInterruptedUpload, startResumableUpload, UPLOAD_CANCELLED_MESSAGE, type InterruptedUpload } from '@/lib/resumableUpload';
+import { inspectFile } from '@/lib/uploadPolicy';
+import { toPreparationColumns, type ImagePreparation } from '@/lib/imagePreparation';
+import { UploadDestination, UploadingFileInfo, UploadTarget } from '@/types/models';
+
+// Each queued file goes through the same steps, and a retry picks up at the step that failed:
+//   0. check:   the project's upload settings (lib/imagePreparation.ts), then upload policy and content hash of
+//               the file to send; a file identical to a variation of the design waits for the user
+//   1. reserve: ids and storage path (prepared by the server, or a new variation id)
+//   2. upload:  resumable, with pause/resume/cancel from the tray
+//   3. link:    commit the new design/version, or have the server link the file as a new variation or replacement
+//   4. process: request renditions
+// The files of a batch of new versions are committed together once none of them is still uploading.
+
+const BUCKET_NAME = 'design-variations';
+
+type RunnerContext = { supabase: SupabaseClient; queryClient: QueryClient };
+type VersionTarget = Extract<UploadTarget, { kind: 'version' }>;
+type VariationTarget = Extract<UploadTarget, { kind: 'variation' }>;
+
+const getUpload = (id: string) => useUploadStore.getState().uploads.find(upload => upload.id === id);
+const updateUpload = (id: string, changes: Partial<UploadingFileInfo>) => useUploadStore.getState().updateUpload(id, changes);
+const getBatchUploads = (batchId: string) => useUploadStore.getState().uploads
+    .filter(upload => upload.target.kind === 'version' && upload.target.batchId === batchId);
+const getVersionIndex = (upload: UploadingFileInfo) => (upload.target.kind === 'version' && upload.target.versionIndex) || 0;
+
+/** Where unfinished uploads are recorded, so they can be resumed after a reload. */
+export const getInterruptedScope = (target: UploadTarget): string => {
+    switch (target.kind) {
+        case 'design':
+            return `project:${target.projectId}`;
+        case 'version':
+            return target.designId ? `design:${target.designId}` : `project:${target.projectId}`;
+        case 'variation':
+            return `version:${target.versionId}`;
+        case 'replace':
+            return `variation:${target.variationId}`;
+    }
+};
+
+/** The target to queue an interrupted upload with again; its reserved ids are found from the scope. */
+export const getInterruptedUploadTarget = (record: InterruptedUpload): UploadTarget => {
+    const { projectId, designId, versionId, variationId, designName, versionIndex, notes } = record.context;
+    if (record.scope.startsWith('version:')) return { kind: 'variation', projectId, designId, versionId, notes: notes || null };
+    if (record.scope.startsWith('variation:')) return { kind: 'replace', projectId, designId, versionId, variationId };
+    if (record.scope.startsWith('design:')) return { kind: 'version', projectId, designId, batchId: versionId };
+    // Versions of a new design are only created together, so they share one batch
+    if (designName) return { kind: 'version', projectId, designName, batchId: designId, versionIndex: Number(versionIndex) || 0 };
+    return { kind: 'design', projectId };
+};
+
+/** Interrupted uploads that have to be queued again as one batch share this key. */
+export const getInterruptedBatchKey = (record: InterruptedUpload): string =>
+    `${record.scope}|${record.context.designName ? record.context.designId : record.context.versionId}`;
+
+/** Link to the variation a finished upload created or updated. */
+export const getUploadVariationHref = (upload: UploadingFileInfo): string | null => {
+    const { destination } = upload;
+    if (!destination) return null;
+    return `/projects/${upload.target.projectId}/designs/${destination.designId}/versions/${destination.versionId}/variations/${destination.variationId}`;
+};
+
+// The variation of the design whose file has this content, as 'V2-B'. Only a warning in the browser: the server
+// records content hashes but doesn't reject duplicates, since uploading the same file again can be intended.
+const findDuplicateVariation = async (supabase: SupabaseClient, designId: string, contentHash: string): Promise<string | null> => {
+    const { data, error } = await supabase
+        .from('versions')
+        .select('version_number, variations!inner(variation_letter)')
+        .eq('design_id', designId)
+        .eq('variations.content_hash', contentHash)
+        .limit(1);
+    if (error) throw new Error(`Failed to check for duplicate files: ${error.message}`);
+    const version = data?.[0];
+    const variation = version?.variations[0];
+    return version && variation ? `V${version.version_number}-${variation.variation_letter}` : null;
+};
+
+// Nothing has been reserved or inserted yet, so a file that fails here leaves no trace. Returns false when the
+// upload has to wait for the user to confirm a duplicate.
+const checkFile = async (id: string, { supabase }: RunnerContext): Promise<boolean> => {
+    const { target, file, duplicateConfirmed } = getUpload(id)!;
+    let { preparedFile, preparation } = getUpload(id)!;
+    if (preparation === undefined) {
+        ({ file: preparedFile, preparation } = await prepareUploadForProject(supabase, target.projectId, file));
+        updateUpload(id, { preparedFile, preparation });
+    }
+    const { problems, contentHash } = await inspectFile(preparedFile ?? file);
+    if (problems.length > 0) throw new Error(problems.join(' '));
+
+    if (target.kind !== 'design' && target.designId && !duplicateConfirmed) {
+        const duplicateOf = await findDuplicateVariation(supabase, target.designId, contentHash!);
+        if (duplicateOf) {
+            updateUpload(id, { status: 'duplicate', duplicateOf, contentHash: contentHash! });
+            toast.warning(`${file.name} is the same as ${duplicateOf}.`);
+            return false;
+        }
+    }
+    updateUpload(id, { checked: true, contentHash: contentHash!, status: 'uploading' });
+    return true;
+};
+
+const toDestination = (prepared: PreparedHierarchy, index: number): UploadDestination => ({
+    designId: prepared.designId,
+    versionId: prepared.uploads[index].versionId,
+    variationId: prepared.uploads[index].variationId,
+    filePath: prepared.uploads[index].filePath,
+});
+
+// One preparation per version batch; every file of the batch gets its destination from it
+const batchPreparations = new Map<string, Promise<void>>();
+
+const prepareBatch = (target: VersionTarget): Promise<void> => {
+    let preparation = batchPreparations.get(target.batchId);
+    if (!preparation) {
+        const batch = getBatchUploads(target.batchId);
+        const files = batch.map(upload => upload.file);
+        // Numbered without gaps, in case files of the batch were removed
+        const usedIndexes = [...new Set(batch.map(getVersionIndex))].sort((a, b) => a - b);
+        preparation = (async () => {
+            const prepared = findInterruptedHierarchy(getInterruptedScope(target), files) ?? await prepareDesignHierarchy({
+                projectId: target.projectId,
+                designId: target.designId,
+                fileNames: files.map(file => file.name),
+                versionIndexes: batch.map(upload => usedIndexes.indexOf(getVersionIndex(upload))),
+            });
+            batch.forEach((upload, index) => updateUpload(upload.id, { destination: toDestination(prepared, index) }));
+        })();
+        // A failed preparation is tried again by the next retry
+        preparation.catch(() => batchPreparations.delete(target.batchId));
+        batchPreparations.set(target.batchId, preparation);
+    }
+    return preparation;
+};
+
+// A new variation's row is only inserted once its file is stored, so a cancelled or failed upload leaves no
+// variation without a file behind. An interrupted upload of the same file keeps its id and path, so it resumes.
+const reserveVariation = (target: VariationTarget, file: File): UploadDestination => {
+    const interrupted = findInterruptedUpload(getInterruptedScope(target), file);
+    if (interrupted?.context.variationId) {
+        return { designId: target.designId, versionId: target.versionId, variationId: interrupted.context.variationId, filePath: interrupted.objectPath };
+    }
+    const variationId = crypto.randomUUID();
+    return {
+        designId: target.designId,
+        versionId: target.versionId,
+        variationId,
+        filePath: buildVariationFilePath(target.projectId, target.designId, target.versionId, variationId, file.name),
+    };
+};
+
+// Variation letters come from the rows already there, so rows for the same version are created one at a time
+const variationCreations = new Map<string, Promise<unknown>>();
+
+const createVariationRecord = (target: VariationTarget, destination: UploadDestination, preparation: ImagePreparation | null | undefined): Promise<unknown> => {
+    const previous = variationCreations.get(target.versionId) ?? Promise.resolve();
+    const creation = previous.catch(() => {}).then(() => linkVariationFile({
+        ...destination,
+        projectId: target.projectId,
+        notes: target.notes,
+        preparation,
+    }));
+    variationCreations.set(target.versionId, creation);
+    return creation;
+};
+
+const reserveDestination = async (upload: UploadingFileInfo): Promise<UploadDestination> => {
+    const { target, file } = upload;
+    switch (target.kind) {
+        case 'design': {
+            const prepared = findInterruptedHierarchy(getInterruptedScope(target), [file])
+                ?? await prepareDesignHierarchy({ projectId: target.projectId, fileNames: [file.name] });
+            return toDestination(prepared, 0);
+        }
+        case 'version': {
+            await prepareBatch(target);
+            const destination = getUpload(upload.id)?.destination;
+            if (!destination) throw new Error('Failed to reserve a variation for this file');
+            return destination;
+        }
+        case 'variation':
+            return reserveVariation(target, file);
+        case 'replace':
+            return {
+                designId: target.designId,
+                versionId: target.versionId,
+                variationId: target.variationId,
+                // Revision paths are timestamped, so an interrupted replacement resumes into the path it started
+                filePath: findInterruptedUpload(getInterruptedScope(target), file)?.objectPath
+                    ?? buildVariationRevisionPath(target.projectId, target.designId, target.versionId, target.variationId, file.name),
+            };
+    }
+};
+
+const sendFile = async (id: string, destination: UploadDestination, { supabase }: RunnerContext) => {
+    const { target, file, preparedFile } = getUpload(id)!;
+    const interruptedScope = getInterruptedScope(target);
+    const upload = startResumableUpload({
+        supabase,
+        bucketName: BUCKET_NAME,
+        objectPath: destination.filePath,
+        file,
+        body: preparedFile,
+        onProgress: progress => updateUpload(id, { progress }),
+        onPausedChange: paused => updateUpload(id, { status: paused ? 'paused' : 'uploading' }),
+        interruptedScope,
+        interruptedContext: {
+            projectId: target.projectId,
+            designId: destination.designId,
+            versionId: destination.versionId,
+            variationId: destination.variationId,
+            ...(target.kind === 'version' && target.designName ? { designName: target.designName, versionIndex: String(target.versionIndex ?? 0) } : {}),
+            ...(target.kind === 'variation' && target.notes ? { notes: target.notes } : {}),
+        },
+    });
+    updateUpload(id, { upload });
+    try {
+        await upload.done;
+    } finally {
+        updateUpload(id, { upload: undefined });
+    }
+    updateUpload(id, { uploaded: true, progress: 100 });
+};
+
+const requestProcessing = async (id: string) => {
+    const { file, destination } = getUpload(id)!;
+    updateUpload(id, { status: 'processing' });
+    const job = await triggerImageProcessing('[UploadRunner]', `"${file.name}"`, destination!.filePath);
+    // A failed job stays in the tray to retry; one still retrying is tracked on the variation from here on
+    updateUpload(id, job?.status === 'failed'
+        ? { status: 'error', error: `Processing failed: ${job.last_error || 'Unknown error'}` }
+        : { status: 'success' });
+};
+
+const invalidateVariation = (queryClient: QueryClient, target: UploadTarget, destination: UploadDestination) => {
+    queryClient.invalidateQueries({ queryKey: ['designs', target.projectId] });
+    queryClient.invalidateQueries({ queryKey: ['designDetails', destination.designId] });
+    queryClient.invalidateQueries({ queryKey: ['version', destination.versionId, 'details'] });
+    queryClient.invalidateQueries({ queryKey: ['variation', destination.variationId] });
+};
+
+// Variations created by a commit start without the preparation of their file. Not worth failing an upload over
+// once it's committed, so a failure is only logged.
+const recordPreparation = async (supabase: SupabaseClient, upload: UploadingFileInfo) => {
+    if (!upload.preparation) return;
+    const { error } = await supabase
+        .from('variations')
+        .update(toPreparationColumns(upload.preparation))
+        .eq('id', upload.destination!.variationId);
+    if (error) console.error(`[UploadRunner] Failed to record how ${upload.file.name} was prepared:`, error);
+};
+
+// Creates or updates the rows for an uploaded file; files of a new version wait for the rest of their batch
+const linkUpload = async (id: string, destination: UploadDestination, { supabase, queryClient }: RunnerContext) => {
+    const { target, file, preparation } = getUpload(id)!;
+    updateUpload(id, { status: 'processing' });
+    if (target.kind === 'version') return;
+
+    if (target.kind === 'design') {
+        const designName = file.name.substring(0, file.name.lastIndexOf('.')) || file.name;
+        await commitDesignHierarchy({
+            projectId: target.projectId,
+            designId: destination.designId,
+            designName,
+            uploads: [destination],
+        });
+        await recordPreparation(supabase, getUpload(id)!);
+        toast.success(`Design "${designName}" created from ${file.name}.`);
+    } else if (target.kind === 'variation') {
+        await createVariationRecord(target, destination, preparation);
+        toast.success(`${file.name} uploaded successfully!`);
+    } else {
+        await linkVariationFile({ ...destination, projectId: target.projectId, replace: true, preparation });
+        toast.success(`${file.name} uploaded successfully!`);
+    }
+    updateUpload(id, { linked: true });
+    invalidateVariation(queryClient, target, destination);
+    await requestProcessing(id);
+};
+
+const committingBatches = new Set<string>();
+
+// Commits the batch's new versions (and new design) with its uploaded files once none is still in flight. Files that
+// didn't make it are added to their version as new variations if they're retried, or become a new version of
+// their own when none of their version's files made it.
+const settleBatch = async (target: VersionTarget, { supabase, queryClient }: RunnerContext) => {
+    if (committingBatches.has(target.batchId)) return;
+    const batch = getBatchUploads(target.batchId);
+    if (batch.some(upload => ['pending', 'checking', 'uploading', 'paused'].includes(upload.status))) return;
+    // Includes files whose earlier commit failed, so retrying one of them commits them all
+    // Versions are numbered in the order they're committed
+    const waiting = batch
+        .filter(upload => upload.uploaded && !upload.linked)
+        .sort((a, b) => getVersionIndex(a) - getVersionIndex(b));
+    if (waiting.length === 0) return;
+
+    committingBatches.add(target.batchId);
+    try {
+        const committed = await commitDesignHierarchy({
+            projectId: target.projectId,
+            designId: waiting[0].destination!.designId,
+            designName: target.designName,
+            uploads: waiting.map(upload => upload.destination!),
+        });
+        const designId = committed.design.id;
+        const createdVersionIds = new Set(committed.versions.map(version => version.id));
+        waiting.forEach(upload => updateUpload(upload.id, { linked: true, status: 'processing', error: undefined }));
+        await Promise.all(waiting.map(upload => recordPreparation(supabase, upload)));
+        batch.filter(upload => !upload.uploaded).forEach(upload => {
+            const versionId = upload.destination?.versionId;
+            updateUpload(upload.id, {
+                target: versionId && createdVersionIds.has(versionId)
+                    ? { kind: 'variation', projectId: target.projectId, designId, versionId }
+                    : { kind: 'version', projectId: target.projectId, designId, batchId: `${target.batchId}:${getVersionIndex(upload)}` },
+                destination: undefined,
+            });
+        });
+        const versionNumbers = committed.versions.map(version => `V${version.version_number}`).join(', ');
+        toast.success(target.designName
+            ? `Design "${committed.design.name}" created with ${versionNumbers} and ${committed.variations.length} variation(s).`
+            : `${versionNumbers} created with ${committed.variations.length} variation(s).`);
+        invalidateVariation(queryClient, target, waiting[0].destination!);
+        await Promise.all(waiting.map(upload => requestProcessing(upload.id)));
+    } catch (error: unknown) {
+        const message = error instanceof Error ? error.message : 'Failed to create version';
+        console.error(`[UploadRunner] Failed to commit version batch ${target.batchId}:`, error);
+        waiting.forEach(upload => updateUpload(upload.id, { status: 'error', error: message }));
+    } finally {
+        committingBatches.delete(target.batchId);
+    }
+};
+
+const runSteps = async (upload: UploadingFileInfo, context: RunnerContext) => {
+    const { id } = upload;
+    if (!upload.checked && !(await checkFile(id, context))) return;
+    const destination = upload.destination ?? await reserveDestination(upload);
+    updateUpload(id, { destination });
+    if (!upload.uploaded) await sendFile(id, destination, context);
+    if (upload.linked) await requestProcessing(id);
+    else await linkUpload(id, destination, context);
+};
+
+const runUpload = async (id: string, context: RunnerContext) => {
+    const upload = getUpload(id);
+    if (!upload) return;
+    try {
+        await runSteps(upload, context);
+    } catch (error: unknown) {
+        const message = error instanceof Error ? error.message : 'Upload failed';
+        if (message === UPLOAD_CANCELLED_MESSAGE) {
+            updateUpload(id, { status: 'cancelled', progress: 0 });
+        } else {
+            console.error(`[UploadRunner] Upload of ${upload.file.name} failed:`, error);
+            updateUpload(id, { status: 'error', error: message });
+        }
+    }
+    // The batch may have been waiting on this file, whether it finished, failed, was cancelled or is held as a duplicate
+    const target = getUpload(id)?.target;
+    if (target?.kind === 'version') await settleBatch(target, context);
+};
+
+/**
+ * Works through the upload queue: starts pending uploads while fewer than MAX_CONCURRENT_UPLOADS are sending, and
+ * warns before the page is closed with uploads still running. Mount once, app-wide (the upload tray does).
+ */
+export const useUploadRunner = () => {
+    const { supabase } = useAuth();
+    const queryClient = useQueryClient();
+    const uploads = useUploadStore(state => state.uploads);
+
+    useEffect(() => {
+        if (!supabase) return;
+        const sending = uploads.filter(upload => upload.status === 'checking' || upload.status === 'uploading').length;
+        uploads
+            .filter(upload => upload.status === 'pending')
+            .slice(0, Math.max(0, MAX_CONCURRENT_UPLOADS - sending))
+            .forEach(upload => {
+                updateUpload(upload.id, { status: upload.checked ? 'uploading' : 'checking' });
+                void runUpload(upload.id, { supabase, queryClient });
+            });
+    }, [uploads, supabase, queryClient]);
+
+    const hasRunningUploads = uploads.some(upload => ['pending', 'checking', 'uploading', 'paused', 'processing'].includes(upload.status));
+    useEffect(() => {
+        if (!hasRunningUploads) return;
+        const warnBeforeUnload = (event: BeforeUnloadEvent) => event.preventDefault();
+        window.addEventListener('beforeunload', warnBeforeUnload);
+        return () => window.removeEventListener('beforeunload', warnBeforeUnload);
+    }, [hasRunningUploads]);
+};
@@ -0,0 +1,167 @@
+import * as fabric from 'fabric';
+import { jsPDF } from 'jspdf';
+import type { Comment } from '@/types/models';
+import { getCommentPins } from './commentPins';
+
+export type AnnotatedImageOptions = {
+    imageUrl: string; // Usually the LARGE_WIDTH rendition from getProcessedImagePath
+    layers: string[]; // Annotation layers as fabric JSON ({ version, objects }), drawn in order
+    comments: Comment[]; // Root comments with coordinates become numbered markers
+};
+
+export type LegendEntry = {
+    number: number;
+    author: string;
+    content: string;
+    replyCount: number;
+};
+
+const PIN_COLOR = '#2563eb';
+
+/**
+ * Builds the numbered legend for a variation's pinned comments.
+ * Numbers match the markers drawn by renderAnnotatedImage and shown by CommentPinLayer.
+ */
+export function buildCommentLegend(comments: Comment[]): LegendEntry[] {
+    const commentsById = new Map(comments.map(comment => [comment.id, comment]));
+    return getCommentPins(comments).map(pin => {
+        const comment = commentsById.get(pin.commentId);
+        return {
+            number: pin.number,
+            author: comment?.profiles?.display_name || 'Unknown User',
+            content: comment?.content ?? '',
+            replyCount: comments.filter(reply => reply.parent_comment_id === pin.commentId).length,
+        };
+    });
+}
+
+const buildPinMarker = (number: number, left: number, top: number, radius: number): fabric.Group => {
+    const circle = new fabric.Circle({
+        radius,
+        fill: PIN_COLOR,
+        stroke: '#ffffff',
+        strokeWidth: Math.max(2, radius / 6),
+        originX: 'center',
+        originY: 'center',
+    });
+    const label = new fabric.FabricText(String(number), {
+        fontFamily: 'Arial',
+        fontWeight: 'bold',
+        fontSize: radius,
+        fill: '#ffffff',
+        originX: 'center',
+        originY: 'center',
+    });
+    return new fabric.Group([circle, label], { left, top, originX: 'center', originY: 'center' });
+};
+
+/**
+ * Flattens the image, annotation layers and comment markers into a single canvas-sized PNG.
+ *
+ * @returns A PNG data URL plus the output size in pixels.
+ */
+export async function renderAnnotatedImage({ imageUrl, layers, comments }: AnnotatedImageOptions): Promise<{ dataUrl: string; width: number; height: number }> {
+    const image = await fabric.FabricImage.fromURL(imageUrl, { crossOrigin: 'anonymous' });
+    const width = image.width;
+    const height = image.height;
+    if (!width || !height) {
+        throw new Error('Image has invalid dimensions and cannot be exported.');
+    }
+
+    const canvas = new fabric.StaticCanvas(undefined, { width, height, renderOnAddRemove: false });
+    try {
+        image.set({ originX: 'left', originY: 'top' });
+        canvas.backgroundImage = image;
+
+        for (const layer of layers) {
+            const parsed = JSON.parse(layer);
+            const objects = await fabric.util.enlivenObjects<fabric.FabricObject>(Array.isArray(parsed?.objects) ? parsed.objects : []);
+            objects.forEach(obj => canvas.add(obj));
+        }
+
+        // Same positions as CommentPinLayer: pins are stored as fractions of the image size
+        const radius = Math.max(12, Math.round(width * 0.015));
+        getCommentPins(comments).forEach(pin => {
+            canvas.add(buildPinMarker(pin.number, pin.x * width, pin.y * height, radius));
+        });
+
+        canvas.renderAll();
+        return { dataUrl: canvas.toDataURL({ format: 'png', multiplier: 1 }), width, height };
+    } finally {
+        canvas.dispose();
+    }
+}
+
+/**
+ * Builds a PDF with the flattened image on the first page and the numbered comment legend after it.
+ */
+export function buildAnnotatedPdf(
+    image: { dataUrl: string; width: number; height: number },
+    legend: LegendEntry[],
+    title: string,
+): jsPDF {
+    // First page is sized to the image so nothing is rescaled
+    const pdf = new jsPDF({
+        orientation: image.width >= image.height ? 'landscape' : 'portrait',
+        unit: 'pt',
+        format: [image.width, image.height],
+    });
+    pdf.addImage(image.dataUrl, 'PNG', 0, 0, image.width, image.height);
+
+    pdf.addPage('a4', 'portrait');
+    const margin = 48;
+    const pageWidth = pdf.internal.pageSize.getWidth();
+    const pageHeight = pdf.internal.pageSize.getHeight();
+    const textWidth = pageWidth - margin * 2;
+    let y = margin;
+
+    const ensureSpace = (needed: number) => {
+        if (y + needed > pageHeight - margin) {
+            pdf.addPage('a4', 'portrait');
+            y = margin;
+        }
+    };
+
+    pdf.setFont('helvetica', 'bold');
+    pdf.setFontSize(16);
+    pdf.text(title, margin, y);
+    y += 28;
+
+    if (legend.length === 0) {
+        pdf.setFont('helvetica', 'italic');
+        pdf.setFontSize(11);
+        pdf.text('No pinned comments on this variation.', margin, y);
+        return pdf;
+    }
+
+    legend.forEach(entry => {
+        const replies = entry.replyCount > 0 ? ` (${entry.replyCount} ${entry.replyCount === 1 ? 'reply' : 'replies'})` : '';
+        const lines: string[] = pdf.splitTextToSize(entry.content, textWidth - 24);
+        ensureSpace(18 + lines.length * 14);
+
+        pdf.setFont('helvetica', 'bold');
+        pdf.setFontSize(11);
+        pdf.text(`#${entry.number}  ${entry.author}${replies}`, margin, y);
+        y += 16;
+
+        pdf.setFont('helvetica', 'normal');
+        pdf.setFontSize(10);
+        lines.forEach(line => {
+            ensureSpace(14);
+            pdf.text(line, margin + 24, y);
+            y += 14;
+        });
+        y += 10;
+    });
+
+    return pdf;
+}
+
+export function downloadDataUrl(dataUrl: string, fileName: string): void {
+    const link = document.createElement('a');
+    link.href = dataUrl;
+    link.download = fileName;
+    document.body.appendChild(link);
+    link.click();
+    link.remove();
+}
@@ -0,0 +1,45 @@
+import { createHistory, pushHistory, redoHistory, undoHistory } from './annotationHistory';
+
+describe('annotationHistory', () => {
+    it('should step back and forward through snapshots', () => {
+        let history = createHistory('a');
+        history = pushHistory(history, 'b');
+        history = pushHistory(history, 'c');
+
+        history = undoHistory(history);
+        expect(history.present).toBe('b');
+        history = undoHistory(history);
+        expect(history.present).toBe('a');
+        history = redoHistory(history);
+        expect(history.present).toBe('b');
+        expect(history.future).toEqual(['c']);
+    });
+
+    it('should clear the redo stack on a new edit', () => {
+        let history = pushHistory(createHistory('a'), 'b');
+        history = undoHistory(history);
+        history = pushHistory(history, 'c');
+        expect(history.future).toEqual([]);
+        expect(history.past).toEqual(['a']);
+    });
+
+    it('should ignore snapshots identical to the present one', () => {
+        const history = createHistory('a');
+        expect(pushHistory(history, 'a')).toBe(history);
+    });
+
+    it('should drop the oldest entries beyond the limit', () => {
+        let history = createHistory('0');
+        ['1', '2', '3', '4'].forEach(snapshot => {
+            history = pushHistory(history, snapshot, 2);
+        });
+        expect(history.past).toEqual(['2', '3']);
+        expect(history.present).toBe('4');
+    });
+
+    it('should do nothing when there is nothing to undo or redo', () => {
+        const history = createHistory('a');
+        expect(undoHistory(history)).toBe(history);
+        expect(redoHistory(history)).toBe(history);
+    });
+});
@@ -0,0 +1,57 @@
+import { ANNOTATION_HISTORY_LIMIT } from './constants/annotationConstants';
+
+/**
+ * Undo/redo stacks of serialized annotation layers.
+ * Each entry is a full snapshot, so restoring never depends on replaying operations.
+ */
+export type AnnotationHistory = {
+    past: string[];
+    present: string | null;
+    future: string[];
+};
+
+export function createHistory(present: string | null = null): AnnotationHistory {
+    return { past: [], present, future: [] };
+}
+
+/**
+ * Records a new snapshot. Clears the redo stack and drops the oldest entries beyond the limit.
+ *
+ * @param history - The current history.
+ * @param snapshot - The serialized layer after the edit.
+ * @param limit - Maximum number of undo steps to keep.
+ * @returns The updated history (unchanged if the snapshot equals the present one).
+ */
+export function pushHistory(
+    history: AnnotationHistory,
+    snapshot: string,
+    limit: number = ANNOTATION_HISTORY_LIMIT,
+): AnnotationHistory {
+    if (snapshot === history.present) return history;
+    const past = history.present === null ? history.past : [...history.past, history.present];
+    return {
+        past: past.slice(Math.max(0, past.length - limit)),
+        present: snapshot,
+        future: [],
+    };
+}
+
+export function undoHistory(history: AnnotationHistory): AnnotationHistory {
+    if (history.past.length === 0) return history;
+    const previous = history.past[history.past.length - 1];
+    return {
+        past: history.past.slice(0, -1),
+        present: previous,
+        future: history.present === null ? history.future : [history.present, ...history.future],
+    };
+}
+
+export function redoHistory(history: AnnotationHistory): AnnotationHistory {
+    if (history.future.length === 0) return history;
+    const [next, ...future] = history.future;
+    return {
+        past: history.present === null ? history.past : [...history.past, history.present],
+        present: next,
+        future,
+    };
+}
@@ -0,0 +1,45 @@
+import { extractPalette, isHexColor, toHexColor } from './colorPalette';
+
+const pixelsOf = (...colors: [number, number, number, number][]) => new Uint8Array(colors.flat());
+
+describe('toHexColor', () => {
+    it('should format and round channels', () => {
+        expect(toHexColor(255, 0, 127.6)).toBe('#ff0080');
+    });
+});
+
+describe('isHexColor', () => {
+    it('should only accept #rrggbb', () => {
+        expect(isHexColor('#1A2b3c')).toBe(true);
+        expect(isHexColor('#fff')).toBe(false);
+        expect(isHexColor('red')).toBe(false);
+        expect(isHexColor(null)).toBe(false);
+    });
+});
+
+describe('extractPalette', () => {
+    it('should order colors by coverage with percentages', () => {
+        const red: [number, number, number, number] = [255, 0, 0, 255];
+        const blue: [number, number, number, number] = [0, 0, 255, 255];
+        expect(extractPalette(pixelsOf(red, red, red, blue), 4, 5)).toEqual([
+            { hex: '#ff0000', percentage: 75 },
+            { hex: '#0000ff', percentage: 25 },
+        ]);
+    });
+
+    it('should merge near shades into one color', () => {
+        const palette = extractPalette(new Uint8Array([200, 10, 10, 210, 20, 20, 0, 0, 0]), 3, 5);
+        expect(palette).toHaveLength(2);
+        expect(palette[0]).toEqual({ hex: '#cd0f0f', percentage: 66.7 });
+    });
+
+    it('should skip transparent pixels and cap the number of colors', () => {
+        const palette = extractPalette(pixelsOf([255, 255, 255, 0], [0, 0, 0, 255], [255, 0, 0, 255], [0, 255, 0, 255]), 4, 2);
+        expect(palette).toHaveLength(2);
+        expect(palette.every(color => color.hex !== '#ffffff')).toBe(true);
+    });
+
+    it('should return nothing for a fully transparent image', () => {
+        expect(extractPalette(pixelsOf([0, 0, 0, 0]), 4, 5)).toEqual([]);
+    });
+});
@@ -0,0 +1,71 @@
+import type { PaletteColor } from '@/types/models';
+
+// Colors are first counted in 4-bit-per-channel bins (4096 of them), then bins that look alike are merged
+const BIN_SHIFT = 4;
+// Euclidean RGB distance under which two bins count as the same color
+const MERGE_DISTANCE = 48;
+// Pixels more transparent than this don't count towards the palette
+const MIN_ALPHA = 128;
+
+type ColorBin = { r: number; g: number; b: number; count: number };
+
+/** Formats 0-255 channels as a lowercase #rrggbb string. */
+export function toHexColor(r: number, g: number, b: number): string {
+    return '#' + [r, g, b].map(channel => Math.round(channel).toString(16).padStart(2, '0')).join('');
+}
+
+/** Whether a value is a #rrggbb color, the format palettes and swatch comments store. */
+export function isHexColor(value: unknown): value is string {
+    return typeof value === 'string' && /^#[0-9a-f]{6}$/i.test(value);
+}
+
+const distance = (a: ColorBin, b: ColorBin) => Math.hypot(a.r - b.r, a.g - b.g, a.b - b.b);
+
+/**
+ * Works out the main colors of an image and how much of it each one covers.
+ *
+ * @param pixels - Raw interleaved pixel data (RGB or RGBA), e.g. from sharp's `.raw()` output of a downscaled copy.
+ * @param channels - 3 for RGB, 4 for RGBA.
+ * @param maxColors - How many colors to return at most.
+ * @returns Colors ordered by coverage; percentages are of the counted pixels, rounded to one decimal.
+ */
+export function extractPalette(pixels: Uint8Array, channels: 3 | 4, maxColors: number): PaletteColor[] {
+    const bins = new Map<number, ColorBin>();
+    let total = 0;
+    for (let i = 0; i + channels <= pixels.length; i += channels) {
+        if (channels === 4 && pixels[i + 3] < MIN_ALPHA) continue;
+        const [r, g, b] = [pixels[i], pixels[i + 1], pixels[i + 2]];
+        const key = ((r >> BIN_SHIFT) << 8) | ((g >> BIN_SHIFT) << 4) | (b >> BIN_SHIFT);
+        const bin = bins.get(key) ?? { r: 0, g: 0, b: 0, count: 0 };
+        bin.r += r;
+        bin.g += g;
+        bin.b += b;
+        bin.count++;
+        bins.set(key, bin);
+        total++;
+    }
+    if (total === 0) return [];
+
+    // Largest bins first, each absorbing the smaller bins close to its average color
+    const averaged = [...bins.values()]
+        .map(bin => ({ r: bin.r / bin.count, g: bin.g / bin.count, b: bin.b / bin.count, count: bin.count }))
+        .sort((a, b) => b.count - a.count);
+    const merged: ColorBin[] = [];
+    for (const bin of averaged) {
+        const match = merged.find(existing => distance(existing, bin) < MERGE_DISTANCE);
+        if (!match) {
+            merged.push({ ...bin });
+            continue;
+        }
+        const count = match.count + bin.count;
+        match.r = (match.r * match.count + bin.r * bin.count) / count;
+        match.g = (match.g * match.count + bin.g * bin.count) / count;
+        match.b = (match.b * match.count + bin.b * bin.count) / count;
+        match.count = count;
+    }
+
+    return merged
+        .sort((a, b) => b.count - a.count)
+        .slice(0, maxColors)
+        .map(color => ({ hex: toHexColor(color.r, color.g, color.b), percentage: Math.round((color.count / total) * 1000) / 10 }));
+}
@@ -0,0 +1,53 @@
+import type { Comment } from '@/types/models';
+import { getCommentPins, getNormalizedPoint } from './commentPins';
+
+const makeComment = (overrides: Partial<Comment>): Comment => ({
+    id: 'c1',
+    variation_id: 'v1',
+    user_id: 'u1',
+    content: 'Looks good',
+    parent_comment_id: null,
+    x_coordinate: null,
+    y_coordinate: null,
+    created_at: '2024-01-01T00:00:00Z',
+    ...overrides,
+} as Comment);
+
+describe('commentPins', () => {
+    describe('getNormalizedPoint', () => {
+        it('should normalize a point relative to the image rect', () => {
+            const rect = { left: 100, top: 50, width: 400, height: 200 };
+            expect(getNormalizedPoint(300, 100, rect)).toEqual({ x: 0.5, y: 0.25 });
+        });
+
+        it('should clamp points outside the image to its edges', () => {
+            const rect = { left: 0, top: 0, width: 100, height: 100 };
+            expect(getNormalizedPoint(-20, 150, rect)).toEqual({ x: 0, y: 1 });
+        });
+
+        it('should return null for an empty rect', () => {
+            expect(getNormalizedPoint(10, 10, { left: 0, top: 0, width: 0, height: 100 })).toBeNull();
+        });
+    });
+
+    describe('getCommentPins', () => {
+        it('should number pinned top-level comments by creation time', () => {
+            const comments = [
+                makeComment({ id: 'late', x_coordinate: 0.9, y_coordinate: 0.9, created_at: '2024-01-03T00:00:00Z' }),
+                makeComment({ id: 'early', x_coordinate: 0.1, y_coordinate: 0.2, created_at: '2024-01-01T00:00:00Z' }),
+            ];
+            expect(getCommentPins(comments)).toEqual([
+                { commentId: 'early', x: 0.1, y: 0.2, number: 1 },
+                { commentId: 'late', x: 0.9, y: 0.9, number: 2 },
+            ]);
+        });
+
+        it('should skip replies and comments without coordinates', () => {
+            const comments = [
+                makeComment({ id: 'unpinned' }),
+                makeComment({ id: 'reply', parent_comment_id: 'root', x_coordinate: 0.5, y_coordinate: 0.5 }),
+            ];
+            expect(getCommentPins(comments)).toEqual([]);
+        });
+    });
+});
@@ -0,0 +1,61 @@
+import type { Comment } from '@/types/models';
+
+/**
+ * A point on an image, stored as a fraction (0-1) of the image's width and height.
+ * Normalized coordinates stay valid across every processed rendition (200/800/1200px).
+ */
+export type PinPoint = {
+    x: number;
+    y: number;
+};
+
+export type CommentPin = PinPoint & {
+    commentId: string;
+    number: number; // 1-based label shown on the pin and its thread
+};
+
+const clampUnit = (value: number): number => Math.min(1, Math.max(0, value));
+
+/**
+ * Converts a pointer position into normalized image coordinates.
+ *
+ * @param clientX - Pointer X in viewport pixels.
+ * @param clientY - Pointer Y in viewport pixels.
+ * @param rect - The bounding rect of the rendered image (e.g. from getBoundingClientRect()).
+ * @returns The clamped, normalized point, or null if the rect has no area.
+ */
+export function getNormalizedPoint(
+    clientX: number,
+    clientY: number,
+    rect: { left: number; top: number; width: number; height: number },
+): PinPoint | null {
+    if (rect.width <= 0 || rect.height <= 0) return null;
+    return {
+        x: clampUnit((clientX - rect.left) / rect.width),
+        y: clampUnit((clientY - rect.top) / rect.height),
+    };
+}
+
+/**
+ * Builds the numbered pin list for a variation's comments.
+ * Only top-level comments can be pinned; replies belong to their parent's pin.
+ * Pins are numbered in the order their threads were started.
+ *
+ * @param comments - Flat list of comments for a single variation.
+ * @returns Pins sorted by number.
+ */
+export function getCommentPins(comments: Comment[]): CommentPin[] {
+    return comments
+        .filter(comment =>
+            !comment.parent_comment_id &&
+            comment.x_coordinate !== null && comment.x_coordinate !== undefined &&
+            comment.y_coordinate !== null && comment.y_coordinate !== undefined
+        )
+        .sort((a, b) => new Date(a.created_at).getTime() - new Date(b.created_at).getTime())
+        .map((comment, index) => ({
+            commentId: comment.id,
+            x: clampUnit(comment.x_coordinate as number),
+            y: clampUnit(comment.y_coordinate as number),
+            number: index + 1,
+        }));
+}
@@ -0,0 +1,15 @@
+// webapp/lib/constants/annotationConstants.ts
+
+// Custom property saved on every fabric object so comments can point at a single shape
+export const ANNOTATION_SHAPE_ID_PROP = 'annotationId';
+
+// Runtime-only property marking objects that belong to another reviewer's (read-only) layer
+export const ANNOTATION_LAYER_ID_PROP = 'annotationLayerId';
+
+// Saved on shapes built from primitives (arrows, blur boxes, measurements) so they can be recognised after reload
+export const ANNOTATION_KIND_PROP = 'annotationKind';
+
+export const BLUR_BOX_BLUR_AMOUNT = 0.8;
+
+// Undo steps kept per editing session
+export const ANNOTATION_HISTORY_LIMIT = 50;
@@ -1,15 +1,50 @@
 // webapp/lib/constants/imageConstants.ts
 
-export const SUPPORTED_IMAGE_FORMATS = ['jpeg', 'jpg', 'png', 'webp', 'gif'];
+export const SUPPORTED_IMAGE_FORMATS = ['jpeg', 'jpg', 'png', 'webp', 'gif', 'svg', 'pdf', 'psd', 'ai', 'mp4', 'webm', 'mov'];
+
+// Formats that are rasterized before resizing (see lib/server/documentRasterizer.ts); PDF and AI can have several pages
+export const DOCUMENT_FORMATS = ['svg', 'pdf', 'psd', 'ai'];
+export const MAX_DOCUMENT_PAGES = 50;
+
+// Formats that can animate: the standard renditions are a static poster of the first frame, plus one animated preview
+export const ANIMATED_FORMATS = ['gif', 'webp'];
+export const ANIMATED_PREVIEW_WIDTH = 480;
+export const ANIMATED_PREVIEW_MAX_FRAMES = 150;
+
+// Motion-design deliverables: the standard renditions are a poster frame and viewers play the original
+export const VIDEO_FORMATS = ['mp4', 'webm', 'mov'];
 
 export const DEFAULT_IMAGE_QUALITY = 75;
+// AVIF holds up at a lower quality setting than WebP for a similar look; effort trades encode time for size (0-9)
+export const DEFAULT_AVIF_QUALITY = 50;
+export const AVIF_EFFORT = 2;
 
 export const THUMBNAIL_WIDTH = 200;
+export const SMALL_WIDTH = 400;
 export const MEDIUM_WIDTH = 800;
 export const LARGE_WIDTH = 1200;
+export const XLARGE_WIDTH = 1600;
+
+// Every width and format the rendition pipeline writes per page, listed in each file's rendition manifest
+export const RENDITION_WIDTHS = [THUMBNAIL_WIDTH, SMALL_WIDTH, MEDIUM_WIDTH, LARGE_WIDTH, XLARGE_WIDTH] as const;
+export const RENDITION_FORMATS = ['avif', 'webp'] as const;
+export type RenditionWidth = (typeof RENDITION_WIDTHS)[number];
+
+// Width of the blurred LQIP placeholder stored as a data URL with each processed file
+export const PLACEHOLDER_WIDTH = 16;
+// Most colors kept in a file's palette (swatch feedback)
+export const PALETTE_SIZE = 6;
+// Renditions written before the manifest existed: WebP only, at these widths (GIFs were copied instead)
+export const LEGACY_RENDITION_WIDTHS = [THUMBNAIL_WIDTH, MEDIUM_WIDTH, LARGE_WIDTH] as const;
 
 // Example storage paths (adjust based on your Supabase setup)
 export const RAW_UPLOADS_PATH = 'uploads';
 export const PROCESSED_IMAGES_PATH = 'processed/images';
 
-export const IMAGE_PROCESSING_FUNCTION_NAME = 'image-processor'; 
\ No newline at end of file
+export const IMAGE_PROCESSING_FUNCTION_NAME = 'image-processor'; 
+
+// Pixel diff: a pixel counts as changed when any channel differs by more than this (0-255)
+export const DIFF_CHANNEL_THRESHOLD = 32;
+
+// Storage reconciliation skips objects newer than this, so uploads that haven't been committed yet aren't flagged
+export const ORPHAN_GRACE_PERIOD_HOURS = 24;
@@ -0,0 +1,111 @@
+// webapp/lib/designHierarchy.ts
+// Client side of /api/design-hierarchy. Creating a design or version is a two-step flow:
+//   1. prepare: the server picks the ids and hands back the final storage paths
+//   2. commit:  after the uploads, the server inserts design/version/variations in one transaction
+// Nothing is written to the database until commit, so a failed upload leaves no orphan rows. One commit can create
+// several versions of a design at once (e.g. a dropped folder per design with v1/v2 subfolders).
+// Uploads interrupted by a reload keep their reserved ids (see lib/resumableUpload.ts) and can be committed later.
+// Files added to an existing version (new variations and replacements) are linked through the server as well, so
+// every upload is checked against the upload policy before a variation points at it.
+import type { Design, Version, Variation } from '@/types/models';
+import type { ImagePreparation } from '@/lib/imagePreparation';
+import { findInterruptedUpload } from '@/lib/resumableUpload';
+
+export type PreparedUpload = {
+    versionId: string;
+    variationId: string;
+    fileName: string;
+    filePath: string;
+};
+
+export type PreparedHierarchy = {
+    designId: string;
+    versionIds: string[]; // In the order the versions are numbered
+    uploads: PreparedUpload[];
+};
+
+export type CommittedHierarchy = {
+    design: Design;
+    version: Version; // The first of the new versions
+    versions: Version[];
+    variations: Variation[]; // Of all the new versions
+};
+
+export function buildVariationFilePath(projectId: string, designId: string, versionId: string, variationId: string, fileName: string): string {
+    return `projects/${projectId}/designs/${designId}/versions/${versionId}/variations/${variationId}/${fileName}`;
+}
+
+// A replacement file goes into a folder of its own, so the previous file (and its renditions) is kept as a revision
+// even when both have the same name
+export function buildVariationRevisionPath(projectId: string, designId: string, versionId: string, variationId: string, fileName: string): string {
+    return buildVariationFilePath(projectId, designId, versionId, variationId, `revisions/${Date.now()}/${fileName}`);
+}
+
+async function postJson<T>(url: string, body: unknown): Promise<T> {
+    const response = await fetch(url, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+    });
+    const payload = await response.json().catch(() => ({}));
+    if (!response.ok) {
+        throw new Error(payload.details || payload.error || `Request failed with status ${response.status}`);
+    }
+    return payload as T;
+}
+
+/**
+ * Reserves ids and upload paths. Pass designId to add versions to an existing design. All files go to one new
+ * version unless versionIndexes assigns each file to one of several (0, 1, ...).
+ */
+export function prepareDesignHierarchy(params: { projectId: string; designId?: string; fileNames: string[]; versionIndexes?: number[] }): Promise<PreparedHierarchy> {
+    return postJson<PreparedHierarchy>('/api/design-hierarchy/prepare', params);
+}
+
+/**
+ * Creates the rows for the uploads that completed. Pass designName to create the design as well.
+ * Versions are numbered in the order they first appear in uploads, and each version's variation letters follow
+ * the order of its uploads.
+ */
+export function commitDesignHierarchy(params: {
+    projectId: string;
+    designId: string;
+    designName?: string;
+    uploads: Pick<PreparedUpload, 'versionId' | 'variationId' | 'filePath'>[];
+}): Promise<CommittedHierarchy> {
+    return postJson<CommittedHierarchy>('/api/design-hierarchy/commit', params);
+}
+
+/**
+ * Makes an uploaded file a new variation of an existing version, or with replace the new file of the variation.
+ * The server checks the stored file against the upload policy first and removes it if it's refused.
+ */
+export function linkVariationFile(params: {
+    projectId: string;
+    designId: string;
+    versionId: string;
+    variationId: string;
+    filePath: string;
+    replace?: boolean;
+    notes?: string | null;
+    preparation?: ImagePreparation | null;
+}): Promise<Variation> {
+    return postJson<Variation>('/api/design-hierarchy/link', params);
+}
+
+/**
+ * The hierarchy reserved by an earlier, interrupted upload of exactly these files, so uploading them again resumes
+ * into the same paths. Null unless every file was part of an upload to the same design.
+ */
+export function findInterruptedHierarchy(scope: string, files: File[]): PreparedHierarchy | null {
+    const records = files.map(file => findInterruptedUpload(scope, file));
+    const designId = records[0]?.context.designId;
+    if (!designId || records.some(record => record?.context.designId !== designId)) return null;
+    const uploads = records.map(record => ({
+        versionId: record!.context.versionId,
+        variationId: record!.context.variationId,
+        fileName: record!.fileName,
+        filePath: record!.objectPath,
+    }));
+    return { designId, versionIds: [...new Set(uploads.map(upload => upload.versionId))], uploads };
+}
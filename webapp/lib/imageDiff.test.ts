@@ -0,0 +1,35 @@
+import { computePixelDiff } from './imageDiff';
+
+const pixels = (...values: number[][]) => new Uint8Array(values.flat());
+
+describe('computePixelDiff', () => {
+    it('should report no changes for identical images', () => {
+        const image = pixels([10, 20, 30, 255], [40, 50, 60, 255]);
+        const result = computePixelDiff(image, image.slice());
+        expect(result.changedPixels).toBe(0);
+        expect(result.changedPercent).toBe(0);
+        expect(Array.from(result.overlay)).toEqual([0, 0, 0, 0, 0, 0, 0, 0]);
+    });
+
+    it('should ignore differences within the threshold', () => {
+        const base = pixels([100, 100, 100, 255]);
+        const compare = pixels([110, 95, 100, 255]);
+        expect(computePixelDiff(base, compare, 32).changedPixels).toBe(0);
+    });
+
+    it('should mark changed pixels and compute the percentage', () => {
+        const base = pixels([0, 0, 0, 255], [0, 0, 0, 255], [0, 0, 0, 255], [0, 0, 0, 255]);
+        const compare = pixels([255, 255, 255, 255], [0, 0, 0, 255], [0, 0, 0, 255], [0, 0, 0, 255]);
+        const result = computePixelDiff(base, compare);
+        expect(result.changedPixels).toBe(1);
+        expect(result.totalPixels).toBe(4);
+        expect(result.changedPercent).toBe(25);
+        expect(result.overlay[0]).toBe(255);
+        expect(result.overlay[3]).toBe(255);
+        expect(result.overlay[7]).toBe(0);
+    });
+
+    it('should reject buffers of different sizes', () => {
+        expect(() => computePixelDiff(pixels([0, 0, 0, 0]), pixels([0, 0, 0, 0], [0, 0, 0, 0]))).toThrow();
+    });
+});
@@ -0,0 +1,53 @@
+import { DIFF_CHANNEL_THRESHOLD } from './constants/imageConstants';
+
+export type PixelDiffResult = {
+    overlay: Uint8Array; // RGBA heat map, same size as the inputs; unchanged pixels are fully transparent
+    changedPixels: number;
+    totalPixels: number;
+    changedPercent: number; // 0-100, rounded to two decimals
+};
+
+/**
+ * Compares two equally sized RGBA buffers pixel by pixel.
+ * Changed pixels are painted red in the overlay, more opaque the bigger the difference.
+ *
+ * @param base - RGBA pixels of the earlier image.
+ * @param compare - RGBA pixels of the later image (already resized to the base dimensions).
+ * @param threshold - Largest per-channel difference still treated as unchanged (absorbs compression noise).
+ */
+export function computePixelDiff(
+    base: Uint8Array,
+    compare: Uint8Array,
+    threshold: number = DIFF_CHANNEL_THRESHOLD,
+): PixelDiffResult {
+    if (base.length !== compare.length || base.length % 4 !== 0) {
+        throw new Error('Images must be RGBA buffers of the same size to be compared.');
+    }
+
+    const totalPixels = base.length / 4;
+    const overlay = new Uint8Array(base.length);
+    let changedPixels = 0;
+
+    for (let i = 0; i < base.length; i += 4) {
+        const difference = Math.max(
+            Math.abs(base[i] - compare[i]),
+            Math.abs(base[i + 1] - compare[i + 1]),
+            Math.abs(base[i + 2] - compare[i + 2]),
+            Math.abs(base[i + 3] - compare[i + 3]),
+        );
+        if (difference <= threshold) continue;
+
+        changedPixels++;
+        overlay[i] = 255;
+        overlay[i + 1] = Math.round(96 * (1 - difference / 255)); // Small changes lean orange, large ones pure red
+        overlay[i + 2] = 0;
+        overlay[i + 3] = Math.round(128 + 127 * (difference / 255));
+    }
+
+    return {
+        overlay,
+        changedPixels,
+        totalPixels,
+        changedPercent: totalPixels > 0 ? Math.round((changedPixels / totalPixels) * 10000) / 100 : 0,
+    };
+}
@@ -0,0 +1,53 @@
+import { getScaledSize, readJpegOrientation, stripJpegMetadata, stripPngMetadata } from './imagePreparation';
+
+const ascii = (text: string) => Array.from(text, char => char.charCodeAt(0));
+
+// SOI, a JFIF APP0 segment, an EXIF APP1 segment with the given orientation, then the scan and EOI
+const jpegWithOrientation = (orientation: number) => new Uint8Array([
+    0xff, 0xd8,
+    0xff, 0xe0, 0x00, 0x04, 0x4a, 0x46,
+    0xff, 0xe1, 0x00, 0x22, ...ascii('Exif\0\0'),
+    ...ascii('MM'), 0x00, 0x2a, 0x00, 0x00, 0x00, 0x08,
+    0x00, 0x01, 0x01, 0x12, 0x00, 0x03, 0x00, 0x00, 0x00, 0x01, 0x00, orientation, 0x00, 0x00, 0x00, 0x00, 0x00, 0x00,
+    0xff, 0xda, 0x00, 0x02, 0x12, 0x34,
+    0xff, 0xd9,
+]);
+
+// A PNG chunk with a zero CRC (nothing here checks it)
+const pngChunk = (type: string, data: number[]) => [0, 0, 0, data.length, ...ascii(type), ...data, 0, 0, 0, 0];
+const PNG_SIGNATURE = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a];
+
+describe('readJpegOrientation', () => {
+    it('should read the orientation from the EXIF segment', () => {
+        expect(readJpegOrientation(jpegWithOrientation(6))).toBe(6);
+        expect(readJpegOrientation(stripJpegMetadata(jpegWithOrientation(6)))).toBe(1);
+    });
+});
+
+describe('stripJpegMetadata', () => {
+    it('should drop the EXIF segment and keep everything else', () => {
+        expect(Array.from(stripJpegMetadata(jpegWithOrientation(1)))).toEqual([
+            0xff, 0xd8,
+            0xff, 0xe0, 0x00, 0x04, 0x4a, 0x46,
+            0xff, 0xda, 0x00, 0x02, 0x12, 0x34,
+            0xff, 0xd9,
+        ]);
+    });
+});
+
+describe('stripPngMetadata', () => {
+    it('should drop text and EXIF chunks', () => {
+        const ihdr = pngChunk('IHDR', [0, 0, 0, 1, 0, 0, 0, 1, 8, 6, 0, 0, 0]);
+        const idat = pngChunk('IDAT', [1, 2, 3]);
+        const png = new Uint8Array([...PNG_SIGNATURE, ...ihdr, ...pngChunk('tEXt', ascii('GPS\0here')), ...pngChunk('eXIf', [1]), ...idat, ...pngChunk('IEND', [])]);
+        expect(Array.from(stripPngMetadata(png))).toEqual([...PNG_SIGNATURE, ...ihdr, ...idat, ...pngChunk('IEND', [])]);
+    });
+});
+
+describe('getScaledSize', () => {
+    it('should fit the longest side and keep the aspect ratio', () => {
+        expect(getScaledSize(4000, 3000, 2000)).toEqual({ width: 2000, height: 1500 });
+        expect(getScaledSize(3000, 4000, 2000)).toEqual({ width: 1500, height: 2000 });
+        expect(getScaledSize(1200, 800, 2000)).toBeNull();
+    });
+});
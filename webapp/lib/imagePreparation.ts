@@ -0,0 +1,194 @@
+// webapp/lib/imagePreparation.ts
+// Opt-in per project (projects.strip_upload_metadata and max_upload_dimension): photos are cleaned up in the
+// browser before they're uploaded. Metadata such as EXIF with its GPS position, XMP and IPTC is removed, and images
+// larger than the project's maximum dimension are downscaled. Metadata is cut out of JPEGs and PNGs without
+// re-encoding them; downscaling, WebP and rotated JPEGs (their orientation is part of the EXIF being removed) are
+// redrawn on a canvas, which writes no metadata at all. The variation records the size the image had before.
+import { readPixelDimensions, sniffFileType, UPLOAD_HEADER_BYTES } from './uploadPolicy';
+
+export type UploadPreparationSettings = {
+    stripMetadata: boolean;
+    maxDimension: number | null; // Longest side in pixels; null keeps the size
+};
+
+// What happened to a file on its way up; stored as variations.original_width/original_height/was_resized
+export type ImagePreparation = {
+    originalWidth: number;
+    originalHeight: number;
+    wasResized: boolean;
+};
+
+// Animated files and vector, document and video types are uploaded as they are
+const PREPARABLE_MIME_TYPES = ['image/jpeg', 'image/png', 'image/webp'];
+const JPEG_QUALITY = 0.92;
+
+// APP1 (EXIF, XMP), APP13 (IPTC) and comments. APP0 (JFIF), APP2 (ICC profile) and APP14 (Adobe) affect how the
+// image looks, so they stay.
+const JPEG_METADATA_MARKERS = [0xe1, 0xed, 0xfe];
+const JPEG_START_OF_SCAN = 0xda;
+const PNG_METADATA_CHUNKS = ['tEXt', 'iTXt', 'zTXt', 'eXIf', 'tIME'];
+const PNG_SIGNATURE_LENGTH = 8;
+
+const ascii = (bytes: Uint8Array, start: number, length: number): string =>
+    String.fromCharCode(...bytes.subarray(start, start + length));
+
+const readUint16BE = (bytes: Uint8Array, offset: number) => (bytes[offset] << 8) | bytes[offset + 1];
+const readUint32BE = (bytes: Uint8Array, offset: number) =>
+    ((bytes[offset] << 24) | (bytes[offset + 1] << 16) | (bytes[offset + 2] << 8) | bytes[offset + 3]) >>> 0;
+
+// Calls `visit` with each JPEG segment before the image data: its marker, where it starts and its total length
+const forEachJpegSegment = (bytes: Uint8Array, visit: (marker: number, start: number, length: number) => void): number => {
+    let offset = 2;
+    while (offset + 4 <= bytes.length && bytes[offset] === 0xff) {
+        const marker = bytes[offset + 1];
+        if (marker === 0xff) {
+            offset++; // Fill byte
+            continue;
+        }
+        if (marker === JPEG_START_OF_SCAN) break;
+        const length = 2 + readUint16BE(bytes, offset + 2);
+        visit(marker, offset, length);
+        offset += length;
+    }
+    return offset;
+};
+
+/** The EXIF orientation of a JPEG (1-8), 1 when it has none. 5-8 are turned sideways. */
+export function readJpegOrientation(bytes: Uint8Array): number {
+    let orientation = 1;
+    forEachJpegSegment(bytes, (marker, start, length) => {
+        if (marker !== 0xe1 || ascii(bytes, start + 4, 6) !== 'Exif\0\0') return;
+        const tiff = start + 10;
+        const littleEndian = ascii(bytes, tiff, 2) === 'II';
+        const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+        const ifd = tiff + view.getUint32(tiff + 4, littleEndian);
+        if (ifd + 2 > start + length) return;
+        const entryCount = view.getUint16(ifd, littleEndian);
+        for (let index = 0; index < entryCount; index++) {
+            const entry = ifd + 2 + index * 12;
+            if (entry + 12 > start + length) return;
+            if (view.getUint16(entry, littleEndian) === 0x0112) {
+                const value = view.getUint16(entry + 8, littleEndian);
+                if (value >= 1 && value <= 8) orientation = value;
+                return;
+            }
+        }
+    });
+    return orientation;
+}
+
+/** A copy of a JPEG without its metadata segments; the image data is copied as it is. */
+export function stripJpegMetadata(bytes: Uint8Array): Uint8Array<ArrayBuffer> {
+    const kept: Uint8Array[] = [bytes.subarray(0, 2)];
+    const imageDataStart = forEachJpegSegment(bytes, (marker, start, length) => {
+        if (!JPEG_METADATA_MARKERS.includes(marker)) kept.push(bytes.subarray(start, start + length));
+    });
+    kept.push(bytes.subarray(imageDataStart));
+    return concatBytes(kept);
+}
+
+// Calls `visit` with each PNG chunk: its type, where it starts and its total length (with length, type and CRC)
+const forEachPngChunk = (bytes: Uint8Array, visit: (type: string, start: number, length: number) => void) => {
+    let offset = PNG_SIGNATURE_LENGTH;
+    while (offset + 12 <= bytes.length) {
+        const length = 12 + readUint32BE(bytes, offset);
+        visit(ascii(bytes, offset + 4, 4), offset, length);
+        offset += length;
+    }
+};
+
+/** A copy of a PNG without its text, EXIF and timestamp chunks. */
+export function stripPngMetadata(bytes: Uint8Array): Uint8Array<ArrayBuffer> {
+    const kept: Uint8Array[] = [bytes.subarray(0, PNG_SIGNATURE_LENGTH)];
+    forEachPngChunk(bytes, (type, start, length) => {
+        if (!PNG_METADATA_CHUNKS.includes(type)) kept.push(bytes.subarray(start, start + length));
+    });
+    return concatBytes(kept);
+}
+
+const concatBytes = (parts: Uint8Array[]): Uint8Array<ArrayBuffer> => {
+    const result = new Uint8Array(parts.reduce((total, part) => total + part.length, 0));
+    parts.reduce((offset, part) => {
+        result.set(part, offset);
+        return offset + part.length;
+    }, 0);
+    return result;
+};
+
+// Animated PNGs have an acTL chunk; animated WebPs set the animation flag of their VP8X chunk
+const isAnimated = (bytes: Uint8Array, mimeType: string): boolean => {
+    if (mimeType === 'image/webp') return ascii(bytes, 12, 4) === 'VP8X' && (bytes[20] & 0x02) !== 0;
+    if (mimeType !== 'image/png') return false;
+    let animated = false;
+    forEachPngChunk(bytes, type => {
+        if (type === 'acTL') animated = true;
+    });
+    return animated;
+};
+
+/** The size an image is downscaled to so its longest side fits `maxDimension`, or null when it already fits. */
+export function getScaledSize(width: number, height: number, maxDimension: number): { width: number; height: number } | null {
+    if (Math.max(width, height) <= maxDimension) return null;
+    const scale = maxDimension / Math.max(width, height);
+    return { width: Math.max(1, Math.round(width * scale)), height: Math.max(1, Math.round(height * scale)) };
+}
+
+// Draws the image upright at `maxDimension` (or its own size); createImageBitmap applies the EXIF orientation.
+// Browsers that can't encode a type fall back to PNG (Safari does for WebP), so the blob's type has to be checked.
+const redrawImage = async (file: File, mimeType: string, maxDimension: number | null) => {
+    const bitmap = await createImageBitmap(file);
+    try {
+        const original = { width: bitmap.width, height: bitmap.height };
+        const size = (maxDimension && getScaledSize(original.width, original.height, maxDimension)) || original;
+        const canvas = new OffscreenCanvas(size.width, size.height);
+        const context = canvas.getContext('2d');
+        if (!context) throw new Error('Canvas is not available');
+        context.imageSmoothingQuality = 'high';
+        context.drawImage(bitmap, 0, 0, size.width, size.height);
+        const blob = await canvas.convertToBlob({ type: mimeType, quality: JPEG_QUALITY });
+        return { blob, original, wasResized: size !== original };
+    } finally {
+        bitmap.close();
+    }
+};
+
+/**
+ * Applies a project's upload settings to a picked file. Returns the file to upload (a new File with the same
+ * name, or `file` itself when nothing had to change) and what was done, or null when the settings don't apply to
+ * this kind of file or the browser can't write it in its own type again.
+ */
+export async function prepareImageForUpload(file: File, settings: UploadPreparationSettings): Promise<{ file: File; preparation: ImagePreparation } | null> {
+    if (!settings.stripMetadata && !settings.maxDimension) return null;
+    const bytes = new Uint8Array(await file.arrayBuffer());
+    const header = bytes.subarray(0, UPLOAD_HEADER_BYTES);
+    const mimeType = sniffFileType(header);
+    if (!mimeType || !PREPARABLE_MIME_TYPES.includes(mimeType) || isAnimated(bytes, mimeType)) return null;
+    const stored = readPixelDimensions(header, mimeType);
+    if (!stored) return null;
+
+    const orientation = mimeType === 'image/jpeg' ? readJpegOrientation(bytes) : 1;
+    const upright = orientation >= 5 ? { width: stored.height, height: stored.width } : stored;
+    const needsResize = !!settings.maxDimension && !!getScaledSize(upright.width, upright.height, settings.maxDimension);
+    const toFile = (content: BlobPart) => new File([content], file.name, { type: mimeType, lastModified: file.lastModified });
+
+    if (needsResize || (settings.stripMetadata && (orientation !== 1 || mimeType === 'image/webp'))) {
+        const { blob, original, wasResized } = await redrawImage(file, mimeType, settings.maxDimension);
+        // The storage path and the processing go by the file's name, so a file of another type isn't uploaded under it
+        if (blob.type !== mimeType) {
+            console.warn(`[ImagePreparation] This browser can't encode ${mimeType}; ${file.name} is uploaded as it is.`);
+            return null;
+        }
+        return { file: toFile(blob), preparation: { originalWidth: original.width, originalHeight: original.height, wasResized } };
+    }
+    const preparation = { originalWidth: upright.width, originalHeight: upright.height, wasResized: false };
+    if (!settings.stripMetadata) return { file, preparation };
+    const stripped = mimeType === 'image/jpeg' ? stripJpegMetadata(bytes) : stripPngMetadata(bytes);
+    return { file: toFile(stripped), preparation };
+}
+
+/** The variation columns for a file's preparation; files uploaded as they were clear them. */
+export const toPreparationColumns = (preparation: ImagePreparation | null | undefined) => ({
+    original_width: preparation?.originalWidth ?? null,
+    original_height: preparation?.originalHeight ?? null,
+    was_resized: preparation?.wasResized ?? false,
+});
@@ -4,7 +4,7 @@ import {
     THUMBNAIL_WIDTH,
     MEDIUM_WIDTH,
 } from './constants/imageConstants';
-import { getProcessedImagePath, getPublicImageUrl } from './imageUtils';
+import { buildSrcSet, getAnimatedPreviewPath, getLegacyGifCopyPath, getProcessedImagePath, getPublicImageUrl, getRenditionManifestPath, isAnimatedFormat, isVideoFormat } from './imageUtils';
 
 describe('imageUtils', () => {
     const supabaseUrl = 'https://xyz.supabase.co';
@@ -23,6 +23,15 @@ describe('imageUtils', () => {
             expect(getProcessedImagePath(originalPath, MEDIUM_WIDTH)).toBe(expected);
         });
 
+        it('should add a page suffix for pages after the first', () => {
+            expect(getProcessedImagePath('docs/brochure.pdf', THUMBNAIL_WIDTH, 1)).toBe(`docs/brochure_${THUMBNAIL_WIDTH}.webp`);
+            expect(getProcessedImagePath('docs/brochure.pdf', THUMBNAIL_WIDTH, 3)).toBe(`docs/brochure_p3_${THUMBNAIL_WIDTH}.webp`);
+        });
+
+        it('should use the requested format as the extension', () => {
+            expect(getProcessedImagePath('docs/brochure.pdf', MEDIUM_WIDTH, 2, 'avif')).toBe(`docs/brochure_p2_${MEDIUM_WIDTH}.avif`);
+        });
+
         it('should handle paths without directories', () => {
             const originalPath = 'logo.gif';
             const expected = `logo_${THUMBNAIL_WIDTH}.webp`;
@@ -36,6 +45,60 @@ describe('imageUtils', () => {
         });
     });
 
+    describe('getAnimatedPreviewPath', () => {
+        it('should put the preview next to the renditions', () => {
+            expect(getAnimatedPreviewPath('user123/banner.gif')).toBe('user123/banner_animated.webp');
+            expect(getAnimatedPreviewPath('loop.v2.webp')).toBe('loop.v2_animated.webp');
+        });
+    });
+
+    describe('getLegacyGifCopyPath', () => {
+        it('should only give GIFs a copy at their own path', () => {
+            expect(getLegacyGifCopyPath('user123/banner_01.GIF')).toBe('user123/banner_01.GIF');
+            expect(getLegacyGifCopyPath('user123/loop.webp')).toBeNull();
+        });
+    });
+
+    describe('getRenditionManifestPath', () => {
+        it('should put the manifest next to the renditions', () => {
+            expect(getRenditionManifestPath('user123/avatar.png')).toBe('user123/avatar_manifest.json');
+        });
+
+        it('should name every file after the same base name as the processor does', () => {
+            expect(getRenditionManifestPath('v1/IMG_1234.jpg')).toBe('v1/IMG_manifest.json');
+            expect(getAnimatedPreviewPath('v1/IMG_1234.gif')).toBe('v1/IMG_animated.webp');
+            expect(getProcessedImagePath('v1/IMG_1234.jpg', THUMBNAIL_WIDTH)).toBe(`v1/IMG_${THUMBNAIL_WIDTH}.webp`);
+        });
+    });
+
+    describe('buildSrcSet', () => {
+        const renditions = [
+            { format: 'webp' as const, width: 800, height: 600, path: 'a_800.webp' },
+            { format: 'avif' as const, width: 800, height: 600, path: 'a_800.avif' },
+            { format: 'webp' as const, width: 200, height: 150, path: 'a_200.webp' },
+            { format: 'webp' as const, width: 800, height: 600, path: 'a_1200.webp' }, // Source was only 800px wide
+        ];
+
+        it('should list one format smallest first, once per width', () => {
+            expect(buildSrcSet(renditions, 'webp', path => `/p/${path}`)).toBe('/p/a_200.webp 200w, /p/a_800.webp 800w');
+            expect(buildSrcSet(renditions, 'avif', path => path)).toBe('a_800.avif 800w');
+        });
+
+        it('should be empty when the format is missing', () => {
+            expect(buildSrcSet(renditions.filter(r => r.format === 'webp'), 'avif', path => path)).toBe('');
+        });
+    });
+
+    describe('isAnimatedFormat / isVideoFormat', () => {
+        it('should detect formats by extension, ignoring case', () => {
+            expect(isAnimatedFormat('a/banner.GIF')).toBe(true);
+            expect(isAnimatedFormat('a/photo.png')).toBe(false);
+            expect(isVideoFormat('a/intro.mp4')).toBe(true);
+            expect(isVideoFormat('a/intro.MOV')).toBe(true);
+            expect(isVideoFormat('a/banner.gif')).toBe(false);
+        });
+    });
+
     describe('getPublicImageUrl', () => {
         it('should construct the correct public URL', () => {
             const processedPath = `user123/avatar_${THUMBNAIL_WIDTH}.webp`;
@@ -1,35 +1,125 @@
 import {
     PROCESSED_IMAGES_PATH,
-    THUMBNAIL_WIDTH,
-    MEDIUM_WIDTH,
-    LARGE_WIDTH,
+    ANIMATED_FORMATS,
+    VIDEO_FORMATS,
+    LEGACY_RENDITION_WIDTHS,
+    RenditionWidth,
 } from './constants/imageConstants';
+import type { Rendition, RenditionFormat } from '@/types/models';
+
+const getExtension = (path: string) => path.split('.').pop()?.toLowerCase() ?? '';
+
+/** Whether an original is a GIF or WebP, which get an animated preview next to their static poster renditions. */
+export function isAnimatedFormat(originalPath: string): boolean {
+    return ANIMATED_FORMATS.includes(getExtension(originalPath));
+}
+
+/** Whether an original is a video; its renditions are poster frames and the original itself is what plays. */
+export function isVideoFormat(originalPath: string): boolean {
+    return VIDEO_FORMATS.includes(getExtension(originalPath));
+}
 
 /**
- * Generates the expected path for a processed image in Supabase storage.
- * Assumes the image processor function saves files like: processed/images/original-path/image-name_width.webp
+ * Splits an original's path into its folder and the base name its renditions are named after. The base name drops
+ * the extension and a trailing `_<digits>` (`IMG_1234.jpg` -> `IMG`). The processor (lib/server/processingJobs.ts)
+ * and the viewers both name renditions through this, so they always agree.
+ */
+export function splitOriginalPath(originalPath: string): { originalSubPath: string; baseFileName: string } {
+    const parts = originalPath.split('/');
+    const fileNameWithAnyExt = parts.pop() || '';
+    const fileNameWithoutAnyExt = fileNameWithAnyExt.split('.').slice(0, -1).join('.'); // Handle names with dots
+    return { originalSubPath: parts.join('/'), baseFileName: fileNameWithoutAnyExt.replace(/_\d+$/, '') };
+}
+
+// A file stored next to an original's renditions, e.g. `user1/avatar_manifest.json`
+const getSiblingPath = (originalPath: string, suffix: string): string => {
+    const { originalSubPath, baseFileName } = splitOriginalPath(originalPath);
+    return originalSubPath ? `${originalSubPath}/${baseFileName}${suffix}` : `${baseFileName}${suffix}`;
+};
+
+/**
+ * Generates the path of a processed image (rendition) in the processed bucket.
  *
  * @param originalPath - The original path/name of the uploaded file (e.g., 'user123/my-image.jpg').
  * @param width - The target width (e.g., 200 for thumbnail).
- * @returns The path to the processed image.
+ * @param page - 1-based page of a multi-page original (PDF); pages after the first get a `_p{page}` suffix.
+ * @param format - The rendition format; AVIF only exists for files with a manifest, and GIFs processed before
+ *                 manifests have no renditions at all (see getLegacyGifCopyPath).
+ * @returns The path to the processed image, e.g. `user123/my-image_200.webp`.
  */
 export function getProcessedImagePath(
     originalPath: string,
-    width: typeof THUMBNAIL_WIDTH | typeof MEDIUM_WIDTH | typeof LARGE_WIDTH,
+    width: RenditionWidth,
+    page: number = 1,
+    format: RenditionFormat = 'webp',
 ): string {
-    // Basic parsing, might need refinement based on actual file names
-    const parts = originalPath.split('/');
-    const fileNameWithExt = parts.pop() || '';
-    const fileName = fileNameWithExt.split('.').slice(0, -1).join('.'); // Handle names with dots
-    const originalDir = parts.join('/');
+    return getSiblingPath(originalPath, `${page > 1 ? `_p${page}` : ''}_${width}.${format}`);
+}
+
+/**
+ * Generates the path of the rendition manifest (JSON) stored next to an original's renditions.
+ *
+ * @param originalPath - The original path/name of the uploaded file.
+ * @returns The path to the manifest, e.g. `user1/avatar_manifest.json`.
+ */
+export function getRenditionManifestPath(originalPath: string): string {
+    return getSiblingPath(originalPath, '_manifest.json');
+}
 
-    // Construct the new path, relative to the processed bucket root
-    // Example: uploads/user1/avatar.png -> user1/avatar_200.webp (if originalPath was relative like 'user1/avatar.png')
-    // If originalDir includes a root folder like 'uploads', it will be preserved here.
-    // Adjust logic if originalPath is expected differently.
-    const relativePath = originalDir ? `${originalDir}/${fileName}_${width}.webp` : `${fileName}_${width}.webp`;
+/**
+ * Builds a `srcset` value from one format's renditions, smallest first.
+ * Renditions that came out the same width (a small source isn't upscaled) are listed once.
+ *
+ * @param renditions - Renditions of one page, e.g. from a rendition manifest.
+ * @param format - Which format to list.
+ * @param toUrl - Turns a rendition path into a URL the browser can load.
+ * @returns The srcset, or an empty string if there are no renditions in that format.
+ */
+export function buildSrcSet(renditions: Rendition[], format: RenditionFormat, toUrl: (path: string) => string): string {
+    const byWidth = new Map<number, Rendition>();
+    for (const rendition of renditions) {
+        if (rendition.format === format && !byWidth.has(rendition.width)) {
+            byWidth.set(rendition.width, rendition);
+        }
+    }
+    return [...byWidth.values()]
+        .sort((a, b) => a.width - b.width)
+        .map(rendition => `${toUrl(rendition.path)} ${rendition.width}w`)
+        .join(', ');
+}
+
+/**
+ * The WebP renditions of files processed before manifests were written (except GIFs, see getLegacyGifCopyPath).
+ * Widths are nominal since the real ones aren't known without a manifest; height is unknown (0).
+ */
+export function getLegacyRenditions(originalPath: string, page: number = 1): Rendition[] {
+    return LEGACY_RENDITION_WIDTHS.map(width => ({
+        format: 'webp' as const,
+        width,
+        height: 0,
+        path: getProcessedImagePath(originalPath, width, page),
+    }));
+}
 
-    return relativePath;
+/**
+ * GIFs processed before manifests were written weren't resized but copied as they were, to the original's own path
+ * in the processed bucket. That copy stands in for their renditions.
+ *
+ * @param originalPath - The original path/name of the uploaded file.
+ * @returns The path of the copy for a GIF, null for other formats.
+ */
+export function getLegacyGifCopyPath(originalPath: string): string | null {
+    return getExtension(originalPath) === 'gif' ? originalPath : null;
+}
+
+/**
+ * Generates the path of the animated preview stored next to the renditions of a GIF or WebP original.
+ *
+ * @param originalPath - The original path/name of the uploaded file.
+ * @returns The path to the animated preview, e.g. `user1/banner_animated.webp`.
+ */
+export function getAnimatedPreviewPath(originalPath: string): string {
+    return getSiblingPath(originalPath, '_animated.webp');
 }
 
 /**
@@ -51,5 +141,4 @@ export function getPublicImageUrl(
 }
 
 // Potential future additions:
-// - Function to generate placeholder data URL (blurhash, etc.)
 // - Functions to handle image loading/error states 
\ No newline at end of file
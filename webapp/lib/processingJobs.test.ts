@@ -0,0 +1,63 @@
+import { getNextAttemptAt, getRetryDelayMs, isLeftToWorker, isProcessablePath, isProcessingPending, PROCESSING_RETRY_MAX_DELAY_MS } from './processingJobs';
+
+describe('getRetryDelayMs', () => {
+    it('should back off exponentially from the first failure', () => {
+        expect([1, 2, 3, 4].map(getRetryDelayMs)).toEqual([2000, 8000, 32000, 128000]);
+    });
+
+    it('should cap the delay', () => {
+        expect(getRetryDelayMs(20)).toBe(PROCESSING_RETRY_MAX_DELAY_MS);
+    });
+});
+
+describe('getNextAttemptAt', () => {
+    const now = new Date('2026-10-19T12:00:00Z');
+
+    it('should schedule a retry while attempts remain', () => {
+        expect(getNextAttemptAt({ attempts: 2, max_attempts: 5 }, now)).toEqual(new Date('2026-10-19T12:00:08Z'));
+    });
+
+    it('should give up once every attempt is used', () => {
+        expect(getNextAttemptAt({ attempts: 5, max_attempts: 5 }, now)).toBeNull();
+    });
+});
+
+describe('isProcessingPending', () => {
+    it('should only treat queued and processing jobs as pending', () => {
+        expect(isProcessingPending('queued')).toBe(true);
+        expect(isProcessingPending('processing')).toBe(true);
+        expect(isProcessingPending('done')).toBe(false);
+        expect(isProcessingPending('failed')).toBe(false);
+        expect(isProcessingPending(null)).toBe(false);
+    });
+});
+
+describe('isLeftToWorker', () => {
+    it('should tell a job left to the worker from one waiting for a retry', () => {
+        expect(isLeftToWorker({ status: 'queued', last_error: null })).toBe(true);
+        expect(isLeftToWorker({ status: 'queued', last_error: 'Timeout' })).toBe(false);
+        expect(isLeftToWorker({ status: 'done', last_error: null })).toBe(false);
+    });
+});
+
+describe('isProcessablePath', () => {
+    it('should accept variation files and comment attachments', () => {
+        expect(isProcessablePath('projects/p1/designs/d1/versions/v1/variations/x1/logo.png')).toBe(true);
+        expect(isProcessablePath('comments/c1/1700000000000-shot.jpg')).toBe(true);
+    });
+
+    it('should reject paths outside the upload prefixes', () => {
+        expect(isProcessablePath('avatars/u1.png')).toBe(false);
+        expect(isProcessablePath('/projects/p1/a.png')).toBe(false);
+        expect(isProcessablePath(42)).toBe(false);
+    });
+
+    it('should reject traversal and malformed segments', () => {
+        expect(isProcessablePath('projects/../avatars/u1.png')).toBe(false);
+        expect(isProcessablePath('projects/%2e%2e/avatars/u1.png')).toBe(false);
+        expect(isProcessablePath('comments/c1/a%2Fb.png')).toBe(false);
+        expect(isProcessablePath('projects//a.png')).toBe(false);
+        expect(isProcessablePath('projects\\a.png')).toBe(false);
+        expect(isProcessablePath('projects/p1/a\n.png')).toBe(false);
+    });
+});
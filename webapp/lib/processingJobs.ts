@@ -0,0 +1,71 @@
+// webapp/lib/processingJobs.ts
+// Rendition processing jobs (see the image_processing_jobs migration). /api/process-image enqueues a job for an
+// uploaded original and works on it until it is done, failed for good, or due for a retry too far out to wait for;
+// /api/processing-jobs/run picks up the scheduled retries.
+import type { ImageProcessingJob, ProcessingJobStatus } from '@/types/models';
+
+export const PROCESSING_RETRY_BASE_DELAY_MS = 2000;
+export const PROCESSING_RETRY_MAX_DELAY_MS = 10 * 60 * 1000;
+// Retries due sooner than this run inside the original request; later ones are left to the worker
+export const INLINE_RETRY_MAX_DELAY_MS = 10 * 1000;
+// Pages of a document rendered inside the original request; a longer document is left to the worker whole
+export const INLINE_PAGE_LIMIT = 3;
+// How often views refetch while something they show is still being processed
+export const PROCESSING_POLL_INTERVAL_MS = 5000;
+// Where uploads are written: variation files (see buildVariationFilePath) and comment attachments
+export const PROCESSABLE_PATH_PREFIXES = ['projects/', 'comments/'];
+const MAX_PATH_LENGTH = 1024;
+
+/** Delay before the next attempt after `attempts` failed ones: 2s, 8s, 32s, ... capped at 10 minutes. */
+export function getRetryDelayMs(attempts: number): number {
+    return Math.min(PROCESSING_RETRY_BASE_DELAY_MS * 4 ** Math.max(attempts - 1, 0), PROCESSING_RETRY_MAX_DELAY_MS);
+}
+
+/** When a job that just failed should run again, or null once it has used all its attempts. */
+export function getNextAttemptAt(job: Pick<ImageProcessingJob, 'attempts' | 'max_attempts'>, now: Date): Date | null {
+    if (job.attempts >= job.max_attempts) return null;
+    return new Date(now.getTime() + getRetryDelayMs(job.attempts));
+}
+
+/** Only plain relative object paths under a known upload prefix: no traversal, empty segments or backslashes. */
+export function isProcessablePath(path: unknown): path is string {
+    if (typeof path !== 'string' || path.length > MAX_PATH_LENGTH) return false;
+    if (!PROCESSABLE_PATH_PREFIXES.some(prefix => path.startsWith(prefix))) return false;
+    if (path.includes('\\') || Array.from(path).some(char => char.charCodeAt(0) < 0x20)) return false;
+    return path.split('/').every(segment => {
+        let decoded = segment;
+        try {
+            decoded = decodeURIComponent(segment);
+        } catch {
+            // A stray '%' in a file name can't encode a traversal, so check the segment as-is
+        }
+        return decoded !== '' && decoded !== '.' && decoded !== '..' && !decoded.includes('/');
+    });
+}
+
+/** Whether a job is waiting for the worker without having failed: a document longer than INLINE_PAGE_LIMIT. */
+export function isLeftToWorker(job: Pick<ImageProcessingJob, 'status' | 'last_error'>): boolean {
+    return job.status === 'queued' && !job.last_error;
+}
+
+export function isProcessingPending(status: ProcessingJobStatus | null | undefined): boolean {
+    return status === 'queued' || status === 'processing';
+}
+
+/**
+ * Asks the server to process an uploaded original. Resolves once the server stops working on it, with the job
+ * as it was left ('done', 'failed', 'queued' for a later retry or the worker, or 'processing' when another request
+ * has it), or null for file types that aren't processed.
+ */
+export async function requestImageProcessing(originalPath: string): Promise<ImageProcessingJob | null> {
+    const response = await fetch('/api/process-image', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ originalPath }),
+    });
+    const payload = await response.json().catch(() => ({}));
+    if (payload.job !== undefined) {
+        return payload.job;
+    }
+    throw new Error(payload.details || payload.error || `Image processing request failed with status ${response.status}`);
+}
@@ -0,0 +1,224 @@
+// webapp/lib/resumableUpload.ts
+// Resumable uploads to Supabase Storage over its TUS endpoint. Files go up in chunks; a dropped connection only
+// costs the chunk in flight, uploads pause while the browser is offline and pick up again once it's back.
+// tus-js-client keeps each upload's URL in localStorage, so after a page reload the same file is resumed from its
+// last chunk as long as it goes to the same object path. Flows whose paths come from freshly reserved ids record
+// that path (and the ids) here as an interrupted upload, so re-selecting the file can reuse them.
+import * as tus from 'tus-js-client';
+import type { SupabaseClient } from '@supabase/supabase-js';
+
+export const UPLOAD_CANCELLED_MESSAGE = 'Upload cancelled';
+
+// Supabase only accepts 6 MB chunks on its resumable endpoint
+const CHUNK_SIZE = 6 * 1024 * 1024;
+// Short blips are retried in place; longer outages end in an error unless the browser reports being offline
+const RETRY_DELAYS = [0, 1000, 3000, 5000, 10000, 20000];
+// Supabase drops unfinished uploads after a day, so there's nothing to resume into after that
+const INTERRUPTED_UPLOAD_TTL_MS = 24 * 60 * 60 * 1000;
+const INTERRUPTED_UPLOADS_KEY = 'interruptedUploads';
+
+export interface ResumableUpload {
+    done: Promise<void>; // Resolves once the object is stored; rejects with UPLOAD_CANCELLED_MESSAGE on cancel
+    pause: () => void;
+    resume: () => void;
+    cancel: () => void;
+}
+
+// An upload that hadn't finished when the page went away, with what's needed to send the file to the same place
+export type InterruptedUpload = {
+    scope: string; // Where it was started, e.g. `project:${projectId}`
+    fileKey: string;
+    fileName: string;
+    fileSize: number;
+    objectPath: string;
+    context: Record<string, string>; // Ids the flow needs to finish, e.g. the reserved design and version
+    savedAt: string;
+};
+
+/** Identifies a file across page loads (File objects themselves don't survive a reload). */
+export function getFileKey(file: File): string {
+    return `${file.name}:${file.size}:${file.lastModified}`;
+}
+
+const readInterruptedUploads = (): InterruptedUpload[] => {
+    if (typeof window === 'undefined') return [];
+    try {
+        const records: InterruptedUpload[] = JSON.parse(window.localStorage.getItem(INTERRUPTED_UPLOADS_KEY) ?? '[]');
+        return records.filter(record => Date.now() - new Date(record.savedAt).getTime() < INTERRUPTED_UPLOAD_TTL_MS);
+    } catch {
+        return [];
+    }
+};
+
+const writeInterruptedUploads = (records: InterruptedUpload[]) => {
+    if (typeof window === 'undefined') return;
+    window.localStorage.setItem(INTERRUPTED_UPLOADS_KEY, JSON.stringify(records));
+};
+
+/** Uploads started in `scope` (or anywhere, without one) that never finished, most recent first. */
+export function listInterruptedUploads(scope?: string): InterruptedUpload[] {
+    return readInterruptedUploads()
+        .filter(record => !scope || record.scope === scope)
+        .sort((a, b) => b.savedAt.localeCompare(a.savedAt));
+}
+
+/** The unfinished upload of this exact file in `scope`, if there is one. */
+export function findInterruptedUpload(scope: string, file: File): InterruptedUpload | undefined {
+    const fileKey = getFileKey(file);
+    return listInterruptedUploads(scope).find(record => record.fileKey === fileKey);
+}
+
+/** Stops offering an interrupted upload, e.g. when the user discards it. */
+export function forgetInterruptedUpload(scope: string, fileKey: string): void {
+    writeInterruptedUploads(readInterruptedUploads().filter(record => !(record.scope === scope && record.fileKey === fileKey)));
+}
+
+const rememberInterruptedUpload = (record: Omit<InterruptedUpload, 'savedAt'>) => {
+    const others = readInterruptedUploads().filter(existing => !(existing.scope === record.scope && existing.fileKey === record.fileKey));
+    writeInterruptedUploads([...others, { ...record, savedAt: new Date().toISOString() }]);
+};
+
+/**
+ * Starts uploading `file` to `bucketName/objectPath`, continuing a previous upload of the same file to the same
+ * path when one exists.
+ *
+ * @param options.body - Sent instead of `file` when the bytes to upload differ from the picked file (e.g. a downscaled
+ *   copy). `file` still identifies the upload, so picking it again after a reload finds it.
+ * @param options.interruptedScope - Records the upload under this scope until it finishes, together with
+ *   `interruptedContext`, so it can be offered again after a reload (see findInterruptedUpload).
+ * @param options.onPausedChange - Called when the upload pauses or resumes, including when the browser goes offline.
+ */
+export function startResumableUpload(options: {
+    supabase: SupabaseClient;
+    bucketName: string;
+    objectPath: string;
+    file: File;
+    body?: Blob;
+    upsert?: boolean;
+    onProgress?: (percentage: number) => void;
+    onPausedChange?: (paused: boolean) => void;
+    interruptedScope?: string;
+    interruptedContext?: Record<string, string>;
+}): ResumableUpload {
+    const { supabase, bucketName, objectPath, file, body = file, upsert = false, onProgress, onPausedChange, interruptedScope, interruptedContext } = options;
+
+    let isPaused = false;
+    let isCancelled = false;
+    let pausedForOffline = false;
+    let settle: { resolve: () => void; reject: (error: Error) => void };
+    const done = new Promise<void>((resolve, reject) => {
+        settle = { resolve, reject };
+    });
+
+    const cleanUp = () => {
+        window.removeEventListener('offline', handleOffline);
+        window.removeEventListener('online', handleOnline);
+    };
+
+    const upload = new tus.Upload(body, {
+        endpoint: `${process.env.NEXT_PUBLIC_SUPABASE_URL}/storage/v1/upload/resumable`,
+        chunkSize: CHUNK_SIZE,
+        retryDelays: RETRY_DELAYS,
+        uploadDataDuringCreation: true,
+        removeFingerprintOnSuccess: true,
+        // Tie the stored upload URL to the destination so a file is never resumed into a different object
+        fingerprint: async () => ['supabase-tus', bucketName, objectPath, getFileKey(file), body.size].join('|'),
+        headers: {
+            apikey: process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
+            'x-upsert': upsert ? 'true' : 'false',
+        },
+        metadata: {
+            bucketName,
+            objectName: objectPath,
+            contentType: body.type || file.type || 'application/octet-stream',
+            cacheControl: '3600',
+        },
+        // Fetched per request so a long upload keeps working after the access token is refreshed
+        onBeforeRequest: async (req) => {
+            const { data } = await supabase.auth.getSession();
+            if (data.session) req.setHeader('Authorization', `Bearer ${data.session.access_token}`);
+        },
+        onProgress: (bytesUploaded, bytesTotal) => {
+            onProgress?.(Math.round((bytesUploaded / bytesTotal) * 100));
+        },
+        onSuccess: () => {
+            cleanUp();
+            if (interruptedScope) forgetInterruptedUpload(interruptedScope, getFileKey(file));
+            settle.resolve();
+        },
+        onError: (error) => {
+            // Retries ran out because the connection is gone; wait for it instead of failing
+            if (!navigator.onLine && !isCancelled) {
+                pausedForOffline = true;
+                setPaused(true);
+                return;
+            }
+            cleanUp();
+            settle.reject(new Error(`Storage upload failed: ${error.message}`));
+        },
+    });
+
+    const setPaused = (paused: boolean) => {
+        if (isPaused === paused) return;
+        isPaused = paused;
+        onPausedChange?.(paused);
+    };
+
+    const pause = () => {
+        if (isPaused || isCancelled) return;
+        setPaused(true);
+        void upload.abort();
+    };
+
+    const resume = () => {
+        if (!isPaused || isCancelled) return;
+        pausedForOffline = false;
+        setPaused(false);
+        upload.start();
+    };
+
+    const cancel = () => {
+        if (isCancelled) return;
+        isCancelled = true;
+        cleanUp();
+        if (interruptedScope) forgetInterruptedUpload(interruptedScope, getFileKey(file));
+        // Terminating removes the partial upload on the server and its stored URL here
+        upload.abort(true).catch(error => console.warn(`[ResumableUpload] Could not terminate upload of ${objectPath}:`, error));
+        settle.reject(new Error(UPLOAD_CANCELLED_MESSAGE));
+    };
+
+    function handleOffline() {
+        if (isPaused) return;
+        pausedForOffline = true;
+        pause();
+    }
+
+    function handleOnline() {
+        if (pausedForOffline) resume();
+    }
+
+    window.addEventListener('offline', handleOffline);
+    window.addEventListener('online', handleOnline);
+
+    if (interruptedScope) {
+        rememberInterruptedUpload({
+            scope: interruptedScope,
+            fileKey: getFileKey(file),
+            fileName: file.name,
+            fileSize: file.size,
+            objectPath,
+            context: interruptedContext ?? {},
+        });
+    }
+
+    upload.findPreviousUploads()
+        .then(previousUploads => {
+            if (previousUploads.length > 0) upload.resumeFromPreviousUpload(previousUploads[0]);
+        })
+        .catch(error => console.warn(`[ResumableUpload] Could not look up previous uploads of ${objectPath}:`, error))
+        .finally(() => {
+            if (!isPaused && !isCancelled) upload.start();
+        });
+
+    return { done, pause, resume, cancel };
+}
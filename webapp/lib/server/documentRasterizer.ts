@@ -0,0 +1,85 @@
+// webapp/lib/server/documentRasterizer.ts
+// Turns the document formats in DOCUMENT_FORMATS into raster pages that the rendition pipeline can resize. Server-only.
+import path from 'path';
+import sharp from 'sharp';
+import { createCanvas } from '@napi-rs/canvas';
+import { getDocument } from 'pdfjs-dist/legacy/build/pdf.mjs';
+import { initializeCanvas, readPsd } from 'ag-psd';
+import { XLARGE_WIDTH, MAX_DOCUMENT_PAGES } from '@/lib/constants/imageConstants';
+
+// ag-psd needs a canvas implementation outside the browser
+initializeCanvas((width, height) => createCanvas(width, height) as unknown as HTMLCanvasElement);
+
+// Fonts PDFs reference without embedding them
+const STANDARD_FONT_DATA_URL = path.join(process.cwd(), 'node_modules/pdfjs-dist/standard_fonts/');
+
+// SVG renders at 72 DPI by default; raise the density so small artboards still come out at the largest rendition width
+const MAX_SVG_DENSITY = 2400;
+
+async function rasterizeSvg(buffer: Buffer): Promise<sharp.Sharp> {
+    const { width } = await sharp(buffer).metadata();
+    const density = width ? Math.min(Math.max(72, (72 * XLARGE_WIDTH) / width), MAX_SVG_DENSITY) : 72;
+    return sharp(buffer, { density });
+}
+
+// Renders each page at the largest rendition width; pages past MAX_DOCUMENT_PAGES are left out
+async function* rasterizePdf(buffer: Buffer): AsyncGenerator<sharp.Sharp> {
+    const pdf = await getDocument({
+        data: new Uint8Array(buffer),
+        isEvalSupported: false,
+        standardFontDataUrl: STANDARD_FONT_DATA_URL,
+    }).promise;
+    try {
+        const pageCount = Math.min(pdf.numPages, MAX_DOCUMENT_PAGES);
+        for (let pageNumber = 1; pageNumber <= pageCount; pageNumber++) {
+            const page = await pdf.getPage(pageNumber);
+            const viewport = page.getViewport({ scale: XLARGE_WIDTH / page.getViewport({ scale: 1 }).width });
+            const canvas = createCanvas(Math.ceil(viewport.width), Math.ceil(viewport.height));
+            await page.render({
+                canvas: canvas as unknown as HTMLCanvasElement,
+                canvasContext: canvas.getContext('2d') as unknown as CanvasRenderingContext2D,
+                viewport,
+            }).promise;
+            page.cleanup();
+            yield sharp(canvas.toBuffer('image/png'));
+        }
+    } finally {
+        await pdf.destroy();
+    }
+}
+
+// Uses the flattened composite Photoshop stores alongside the layers; layer data is never decoded
+function rasterizePsd(buffer: Buffer): sharp.Sharp {
+    const psd = readPsd(buffer, { skipLayerImageData: true, skipThumbnail: true, useImageData: true });
+    if (!psd.imageData) {
+        throw new Error('PSD has no flattened composite. Re-save it with "Maximize Compatibility" enabled.');
+    }
+    const { width, height, data } = psd.imageData;
+    return sharp(Buffer.from(data.buffer, data.byteOffset, data.byteLength), { raw: { width, height, channels: 4 } });
+}
+
+/**
+ * Yields one image per page of a document original, ready to resize. Single-page formats yield once.
+ * AI files are supported when saved with PDF compatibility (Illustrator's default), which makes them PDFs inside.
+ */
+export async function* rasterizeDocument(buffer: Buffer, format: string): AsyncGenerator<sharp.Sharp> {
+    switch (format) {
+        case 'svg':
+            yield await rasterizeSvg(buffer);
+            return;
+        case 'psd':
+            yield rasterizePsd(buffer);
+            return;
+        case 'ai':
+            if (buffer.subarray(0, 5).toString('latin1') !== '%PDF-') {
+                throw new Error('Illustrator file was saved without PDF compatibility, so it cannot be previewed.');
+            }
+            yield* rasterizePdf(buffer);
+            return;
+        case 'pdf':
+            yield* rasterizePdf(buffer);
+            return;
+        default:
+            throw new Error(`Unsupported document format: ${format}`);
+    }
+}
@@ -0,0 +1,79 @@
+// webapp/lib/server/imagePipeline.ts
+// Shared storage plumbing for the image API routes (process-image, diff-image). Server-only.
+import { createClient } from '@supabase/supabase-js';
+import { RENDITION_WIDTHS, RENDITION_FORMATS, ANIMATED_FORMATS, LEGACY_RENDITION_WIDTHS } from '@/lib/constants/imageConstants';
+import { getAnimatedPreviewPath, getProcessedImagePath, getRenditionManifestPath, splitOriginalPath } from '@/lib/imageUtils';
+
+// Ensure these environment variables are set in your Next.js environment
+export const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL;
+// IMPORTANT: Use the SERVICE ROLE KEY here, not the ANON KEY
+// Store this securely, e.g., in Vercel Environment Variables, not in .env.local for client-side code
+export const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+export const defaultSourceBucket = process.env.NEXT_PUBLIC_SUPABASE_BUCKET || 'design-variations';
+export const commentAttachmentBucket = 'comment-attachments'; // Specific bucket for comments
+export const targetBucket = process.env.NEXT_PUBLIC_SUPABASE_PROCESSED_BUCKET || 'processed-images';
+
+// Every rendition /api/process-image writes to the processed bucket for an original with pageCount pages
+export function getRenditionPaths(originalPath: string, pageCount: number = 1): string[] {
+    const paths: string[] = [];
+    for (let page = 1; page <= pageCount; page++) {
+        for (const format of RENDITION_FORMATS) {
+            paths.push(...RENDITION_WIDTHS.map(width => getProcessedImagePath(originalPath, width, page, format)));
+        }
+    }
+    if (ANIMATED_FORMATS.includes(originalPath.split('.').pop()?.toLowerCase() ?? '')) {
+        paths.push(getAnimatedPreviewPath(originalPath));
+    }
+    paths.push(getRenditionManifestPath(originalPath));
+    return paths;
+}
+
+// What the processors before manifests wrote: three WebP widths of the first page, or for a GIF a plain copy, either
+// at the original's own path or as <base>.gif
+export function getLegacyRenditionLayouts(originalPath: string): string[][] {
+    if (originalPath.split('.').pop()?.toLowerCase() === 'gif') {
+        const { originalSubPath, baseFileName } = splitOriginalPath(originalPath);
+        return [[originalPath], [originalSubPath ? `${originalSubPath}/${baseFileName}.gif` : `${baseFileName}.gif`]];
+    }
+    return [LEGACY_RENDITION_WIDTHS.map(width => getProcessedImagePath(originalPath, width))];
+}
+
+// Initialize Supabase client ONCE with the service role key
+// Ensure this only runs server-side (which API routes do)
+export const supabaseAdmin = createClient(
+    supabaseUrl || '',
+    supabaseServiceKey || '',
+    {
+        auth: {
+            // Avoid storing user sessions on the server
+            persistSession: false,
+            autoRefreshToken: false,
+            detectSessionInUrl: false
+        }
+    }
+);
+
+export async function downloadFromBucket(bucket: string, path: string): Promise<Buffer> {
+    const { data: blob, error } = await supabaseAdmin.storage
+        .from(bucket)
+        .download(path);
+
+    if (error || !blob) {
+        throw new Error(`Failed to download ${bucket}/${path}: ${error?.message || 'Unknown error'}`);
+    }
+    return Buffer.from(await blob.arrayBuffer());
+}
+
+// Page counts recorded by processing, for originals with more than one page
+export async function getPageCounts(originalPaths?: string[]): Promise<Map<string, number>> {
+    let query = supabaseAdmin.from('image_processing_jobs').select('original_path, page_count').gt('page_count', 1);
+    if (originalPaths) {
+        if (originalPaths.length === 0) return new Map();
+        query = query.in('original_path', originalPaths);
+    }
+    const { data, error } = await query;
+    if (error) {
+        throw new Error(`Failed to read page counts: ${error.message}`);
+    }
+    return new Map((data ?? []).map((row: { original_path: string; page_count: number }) => [row.original_path, row.page_count]));
+}
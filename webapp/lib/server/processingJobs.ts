@@ -0,0 +1,309 @@
+// webapp/lib/server/processingJobs.ts
+// Runs rendition processing jobs (see lib/processingJobs.ts). Server-only.
+import sharp from 'sharp';
+import {
+    RENDITION_WIDTHS,
+    RENDITION_FORMATS,
+    DEFAULT_IMAGE_QUALITY,
+    DEFAULT_AVIF_QUALITY,
+    AVIF_EFFORT,
+    PLACEHOLDER_WIDTH,
+    PALETTE_SIZE,
+    DOCUMENT_FORMATS,
+    ANIMATED_FORMATS,
+    ANIMATED_PREVIEW_WIDTH,
+    ANIMATED_PREVIEW_MAX_FRAMES,
+    VIDEO_FORMATS,
+} from '@/lib/constants/imageConstants';
+import {
+    defaultSourceBucket,
+    commentAttachmentBucket,
+    targetBucket,
+    downloadFromBucket,
+    supabaseAdmin,
+} from '@/lib/server/imagePipeline';
+import { getAnimatedPreviewPath, getProcessedImagePath, getRenditionManifestPath } from '@/lib/imageUtils';
+import { rasterizeDocument } from '@/lib/server/documentRasterizer';
+import { extractPosterFrame } from '@/lib/server/videoPoster';
+import { assertUploadPolicy, UploadPolicyError } from '@/lib/server/uploadValidation';
+import { extractPalette, toHexColor } from '@/lib/colorPalette';
+import { hashContent } from '@/lib/uploadPolicy';
+import { getNextAttemptAt, INLINE_PAGE_LIMIT, INLINE_RETRY_MAX_DELAY_MS, isLeftToWorker } from '@/lib/processingJobs';
+import type { ImageProcessingJob, Rendition, RenditionFormat, RenditionManifest, RenditionManifestPage } from '@/types/models';
+
+const JOBS_TABLE = 'image_processing_jobs';
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+function getSourceBucket(originalPath: string): string {
+    return originalPath.startsWith('comments/') ? commentAttachmentBucket : defaultSourceBucket;
+}
+
+async function storeRendition(processedPath: string, image: sharp.Sharp, width: number, format: RenditionFormat): Promise<Rendition> {
+    const resized = image.resize({ width, withoutEnlargement: true }); // Don't upscale smaller images
+    const encoded = format === 'avif'
+        ? resized.avif({ quality: DEFAULT_AVIF_QUALITY, effort: AVIF_EFFORT })
+        : resized.webp({ quality: DEFAULT_IMAGE_QUALITY });
+    const { data, info } = await encoded.toBuffer({ resolveWithObject: true });
+    await uploadRendition(processedPath, data, `image/${format}`);
+    return { format, width: info.width, height: info.height, path: processedPath };
+}
+
+async function uploadRendition(processedPath: string, processedBuffer: Buffer, contentType: string): Promise<void> {
+    const { error } = await supabaseAdmin.storage
+        .from(targetBucket)
+        .upload(processedPath, processedBuffer, { contentType, cacheControl: '3600', upsert: true });
+    if (error) throw new Error(error.message);
+    console.log(`[ProcessingJobs] Stored ${targetBucket}/${processedPath}`);
+}
+
+// Small, frame-capped animated WebP for viewers; static originals just come out as a one-frame preview
+async function storeAnimatedPreview(originalPath: string, originalBuffer: Buffer): Promise<void> {
+    const { pages: frameCount = 1 } = await sharp(originalBuffer).metadata();
+    // libvips rejects a page count past the last frame
+    const previewBuffer = await sharp(originalBuffer, { animated: true, pages: Math.min(frameCount, ANIMATED_PREVIEW_MAX_FRAMES) })
+        .resize({ width: ANIMATED_PREVIEW_WIDTH, withoutEnlargement: true })
+        .webp({ quality: DEFAULT_IMAGE_QUALITY })
+        .toBuffer();
+    await uploadRendition(getAnimatedPreviewPath(originalPath), previewBuffer, 'image/webp');
+}
+
+// A blurred LQIP data URL, the dominant color (#rrggbb) and the palette, all worked out from a small copy of the page
+type ColorSummary = Pick<RenditionManifest, 'placeholder' | 'dominant_color' | 'palette'>;
+
+async function computeColorSummary(image: sharp.Sharp): Promise<ColorSummary> {
+    const small = await image.resize({ width: 64, withoutEnlargement: true }).png().toBuffer();
+    const [tiny, { dominant }, raw] = await Promise.all([
+        sharp(small).resize({ width: PLACEHOLDER_WIDTH, withoutEnlargement: true }).webp({ quality: 50 }).toBuffer(),
+        sharp(small).flatten({ background: '#ffffff' }).stats(), // Transparent pixels would otherwise count as black
+        sharp(small).ensureAlpha().raw().toBuffer(),
+    ]);
+    return {
+        placeholder: `data:image/webp;base64,${tiny.toString('base64')}`,
+        dominant_color: toHexColor(dominant.r, dominant.g, dominant.b),
+        palette: extractPalette(new Uint8Array(raw), 4, PALETTE_SIZE),
+    };
+}
+
+async function loadPages(originalBuffer: Buffer, format: string): Promise<AsyncIterable<sharp.Sharp> | sharp.Sharp[]> {
+    if (DOCUMENT_FORMATS.includes(format)) return rasterizeDocument(originalBuffer, format);
+    if (VIDEO_FORMATS.includes(format)) return [await extractPosterFrame(originalBuffer, format)];
+    // Only the first frame of an animated original is decoded, which makes it the poster
+    return [sharp(originalBuffer)];
+}
+
+/**
+ * Writes every rendition for an original to the processed bucket and returns the manifest listing them.
+ * Document formats are rasterized first, one set of renditions per page; videos and animated images get poster frames,
+ * and GIF/WebP also get an animated preview. Finishes with the rendition manifest. Throws unless all renditions were stored,
+ * and with an UploadPolicyError, before storing anything, for variation files that break the upload policy.
+ * With `maxPages`, a document with more pages stops after that many and resolves to null without a manifest.
+ */
+export async function generateRenditions(originalPath: string, maxPages: number = Infinity): Promise<RenditionManifest | null> {
+    const sourceBucket = getSourceBucket(originalPath);
+    const originalBuffer = await downloadFromBucket(sourceBucket, originalPath);
+    console.log(`[ProcessingJobs] Downloaded ${sourceBucket}/${originalPath}, size: ${originalBuffer.length} bytes`);
+    // Variation files can be linked straight from the browser, so this is where the policy holds for all of them
+    if (sourceBucket === defaultSourceBucket) assertUploadPolicy(originalBuffer);
+    const contentHash = await hashContent(new Uint8Array(originalBuffer));
+
+    const format = originalPath.split('.').pop()?.toLowerCase() ?? '';
+    const pages = await loadPages(originalBuffer, format);
+    const failures: string[] = [];
+    const manifestPages: RenditionManifestPage[] = [];
+    let colorSummary: ColorSummary = { placeholder: null, dominant_color: null, palette: [] };
+    let hasMorePages = false;
+    for await (const pageImage of pages) {
+        if (manifestPages.length === maxPages) {
+            hasMorePages = true;
+            break;
+        }
+        const pageNumber = manifestPages.length + 1;
+        if (pageNumber === 1) {
+            try {
+                colorSummary = await computeColorSummary(pageImage.clone());
+            } catch (error: unknown) {
+                // Viewers work without these, so this doesn't fail the job
+                console.warn(`[ProcessingJobs] Could not compute placeholder and palette for ${originalPath}:`, error);
+            }
+        }
+        const { width = 0, height = 0 } = await pageImage.metadata();
+        const renditions: Rendition[] = [];
+        for (const format of RENDITION_FORMATS) {
+            for (const renditionWidth of RENDITION_WIDTHS) {
+                try {
+                    const processedPath = getProcessedImagePath(originalPath, renditionWidth, pageNumber, format);
+                    renditions.push(await storeRendition(processedPath, pageImage.clone(), renditionWidth, format));
+                } catch (error: unknown) {
+                    failures.push(`page ${pageNumber} ${renditionWidth}px ${format}: ${error instanceof Error ? error.message : String(error)}`);
+                }
+            }
+        }
+        manifestPages.push({ width, height, renditions });
+    }
+    const pageCount = manifestPages.length;
+    let renditionCount = RENDITION_FORMATS.length * RENDITION_WIDTHS.length * pageCount;
+    const animatedPreviewPath = ANIMATED_FORMATS.includes(format) ? getAnimatedPreviewPath(originalPath) : null;
+    if (animatedPreviewPath) {
+        renditionCount++;
+        try {
+            await storeAnimatedPreview(originalPath, originalBuffer);
+        } catch (error: unknown) {
+            failures.push(`animated preview: ${error instanceof Error ? error.message : String(error)}`);
+        }
+    }
+    if (pageCount === 0) {
+        throw new Error('Document has no pages');
+    }
+    if (failures.length > 0) {
+        throw new Error(`Failed to store ${failures.length} of ${renditionCount} renditions (${failures.join('; ')})`);
+    }
+    if (hasMorePages) {
+        return null;
+    }
+
+    // Written last, so a manifest is only ever there when everything it lists is
+    const manifest: RenditionManifest = {
+        original_path: originalPath,
+        pages: manifestPages,
+        animated_preview_path: animatedPreviewPath,
+        ...colorSummary,
+        content_hash: contentHash,
+        generated_at: new Date().toISOString(),
+    };
+    await uploadRendition(getRenditionManifestPath(originalPath), Buffer.from(JSON.stringify(manifest)), 'application/json');
+    return manifest;
+}
+
+/** Creates the job for an original, or resets its existing one so it runs again from the first attempt. */
+export async function enqueueProcessingJob(originalPath: string): Promise<ImageProcessingJob> {
+    const now = new Date().toISOString();
+    const { data, error } = await supabaseAdmin
+        .from(JOBS_TABLE)
+        .upsert({
+            original_path: originalPath,
+            status: 'queued',
+            attempts: 0,
+            last_error: null,
+            next_attempt_at: now,
+            started_at: null,
+            completed_at: null,
+            updated_at: now,
+        }, { onConflict: 'original_path' })
+        .select()
+        .single();
+    if (error || !data) {
+        throw new Error(`Failed to enqueue processing job: ${error?.message || 'No data returned'}`);
+    }
+    return data;
+}
+
+// The job as it is now, e.g. after another request claimed it
+async function fetchJob(id: string): Promise<ImageProcessingJob> {
+    const { data, error } = await supabaseAdmin.from(JOBS_TABLE).select('*').eq('id', id).single();
+    if (error || !data) {
+        throw new Error(`Failed to read processing job: ${error?.message || 'No data returned'}`);
+    }
+    return data;
+}
+
+// Moves a queued job to 'processing'. Returns null if another request changed it first.
+async function claimJob(job: ImageProcessingJob): Promise<ImageProcessingJob | null> {
+    const { data, error } = await supabaseAdmin
+        .from(JOBS_TABLE)
+        .update({ status: 'processing', attempts: job.attempts + 1, started_at: new Date().toISOString(), updated_at: new Date().toISOString() })
+        .eq('id', job.id)
+        .eq('status', 'queued')
+        .eq('attempts', job.attempts)
+        .select()
+        .maybeSingle();
+    if (error) {
+        throw new Error(`Failed to claim processing job: ${error.message}`);
+    }
+    return data;
+}
+
+// Runs one claimed attempt and records the outcome: done, queued for a retry with backoff, or failed for good.
+// An attempt limited to maxPages that stops short of the end of a document is queued for the worker right away and
+// doesn't count; the worker renders the whole document, pages already stored included.
+async function attemptJob(job: ImageProcessingJob, maxPages?: number): Promise<ImageProcessingJob> {
+    let update: Partial<ImageProcessingJob>;
+    try {
+        const manifest = await generateRenditions(job.original_path, maxPages);
+        update = !manifest ? {
+            status: 'queued',
+            attempts: job.attempts - 1,
+            last_error: null,
+            next_attempt_at: new Date().toISOString(),
+        } : {
+            status: 'done',
+            last_error: null,
+            page_count: manifest.pages.length,
+            placeholder: manifest.placeholder,
+            dominant_color: manifest.dominant_color,
+            palette: manifest.palette,
+            content_hash: manifest.content_hash,
+            completed_at: new Date().toISOString(),
+        };
+        console.log(manifest
+            ? `[ProcessingJobs] Job ${job.id} done for ${job.original_path} (attempt ${job.attempts})`
+            : `[ProcessingJobs] Job ${job.id} has more than ${maxPages} pages; left to the worker for ${job.original_path}`);
+    } catch (error: unknown) {
+        const message = error instanceof Error ? error.message : String(error);
+        // A file that breaks the upload policy fails the same way every time
+        const nextAttemptAt = error instanceof UploadPolicyError ? null : getNextAttemptAt(job, new Date());
+        update = nextAttemptAt
+            ? { status: 'queued', last_error: message, next_attempt_at: nextAttemptAt.toISOString() }
+            : { status: 'failed', last_error: message, completed_at: new Date().toISOString() };
+        console.error(`[ProcessingJobs] Job ${job.id} attempt ${job.attempts}/${job.max_attempts} failed for ${job.original_path}: ${message}`);
+    }
+
+    // Only record the outcome if the job wasn't re-enqueued while this attempt ran
+    const { data, error } = await supabaseAdmin
+        .from(JOBS_TABLE)
+        .update({ ...update, updated_at: new Date().toISOString() })
+        .eq('id', job.id)
+        .eq('status', 'processing')
+        .eq('attempts', job.attempts)
+        .select()
+        .maybeSingle();
+    if (error) {
+        throw new Error(`Failed to update processing job: ${error.message}`);
+    }
+    return data ?? { ...job, ...update };
+}
+
+/**
+ * Enqueues and immediately works on the job for an original, retrying in place while the backoff is short. Only the
+ * first INLINE_PAGE_LIMIT pages of a document are rendered here; longer documents are left to the worker.
+ * Returns the job as it was left; a 'queued' job is picked up later by runDueProcessingJobs, and a 'processing' one
+ * is being worked on by another request.
+ */
+export async function runProcessingJobNow(originalPath: string): Promise<ImageProcessingJob> {
+    let job = await enqueueProcessingJob(originalPath);
+    for (;;) {
+        const claimed = await claimJob(job);
+        // Another request is working on it (or just did); report the job as that left it
+        if (!claimed) return fetchJob(job.id);
+        job = await attemptJob(claimed, INLINE_PAGE_LIMIT);
+        if (job.status !== 'queued' || isLeftToWorker(job)) return job;
+
+        const delay = new Date(job.next_attempt_at).getTime() - Date.now();
+        if (delay > INLINE_RETRY_MAX_DELAY_MS) return job;
+        await sleep(Math.max(delay, 0));
+    }
+}
+
+/** Runs retries that are due (and jobs stuck in 'processing' from a crashed request), one at a time. */
+export async function runDueProcessingJobs(limit: number): Promise<ImageProcessingJob[]> {
+    const { data: claimed, error } = await supabaseAdmin.rpc('claim_image_processing_jobs', { p_limit: limit });
+    if (error) {
+        throw new Error(`Failed to claim processing jobs: ${error.message}`);
+    }
+    const results: ImageProcessingJob[] = [];
+    // One at a time: each attempt holds the whole image in memory
+    for (const job of (claimed ?? []) as ImageProcessingJob[]) {
+        results.push(await attemptJob(job));
+    }
+    return results;
+}
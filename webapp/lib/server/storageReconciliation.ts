@@ -0,0 +1,67 @@
+// webapp/lib/server/storageReconciliation.ts
+// Gathers what is in storage and what the database references, for /api/admin/storage-reconciliation. Server-only.
+import {
+    defaultSourceBucket,
+    commentAttachmentBucket,
+    targetBucket,
+    supabaseAdmin,
+} from './imagePipeline';
+import type { StoredObject, ReferencedFile } from '@/lib/storageReconciliation';
+
+const LIST_PAGE_SIZE = 1000;
+const SELECT_PAGE_SIZE = 1000;
+
+export const RECONCILED_BUCKETS = [defaultSourceBucket, commentAttachmentBucket, targetBucket];
+
+// Supabase storage lists one folder level at a time; folders come back without an id
+export async function listBucketObjects(bucket: string, prefix = ''): Promise<StoredObject[]> {
+    const objects: StoredObject[] = [];
+    for (let offset = 0; ; offset += LIST_PAGE_SIZE) {
+        const { data, error } = await supabaseAdmin.storage
+            .from(bucket)
+            .list(prefix, { limit: LIST_PAGE_SIZE, offset, sortBy: { column: 'name', order: 'asc' } });
+        if (error) {
+            throw new Error(`Failed to list ${bucket}/${prefix}: ${error.message}`);
+        }
+        for (const entry of data ?? []) {
+            const path = prefix ? `${prefix}/${entry.name}` : entry.name;
+            if (entry.id === null) {
+                objects.push(...await listBucketObjects(bucket, path));
+            } else if (!entry.name.startsWith('.emptyFolderPlaceholder')) {
+                objects.push({ bucket, path, size: entry.metadata?.size ?? null, createdAt: entry.created_at ?? null });
+            }
+        }
+        if (!data || data.length < LIST_PAGE_SIZE) break;
+    }
+    return objects;
+}
+
+async function selectAllFilePaths(table: string): Promise<string[]> {
+    const paths: string[] = [];
+    for (let from = 0; ; from += SELECT_PAGE_SIZE) {
+        const { data, error } = await supabaseAdmin
+            .from(table)
+            .select('file_path')
+            .not('file_path', 'is', null)
+            .range(from, from + SELECT_PAGE_SIZE - 1);
+        if (error) {
+            throw new Error(`Failed to read ${table}.file_path: ${error.message}`);
+        }
+        paths.push(...(data ?? []).map((row: { file_path: string }) => row.file_path));
+        if (!data || data.length < SELECT_PAGE_SIZE) break;
+    }
+    return paths;
+}
+
+// Uses the service role, so trashed rows still count as references until they are purged
+export async function listReferencedFiles(): Promise<ReferencedFile[]> {
+    const [variationPaths, revisionPaths, attachmentPaths] = await Promise.all([
+        selectAllFilePaths('variations'),
+        selectAllFilePaths('variation_file_revisions'),
+        selectAllFilePaths('attachments'),
+    ]);
+    return [
+        ...[...variationPaths, ...revisionPaths].map(path => ({ bucket: defaultSourceBucket, path })),
+        ...attachmentPaths.map(path => ({ bucket: commentAttachmentBucket, path })),
+    ];
+}
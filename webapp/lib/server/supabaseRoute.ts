@@ -0,0 +1,36 @@
+// webapp/lib/server/supabaseRoute.ts
+// Supabase client for API routes that acts as the signed-in user (from the request cookies), so RLS applies.
+import { createServerClient } from '@supabase/ssr';
+import type { NextRequest } from 'next/server';
+
+export function createRouteClient(request: NextRequest) {
+    return createServerClient(
+        process.env.NEXT_PUBLIC_SUPABASE_URL!,
+        process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
+        {
+            cookies: {
+                get(name: string) {
+                    return request.cookies.get(name)?.value;
+                },
+                // Route handlers only read the session; refreshing it is the middleware's job
+                set() {},
+                remove() {},
+            },
+        }
+    );
+}
+
+export async function getRouteUser(request: NextRequest) {
+    const supabase = createRouteClient(request);
+    const { data: { user }, error } = await supabase.auth.getUser();
+    if (error || !user) return { supabase, user: null };
+    return { supabase, user };
+}
+
+// Admin check for API routes, using the same current_user_is_admin() the trash RLS uses
+export async function isRouteUserAdmin(request: NextRequest): Promise<boolean> {
+    const { supabase, user } = await getRouteUser(request);
+    if (!user) return false;
+    const { data: isAdmin } = await supabase.rpc('current_user_is_admin');
+    return isAdmin === true;
+}
@@ -0,0 +1,69 @@
+// webapp/lib/server/uploadValidation.ts
+// Server side of lib/uploadPolicy.ts: stored uploads are checked again, whatever the browser decided. Server-only.
+import { defaultSourceBucket, supabaseAdmin } from '@/lib/server/imagePipeline';
+import { checkUploadPolicy, UPLOAD_HEADER_BYTES } from '@/lib/uploadPolicy';
+
+// Thrown for files that break the upload policy; retrying won't change the outcome
+export class UploadPolicyError extends Error {}
+
+/** Throws UploadPolicyError unless a downloaded original meets the upload policy. */
+export function assertUploadPolicy(buffer: Buffer): void {
+    const problems = checkUploadPolicy(new Uint8Array(buffer.subarray(0, UPLOAD_HEADER_BYTES)), buffer.length);
+    if (problems.length > 0) {
+        throw new UploadPolicyError(`Upload policy: ${problems.join(' ')}`);
+    }
+}
+
+/**
+ * Checks a stored object against the upload policy without downloading all of it (only its first bytes are
+ * fetched). Returns what's wrong with it, empty when it's fine.
+ */
+export async function checkStoredUpload(bucket: string, path: string): Promise<string[]> {
+    const { data, error } = await supabaseAdmin.storage.from(bucket).createSignedUrl(path, 60);
+    if (error || !data) {
+        throw new Error(`Failed to read ${bucket}/${path}: ${error?.message || 'No signed URL returned'}`);
+    }
+    const response = await fetch(data.signedUrl, { headers: { Range: `bytes=0-${UPLOAD_HEADER_BYTES - 1}` } });
+    if (!response.ok) {
+        throw new Error(`Failed to read ${bucket}/${path}: ${response.status} ${response.statusText}`);
+    }
+    const header = new Uint8Array(await response.arrayBuffer());
+    // A ranged response reports the full size as "bytes 0-131071/<size>"; a full one is the whole object
+    const totalSize = Number(response.headers.get('content-range')?.split('/')[1]);
+    return checkUploadPolicy(header.subarray(0, UPLOAD_HEADER_BYTES), Number.isFinite(totalSize) && totalSize > 0 ? totalSize : header.length);
+}
+
+/** Whether an upload is in the originals bucket. */
+export async function storedUploadExists(path: string): Promise<boolean> {
+    const folder = path.split('/').slice(0, -1).join('/');
+    const fileName = path.split('/').pop();
+    const { data, error } = await supabaseAdmin.storage
+        .from(defaultSourceBucket)
+        .list(folder, { search: fileName });
+    if (error) {
+        throw new Error(`Failed to check ${path}: ${error.message}`);
+    }
+    return (data ?? []).some(item => item.name === fileName);
+}
+
+// Storage isn't part of any database transaction, so uploads that can't be linked are undone by hand. Paths a
+// variation or one of its file revisions points at are live files (e.g. from an earlier commit of the same uploads)
+// and are never removed.
+export async function removeUnlinkedUploads(logPrefix: string, paths: string[]): Promise<void> {
+    if (paths.length === 0) return;
+    const [variations, revisions] = await Promise.all([
+        supabaseAdmin.from('variations').select('file_path').in('file_path', paths),
+        supabaseAdmin.from('variation_file_revisions').select('file_path').in('file_path', paths),
+    ]);
+    if (variations.error || revisions.error) {
+        console.error(`${logPrefix} Not removing uploads, could not check which are in use:`, variations.error ?? revisions.error);
+        return;
+    }
+    const referenced = new Set([...(variations.data ?? []), ...(revisions.data ?? [])].map(row => row.file_path));
+    const unreferenced = paths.filter(path => !referenced.has(path));
+    if (unreferenced.length === 0) return;
+    const { error } = await supabaseAdmin.storage.from(defaultSourceBucket).remove(unreferenced);
+    if (error) {
+        console.error(`${logPrefix} Failed to remove uploads that were not linked:`, unreferenced, error);
+    }
+}
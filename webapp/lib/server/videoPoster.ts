@@ -0,0 +1,40 @@
+// webapp/lib/server/videoPoster.ts
+// Picks a poster frame from a video original with ffmpeg so the rendition pipeline can resize it. Server-only.
+import os from 'os';
+import path from 'path';
+import { execFile } from 'child_process';
+import { promisify } from 'util';
+import { mkdtemp, rm, writeFile } from 'fs/promises';
+import sharp from 'sharp';
+import ffmpeg from '@ffmpeg-installer/ffmpeg';
+
+const execFileAsync = promisify(execFile);
+
+const FFMPEG_TIMEOUT_MS = 60_000;
+const MAX_POSTER_BYTES = 64 * 1024 * 1024;
+
+/**
+ * Returns a representative early frame of a video (ffmpeg's thumbnail filter skips black and faded-in frames).
+ * The video is written to a temp file first because MP4/MOV files often keep their index at the end, which a pipe can't seek to.
+ */
+export async function extractPosterFrame(buffer: Buffer, format: string): Promise<sharp.Sharp> {
+    const workDir = await mkdtemp(path.join(os.tmpdir(), 'video-poster-'));
+    try {
+        const inputPath = path.join(workDir, `input.${format}`);
+        await writeFile(inputPath, buffer);
+        const { stdout } = await execFileAsync(
+            ffmpeg.path,
+            ['-v', 'error', '-i', inputPath, '-vf', 'thumbnail', '-frames:v', '1', '-f', 'image2pipe', '-c:v', 'png', 'pipe:1'],
+            { encoding: 'buffer', maxBuffer: MAX_POSTER_BYTES, timeout: FFMPEG_TIMEOUT_MS },
+        );
+        if (stdout.length === 0) {
+            throw new Error('Video has no frames');
+        }
+        return sharp(stdout);
+    } catch (error: unknown) {
+        const stderr = (error as { stderr?: Buffer }).stderr?.toString().trim();
+        throw new Error(`Failed to extract poster frame: ${stderr || (error instanceof Error ? error.message : String(error))}`);
+    } finally {
+        await rm(workDir, { recursive: true, force: true });
+    }
+}
@@ -0,0 +1,79 @@
+import { findStorageDiscrepancies, StoredObject } from './storageReconciliation';
+
+const PROCESSED = 'processed-images';
+const HOUR_MS = 60 * 60 * 1000;
+const now = new Date('2026-10-19T12:00:00Z');
+const old = '2026-10-01T00:00:00Z';
+
+const renditionsOf = (path: string) => [path.replace(/\.\w+$/, '_200.webp'), path.replace(/\.\w+$/, '_1200.webp')];
+
+const stored = (bucket: string, path: string, createdAt: string | null = old): StoredObject => ({ bucket, path, size: 1, createdAt });
+
+describe('findStorageDiscrepancies', () => {
+    const run = (objects: StoredObject[], referenced: { bucket: string; path: string }[]) =>
+        findStorageDiscrepancies({ objects, referenced, processedBucket: PROCESSED, getRenditionPaths: renditionsOf, now, gracePeriodMs: 24 * HOUR_MS });
+
+    it('should report nothing when storage matches the database', () => {
+        const result = run(
+            [stored('design-variations', 'a/x.png'), stored(PROCESSED, 'a/x_200.webp'), stored(PROCESSED, 'a/x_1200.webp')],
+            [{ bucket: 'design-variations', path: 'a/x.png' }],
+        );
+        expect(result).toEqual({ orphans: [], missingOriginals: [], missingRenditions: [] });
+    });
+
+    it('should report unreferenced originals and renditions as orphans', () => {
+        const result = run(
+            [stored('design-variations', 'a/gone.png'), stored(PROCESSED, 'a/gone_200.webp'), stored('comment-attachments', 'comments/1/f.pdf')],
+            [],
+        );
+        expect(result.orphans.map(object => object.path)).toEqual(['a/gone.png', 'a/gone_200.webp', 'comments/1/f.pdf']);
+    });
+
+    it('should not report recent objects as orphans', () => {
+        const result = run([stored('design-variations', 'a/new.png', '2026-10-19T11:00:00Z')], []);
+        expect(result.orphans).toEqual([]);
+    });
+
+    it('should report missing originals and missing renditions', () => {
+        const result = run(
+            [stored('design-variations', 'a/x.png'), stored(PROCESSED, 'a/x_200.webp')],
+            [{ bucket: 'design-variations', path: 'a/x.png' }, { bucket: 'design-variations', path: 'a/lost.png' }],
+        );
+        expect(result.missingOriginals).toEqual([{ bucket: 'design-variations', path: 'a/lost.png' }]);
+        expect(result.missingRenditions).toEqual([{ bucket: 'design-variations', originalPath: 'a/x.png', missing: ['a/x_1200.webp'] }]);
+    });
+
+    it('should not expect renditions for formats that are never processed', () => {
+        const result = run([stored('comment-attachments', 'comments/1/spec.docx')], [{ bucket: 'comment-attachments', path: 'comments/1/spec.docx' }]);
+        expect(result.missingRenditions).toEqual([]);
+    });
+
+    it('should accept a complete legacy layout in place of the current renditions', () => {
+        const legacyLayoutsOf = (path: string) =>
+            path.endsWith('.gif') ? [[path], [path.replace(/_\d+\.gif$/, '.gif')]] : [[path.replace(/\.\w+$/, '_800.webp')]];
+        const result = findStorageDiscrepancies({
+            objects: [
+                stored('design-variations', 'a/old.png'),
+                stored(PROCESSED, 'a/old_800.webp'),
+                stored('design-variations', 'a/anim_123.gif'),
+                stored(PROCESSED, 'a/anim.gif'),
+                stored('design-variations', 'a/half.png'),
+                stored(PROCESSED, 'a/half_200.webp'),
+            ],
+            referenced: [
+                { bucket: 'design-variations', path: 'a/old.png' },
+                { bucket: 'design-variations', path: 'a/anim_123.gif' },
+                { bucket: 'design-variations', path: 'a/half.png' },
+            ],
+            processedBucket: PROCESSED,
+            getRenditionPaths: renditionsOf,
+            getLegacyRenditionLayouts: legacyLayoutsOf,
+            now,
+            gracePeriodMs: 24 * HOUR_MS,
+        });
+        expect(result.orphans).toEqual([]);
+        expect(result.missingRenditions).toEqual([
+            { bucket: 'design-variations', originalPath: 'a/half.png', missing: ['a/half_1200.webp'] },
+        ]);
+    });
+});
@@ -0,0 +1,110 @@
+import { SUPPORTED_IMAGE_FORMATS } from './constants/imageConstants';
+
+export type StoredObject = {
+    bucket: string;
+    path: string;
+    size: number | null;
+    createdAt: string | null;
+};
+
+// A file the database points at (variations.file_path, variation_file_revisions.file_path, attachments.file_path)
+export type ReferencedFile = {
+    bucket: string;
+    path: string;
+};
+
+export type MissingRenditions = {
+    bucket: string;
+    originalPath: string;
+    missing: string[];
+};
+
+export type StorageDiscrepancies = {
+    orphans: StoredObject[];
+    missingOriginals: ReferencedFile[];
+    missingRenditions: MissingRenditions[];
+};
+
+type FindDiscrepanciesOptions = {
+    objects: StoredObject[];
+    referenced: ReferencedFile[];
+    processedBucket: string;
+    getRenditionPaths: (originalPath: string) => string[]; // What /api/process-image writes for an original
+    // Complete sets of renditions older processors wrote for an original, which still serve it
+    getLegacyRenditionLayouts?: (originalPath: string) => string[][];
+    now: Date;
+    gracePeriodMs: number;
+};
+
+const objectKey = (bucket: string, path: string) => `${bucket}/${path}`;
+
+const isProcessable = (path: string) => SUPPORTED_IMAGE_FORMATS.includes(path.split('.').pop()?.toLowerCase() ?? '');
+
+/**
+ * Compares the objects in storage with the files the database references.
+ *
+ * - orphans: originals nobody references, and renditions whose original isn't referenced
+ * - missingOriginals: referenced files that aren't in storage (reported only; nothing can fix them)
+ * - missingRenditions: referenced originals that exist but are missing some processed sizes
+ *
+ * Renditions of a legacy layout are expected too, and an original with a complete legacy layout isn't missing any.
+ * Objects younger than the grace period are never reported as orphans.
+ */
+export function findStorageDiscrepancies({
+    objects,
+    referenced,
+    processedBucket,
+    getRenditionPaths,
+    getLegacyRenditionLayouts = () => [],
+    now,
+    gracePeriodMs,
+}: FindDiscrepanciesOptions): StorageDiscrepancies {
+    const storedKeys = new Set(objects.map(object => objectKey(object.bucket, object.path)));
+    const referencedKeys = new Set(referenced.map(file => objectKey(file.bucket, file.path)));
+
+    const expectedRenditions = new Set<string>();
+    const missingOriginals: ReferencedFile[] = [];
+    const missingRenditions: MissingRenditions[] = [];
+    const seen = new Set<string>();
+
+    for (const file of referenced) {
+        const key = objectKey(file.bucket, file.path);
+        if (seen.has(key)) continue;
+        seen.add(key);
+
+        const renditions = isProcessable(file.path) ? getRenditionPaths(file.path) : [];
+        const legacyLayouts = isProcessable(file.path) ? getLegacyRenditionLayouts(file.path) : [];
+        [renditions, ...legacyLayouts].forEach(paths => paths.forEach(path => expectedRenditions.add(path)));
+
+        if (!storedKeys.has(key)) {
+            missingOriginals.push(file);
+            continue;
+        }
+        const isStored = (path: string) => storedKeys.has(objectKey(processedBucket, path));
+        const missing = renditions.filter(path => !isStored(path));
+        if (missing.length > 0 && !legacyLayouts.some(layout => layout.every(isStored))) {
+            missingRenditions.push({ bucket: file.bucket, originalPath: file.path, missing });
+        }
+    }
+
+    const isRecent = (object: StoredObject) =>
+        !!object.createdAt && now.getTime() - new Date(object.createdAt).getTime() < gracePeriodMs;
+
+    const orphans = objects.filter(object => {
+        if (isRecent(object)) return false;
+        if (object.bucket === processedBucket) return !expectedRenditions.has(object.path);
+        return !referencedKeys.has(objectKey(object.bucket, object.path));
+    });
+
+    return { orphans, missingOriginals, missingRenditions };
+}
+
+// Response of /api/admin/storage-reconciliation
+export type StorageReconciliationReport = StorageDiscrepancies & {
+    dryRun: boolean;
+    scannedAt: string;
+    objectCounts: Record<string, number>; // Objects found per bucket
+    deletedOrphans: number;
+    reprocessed: number;
+    errors: string[];
+};
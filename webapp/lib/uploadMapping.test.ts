@@ -0,0 +1,68 @@
+import { hasUploadStructure, mapUploadPaths, planUploadMapping, type ExistingDesign } from './uploadMapping';
+
+describe('mapUploadPaths', () => {
+    it('should map design folders with version folders', () => {
+        expect(mapUploadPaths(['Brand/Logo/v2/B.png', 'Brand/Logo/v2/a.png', 'Brand/Icon/icon.svg'])).toEqual([
+            { designName: 'Logo', versionNumber: 2, variationLetter: 'B' },
+            { designName: 'Logo', versionNumber: 2, variationLetter: 'A' },
+            { designName: 'Icon', versionNumber: null, variationLetter: null },
+        ]);
+    });
+
+    it('should keep a single dropped folder as the design', () => {
+        expect(mapUploadPaths(['Logo/v1/A.png', 'Logo/v2/A.png']).map(entry => entry.designName)).toEqual(['Logo', 'Logo']);
+        expect(mapUploadPaths(['Logo/first.png', 'Logo/second.png']).map(entry => entry.designName)).toEqual(['Logo', 'Logo']);
+    });
+
+    it('should read the naming convention from loose files', () => {
+        expect(mapUploadPaths(['Logo_v2_B.png', 'Hero-v10.jpg', 'banner.png'])).toEqual([
+            { designName: 'Logo', versionNumber: 2, variationLetter: 'B' },
+            { designName: 'Hero', versionNumber: 10, variationLetter: null },
+            { designName: 'banner', versionNumber: null, variationLetter: null },
+        ]);
+        expect(mapUploadPaths(['Exports/Logo_v1_A.png', 'Exports/Icon_v3.png']).map(entry => entry.designName)).toEqual(['Logo', 'Icon']);
+    });
+});
+
+describe('hasUploadStructure', () => {
+    it('should only flag drops with folders or convention names', () => {
+        expect(hasUploadStructure(['a.png', 'b.png'])).toBe(false);
+        expect(hasUploadStructure(['a.png', 'Logo_v2.png'])).toBe(true);
+        expect(hasUploadStructure(['Logo/a.png'])).toBe(true);
+    });
+});
+
+describe('planUploadMapping', () => {
+    const existing: ExistingDesign[] = [{
+        id: 'design-1',
+        name: 'Logo',
+        versions: [
+            { id: 'version-1', version_number: 1, variations: [{ variation_letter: 'A' }, { variation_letter: 'B' }] },
+            { id: 'version-2', version_number: 2, variations: [{ variation_letter: 'A' }] },
+        ],
+    }];
+
+    it('should extend existing versions and number new ones after the last', () => {
+        const plan = planUploadMapping([
+            { designName: 'logo', versionNumber: 1, variationLetter: null },
+            { designName: 'Logo', versionNumber: null, variationLetter: null },
+            { designName: 'Logo', versionNumber: 7, variationLetter: 'B' },
+            { designName: 'Logo', versionNumber: 7, variationLetter: 'A' },
+        ], existing);
+        expect(plan).toEqual([{
+            designId: 'design-1',
+            name: 'Logo',
+            versions: [
+                { versionId: 'version-1', versionNumber: 1, fileIndexes: [0], variationLetters: ['C'] },
+                { versionId: null, versionNumber: 3, fileIndexes: [3, 2], variationLetters: ['A', 'B'] },
+                { versionId: null, versionNumber: 4, fileIndexes: [1], variationLetters: ['A'] },
+            ],
+        }]);
+    });
+
+    it('should create designs that do not exist yet', () => {
+        expect(planUploadMapping([{ designName: 'Icon', versionNumber: 2, variationLetter: null }], existing)).toEqual([
+            { designId: null, name: 'Icon', versions: [{ versionId: null, versionNumber: 1, fileIndexes: [0], variationLetters: ['A'] }] },
+        ]);
+    });
+});
@@ -0,0 +1,208 @@
+// webapp/lib/uploadMapping.ts
+// Maps dropped folders, ZIPs and file names onto the Design / Version / Variation hierarchy. Folder structure
+// wins over names: a folder is a design and a `v2` folder inside it is that design's version 2. Loose files can
+// follow the `Logo_v2_B.png` convention (design "Logo", version 2, variation B); any other loose file becomes a
+// design of its own, like a plain drop. The mapping is only a proposal: the import dialog shows it for editing
+// and planUploadMapping turns the edited result into what to create or extend.
+import { unzip } from 'fflate';
+import { sniffFileType, UPLOAD_HEADER_BYTES } from './uploadPolicy';
+
+// A dropped file with where it sat in the dropped folders, e.g. "Logo/v2/B.png" ("B.png" for a loose file)
+export type DroppedFile = {
+    file: File;
+    path: string;
+};
+
+// Where one file should go; versionNumber and variationLetter are null when neither path nor name says
+export type UploadMappingEntry = {
+    designName: string;
+    versionNumber: number | null;
+    variationLetter: string | null;
+};
+
+// The project's designs as far as the mapping needs them
+export type ExistingDesign = {
+    id: string;
+    name: string;
+    versions: { id: string; version_number: number; variations: { variation_letter: string }[] }[];
+};
+
+export type PlannedVersion = {
+    versionId: string | null; // null when the import creates it
+    versionNumber: number; // New versions get theirs when committed, so this is what they're expected to get
+    fileIndexes: number[]; // Into the mapped entries, in the order their variations are added
+    variationLetters: string[]; // Expected letter of each file; '?' past Z, where the version is full
+};
+
+export type PlannedDesign = {
+    designId: string | null; // null when the import creates it
+    name: string;
+    versions: PlannedVersion[]; // Existing versions first, then new ones in the order they're numbered
+};
+
+// Folders, ZIP entries and macOS metadata that aren't design files
+const IGNORED_PATH = /(^|\/)(__MACOSX|\.[^/]*)(\/|$)/;
+const VERSION_FOLDER = /^v(\d+)$/i;
+const NAMING_CONVENTION = /^(.+?)[_\-\s]v(\d+)(?:[_\-\s]([A-Za-z]))?$/i;
+const MAX_VARIATION_LETTER = 'Z'.charCodeAt(0);
+
+const stripExtension = (fileName: string) => fileName.substring(0, fileName.lastIndexOf('.')) || fileName;
+
+const splitPath = (path: string) => path.split('/').filter(segment => segment && segment !== '.');
+
+/** The path of a dropped or picked file relative to what was dropped; just its name for a loose file. */
+export function getDroppedFilePath(file: File): string {
+    // react-dropzone sets relativePath ("/Logo/v2/B.png", "./B.png"); folder pickers set webkitRelativePath
+    const { relativePath } = file as File & { relativePath?: string };
+    return splitPath(relativePath || file.webkitRelativePath || file.name).join('/');
+}
+
+export const isZipFile = (file: File) => /\.zip$/i.test(file.name) || file.type === 'application/zip' || file.type === 'application/x-zip-compressed';
+
+const unzipEntries = (data: Uint8Array) => new Promise<Record<string, Uint8Array>>((resolve, reject) => {
+    unzip(data, { filter: entry => !entry.name.endsWith('/') && !IGNORED_PATH.test(entry.name) }, (error, entries) => {
+        if (error) reject(new Error(`Could not read the ZIP file: ${error.message}`));
+        else resolve(entries);
+    });
+});
+
+/**
+ * Turns dropped files into DroppedFiles, expanding ZIPs into their files. A ZIP counts as a folder named after it,
+ * so a ZIP of design folders maps the same as dropping the folder it was made from.
+ */
+export async function expandDroppedFiles(files: File[]): Promise<DroppedFile[]> {
+    const expanded: DroppedFile[] = [];
+    for (const file of files) {
+        const path = getDroppedFilePath(file);
+        if (IGNORED_PATH.test(path)) continue;
+        if (!isZipFile(file)) {
+            expanded.push({ file, path });
+            continue;
+        }
+        const folder = [...splitPath(path).slice(0, -1), stripExtension(file.name)].join('/');
+        const entries = await unzipEntries(new Uint8Array(await file.arrayBuffer()));
+        Object.entries(entries).forEach(([entryPath, data]) => {
+            const segments = splitPath(entryPath);
+            const type = sniffFileType(data.subarray(0, UPLOAD_HEADER_BYTES)) ?? '';
+            expanded.push({
+                file: new File([new Uint8Array(data)], segments[segments.length - 1], { type, lastModified: file.lastModified }),
+                path: `${folder}/${segments.join('/')}`,
+            });
+        });
+    }
+    return expanded;
+}
+
+/** True when a drop says more than "one design per file", i.e. it has folders or names following the convention. */
+export function hasUploadStructure(paths: string[]): boolean {
+    return paths.some(path => splitPath(path).length > 1 || NAMING_CONVENTION.test(stripExtension(path)));
+}
+
+// A folder that contains every file is dropped when it's a container rather than a design: when it holds design
+// folders, or only loose files named by the convention
+const getContainerDepth = (segmentsList: string[][]): number => {
+    const root = segmentsList[0][0];
+    if (!segmentsList.every(segments => segments.length > 1 && segments[0] === root)) return 0;
+    const inner = segmentsList.map(segments => segments.slice(1));
+    const holdsDesignFolders = inner.some(segments => segments.length > 1 && !VERSION_FOLDER.test(segments[0]));
+    const holdsNamedFiles = inner.every(segments => segments.length === 1 && NAMING_CONVENTION.test(stripExtension(segments[0])));
+    return holdsDesignFolders || holdsNamedFiles ? 1 : 0;
+};
+
+/** Proposes a design, version and variation for each path (see the top of this file for the rules). */
+export function mapUploadPaths(paths: string[]): UploadMappingEntry[] {
+    if (paths.length === 0) return [];
+    const segmentsList = paths.map(splitPath);
+    const containerDepth = getContainerDepth(segmentsList);
+
+    return segmentsList.map(allSegments => {
+        const segments = allSegments.slice(containerDepth);
+        const baseName = stripExtension(segments[segments.length - 1]);
+        const convention = baseName.match(NAMING_CONVENTION);
+        const conventionVersion = convention ? Number(convention[2]) : null;
+        const conventionLetter = convention?.[3]?.toUpperCase() ?? null;
+        if (segments.length === 1) {
+            return convention
+                ? { designName: convention[1], versionNumber: conventionVersion, variationLetter: conventionLetter }
+                : { designName: baseName, versionNumber: null, variationLetter: null };
+        }
+        const versionFolder = segments.length > 2 ? segments[1].match(VERSION_FOLDER) : null;
+        return {
+            designName: segments[0],
+            versionNumber: versionFolder ? Number(versionFolder[1]) : conventionVersion,
+            variationLetter: /^[A-Za-z]$/.test(baseName) ? baseName.toUpperCase() : conventionLetter,
+        };
+    });
+}
+
+const nextLetter = (letter: string | undefined, offset: number) => {
+    const code = (letter ? letter.charCodeAt(0) + 1 : 'A'.charCodeAt(0)) + offset;
+    return code > MAX_VARIATION_LETTER ? '?' : String.fromCharCode(code);
+};
+
+// Files with a letter come first, in letter order; the rest keep their order
+const byVariationLetter = (entries: UploadMappingEntry[]) => (a: number, b: number) => {
+    const [letterA, letterB] = [entries[a].variationLetter ?? '~', entries[b].variationLetter ?? '~'];
+    return letterA === letterB ? a - b : letterA < letterB ? -1 : 1;
+};
+
+/**
+ * Works out what importing `entries` creates or extends. Design names match existing designs regardless of case;
+ * a version number that exists adds variations to that version, any other becomes a new version, numbered after
+ * the design's last one in the order the entries ask for (entries without a number last). Requested letters only
+ * order the new variations, which take the next free letters.
+ */
+export function planUploadMapping(entries: UploadMappingEntry[], existingDesigns: ExistingDesign[]): PlannedDesign[] {
+    const byName = new Map<string, { existing: ExistingDesign | undefined; name: string; fileIndexes: number[] }>();
+    entries.forEach((entry, index) => {
+        const name = entry.designName.trim();
+        const key = name.toLowerCase();
+        const group = byName.get(key)
+            ?? { existing: existingDesigns.find(design => design.name.trim().toLowerCase() === key), name, fileIndexes: [] };
+        group.fileIndexes.push(index);
+        byName.set(key, group);
+    });
+
+    return Array.from(byName.values()).map(({ existing, name, fileIndexes }) => {
+        const existingVersions = existing?.versions ?? [];
+        const requested = new Map<number | null, number[]>();
+        fileIndexes.forEach(index => {
+            const number = entries[index].versionNumber;
+            requested.set(number, [...(requested.get(number) ?? []), index]);
+        });
+
+        const extended: PlannedVersion[] = [];
+        const created: { number: number | null; fileIndexes: number[] }[] = [];
+        requested.forEach((indexes, number) => {
+            const version = existingVersions.find(item => item.version_number === number);
+            if (!version) {
+                created.push({ number, fileIndexes: indexes });
+                return;
+            }
+            const lastLetter = version.variations.map(variation => variation.variation_letter).sort().pop();
+            const ordered = [...indexes].sort(byVariationLetter(entries));
+            extended.push({
+                versionId: version.id,
+                versionNumber: version.version_number,
+                fileIndexes: ordered,
+                variationLetters: ordered.map((_, offset) => nextLetter(lastLetter, offset)),
+            });
+        });
+
+        const lastVersionNumber = Math.max(0, ...existingVersions.map(version => version.version_number));
+        created.sort((a, b) => (a.number ?? Infinity) - (b.number ?? Infinity));
+        const versions = [
+            ...extended.sort((a, b) => a.versionNumber - b.versionNumber),
+            ...created.map(({ fileIndexes: indexes }, position): PlannedVersion => {
+                const ordered = [...indexes].sort(byVariationLetter(entries));
+                return {
+                    versionId: null,
+                    versionNumber: lastVersionNumber + position + 1,
+                    fileIndexes: ordered,
+                    variationLetters: ordered.map((_, offset) => nextLetter(undefined, offset)),
+                };
+            }),
+        ];
+        return { designId: existing?.id ?? null, name: existing?.name ?? name, versions };
+    });
+}
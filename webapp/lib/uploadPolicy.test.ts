@@ -0,0 +1,82 @@
+import { checkUploadPolicy, hashBlob, hashContent, readPixelDimensions, sniffFileType, type UploadPolicy } from './uploadPolicy';
+
+const policy: UploadPolicy = {
+    maxFileSizeBytes: 1024 * 1024,
+    allowedMimeTypes: ['image/png', 'image/jpeg', 'application/pdf'],
+    minWidth: 100,
+    minHeight: 100,
+};
+
+const pngHeader = (width: number, height: number) => {
+    const bytes = new Uint8Array(24);
+    bytes.set([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 0, 0, 0, 13, 0x49, 0x48, 0x44, 0x52]);
+    new DataView(bytes.buffer).setUint32(16, width);
+    new DataView(bytes.buffer).setUint32(20, height);
+    return bytes;
+};
+
+const ascii = (text: string) => new Uint8Array(new TextEncoder().encode(text));
+
+describe('sniffFileType', () => {
+    it('should go by the content, not the name', () => {
+        expect(sniffFileType(pngHeader(10, 10))).toBe('image/png');
+        expect(sniffFileType(ascii('%PDF-1.7\n'))).toBe('application/pdf');
+        expect(sniffFileType(ascii('<?xml version="1.0"?>\n<svg xmlns="http://www.w3.org/2000/svg">'))).toBe('image/svg+xml');
+    });
+
+    it('should tell videos from still images in ISO media files', () => {
+        expect(sniffFileType(ascii('\0\0\0\x18ftypisom'))).toBe('video/mp4');
+        expect(sniffFileType(ascii('\0\0\0\x14ftypqt  '))).toBe('video/quicktime');
+        expect(sniffFileType(ascii('\0\0\0\x1cftypheic'))).toBe('image/heic');
+    });
+
+    it('should not take ISO media files of unknown brands for video', () => {
+        expect(sniffFileType(ascii('\0\0\0\x20ftypM4A '))).toBeNull();
+        expect(sniffFileType(ascii('\0\0\0\x18ftypcrx '))).toBeNull();
+    });
+
+    it('should not recognize arbitrary text', () => {
+        expect(sniffFileType(ascii('just some notes'))).toBeNull();
+    });
+});
+
+describe('readPixelDimensions', () => {
+    it('should read PNG and JPEG sizes', () => {
+        expect(readPixelDimensions(pngHeader(640, 480), 'image/png')).toEqual({ width: 640, height: 480 });
+        // SOI, a 4-byte APP0 segment, then SOF0 with height 300 and width 200
+        const jpeg = new Uint8Array([0xff, 0xd8, 0xff, 0xe0, 0x00, 0x04, 0x00, 0x00, 0xff, 0xc0, 0x00, 0x11, 0x08, 0x01, 0x2c, 0x00, 0xc8, 0x03]);
+        expect(readPixelDimensions(jpeg, 'image/jpeg')).toEqual({ width: 200, height: 300 });
+    });
+
+    it('should return null for formats without a fixed pixel size', () => {
+        expect(readPixelDimensions(ascii('%PDF-1.7'), 'application/pdf')).toBeNull();
+    });
+});
+
+describe('checkUploadPolicy', () => {
+    it('should accept a file within the policy', () => {
+        expect(checkUploadPolicy(pngHeader(800, 600), 2048, policy)).toEqual([]);
+    });
+
+    it('should report size, type and dimension problems', () => {
+        expect(checkUploadPolicy(pngHeader(800, 600), 2 * 1024 * 1024, policy)).toEqual(['The file is 2 MB; the limit is 1 MB.']);
+        expect(checkUploadPolicy(ascii('GIF89a\x01\0\x01\0'), 100, policy)).toEqual(['image/gif files are not allowed.']);
+        expect(checkUploadPolicy(pngHeader(50, 600), 2048, policy)).toEqual(['The image is 50×600 px; at least 100×100 px is required.']);
+        expect(checkUploadPolicy(ascii('just some notes'), 15, policy)).toEqual(['The file type is not recognized.']);
+        expect(checkUploadPolicy(ascii('%!PS-Adobe-3.0'), 14, { ...policy, allowedMimeTypes: ['application/postscript'] }))
+            .toEqual(['Illustrator files have to be saved with "Create PDF Compatible File" turned on.']);
+    });
+});
+
+describe('hashContent', () => {
+    it('should return the SHA-256 as hex', async () => {
+        expect(await hashContent(ascii('abc'))).toBe('ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad');
+    });
+});
+
+describe('hashBlob', () => {
+    it('should match hashContent for a blob larger than one slice', async () => {
+        const bytes = new Uint8Array(9 * 1024 * 1024).map((_, index) => index % 251);
+        expect(await hashBlob(new Blob([bytes]))).toBe(await hashContent(bytes));
+    });
+});
@@ -0,0 +1,199 @@
+// webapp/lib/uploadPolicy.ts
+// What a design file has to be before it's uploaded: a size limit, an allowed type and a minimum pixel size. The
+// type is sniffed from the file's first bytes, not taken from its extension or the type the browser reports.
+// The browser checks files before an upload creates anything (hooks/useUploadRunner.ts); the server checks them
+// again once they're stored and records their content hash (lib/server/uploadValidation.ts).
+import { sha256 } from '@noble/hashes/sha2';
+
+export type UploadPolicy = {
+    maxFileSizeBytes: number;
+    allowedMimeTypes: string[];
+    minWidth: number; // Only checked for raster images; vectors, documents and videos are rasterized at any size
+    minHeight: number;
+};
+
+// Files are hashed this much at a time, so a 400 MB upload doesn't have to fit in memory at once
+const HASH_SLICE_BYTES = 8 * 1024 * 1024;
+
+// Enough of a file to sniff its type and read its pixel size (JPEG size markers can follow up to 64 KB of EXIF)
+export const UPLOAD_HEADER_BYTES = 128 * 1024;
+
+// Every type sniffFileType recognizes that the rendition pipeline can process
+export const PROCESSABLE_MIME_TYPES = [
+    'image/jpeg',
+    'image/png',
+    'image/gif',
+    'image/webp',
+    'image/svg+xml',
+    'image/vnd.adobe.photoshop',
+    'application/pdf',
+    'video/mp4',
+    'video/quicktime',
+    'video/webm',
+];
+
+const readPositiveNumber = (value: string | undefined, fallback: number): number => {
+    const parsed = Number(value);
+    return value && Number.isFinite(parsed) && parsed > 0 ? parsed : fallback;
+};
+
+// Each limit can be overridden per deployment; the variables are public because the browser enforces them too
+export const UPLOAD_POLICY: UploadPolicy = {
+    maxFileSizeBytes: readPositiveNumber(process.env.NEXT_PUBLIC_UPLOAD_MAX_FILE_SIZE_MB, 500) * 1024 * 1024,
+    allowedMimeTypes: process.env.NEXT_PUBLIC_UPLOAD_ALLOWED_MIME_TYPES?.split(',').map(type => type.trim()).filter(Boolean)
+        ?? PROCESSABLE_MIME_TYPES,
+    minWidth: readPositiveNumber(process.env.NEXT_PUBLIC_UPLOAD_MIN_WIDTH, 100),
+    minHeight: readPositiveNumber(process.env.NEXT_PUBLIC_UPLOAD_MIN_HEIGHT, 100),
+};
+
+const ascii = (bytes: Uint8Array, start: number, length: number): string =>
+    String.fromCharCode(...bytes.subarray(start, start + length));
+
+const startsWithBytes = (bytes: Uint8Array, signature: number[]): boolean =>
+    signature.every((byte, index) => bytes[index] === byte);
+
+const readUint16BE = (bytes: Uint8Array, offset: number) => (bytes[offset] << 8) | bytes[offset + 1];
+const readUint16LE = (bytes: Uint8Array, offset: number) => bytes[offset] | (bytes[offset + 1] << 8);
+const readUint24LE = (bytes: Uint8Array, offset: number) => bytes[offset] | (bytes[offset + 1] << 8) | (bytes[offset + 2] << 16);
+const readUint32BE = (bytes: Uint8Array, offset: number) =>
+    ((bytes[offset] << 24) | (bytes[offset + 1] << 16) | (bytes[offset + 2] << 8) | bytes[offset + 3]) >>> 0;
+
+// Major brands of ISO base media files (the "ftyp" box) and what they are. Anything else in that container (audio,
+// 3GP, camera raw formats) isn't recognized.
+const ISO_MEDIA_BRANDS: Record<string, string> = {
+    avif: 'image/avif',
+    avis: 'image/avif',
+    heic: 'image/heic',
+    heix: 'image/heic',
+    mif1: 'image/heif',
+    isom: 'video/mp4',
+    iso2: 'video/mp4',
+    iso4: 'video/mp4',
+    iso5: 'video/mp4',
+    iso6: 'video/mp4',
+    mp41: 'video/mp4',
+    mp42: 'video/mp4',
+    avc1: 'video/mp4',
+    dash: 'video/mp4',
+    'M4V ': 'video/mp4',
+    'qt  ': 'video/quicktime',
+};
+
+/** The MIME type a file's first bytes identify, or null when they match nothing known. */
+export function sniffFileType(header: Uint8Array): string | null {
+    if (startsWithBytes(header, [0xff, 0xd8, 0xff])) return 'image/jpeg';
+    if (startsWithBytes(header, [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])) return 'image/png';
+    if (ascii(header, 0, 6) === 'GIF87a' || ascii(header, 0, 6) === 'GIF89a') return 'image/gif';
+    if (ascii(header, 0, 4) === 'RIFF' && ascii(header, 8, 4) === 'WEBP') return 'image/webp';
+    if (ascii(header, 0, 4) === '8BPS') return 'image/vnd.adobe.photoshop';
+    // Illustrator files are PDFs, or PostScript when saved without PDF compatibility
+    if (ascii(header, 0, 5) === '%PDF-') return 'application/pdf';
+    if (ascii(header, 0, 4) === '%!PS') return 'application/postscript';
+    if (ascii(header, 4, 4) === 'ftyp') return ISO_MEDIA_BRANDS[ascii(header, 8, 4)] ?? null;
+    if (startsWithBytes(header, [0x1a, 0x45, 0xdf, 0xa3])) return 'video/webm';
+    // SVG is text: an optional XML declaration, comments or doctype before the <svg> root
+    const text = new TextDecoder().decode(header.subarray(0, 4096)).replace(/^\uFEFF/, '').trimStart();
+    if (text.startsWith('<') && /<svg[\s>]/i.test(text)) return 'image/svg+xml';
+    return null;
+}
+
+// Walks the JPEG segments up to the first start-of-frame marker, which holds the size
+function readJpegDimensions(bytes: Uint8Array): { width: number; height: number } | null {
+    let offset = 2;
+    while (offset + 9 < bytes.length) {
+        if (bytes[offset] !== 0xff) return null;
+        const marker = bytes[offset + 1];
+        if (marker === 0xff) {
+            offset++; // Fill byte
+            continue;
+        }
+        const isStartOfFrame = marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc;
+        if (isStartOfFrame) return { height: readUint16BE(bytes, offset + 5), width: readUint16BE(bytes, offset + 7) };
+        offset += 2 + readUint16BE(bytes, offset + 2);
+    }
+    return null;
+}
+
+/**
+ * Pixel size read from the header of a raster image, or null for other types and for headers that don't
+ * contain it (e.g. a JPEG whose size marker lies past the bytes read).
+ */
+export function readPixelDimensions(header: Uint8Array, mimeType: string): { width: number; height: number } | null {
+    switch (mimeType) {
+        case 'image/png':
+            return header.length >= 24 ? { width: readUint32BE(header, 16), height: readUint32BE(header, 20) } : null;
+        case 'image/gif':
+            return header.length >= 10 ? { width: readUint16LE(header, 6), height: readUint16LE(header, 8) } : null;
+        case 'image/vnd.adobe.photoshop':
+            return header.length >= 22 ? { height: readUint32BE(header, 14), width: readUint32BE(header, 18) } : null;
+        case 'image/jpeg':
+            return readJpegDimensions(header);
+        case 'image/webp': {
+            if (header.length < 30) return null;
+            const chunk = ascii(header, 12, 4);
+            if (chunk === 'VP8 ') return { width: readUint16LE(header, 26) & 0x3fff, height: readUint16LE(header, 28) & 0x3fff };
+            if (chunk === 'VP8X') return { width: readUint24LE(header, 24) + 1, height: readUint24LE(header, 27) + 1 };
+            if (chunk === 'VP8L') {
+                const bits = header[21] | (header[22] << 8) | (header[23] << 16) | (header[24] << 24);
+                return { width: (bits & 0x3fff) + 1, height: ((bits >>> 14) & 0x3fff) + 1 };
+            }
+            return null;
+        }
+        default:
+            return null;
+    }
+}
+
+const formatMegabytes = (bytes: number) => `${(bytes / (1024 * 1024)).toFixed(1).replace(/\.0$/, '')} MB`;
+
+/** Everything wrong with a file under `policy`, as sentences for the user; empty when it may be uploaded. */
+export function checkUploadPolicy(header: Uint8Array, fileSize: number, policy: UploadPolicy = UPLOAD_POLICY): string[] {
+    const problems: string[] = [];
+    if (fileSize === 0) problems.push('The file is empty.');
+    if (fileSize > policy.maxFileSizeBytes) {
+        problems.push(`The file is ${formatMegabytes(fileSize)}; the limit is ${formatMegabytes(policy.maxFileSizeBytes)}.`);
+    }
+    const mimeType = sniffFileType(header);
+    if (!mimeType) {
+        if (fileSize > 0) problems.push('The file type is not recognized.');
+        return problems;
+    }
+    // Nothing can rasterize PostScript, whatever the deployment allows
+    if (mimeType === 'application/postscript') {
+        problems.push('Illustrator files have to be saved with "Create PDF Compatible File" turned on.');
+        return problems;
+    }
+    if (!policy.allowedMimeTypes.includes(mimeType)) {
+        problems.push(`${mimeType} files are not allowed.`);
+        return problems;
+    }
+    const dimensions = readPixelDimensions(header, mimeType);
+    if (dimensions && (dimensions.width < policy.minWidth || dimensions.height < policy.minHeight)) {
+        problems.push(`The image is ${dimensions.width}×${dimensions.height} px; at least ${policy.minWidth}×${policy.minHeight} px is required.`);
+    }
+    return problems;
+}
+
+const toHex = (digest: Uint8Array): string => Array.from(digest, byte => byte.toString(16).padStart(2, '0')).join('');
+
+/** SHA-256 of a file's bytes as lowercase hex. Computed the same way in the browser and on the server. */
+export async function hashContent(content: ArrayBuffer | Uint8Array<ArrayBuffer>): Promise<string> {
+    return toHex(new Uint8Array(await globalThis.crypto.subtle.digest('SHA-256', content)));
+}
+
+/** hashContent of a Blob, read a slice at a time. */
+export async function hashBlob(blob: Blob): Promise<string> {
+    const hash = sha256.create();
+    for (let start = 0; start < blob.size; start += HASH_SLICE_BYTES) {
+        hash.update(new Uint8Array(await blob.slice(start, start + HASH_SLICE_BYTES).arrayBuffer()));
+    }
+    return toHex(hash.digest());
+}
+
+/** Checks a picked file against the policy and hashes it. Reads the whole file, so call it once per upload. */
+export async function inspectFile(file: File, policy: UploadPolicy = UPLOAD_POLICY): Promise<{ problems: string[]; contentHash: string | null }> {
+    const header = new Uint8Array(await file.slice(0, UPLOAD_HEADER_BYTES).arrayBuffer());
+    const problems = checkUploadPolicy(header, file.size, policy);
+    if (problems.length > 0) return { problems, contentHash: null };
+    return { problems, contentHash: await hashBlob(file) };
+}
@@ -2,6 +2,9 @@ import type { NextConfig } from "next";
 
 const nextConfig: NextConfig = {
   /* config options here */
+  // Loaded from node_modules at runtime: pdfjs starts a worker from its own files, the canvas is a native addon
+  // and the ffmpeg installer resolves its platform binary by path
+  serverExternalPackages: ['pdfjs-dist', '@napi-rs/canvas', '@ffmpeg-installer/ffmpeg'],
   images: {
     remotePatterns: [
       {
@@ -0,0 +1,67 @@
+import { create } from 'zustand';
+import { nanoid } from 'nanoid';
+import { UploadingFileInfo, UploadTarget } from '@/types/models';
+
+// Files sent at the same time; the rest wait as 'pending' (see hooks/useUploadRunner.ts)
+export const MAX_CONCURRENT_UPLOADS = 3;
+
+// The app-wide upload queue. It lives outside any page so uploads keep going while the user navigates;
+// the runner mounted with the upload tray picks up pending items and moves them through their steps.
+interface UploadState {
+  uploads: UploadingFileInfo[];
+  enqueueUploads: (files: File[], target: UploadTarget) => void;
+  updateUpload: (id: string, changes: Partial<UploadingFileInfo>) => void;
+  pauseUpload: (id: string) => void;
+  resumeUpload: (id: string) => void;
+  cancelUpload: (id: string) => void;
+  retryUpload: (id: string) => void;
+  confirmDuplicateUpload: (id: string) => void;
+  removeUpload: (id: string) => void;
+  clearFinishedUploads: () => void;
+}
+
+const isFinished = (upload: UploadingFileInfo) => upload.status === 'success' || upload.status === 'cancelled';
+
+const revokePreview = (upload: UploadingFileInfo) => {
+  if (upload.previewUrl) URL.revokeObjectURL(upload.previewUrl);
+};
+
+export const useUploadStore = create<UploadState>((set, get) => ({
+  uploads: [],
+  enqueueUploads: (files, target) => set((state) => ({
+    uploads: [
+      ...state.uploads,
+      ...files.map((file): UploadingFileInfo => ({
+        id: nanoid(),
+        file,
+        previewUrl: file.type.startsWith('image/') ? URL.createObjectURL(file) : '',
+        target,
+        status: 'pending',
+        progress: 0,
+      })),
+    ],
+  })),
+  updateUpload: (id, changes) => set((state) => ({
+    uploads: state.uploads.map((upload) => (upload.id === id ? { ...upload, ...changes } : upload)),
+  })),
+  pauseUpload: (id) => get().uploads.find((upload) => upload.id === id)?.upload?.pause(),
+  resumeUpload: (id) => get().uploads.find((upload) => upload.id === id)?.upload?.resume(),
+  // A running upload reports the cancellation itself; one that hasn't started is simply marked
+  cancelUpload: (id) => {
+    const upload = get().uploads.find((item) => item.id === id);
+    if (upload?.upload) upload.upload.cancel();
+    else if (upload?.status === 'pending') get().updateUpload(id, { status: 'cancelled' });
+  },
+  retryUpload: (id) => get().updateUpload(id, { status: 'pending', error: undefined, progress: 0, upload: undefined }),
+  // Queues a file held back as a duplicate of an existing variation again, this time without the duplicate check
+  confirmDuplicateUpload: (id) => get().updateUpload(id, { status: 'pending', duplicateConfirmed: true }),
+  removeUpload: (id) => set((state) => {
+    const upload = state.uploads.find((item) => item.id === id);
+    if (upload) revokePreview(upload);
+    return { uploads: state.uploads.filter((item) => item.id !== id) };
+  }),
+  clearFinishedUploads: () => set((state) => {
+    state.uploads.filter(isFinished).forEach(revokePreview);
+    return { uploads: state.uploads.filter((upload) => !isFinished(upload)) };
+  }),
+}));
@@ -1,4 +1,6 @@
 // webapp/types/models.ts
+import type { ResumableUpload } from '@/lib/resumableUpload';
+import type { ImagePreparation } from '@/lib/imagePreparation';
 
 // --- Project Types ---
 export enum ProjectStatus {
@@ -17,6 +19,8 @@ export type Project = {
     is_archived: boolean;
     client_id: string | null;
     updated_at: string;
+    strip_upload_metadata?: boolean; // Photos lose their EXIF/location metadata in the browser before upload
+    max_upload_dimension?: number | null; // Photos are downscaled to this longest side before upload; null keeps their size
     clients?: { id: string; name: string } | null; // Optional client relation
 };
 
@@ -99,6 +103,15 @@ export type Variation = {
     thumbnail_path?: string | null; // Added optional thumbnail path
     preview_path?: string | null;   // Added optional preview path
     status: VariationFeedbackStatus;
+    processing_status?: ProcessingJobStatus | null; // State of the rendition job for file_path; null until requested
+    page_count?: number | null; // Pages rendered for file_path (PDFs can have several)
+    placeholder?: string | null; // Tiny base64 WebP data URL shown while a rendition loads
+    dominant_color?: string | null; // #rrggbb
+    palette?: PaletteColor[] | null; // Main colors of the first page, most coverage first
+    content_hash?: string | null; // SHA-256 of file_path's bytes, recorded by processing; spots re-uploads of the same file
+    original_width?: number | null; // Size of the picked image when the project's upload settings prepared it (lib/imagePreparation.ts)
+    original_height?: number | null;
+    was_resized?: boolean; // Downscaled to the project's max_upload_dimension before upload
     created_at: string;
     updated_at?: string; // Optional
 };
@@ -126,6 +139,8 @@ export type Attachment = {
     updated_at: string; // timestamptz
     // Maybe add a thumbnail_url later if generated
     thumbnail_url?: string | null;
+    placeholder?: string | null; // Set once the attachment is processed, like on Variation
+    dominant_color?: string | null;
 };
 
 // --- Comment Type ---
@@ -137,6 +152,9 @@ export type Comment = {
     parent_comment_id: string | null; // uuid, for threading
     x_coordinate: number | null; // real
     y_coordinate: number | null; // real
+    annotation_shape_id?: string | null; // text, id of a shape in an annotation layer
+    swatch_color?: string | null; // #rrggbb palette color this feedback is about (swatch comments)
+    suggested_color?: string | null; // #rrggbb replacement the reviewer suggests for swatch_color
     created_at: string; // timestamptz
     updated_at: string; // timestamptz
     // Optional: Fetch profile details using the user_id
@@ -145,20 +163,148 @@ export type Comment = {
     attachments?: Attachment[]; // Add optional attachments array
 };
 
+// --- Annotation Types ---
+// Fabric JSON for one reviewer's drawing layer on a variation
+export type AnnotationData = {
+    version?: string; // fabric version that produced the objects
+    objects: Record<string, unknown>[];
+};
+
+export type Annotation = {
+    id: string; // uuid
+    variation_id: string; // uuid
+    user_id: string; // uuid from auth.users
+    data: AnnotationData; // jsonb
+    created_at: string; // timestamptz
+    updated_at: string; // timestamptz
+    profiles?: { display_name?: string; avatar_url?: string; } | null;
+};
+
+// --- File Revision Type ---
+// One row per file a variation has pointed at (public.variation_file_revisions)
+export type VariationFileRevision = {
+    id: string; // uuid
+    variation_id: string; // uuid
+    file_path: string; // path in the design-variations bucket
+    file_name: string;
+    uploaded_by: string | null; // uuid from profiles; null for files uploaded before history was kept
+    created_at: string; // timestamptz
+    profiles?: { display_name?: string; } | null;
+};
+
+// --- Trash Types ---
+export type TrashItemType = 'project' | 'design' | 'variation' | 'comment';
+
+// A soft-deleted item (public.trash_items); its rows are restorable until purge_after
+export type TrashItem = {
+    id: string; // uuid
+    item_type: TrashItemType;
+    item_id: string; // uuid of the trashed project/design/variation/comment
+    label: string; // name at the time it was deleted
+    project_id: string | null;
+    deleted_by: string | null; // uuid from profiles
+    deleted_at: string; // timestamptz
+    purge_after: string; // timestamptz
+    profiles?: { display_name?: string; } | null;
+};
+
+// --- Image Processing Types ---
+export type ProcessingJobStatus = 'queued' | 'processing' | 'done' | 'failed';
+
+// Matches the structure of the 'image_processing_jobs' table
+export type ImageProcessingJob = {
+    id: string;
+    original_path: string;
+    status: ProcessingJobStatus;
+    attempts: number;
+    max_attempts: number;
+    last_error: string | null;
+    page_count: number | null; // Set when processing finishes; more than 1 for multi-page documents
+    placeholder: string | null; // Set when processing finishes, from the first page
+    dominant_color: string | null;
+    palette: PaletteColor[] | null;
+    content_hash: string | null; // SHA-256 of the original, hex
+    next_attempt_at: string; // timestamptz
+    started_at: string | null;
+    completed_at: string | null;
+    created_at: string;
+    updated_at: string;
+};
+
+// --- Color Palette Types ---
+export type PaletteColor = {
+    hex: string; // #rrggbb
+    percentage: number; // Share of the (opaque) pixels, 0-100
+};
+
+// What a reviewer picked in the swatch strip: a palette color and an optional replacement, both #rrggbb
+export type SwatchFeedback = { color: string; suggestedColor?: string | null };
+
+// --- Rendition Manifest Types ---
+export type RenditionFormat = 'avif' | 'webp';
+
+export type Rendition = {
+    format: RenditionFormat;
+    width: number; // Actual size; smaller than the nominal width when the source is smaller (renditions are never upscaled)
+    height: number;
+    path: string; // In the processed bucket
+};
+
+export type RenditionManifestPage = {
+    width: number; // Intrinsic size of the page as rasterized
+    height: number;
+    renditions: Rendition[];
+};
+
+// Written as JSON next to the renditions once every one of them is stored (see lib/server/processingJobs.ts)
+export type RenditionManifest = {
+    original_path: string;
+    pages: RenditionManifestPage[];
+    animated_preview_path: string | null; // Set for GIF and WebP originals
+    placeholder: string | null; // Tiny base64 WebP data URL of the first page, shown while a rendition loads
+    dominant_color: string | null; // #rrggbb
+    palette: PaletteColor[];
+    content_hash: string; // SHA-256 of the original, hex
+    generated_at: string;
+};
+
 // --- Upload Types ---
-// Type for file info in upload queues
+// What an upload creates once its file is stored (see store/uploadStore.ts)
+export type UploadTarget =
+  | { kind: 'design'; projectId: string } // A new design (V1, variation A) named after the file
+  // One file of a batch of new versions, committed together: of designId, or of a new design called designName.
+  // The batch's files are split into versions by versionIndex (0 = the first new version, the default).
+  | { kind: 'version'; projectId: string; designId?: string; designName?: string; batchId: string; versionIndex?: number }
+  | { kind: 'variation'; projectId: string; designId: string; versionId: string; notes?: string | null } // A new variation of an existing version
+  | { kind: 'replace'; projectId: string; designId: string; versionId: string; variationId: string }; // New file for an existing variation
+
+// Ids and storage path reserved for an upload; kept across retries
+export type UploadDestination = {
+  designId: string;
+  versionId: string;
+  variationId: string;
+  filePath: string;
+};
+
+// An item of the app-wide upload queue
 export interface UploadingFileInfo {
   id: string;
   file: File;
-  previewUrl: string;
-  status: 'pending' | 'uploading' | 'success' | 'error' | 'cancelled' | 'processing';
+  previewUrl: string; // Empty for files the browser can't preview
+  target: UploadTarget;
+  status: 'pending' | 'checking' | 'duplicate' | 'uploading' | 'paused' | 'success' | 'error' | 'cancelled' | 'processing';
   progress: number;
   error?: string;
-  xhr?: XMLHttpRequest;
-  uploadStarted?: boolean; // Used on Project Page Upload
-  // Add other relevant fields, e.g., for UploadThing:
-  uploadKey?: string; // From UploadThing
-  uploadUrl?: string; // From UploadThing
+  checked?: boolean; // Passed the upload policy (lib/uploadPolicy.ts), so a retry doesn't read the file again
+  contentHash?: string;
+  duplicateOf?: string; // Label of the variation of the same design with identical content, e.g. 'V2-B'
+  duplicateConfirmed?: boolean; // The user chose to upload it anyway
+  preparedFile?: File; // What's sent instead of file after the project's upload settings were applied
+  preparation?: ImagePreparation | null; // null when the settings didn't apply to the file
+  upload?: ResumableUpload; // Pause/resume/cancel handle while the file is being sent
+  destination?: UploadDestination;
+  uploaded?: boolean; // The file is in storage, so a retry skips sending it again
+  linked?: boolean; // The variation points at the file, so a retry only re-requests processing
 }
 
 // --- Combined Types for Data Fetching ---